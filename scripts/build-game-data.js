@@ -48,6 +48,12 @@ const parseNumber = (value) => {
     return Number.isFinite(numeric) ? numeric : null;
 };
 
+// 0 marks a recipe without a known skill range
+const parseSkillRank = (value) => {
+    const rank = parseNumber(value);
+    return rank !== null && rank > 0 ? rank : null;
+};
+
 const parseString = (value) => {
     if (value === null || value === undefined) return null;
     const trimmed = value.trim();
@@ -174,8 +180,10 @@ for (const row of skillLineRows.data) {
 
     const minSkill = parseNumber(row.MinSkillLineRank);
     const maxSkill = parseNumber(row.MaxSkillLineRank);
-    const trivialHigh = parseNumber(row.TrivialSkillLineRankHigh);
-    const trivialLow = parseNumber(row.TrivialSkillLineRankLow);
+    // the TrivialSkillLineRank* columns of this export only hold flags; the grey
+    // and yellow skills are in CharacterPoints_1 and CharacterPoints_2, 0 when unknown
+    const trivialHigh = parseSkillRank(row.CharacterPoints_1);
+    const trivialLow = parseSkillRank(row.CharacterPoints_2);
 
     if (!professionSpellIds.has(professionId)) {
         professionSpellIds.set(professionId, new Set());
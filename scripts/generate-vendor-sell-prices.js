@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+
+/**
+ * Builds public/db/vendor_sell_prices.json (item id -> copper a vendor pays per unit)
+ * from the item dump shipped in the wow-classic-items package.
+ * Only items referenced by game-data.json are kept so the file stays small.
+ *
+ * Usage: node scripts/generate-vendor-sell-prices.js
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const PUBLIC_DB_DIR = path.resolve(__dirname, '..', 'public', 'db');
+const GAME_DATA_FILE = path.join(PUBLIC_DB_DIR, 'game-data.json');
+const OUTPUT_FILE = path.join(PUBLIC_DB_DIR, 'vendor_sell_prices.json');
+
+console.log('Generating vendor sell prices...');
+
+if (!fs.existsSync(GAME_DATA_FILE)) {
+    console.error(`Error: ${GAME_DATA_FILE} not found. Run "npm run build-game-data" first.`);
+    process.exit(1);
+}
+
+const gameData = JSON.parse(fs.readFileSync(GAME_DATA_FILE, 'utf8'));
+const knownItemIds = new Set();
+
+gameData.items.forEach(item => knownItemIds.add(item.id));
+gameData.spells.forEach(spell => {
+    if (spell.resultItemId) {
+        knownItemIds.add(spell.resultItemId);
+    }
+    spell.reagents.forEach(reagent => knownItemIds.add(reagent.itemId));
+});
+
+const sourceItems = require('wow-classic-items/data/json/data.json');
+const vendorSellPrices = {};
+let count = 0;
+
+sourceItems
+    .filter(item => knownItemIds.has(item.itemId) && item.sellPrice > 0)
+    .sort((a, b) => a.itemId - b.itemId)
+    .forEach(item => {
+        vendorSellPrices[item.itemId] = item.sellPrice;
+        count++;
+    });
+
+fs.writeFileSync(OUTPUT_FILE, JSON.stringify(vendorSellPrices, null, 0), 'utf8');
+
+console.log(`✅ Generated ${OUTPUT_FILE}`);
+console.log(`   Items referenced by game data: ${knownItemIds.size}`);
+console.log(`   Items with vendor sell prices: ${count}`);
@@ -0,0 +1,255 @@
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+
+const ROOT_DIR = path.resolve(__dirname, '..');
+const DB_DIR = path.join(ROOT_DIR, 'public', 'db');
+const DEFAULT_DATA_DIR = process.env.DATA_DIR || path.join(ROOT_DIR, 'server', 'data');
+const FORMATS = ['table', 'csv', 'json'];
+const SORT_OPTIONS = ['profit', 'profitPercent', 'name', 'cost', 'confidence'];
+const COPPER_PER_GOLD = 10000;
+
+const USAGE = `Usage: npm run profit-report -- <profession> [Auctionator.lua] [options]
+
+Prints the recipes of a profession ranked by profit, computed like the web app.
+Without an Auctionator.lua (or .lua.gz) the stored server data is used.
+
+Options:
+  --realm <name>         realm of the price dataset (default: largest dataset)
+  --faction <name>       Alliance, Horde or Neutral
+  --min-roi <percent>    only recipes with at least this ROI
+  --min-profit <gold>    only recipes with at least this profit
+  --max-cost <gold>      only recipes costing at most this much
+  --sort <order>         ${SORT_OPTIONS.join(', ')} (default: profit)
+  --limit <n>            print at most n recipes
+  --format <format>      ${FORMATS.join(', ')} (default: table)
+  --user <name>          use this uploader's own auction fee settings
+  --data-dir <path>      server data directory (default: ${path.relative(ROOT_DIR, DEFAULT_DATA_DIR)})`;
+
+const fail = (message) => {
+    console.error(`Error: ${message}\n\n${USAGE}`);
+    process.exit(1);
+};
+
+const parseArgs = (argv) => {
+    const options = { format: 'table', sort: 'profit', dataDir: DEFAULT_DATA_DIR };
+    const positional = [];
+    const valueFlags = {
+        '--realm': 'realm',
+        '--faction': 'faction',
+        '--min-roi': 'minROI',
+        '--min-profit': 'minProfit',
+        '--max-cost': 'maxCost',
+        '--sort': 'sort',
+        '--limit': 'limit',
+        '--format': 'format',
+        '--user': 'user',
+        '--data-dir': 'dataDir'
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--help' || arg === '-h') {
+            console.log(USAGE);
+            process.exit(0);
+        }
+        if (valueFlags[arg]) {
+            if (argv[i + 1] === undefined) {
+                fail(`${arg} needs a value`);
+            }
+            options[valueFlags[arg]] = argv[++i];
+        } else if (arg.startsWith('--')) {
+            fail(`unknown option ${arg}`);
+        } else {
+            positional.push(arg);
+        }
+    }
+
+    if (positional.length === 0 || positional.length > 2) {
+        fail('expected a profession and an optional Auctionator.lua path');
+    }
+    [options.profession, options.input] = positional;
+
+    if (!FORMATS.includes(options.format)) {
+        fail(`--format must be one of ${FORMATS.join(', ')}`);
+    }
+    if (!SORT_OPTIONS.includes(options.sort)) {
+        fail(`--sort must be one of ${SORT_OPTIONS.join(', ')}`);
+    }
+
+    for (const key of ['minROI', 'minProfit', 'maxCost', 'limit']) {
+        if (options[key] !== undefined) {
+            const value = Number(options[key]);
+            if (!Number.isFinite(value)) {
+                fail(`${key} must be a number`);
+            }
+            options[key] = value;
+        }
+    }
+    // money options are given in gold, the calculator works in copper
+    for (const key of ['minProfit', 'maxCost']) {
+        if (options[key] !== undefined) {
+            options[key] = Math.round(options[key] * COPPER_PER_GOLD);
+        }
+    }
+
+    return options;
+};
+
+// Compiles the TypeScript services the same way the server does.
+const loadServices = () => {
+    require('ts-node').register({
+        transpileOnly: true,
+        project: path.join(ROOT_DIR, 'tsconfig.json'),
+        compilerOptions: { module: 'commonjs', target: 'es2019' }
+    });
+
+    const { setDbFileReader } = require('../src/services/DbFiles');
+    setDbFileReader((fileName) => fs.promises.readFile(path.join(DB_DIR, fileName), 'utf8'));
+
+    return {
+        ...require('../src/services/AuctionatorDataService'),
+        ...require('../src/services/CalculationSettings'),
+        ...require('../src/services/HistoryRetention'),
+        ...require('../src/services/ProfessionProfits'),
+        ...require('../src/services/ProfitCalculator'),
+        ...require('../src/types')
+    };
+};
+
+const readJsonIfExists = (filePath) =>
+    fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : null;
+
+const findProfessionByArg = (services, value) => {
+    const id = Number(value);
+    if (Number.isInteger(id)) {
+        return services.findProfession(id);
+    }
+    const name = value.toLowerCase();
+    return services.PROFESSIONS.find((profession) => profession.name.toLowerCase() === name);
+};
+
+const loadPriceData = async (services, options, retention) => {
+    if (!options.input) {
+        const stored = readJsonIfExists(path.join(options.dataDir, 'auctionator-data.json'));
+        return services.AuctionatorDataService.fromStoragePayload(stored);
+    }
+
+    if (!fs.existsSync(options.input)) {
+        fail(`unable to find ${options.input}`);
+    }
+    const buffer = fs.readFileSync(options.input);
+    const content = options.input.endsWith('.gz') ? zlib.gunzipSync(buffer) : buffer;
+    return services.AuctionatorDataService.parse(
+        content.toString('utf8'),
+        path.basename(options.input),
+        retention
+    );
+};
+
+const formatMoney = (copper) => {
+    const sign = copper < 0 ? '-' : '';
+    const amount = Math.abs(Math.round(copper));
+    const gold = Math.floor(amount / COPPER_PER_GOLD);
+    const silver = Math.floor((amount % COPPER_PER_GOLD) / 100);
+    const parts = [];
+    if (gold) parts.push(`${gold}g`);
+    if (gold || silver) parts.push(`${silver}s`);
+    parts.push(`${amount % 100}c`);
+    return sign + parts.join(' ');
+};
+
+const toRow = (profit) => ({
+    recipeId: profit.recipe.id,
+    recipe: profit.recipe.name,
+    skill: profit.recipe.skillLevel,
+    cost: profit.totalCost,
+    netSell: profit.netSellPrice,
+    profit: profit.profit,
+    roi: Math.round(profit.roi * 10) / 10,
+    missingPrices: profit.hasMissingPrices
+});
+
+const printTable = (profits) => {
+    const header = ['#', 'Recipe', 'Skill', 'Cost', 'Net sell', 'Profit', 'ROI'];
+    const rows = profits.map((profit, index) => {
+        const row = toRow(profit);
+        return [
+            String(index + 1),
+            row.recipe,
+            String(row.skill),
+            formatMoney(row.cost),
+            formatMoney(row.netSell),
+            row.missingPrices ? 'n/a' : formatMoney(row.profit),
+            row.missingPrices ? 'n/a' : `${row.roi.toFixed(1)}%`
+        ];
+    });
+    // text columns are left aligned, numbers right aligned
+    const leftAligned = new Set([1]);
+    const widths = header.map((title, column) =>
+        Math.max(title.length, ...rows.map((row) => row[column].length))
+    );
+    const formatLine = (cells) =>
+        cells
+            .map((cell, column) =>
+                leftAligned.has(column) ? cell.padEnd(widths[column]) : cell.padStart(widths[column])
+            )
+            .join('  ');
+
+    console.log(formatLine(header));
+    console.log(widths.map((width) => '-'.repeat(width)).join('  '));
+    rows.forEach((row) => console.log(formatLine(row)));
+};
+
+const main = async () => {
+    const options = parseArgs(process.argv.slice(2));
+    const output = console.log;
+    // service diagnostics go to stderr so piped CSV/JSON stays clean
+    console.log = console.error;
+    console.info = console.error;
+
+    const services = loadServices();
+    const profession = findProfessionByArg(services, options.profession);
+    if (!profession) {
+        fail(`unknown profession ${options.profession}`);
+    }
+
+    const preferences = readJsonIfExists(path.join(options.dataDir, 'user-preferences.json')) || {};
+    const settings = services.resolveCalculationSettings(preferences, options.user);
+    const retention = services.normalizeRetentionPolicy(preferences[services.HISTORY_RETENTION_KEY]);
+
+    const data = await loadPriceData(services, options, retention);
+    if (!data) {
+        fail('no stored Auctionator data found; pass an Auctionator.lua path');
+    }
+    const realmKey = services.AuctionatorDataService.findRealmKey(data, options.realm, options.faction);
+    if (!realmKey) {
+        fail('no price data for the requested realm and faction');
+    }
+
+    let profits = await services.ProfessionProfits.calculate(profession, data.realms.get(realmKey), settings);
+    const criteria = { minProfit: options.minProfit, minROI: options.minROI, maxCost: options.maxCost };
+    if (Object.values(criteria).some((value) => value !== undefined)) {
+        profits = services.ProfitCalculator.filterByProfitability(profits, criteria);
+    }
+    profits = services.ProfitCalculator.sortProfits(profits, options.sort);
+    if (options.limit !== undefined) {
+        profits = profits.slice(0, Math.max(options.limit, 0));
+    }
+
+    console.log = output;
+    if (options.format === 'json') {
+        console.log(JSON.stringify({ profession: profession.name, realmKey, results: profits }, null, 2));
+    } else if (options.format === 'csv') {
+        const Papa = require('papaparse');
+        console.log(Papa.unparse(profits.map(toRow)));
+    } else {
+        console.error(`${profession.name} on ${realmKey}: ${profits.length} recipes\n`);
+        printTable(profits);
+    }
+};
+
+main().catch((error) => {
+    console.error('Failed to build the profit report', error);
+    process.exit(1);
+});
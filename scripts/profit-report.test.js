@@ -0,0 +1,146 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const zlib = require('zlib');
+
+const SCRIPT = path.join(__dirname, 'profit-report.js');
+const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'tradefury-profit-report-'));
+
+const LIGHT_LEATHER = 2318;
+const COARSE_THREAD = 2320;
+const HANDSTITCHED_BOOTS = 2302;
+
+const scan = (price) => [{ price, importedAt: '2025-01-10T12:00:00.000Z', source: 'Auctionator.lua' }];
+
+const AUCTIONATOR_FILE = `AUCTIONATOR_PRICE_DATABASE = {
+	["__dbversion"] = 2,
+	["Icecrown_Horde"] = {
+		["Light Leather"] = 50,
+		["Coarse Thread"] = 10,
+		["Handstitched Leather Boots"] = 2000,
+	},
+}
+AUCTIONATOR_LAST_SCAN_TIME = 1760344016
+`;
+
+const report = (...args) => {
+    const result = spawnSync(process.execPath, [SCRIPT, ...args, '--data-dir', DATA_DIR], {
+        encoding: 'utf8',
+        timeout: 120000
+    });
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+};
+
+const parseCsv = (stdout) => {
+    const [header, ...lines] = stdout.trim().split(/\r?\n/);
+    const columns = header.split(',');
+    return lines.map((line) => Object.fromEntries(line.split(',').map((value, i) => [columns[i], value])));
+};
+
+test.before(() => {
+    fs.writeFileSync(
+        path.join(DATA_DIR, 'auctionator-data.json'),
+        JSON.stringify({
+            version: 3,
+            source: 'Auctionator.lua',
+            importedAt: '2025-01-10T12:00:00.000Z',
+            realms: {
+                Frostmourne_Alliance: {
+                    [LIGHT_LEATHER]: scan(100),
+                    [COARSE_THREAD]: scan(10),
+                    [HANDSTITCHED_BOOTS]: scan(1000)
+                },
+                Frostmourne_Horde: { [LIGHT_LEATHER]: scan(80) }
+            }
+        })
+    );
+    fs.writeFileSync(
+        path.join(DATA_DIR, 'user-preferences.json'),
+        JSON.stringify({
+            'auctionFees:Alice': { auctionHouse: 'neutral', listingDuration: 12, expectedRelists: 0 }
+        })
+    );
+    fs.writeFileSync(path.join(DATA_DIR, 'Auctionator.lua.gz'), zlib.gzipSync(AUCTIONATOR_FILE));
+});
+
+test.after(() => {
+    fs.rmSync(DATA_DIR, { recursive: true, force: true });
+});
+
+test('reports profits from the stored data as CSV', () => {
+    const { status, stdout } = report(
+        'Leatherworking',
+        '--faction',
+        'Alliance',
+        '--min-profit',
+        '0.05',
+        '--format',
+        'csv'
+    );
+    assert.equal(status, 0);
+
+    // money filters are given in gold: 0.05g is 500 copper
+    const rows = parseCsv(stdout);
+    assert.deepEqual(
+        rows.map(({ recipe, cost, netSell, profit }) => [recipe, cost, netSell, profit]),
+        [['Handstitched Leather Boots', '210', '950', '740']]
+    );
+});
+
+test('applies an uploader\'s own fee settings', () => {
+    const args = ['165', '--faction', 'Alliance', '--min-profit', '0.05', '--format', 'csv'];
+    const shared = parseCsv(report(...args).stdout);
+    const alice = parseCsv(report(...args, '--user', 'Alice').stdout);
+
+    assert.equal(shared[0].netSell, '950');
+    // the neutral auction house keeps 15%
+    assert.equal(alice[0].netSell, '850');
+});
+
+test('reads prices from an Auctionator file instead of the stored data', () => {
+    const { status, stdout } = report(
+        'leatherworking',
+        path.join(DATA_DIR, 'Auctionator.lua.gz'),
+        '--sort',
+        'profit',
+        '--limit',
+        '1',
+        '--format',
+        'json'
+    );
+    assert.equal(status, 0);
+
+    const { profession, realmKey, results } = JSON.parse(stdout);
+    assert.equal(profession, 'Leatherworking');
+    assert.equal(realmKey, 'Icecrown_Horde');
+    assert.equal(results.length, 1);
+    assert.equal(results[0].recipe.resultItem.id, HANDSTITCHED_BOOTS);
+    assert.equal(results[0].totalCost, 2 * 50 + 10);
+});
+
+test('prints a table with a header line', () => {
+    const { status, stdout, stderr } = report('165', '--faction', 'Alliance', '--limit', '2');
+    assert.equal(status, 0);
+    assert.match(stderr, /Leatherworking on Frostmourne_Alliance: 2 recipes/);
+
+    const lines = stdout.trim().split('\n');
+    assert.match(lines[0], /^#\s+Recipe\s+Skill\s+Cost\s+Net sell\s+Profit\s+ROI$/);
+    assert.equal(lines.length, 4);
+});
+
+test('fails with a message for bad arguments and missing data', () => {
+    const unknown = report('Basketweaving');
+    assert.equal(unknown.status, 1);
+    assert.match(unknown.stderr, /unknown profession Basketweaving/);
+
+    const badFormat = report('165', '--format', 'xml');
+    assert.equal(badFormat.status, 1);
+    assert.match(badFormat.stderr, /--format must be one of table, csv, json/);
+
+    const noRealm = report('165', '--realm', 'Icecrown');
+    assert.equal(noRealm.status, 1);
+    assert.match(noRealm.stderr, /no price data for the requested realm and faction/);
+});
@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+
+/**
+ * Refreshes the yellow and grey skill of every recipe in public/db/game-data.json
+ * from SkillLineAbility.csv, leaving the rest of the file as it is.
+ * A full "npm run build-game-data" also needs craftingdb.csv and
+ * ItemDisplayInfo.csv, which are not part of the repository.
+ *
+ * Usage: node scripts/update-skill-ranges.js
+ */
+
+const fs = require('fs');
+const path = require('path');
+const Papa = require('papaparse');
+
+const PUBLIC_DB_DIR = path.resolve(__dirname, '..', 'public', 'db');
+const GAME_DATA_FILE = path.join(PUBLIC_DB_DIR, 'game-data.json');
+const SKILL_LINE_FILE = path.join(PUBLIC_DB_DIR, 'SkillLineAbility.csv');
+
+// Same rules as build-game-data.js: 0 marks a recipe without a known skill range
+const parseSkillRank = (value) => {
+    if (value === null || value === undefined || value === '') return null;
+    const rank = Number(value);
+    return Number.isFinite(rank) && rank > 0 ? rank : null;
+};
+
+console.log('Updating recipe skill ranges...');
+
+for (const file of [GAME_DATA_FILE, SKILL_LINE_FILE]) {
+    if (!fs.existsSync(file)) {
+        console.error(`Error: ${file} not found. Run "npm run sync-db" first.`);
+        process.exit(1);
+    }
+}
+
+const gameData = JSON.parse(fs.readFileSync(GAME_DATA_FILE, 'utf8'));
+const skillLineRows = Papa.parse(fs.readFileSync(SKILL_LINE_FILE, 'utf8'), {
+    header: true,
+    skipEmptyLines: true
+}).data;
+
+// the TrivialSkillLineRank* columns of this export only hold flags; the grey
+// and yellow skills are in CharacterPoints_1 and CharacterPoints_2
+const ranges = new Map();
+skillLineRows.forEach(row => {
+    const key = `${row.SkillLine}:${row.Spell}`;
+    const trivialHigh = parseSkillRank(row.CharacterPoints_1);
+    const trivialLow = parseSkillRank(row.CharacterPoints_2);
+    const range = ranges.get(key) ?? { trivialSkillLow: null, trivialSkillHigh: null };
+
+    if (trivialLow !== null) {
+        range.trivialSkillLow = range.trivialSkillLow === null ? trivialLow : Math.min(range.trivialSkillLow, trivialLow);
+    }
+    if (trivialHigh !== null) {
+        range.trivialSkillHigh = range.trivialSkillHigh === null ? trivialHigh : Math.max(range.trivialSkillHigh, trivialHigh);
+    }
+    ranges.set(key, range);
+});
+
+let withRange = 0;
+gameData.spells.forEach(spell => {
+    const range = ranges.get(`${spell.professionId}:${spell.spellId}`);
+    spell.trivialSkillLow = range?.trivialSkillLow ?? null;
+    spell.trivialSkillHigh = range?.trivialSkillHigh ?? null;
+    if (spell.trivialSkillLow !== null && spell.trivialSkillHigh !== null) {
+        withRange++;
+    }
+});
+
+fs.writeFileSync(GAME_DATA_FILE, JSON.stringify(gameData, null, 2), 'utf8');
+
+console.log(`✅ Updated ${GAME_DATA_FILE}`);
+console.log(`   Recipes: ${gameData.spells.length}`);
+console.log(`   Recipes with a skill range: ${withRange}`);
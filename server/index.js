@@ -2,15 +2,36 @@ const express = require('express');
 const cors = require('cors');
 const path = require('path');
 const fs = require('fs/promises');
+const crypto = require('crypto');
+const zlib = require('zlib');
+const { promisify } = require('util');
+
+const gunzip = promisify(zlib.gunzip);
 
 const PORT = Number(process.env.PORT) || 3001;
 const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, 'data');
+const DB_DIR = path.join(__dirname, '..', 'public', 'db');
+const SNAPSHOT_DIR = path.join(DATA_DIR, 'snapshots');
+const SNAPSHOT_INDEX_PATH = path.join(SNAPSHOT_DIR, 'index.json');
+const SNAPSHOT_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+const DEFAULT_DIFF_LIMIT = 500;
+const MAX_DIFF_LIMIT = 5000;
+// only the newest snapshots are kept; older ones are deleted as new ones arrive
+const SNAPSHOT_RETENTION = Number(process.env.SNAPSHOT_RETENTION) || 50;
+const LEGACY_REALM_KEY = 'Unknown';
+const GZIP_MAGIC = [0x1f, 0x8b];
+const DEFAULT_UPLOAD_SOURCE = 'Auctionator.lua';
+const MAX_BULK_ITEM_IDS = 20000;
+const PROFIT_SORT_OPTIONS = ['profit', 'profitPercent', 'name', 'cost', 'confidence'];
+const DEFAULT_PROFIT_PAGE_SIZE = 50;
+const MAX_PROFIT_PAGE_SIZE = 500;
 
 const STORAGE_KEYS = {
   'auctionator-data': 'auctionator-data.json',
   'item-name-cache': 'item-name-cache.json',
   'server-info': 'server-info.json',
-  'user-preferences': 'user-preferences.json'
+  'user-preferences': 'user-preferences.json',
+  'price-alerts': 'price-alerts.json'
 };
 
 const ensureDataDir = async () => {
@@ -26,16 +47,27 @@ const getStoragePath = (key) => {
   return path.join(DATA_DIR, fileName);
 };
 
-const readJsonFile = async (filePath) => {
+// Storage versions are content hashes, sent as strong ETags.
+const computeVersion = (content) =>
+  `"${crypto.createHash('sha1').update(content).digest('hex')}"`;
+
+const writeJsonFile = async (filePath, payload) => {
+  const serialized = JSON.stringify(payload, null, 2);
+  await fs.writeFile(filePath, serialized, 'utf8');
+  return computeVersion(serialized);
+};
+
+const readStorageEntry = async (filePath) => {
   try {
     const content = await fs.readFile(filePath, 'utf8');
     if (!content) {
-      return null;
+      return { payload: null, version: null };
     }
-    return JSON.parse(content);
+    const payload = JSON.parse(content);
+    return { payload, version: payload === null ? null : computeVersion(content) };
   } catch (error) {
     if (error.code === 'ENOENT') {
-      return null;
+      return { payload: null, version: null };
     }
 
     console.error(`[storage] Failed to read ${filePath}`, error);
@@ -43,9 +75,24 @@ const readJsonFile = async (filePath) => {
   }
 };
 
-const writeJsonFile = async (filePath, payload) => {
-  const serialized = JSON.stringify(payload, null, 2);
-  await fs.writeFile(filePath, serialized, 'utf8');
+const readJsonFile = async (filePath) => (await readStorageEntry(filePath)).payload;
+
+// If-Match lists the versions the client expects (or "*" for any existing
+// one); If-None-Match: * only allows creating a key that is still empty.
+const isPreconditionMet = (currentVersion, ifMatch, ifNoneMatch) => {
+  if (typeof ifNoneMatch === 'string' && ifNoneMatch.trim() === '*' && currentVersion) {
+    return false;
+  }
+
+  if (typeof ifMatch !== 'string' || !ifMatch.trim()) {
+    return true;
+  }
+
+  const expected = ifMatch.split(',').map((value) => value.trim());
+  if (expected.includes('*')) {
+    return currentVersion !== null;
+  }
+  return currentVersion !== null && expected.includes(currentVersion);
 };
 
 const deleteJsonFile = async (filePath) => {
@@ -59,11 +106,437 @@ const deleteJsonFile = async (filePath) => {
   }
 };
 
+const countAuctionatorRecords = (payload) => {
+  if (payload && payload.realms) {
+    return Object.values(payload.realms).reduce(
+      (sum, itemPrices) => sum + Object.keys(itemPrices || {}).length,
+      0
+    );
+  }
+  if (payload && payload.itemPrices) {
+    return Object.keys(payload.itemPrices).length;
+  }
+  return 0;
+};
+
+const decodeHeaderValue = (value) => {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(value.trim());
+  } catch (error) {
+    return value.trim();
+  }
+};
+
+// Runs tasks one after another so read-modify-write cycles on a file do not interleave.
+const createLock = () => {
+  let queue = Promise.resolve();
+  return (task) => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+};
+
+const storageLocks = new Map();
+
+const withStorageLock = (key, task) => {
+  if (!storageLocks.has(key)) {
+    storageLocks.set(key, createLock());
+  }
+  return storageLocks.get(key)(task);
+};
+
+const appendUploadLog = async (req, label, payload, snapshot) => {
+  const clientIP = req.headers['x-forwarded-for'] || req.socket.remoteAddress || 'unknown';
+  const fileSize = JSON.stringify(payload).length;
+  const timestamp = new Date().toISOString();
+
+  // Подсчитываем количество записей
+  const recordCount = countAuctionatorRecords(payload);
+
+  const logEntry = `[${timestamp}] IP: ${clientIP} | File: ${label} | Size: ${fileSize} bytes | Records: ${recordCount} | Source: ${payload.source || 'unknown'} | Uploader: ${snapshot.uploader} | Snapshot: ${snapshot.id}\n`;
+  const logPath = path.join(DATA_DIR, 'uploads.log');
+
+  await fs.appendFile(logPath, logEntry, 'utf8');
+  console.log(`[upload] ${logEntry.trim()}`);
+};
+
+// --- Upload snapshots ---
+// Every auctionator-data write is kept as an immutable snapshot so a bad
+// upload can be inspected and rolled back.
+
+const withSnapshotLock = createLock();
+
+const getSnapshotPath = (id) => path.join(SNAPSHOT_DIR, `${id}.json`);
+
+const readSnapshotIndex = async () => {
+  const index = await readJsonFile(SNAPSHOT_INDEX_PATH);
+  return Array.isArray(index) ? index : [];
+};
+
+const createSnapshot = (payload, details) =>
+  withSnapshotLock(async () => {
+    await fs.mkdir(SNAPSHOT_DIR, { recursive: true });
+
+    const createdAt = new Date();
+    const id = `${createdAt.getTime()}-${crypto.randomBytes(3).toString('hex')}`;
+    const metadata = {
+      id,
+      createdAt: createdAt.toISOString(),
+      uploader: details.uploader || 'anonymous',
+      source: (payload && payload.source) || 'unknown',
+      importedAt: (payload && payload.importedAt) || null,
+      itemCount: countAuctionatorRecords(payload),
+      realms: payload && payload.realms ? Object.keys(payload.realms) : [LEGACY_REALM_KEY],
+      rollbackOf: details.rollbackOf || null
+    };
+
+    await fs.writeFile(getSnapshotPath(id), JSON.stringify(payload), { encoding: 'utf8', flag: 'wx' });
+    const index = await readSnapshotIndex();
+    index.push(metadata);
+    const pruned = index.splice(0, Math.max(index.length - SNAPSHOT_RETENTION, 0));
+    await writeJsonFile(SNAPSHOT_INDEX_PATH, index);
+    // a snapshot file that cannot be deleted must not fail the write it records
+    await Promise.all(
+      pruned.map((entry) => deleteJsonFile(getSnapshotPath(entry.id)).catch(() => undefined))
+    );
+
+    return metadata;
+  });
+
+const readSnapshot = async (id) => {
+  if (!SNAPSHOT_ID_PATTERN.test(id)) {
+    return null;
+  }
+  return readJsonFile(getSnapshotPath(id));
+};
+
+// Latest price per realm and item, for both the realm-keyed and the older flat payloads.
+const extractLatestPrices = (payload) => {
+  const prices = new Map();
+  if (!payload) {
+    return prices;
+  }
+
+  const realms = payload.realms || { [LEGACY_REALM_KEY]: payload.itemPrices || {} };
+  Object.entries(realms).forEach(([realm, itemPrices]) => {
+    Object.entries(itemPrices || {}).forEach(([itemId, value]) => {
+      const price = Array.isArray(value)
+        ? value.length > 0
+          ? Number(value[value.length - 1].price)
+          : NaN
+        : Number(value);
+      if (Number.isFinite(price)) {
+        prices.set(`${realm}:${itemId}`, { realm, itemId: Number(itemId), price });
+      }
+    });
+  });
+
+  return prices;
+};
+
+const diffSnapshots = (fromPayload, toPayload, limit) => {
+  const before = extractLatestPrices(fromPayload);
+  const after = extractLatestPrices(toPayload);
+  const added = [];
+  const removed = [];
+  const changed = [];
+
+  after.forEach((entry, key) => {
+    const previous = before.get(key);
+    if (!previous) {
+      added.push(entry);
+    } else if (previous.price !== entry.price) {
+      changed.push({
+        realm: entry.realm,
+        itemId: entry.itemId,
+        before: previous.price,
+        after: entry.price,
+        change: entry.price - previous.price,
+        changePercent: previous.price > 0 ? ((entry.price - previous.price) / previous.price) * 100 : null
+      });
+    }
+  });
+
+  before.forEach((entry, key) => {
+    if (!after.has(key)) {
+      removed.push(entry);
+    }
+  });
+
+  changed.sort((a, b) => Math.abs(b.changePercent || 0) - Math.abs(a.changePercent || 0));
+
+  return {
+    summary: {
+      added: added.length,
+      removed: removed.length,
+      changed: changed.length,
+      unchanged: after.size - added.length - changed.length
+    },
+    added: added.slice(0, limit),
+    removed: removed.slice(0, limit),
+    changed: changed.slice(0, limit)
+  };
+};
+
+// --- Shared client services ---
+// The parser, merge rules and game data catalog live in the TypeScript client
+// services. They are compiled with ts-node on first use so the server answers
+// exactly like the browser would and there is no second build to keep in step
+// with src; ts-node and typescript are therefore runtime dependencies, not dev
+// ones, and ts-node is pinned to an exact version. The options below are fixed
+// here rather than read from the environment: transpileOnly skips type checks
+// (tsc --noEmit covers those) and CommonJS output lets Node require the
+// services whatever tsconfig.json sets for the browser build.
+
+let sharedServices = null;
+
+const loadSharedServices = () => {
+  if (!sharedServices) {
+    require('ts-node').register({
+      transpileOnly: true,
+      project: path.join(__dirname, '..', 'tsconfig.json'),
+      compilerOptions: { module: 'commonjs', target: 'es2019' }
+    });
+
+    const { AuctionatorDataService } = require('../src/services/AuctionatorDataService');
+    const { resolveCalculationSettings } = require('../src/services/CalculationSettings');
+    const { HISTORY_RETENTION_KEY, normalizeRetentionPolicy } = require('../src/services/HistoryRetention');
+    const { ItemCatalog } = require('../src/services/ItemCatalog');
+    const { normalizePriceAlerts, PriceAlerts } = require('../src/services/PriceAlerts');
+    const { PriceAnomalies } = require('../src/services/PriceAnomalies');
+    const { findProfession, ProfessionProfits } = require('../src/services/ProfessionProfits');
+    const { ProfitCalculator } = require('../src/services/ProfitCalculator');
+    const { setDbFileReader } = require('../src/services/DbFiles');
+
+    setDbFileReader((fileName) => fs.readFile(path.join(DB_DIR, fileName), 'utf8'));
+    sharedServices = {
+      AuctionatorDataService,
+      findProfession,
+      HISTORY_RETENTION_KEY,
+      ItemCatalog,
+      normalizePriceAlerts,
+      normalizeRetentionPolicy,
+      PriceAlerts,
+      PriceAnomalies,
+      ProfessionProfits,
+      ProfitCalculator,
+      resolveCalculationSettings
+    };
+  }
+
+  return sharedServices;
+};
+
+// Loads the shared services or answers 503 when they fail to compile or load.
+const requireSharedServices = (res, label) => {
+  try {
+    return loadSharedServices();
+  } catch (error) {
+    console.error(`[${label}] Failed to load the shared services`, error);
+    res.status(503).json({ error: 'This endpoint is unavailable on this server' });
+    return null;
+  }
+};
+
+// Accepts both Content-Encoding: gzip (inflated by the body parser) and a
+// plain upload of a .gz file.
+const decodeUploadBody = async (buffer) => {
+  const isGzip = buffer.length > 2 && buffer[0] === GZIP_MAGIC[0] && buffer[1] === GZIP_MAGIC[1];
+  const content = isGzip ? await gunzip(buffer) : buffer;
+  return content.toString('utf8');
+};
+
+// Parsed copy of auctionator-data, reused until the stored version changes.
+let storedPriceData = { version: null, data: null };
+
+const loadStoredPriceData = async (services) => {
+  const { payload, version } = await readStorageEntry(getStoragePath('auctionator-data'));
+  if (!version || version !== storedPriceData.version) {
+    storedPriceData = {
+      version,
+      data: services.AuctionatorDataService.fromStoragePayload(payload)
+    };
+  }
+  return storedPriceData.data;
+};
+
+const pickString = (value) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+// `realm` and `server` are interchangeable; `days` sets the median window.
+const parsePriceQuery = (source) => {
+  const days = Number(source.days);
+  return {
+    realm: pickString(source.realm) || pickString(source.server),
+    faction: pickString(source.faction),
+    medianDays: Number.isFinite(days) && days > 0 ? days : undefined
+  };
+};
+
+// Resolves the stored data and dataset for a price request, or answers with an error.
+const resolvePriceDataset = async (res, query) => {
+  const services = requireSharedServices(res, 'prices');
+  if (!services) {
+    return null;
+  }
+
+  const data = await loadStoredPriceData(services);
+  if (!data) {
+    res.status(404).json({ error: 'No Auctionator data has been uploaded' });
+    return null;
+  }
+
+  const realmKey = services.AuctionatorDataService.findRealmKey(data, query.realm, query.faction);
+  if (!realmKey) {
+    res.status(404).json({ error: 'No price data for the requested realm and faction' });
+    return null;
+  }
+
+  return { AuctionatorDataService: services.AuctionatorDataService, data, realmKey };
+};
+
+const MAX_SEARCH_RESULTS = 100;
+
+const parsePositiveInteger = (value) => {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : null;
+};
+
+const ANOMALY_REVIEW_STATUSES = ['accepted', 'rejected'];
+
+// A flagged scan is identified by its realm, item, import time and price.
+const parseAnomalyReview = (raw) => {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const realmKey = pickString(raw.realmKey);
+  const itemId = parsePositiveInteger(raw.itemId);
+  const importedAt = pickString(raw.importedAt);
+  const price = Number(raw.price);
+  if (!realmKey || !itemId || !importedAt || !Number.isFinite(price)) {
+    return null;
+  }
+  if (!ANOMALY_REVIEW_STATUSES.includes(raw.status)) {
+    return null;
+  }
+
+  return { review: { realmKey, itemId, entry: { importedAt, price } }, status: raw.status };
+};
+
+// Wraps a catalog lookup: loads the services, maps null to 404 and errors to 500.
+const catalogRoute = (notFoundMessage, lookup) => async (req, res) => {
+  const services = requireSharedServices(res, 'catalog');
+  if (!services) {
+    return;
+  }
+
+  try {
+    const result = await lookup(services.ItemCatalog, req);
+    if (result === null) {
+      res.status(404).json({ error: notFoundMessage });
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    res.json(result);
+  } catch (error) {
+    console.error('[catalog] Lookup failed', error);
+    res.status(500).json({ error: 'Failed to read the game data catalog' });
+  }
+};
+
+const loadRetentionPolicy = async (services) => {
+  const preferences = await readJsonFile(getStoragePath('user-preferences'));
+  return services.normalizeRetentionPolicy(
+    preferences ? preferences[services.HISTORY_RETENTION_KEY] : null
+  );
+};
+
+// The profit endpoint values recipes with the settings saved from the UI,
+// using the named user's own auction fee settings when they have any.
+const loadCalculationSettings = async (services, user) => {
+  const preferences = await readJsonFile(getStoragePath('user-preferences'));
+  return services.resolveCalculationSettings(preferences || {}, user);
+};
+
+// Checks the saved alert rules against the realms an upload brought new data
+// for. The check runs outside the lock; only recording its result is locked.
+const evaluatePriceAlerts = async (services, data, realmKeys) => {
+  const storagePath = getStoragePath('price-alerts');
+  const { rules } = services.normalizePriceAlerts(await readJsonFile(storagePath));
+  if (rules.length === 0) {
+    return 0;
+  }
+
+  const realms = new Map();
+  realmKeys.forEach((realmKey) => {
+    if (data.realms.has(realmKey)) {
+      realms.set(realmKey, data.realms.get(realmKey));
+    }
+  });
+
+  const settings = await loadCalculationSettings(services);
+  const check = await services.PriceAlerts.check(rules, realms, settings);
+  return withStorageLock('price-alerts', async () => {
+    const current = services.normalizePriceAlerts(await readJsonFile(storagePath));
+    const { state, firedCount } = services.PriceAlerts.applyCheck(current, check);
+    await writeJsonFile(storagePath, state);
+    return firedCount;
+  });
+};
+
+// Parses an optional numeric query parameter; NaN marks an invalid value.
+const parseOptionalNumber = (value) => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+// Validates the profit query, or returns an error message.
+const parseProfitQuery = (query) => {
+  const sort = pickString(query.sort) || 'profit';
+  if (!PROFIT_SORT_OPTIONS.includes(sort)) {
+    return { error: `sort must be one of ${PROFIT_SORT_OPTIONS.join(', ')}` };
+  }
+
+  const numbers = {};
+  for (const name of ['minProfit', 'minROI', 'maxCost', 'minSkill', 'maxSkill']) {
+    numbers[name] = parseOptionalNumber(query[name]);
+    if (Number.isNaN(numbers[name])) {
+      return { error: `${name} must be a number` };
+    }
+  }
+
+  const page = query.page === undefined ? 1 : parsePositiveInteger(query.page);
+  const pageSize =
+    query.pageSize === undefined ? DEFAULT_PROFIT_PAGE_SIZE : parsePositiveInteger(query.pageSize);
+  if (!page || !pageSize) {
+    return { error: 'page and pageSize must be positive integers' };
+  }
+
+  const { minProfit, minROI, maxCost, minSkill, maxSkill } = numbers;
+  return {
+    sort,
+    criteria: { minProfit, minROI, maxCost },
+    minSkill,
+    maxSkill,
+    page,
+    pageSize: Math.min(pageSize, MAX_PROFIT_PAGE_SIZE)
+  };
+};
+
 const createApp = () => {
   const app = express();
   app.use(
     cors({
-      origin: process.env.CORS_ORIGIN || '*'
+      origin: process.env.CORS_ORIGIN || '*',
+      exposedHeaders: ['ETag']
     })
   );
   app.use(express.json({ limit: process.env.BODY_LIMIT || '5mb' }));
@@ -81,25 +554,18 @@ const createApp = () => {
     }
 
     try {
-      const payload = await readJsonFile(storagePath);
+      const { payload, version } = await readStorageEntry(storagePath);
 
-      // Set Cache-Control headers based on key type
-      if (key === 'auctionator-data') {
-        // Cache with mandatory revalidation - faster 304 responses
-        res.setHeader('Cache-Control', 'no-cache, must-revalidate');
-      } else if (key === 'item-name-cache') {
-        // Cache for 7 days with revalidation at end
-        res.setHeader('Cache-Control', 'public, max-age=604800, must-revalidate');
-      } else {
-        // Cache for 2 days with revalidation (server-info, user-preferences, etc)
-        res.setHeader('Cache-Control', 'public, max-age=172800, must-revalidate');
-      }
+      // Every key is versioned by its ETag and writes are checked against it,
+      // so bodies are always revalidated - unchanged ones still answer 304
+      res.setHeader('Cache-Control', 'no-cache, must-revalidate');
 
       if (payload === null) {
         res.status(204).send();
         return;
       }
 
+      res.setHeader('ETag', version);
       res.json(payload);
     } catch (error) {
       res.status(500).json({ error: 'Failed to read storage payload' });
@@ -122,27 +588,40 @@ const createApp = () => {
 
     try {
       await ensureDataDir();
-      await writeJsonFile(storagePath, payload);
 
-      // Логирование загрузки auctionator-data
-      if (key === 'auctionator-data') {
-        const clientIP = req.headers['x-forwarded-for'] || req.socket.remoteAddress || 'unknown';
-        const fileSize = JSON.stringify(payload).length;
-        const timestamp = new Date().toISOString();
-
-        // Подсчитываем количество записей
-        let recordCount = 0;
-        if (payload && payload.itemPrices) {
-          recordCount = Object.keys(payload.itemPrices).length;
+      const result = await withStorageLock(key, async () => {
+        const current = await readStorageEntry(storagePath);
+        if (!isPreconditionMet(current.version, req.headers['if-match'], req.headers['if-none-match'])) {
+          return { conflict: current };
         }
 
-        const logEntry = `[${timestamp}] IP: ${clientIP} | File: ${key} | Size: ${fileSize} bytes | Records: ${recordCount} | Source: ${payload.source || 'unknown'}\n`;
-        const logPath = path.join(DATA_DIR, 'uploads.log');
+        const version = await writeJsonFile(storagePath, payload);
+        const snapshot =
+          key === 'auctionator-data'
+            ? await createSnapshot(payload, { uploader: decodeHeaderValue(req.headers['x-uploader']) })
+            : null;
+        return { version, snapshot };
+      });
 
-        await fs.appendFile(logPath, logEntry, 'utf8');
-        console.log(`[upload] ${logEntry.trim()}`);
+      if (result.conflict) {
+        // the current payload lets the client merge without fetching it again
+        if (result.conflict.version) {
+          res.setHeader('ETag', result.conflict.version);
+        }
+        res.status(409).json({
+          error: 'Storage payload was changed by another client',
+          version: result.conflict.version,
+          current: result.conflict.payload
+        });
+        return;
       }
 
+      // Логирование загрузки auctionator-data
+      if (result.snapshot) {
+        await appendUploadLog(req, key, payload, result.snapshot);
+      }
+
+      res.setHeader('ETag', result.version);
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: 'Failed to persist storage payload' });
@@ -158,19 +637,391 @@ const createApp = () => {
     }
 
     try {
-      await deleteJsonFile(storagePath);
+      await withStorageLock(key, () => deleteJsonFile(storagePath));
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: 'Failed to delete storage payload' });
     }
   });
 
+  app.get('/api/snapshots', async (_req, res) => {
+    try {
+      const index = await readSnapshotIndex();
+      res.setHeader('Cache-Control', 'no-cache');
+      res.json({ snapshots: [...index].reverse() });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to read snapshot index' });
+    }
+  });
+
+  app.get('/api/snapshots/diff', async (req, res) => {
+    const { from, to } = req.query;
+    if (typeof from !== 'string' || typeof to !== 'string') {
+      res.status(400).json({ error: 'Query parameters "from" and "to" are required' });
+      return;
+    }
+
+    const limit = Math.min(parsePositiveInteger(req.query.limit) || DEFAULT_DIFF_LIMIT, MAX_DIFF_LIMIT);
+
+    try {
+      const [fromPayload, toPayload] = await Promise.all([readSnapshot(from), readSnapshot(to)]);
+      if (!fromPayload || !toPayload) {
+        res.status(404).json({ error: 'Snapshot not found' });
+        return;
+      }
+
+      res.json({ from, to, ...diffSnapshots(fromPayload, toPayload, limit) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to diff snapshots' });
+    }
+  });
+
+  app.post('/api/snapshots/:id/rollback', async (req, res) => {
+    const { id } = req.params;
+
+    try {
+      const payload = await readSnapshot(id);
+      if (!payload) {
+        res.status(404).json({ error: 'Snapshot not found' });
+        return;
+      }
+
+      await ensureDataDir();
+      const snapshot = await withStorageLock('auctionator-data', async () => {
+        await writeJsonFile(getStoragePath('auctionator-data'), payload);
+        return createSnapshot(payload, {
+          uploader: decodeHeaderValue(req.headers['x-uploader']),
+          rollbackOf: id
+        });
+      });
+
+      console.log(`[snapshots] Rolled auctionator-data back to ${id} (new snapshot ${snapshot.id})`);
+      res.json({ snapshot });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to roll back snapshot' });
+    }
+  });
+
+  app.post(
+    '/api/auctionator/upload',
+    express.raw({ type: () => true, limit: process.env.UPLOAD_LIMIT || '50mb' }),
+    async (req, res) => {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({ error: 'Request body must contain the Auctionator.lua file' });
+        return;
+      }
+
+      const services = requireSharedServices(res, 'upload');
+      if (!services) {
+        return;
+      }
+
+      let content;
+      try {
+        content = await decodeUploadBody(req.body);
+      } catch (error) {
+        res.status(400).json({ error: 'Upload is not valid gzip data' });
+        return;
+      }
+
+      const { AuctionatorDataService } = services;
+      const source = decodeHeaderValue(req.headers['x-filename']) || DEFAULT_UPLOAD_SOURCE;
+      const uploader = decodeHeaderValue(req.headers['x-uploader']);
+
+      try {
+        const retention = await loadRetentionPolicy(services);
+
+        let imported;
+        try {
+          imported = await AuctionatorDataService.parseWithSummary(content, source, retention);
+        } catch (error) {
+          res.status(422).json({ error: error.message || 'Failed to parse Auctionator data' });
+          return;
+        }
+
+        await ensureDataDir();
+        const storagePath = getStoragePath('auctionator-data');
+        const { merged, payload, version, snapshot } = await withStorageLock('auctionator-data', async () => {
+          const existing = AuctionatorDataService.fromStoragePayload(await readJsonFile(storagePath));
+          const merged = AuctionatorDataService.mergeWithExisting(existing, imported.data, retention);
+          const mergedPayload = AuctionatorDataService.toStoragePayload(merged);
+          return {
+            merged,
+            payload: mergedPayload,
+            version: await writeJsonFile(storagePath, mergedPayload),
+            snapshot: await createSnapshot(mergedPayload, { uploader })
+          };
+        });
+        await appendUploadLog(req, 'auctionator-upload', payload, snapshot);
+
+        // the upload is stored either way, so a failed check only loses its alerts
+        let alertsFired = 0;
+        try {
+          alertsFired = await evaluatePriceAlerts(services, merged, Array.from(imported.data.realms.keys()));
+        } catch (error) {
+          console.error('[upload] Failed to evaluate price alerts', error);
+        }
+
+        res.setHeader('ETag', version);
+        res.status(201).json({
+          summary: imported.summary,
+          importedAt: imported.data.importedAt,
+          itemCount: countAuctionatorRecords(payload),
+          alertsFired,
+          snapshot
+        });
+      } catch (error) {
+        console.error('[upload] Failed to import Auctionator data', error);
+        res.status(500).json({ error: 'Failed to import Auctionator data' });
+      }
+    }
+  );
+
+  // Reviews change a field on stored scans, so they are applied in place:
+  // no snapshot is recorded and the history is not merged again.
+  app.post('/api/auctionator/anomalies/review', async (req, res) => {
+    const rawReviews = Array.isArray(req.body?.reviews) ? req.body.reviews : null;
+    const reviews = rawReviews ? rawReviews.map(parseAnomalyReview) : [];
+    if (reviews.length === 0 || reviews.some((review) => !review)) {
+      res.status(400).json({ error: 'Request body must contain a reviews array of flagged scans' });
+      return;
+    }
+
+    const services = requireSharedServices(res, 'anomalies');
+    if (!services) {
+      return;
+    }
+
+    const { AuctionatorDataService, PriceAnomalies } = services;
+    const storagePath = getStoragePath('auctionator-data');
+
+    try {
+      const result = await withStorageLock('auctionator-data', async () => {
+        const current = await readStorageEntry(storagePath);
+        let data = AuctionatorDataService.fromStoragePayload(current.payload);
+        if (!data) {
+          return null;
+        }
+
+        let reviewed = 0;
+        reviews.forEach(({ review, status }) => {
+          const next = PriceAnomalies.review(data, review, status);
+          if (next !== data) {
+            reviewed += 1;
+            data = next;
+          }
+        });
+
+        const version =
+          reviewed > 0
+            ? await writeJsonFile(storagePath, AuctionatorDataService.toStoragePayload(data))
+            : current.version;
+        return { reviewed, version, previousVersion: current.version };
+      });
+
+      if (!result) {
+        res.status(404).json({ error: 'No Auctionator data is stored' });
+        return;
+      }
+
+      // previousVersion tells the client whether the review was applied to
+      // the payload it has, and so whether the new version matches its copy
+      res.setHeader('ETag', result.version);
+      res.json({ reviewed: result.reviewed, previousVersion: result.previousVersion });
+    } catch (error) {
+      console.error('[anomalies] Failed to store anomaly reviews', error);
+      res.status(500).json({ error: 'Failed to store anomaly reviews' });
+    }
+  });
+
+  app.get('/api/auctionator/item/:id', async (req, res) => {
+    const itemId = Number(req.params.id);
+    if (!Number.isInteger(itemId) || itemId <= 0) {
+      res.status(400).json({ error: 'Item id must be a positive integer' });
+      return;
+    }
+
+    try {
+      const query = parsePriceQuery(req.query);
+      const dataset = await resolvePriceDataset(res, query);
+      if (!dataset) {
+        return;
+      }
+
+      const record = dataset.AuctionatorDataService.getAuctionData(
+        dataset.data,
+        dataset.realmKey,
+        itemId,
+        query.medianDays
+      );
+      if (!record) {
+        res.status(404).json({ error: 'No price data for this item' });
+        return;
+      }
+
+      res.setHeader('Cache-Control', 'no-cache');
+      res.json(record);
+    } catch (error) {
+      console.error('[prices] Failed to look up item price', error);
+      res.status(500).json({ error: 'Failed to look up item price' });
+    }
+  });
+
+  // Parameters may come from the JSON body or the query string. Items
+  // without data are left out of the response.
+  app.post('/api/auctionator/bulk', async (req, res) => {
+    const body = req.body && typeof req.body === 'object' ? req.body : {};
+    const itemIds = Array.isArray(body.itemIds) ? body.itemIds : null;
+    if (!itemIds) {
+      res.status(400).json({ error: 'Request body must contain an itemIds array' });
+      return;
+    }
+    if (itemIds.length > MAX_BULK_ITEM_IDS) {
+      res.status(413).json({ error: `At most ${MAX_BULK_ITEM_IDS} item ids can be requested at once` });
+      return;
+    }
+
+    try {
+      const query = parsePriceQuery({ ...req.query, ...body });
+      const dataset = await resolvePriceDataset(res, query);
+      if (!dataset) {
+        return;
+      }
+
+      const uniqueIds = Array.from(new Set(itemIds.map(Number))).filter(
+        (id) => Number.isInteger(id) && id > 0
+      );
+      const records = [];
+      uniqueIds.forEach((itemId) => {
+        const record = dataset.AuctionatorDataService.getAuctionData(
+          dataset.data,
+          dataset.realmKey,
+          itemId,
+          query.medianDays
+        );
+        if (record) {
+          records.push(record);
+        }
+      });
+
+      res.setHeader('Cache-Control', 'no-cache');
+      res.json(records);
+    } catch (error) {
+      console.error('[prices] Failed to look up bulk prices', error);
+      res.status(500).json({ error: 'Failed to look up bulk prices' });
+    }
+  });
+
+  // Profits are computed like the crafting list does in the browser, from
+  // the stored price data and the shared calculation settings.
+  app.get('/api/professions/:id/profits', async (req, res) => {
+    const professionId = parsePositiveInteger(req.params.id);
+    if (!professionId) {
+      res.status(400).json({ error: 'Profession id must be a positive integer' });
+      return;
+    }
+
+    const options = parseProfitQuery(req.query);
+    if (options.error) {
+      res.status(400).json({ error: options.error });
+      return;
+    }
+
+    const services = requireSharedServices(res, 'profits');
+    if (!services) {
+      return;
+    }
+
+    const profession = services.findProfession(professionId);
+    if (!profession) {
+      res.status(404).json({ error: 'Unknown profession' });
+      return;
+    }
+
+    try {
+      const dataset = await resolvePriceDataset(res, parsePriceQuery(req.query));
+      if (!dataset) {
+        return;
+      }
+
+      const settings = await loadCalculationSettings(services, pickString(req.query.user));
+      let profits = await services.ProfessionProfits.calculate(
+        profession,
+        dataset.data.realms.get(dataset.realmKey),
+        settings
+      );
+
+      const { criteria, minSkill, maxSkill } = options;
+      if (Object.values(criteria).some((value) => value !== undefined)) {
+        profits = services.ProfitCalculator.filterByProfitability(profits, criteria);
+      }
+      profits = profits.filter(
+        (profit) =>
+          (minSkill === undefined || profit.recipe.skillLevel >= minSkill) &&
+          (maxSkill === undefined || profit.recipe.skillLevel <= maxSkill)
+      );
+
+      const sorted = services.ProfitCalculator.sortProfits(profits, options.sort);
+      const start = (options.page - 1) * options.pageSize;
+
+      res.setHeader('Cache-Control', 'no-cache');
+      res.json({
+        profession: { id: profession.id, name: profession.name },
+        realmKey: dataset.realmKey,
+        sort: options.sort,
+        total: sorted.length,
+        page: options.page,
+        pageSize: options.pageSize,
+        results: sorted.slice(start, start + options.pageSize)
+      });
+    } catch (error) {
+      console.error('[profits] Failed to calculate profession profits', error);
+      res.status(500).json({ error: 'Failed to calculate profession profits' });
+    }
+  });
+
+  // --- Offline Wowhead-compatible catalog ---
+
+  app.get(
+    '/api/wowhead/item/:id',
+    catalogRoute('Unknown item', (catalog, req) => {
+      const itemId = parsePositiveInteger(req.params.id);
+      return itemId ? catalog.getItem(itemId) : null;
+    })
+  );
+
+  app.get(
+    '/api/wowhead/recipe/:id',
+    catalogRoute('Unknown recipe', (catalog, req) => {
+      const recipeId = parsePositiveInteger(req.params.id);
+      return recipeId ? catalog.getRecipe(recipeId) : null;
+    })
+  );
+
+  app.get(
+    '/api/wowhead/recipes/profession/:id',
+    catalogRoute('Unknown profession', (catalog, req) => {
+      const professionId = parsePositiveInteger(req.params.id);
+      return professionId ? catalog.getRecipesByProfession(professionId) : null;
+    })
+  );
+
+  app.get(
+    '/api/wowhead/search/items',
+    catalogRoute('No items found', (catalog, req) => {
+      const query = pickString(req.query.q);
+      const limit = parsePositiveInteger(req.query.limit);
+      return query
+        ? catalog.searchItems(query, limit ? Math.min(limit, MAX_SEARCH_RESULTS) : undefined)
+        : [];
+    })
+  );
+
   // --- Serve Static Files (Production) ---
   const buildPath = path.join(__dirname, '..', 'build');
-  const dbPath = path.join(__dirname, '..', 'public', 'db');
 
   // Serve CSV database files with 2-day cache
-  app.use('/db', express.static(dbPath, {
+  app.use('/db', express.static(DB_DIR, {
     maxAge: 172800000, // 2 days in milliseconds
     etag: true,
     lastModified: true,
@@ -210,7 +1061,12 @@ const start = async () => {
   });
 };
 
-start().catch((error) => {
-  console.error('[storage] Failed to start server', error);
-  process.exit(1);
-});
+// Tests require this file for createApp; only running it starts the server.
+if (require.main === module) {
+  start().catch((error) => {
+    console.error('[storage] Failed to start server', error);
+    process.exit(1);
+  });
+}
+
+module.exports = { createApp };
@@ -0,0 +1,152 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+
+const DATA_DIR = path.join(os.tmpdir(), `tradefury-server-test-${process.pid}`);
+process.env.DATA_DIR = DATA_DIR;
+process.env.SNAPSHOT_RETENTION = '3';
+
+const { createApp } = require('./index');
+
+let server;
+let baseUrl;
+
+const request = async (method, url, body) => {
+  const response = await fetch(`${baseUrl}${url}`, {
+    method,
+    headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : null };
+};
+
+const scan = (price) => [{ price, importedAt: '2025-01-10T12:00:00.000Z', source: 'Auctionator.lua' }];
+
+const payload = (itemPrices) => ({
+  version: 3,
+  source: 'Auctionator.lua',
+  importedAt: '2025-01-10T12:00:00.000Z',
+  realms: { Frostmourne_Alliance: itemPrices }
+});
+
+const upload = async (itemPrices) => {
+  const { status } = await request('PUT', '/api/storage/auctionator-data', payload(itemPrices));
+  assert.equal(status, 204);
+  const { body } = await request('GET', '/api/snapshots');
+  return body.snapshots[0].id;
+};
+
+test.before(async () => {
+  await fs.rm(DATA_DIR, { recursive: true, force: true });
+  await new Promise((resolve) => {
+    server = createApp().listen(0, resolve);
+  });
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+test.after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await fs.rm(DATA_DIR, { recursive: true, force: true });
+});
+
+test.beforeEach(async () => {
+  await fs.rm(path.join(DATA_DIR, 'snapshots'), { recursive: true, force: true });
+});
+
+test('records every auctionator-data write as a snapshot, newest first', async () => {
+  const first = await upload({ 2318: scan(100) });
+  const second = await upload({ 2318: scan(120), 2835: scan(50) });
+
+  const { body } = await request('GET', '/api/snapshots');
+  assert.deepEqual(
+    body.snapshots.map(({ id, itemCount, realms }) => [id, itemCount, realms]),
+    [
+      [second, 2, ['Frostmourne_Alliance']],
+      [first, 1, ['Frostmourne_Alliance']]
+    ]
+  );
+});
+
+test('diffs the latest prices of two snapshots', async () => {
+  const from = await upload({ 2318: scan(100), 2319: scan(10), 2320: scan(5) });
+  const to = await upload({ 2318: scan(150), 2319: scan(11), 2835: scan(50), 2320: scan(5) });
+
+  const { status, body } = await request('GET', `/api/snapshots/diff?from=${from}&to=${to}`);
+  assert.equal(status, 200);
+  assert.deepEqual(body.summary, { added: 1, removed: 0, changed: 2, unchanged: 1 });
+  // the largest relative move comes first
+  assert.deepEqual(
+    body.changed.map(({ itemId, before, after }) => [itemId, before, after]),
+    [
+      [2318, 100, 150],
+      [2319, 10, 11]
+    ]
+  );
+  assert.deepEqual(body.added, [{ realm: 'Frostmourne_Alliance', itemId: 2835, price: 50 }]);
+
+  const limited = await request('GET', `/api/snapshots/diff?from=${from}&to=${to}&limit=1`);
+  assert.equal(limited.body.changed.length, 1);
+  assert.equal(limited.body.summary.changed, 2);
+});
+
+test('caps the diff limit', async () => {
+  const from = await upload({});
+  const itemPrices = {};
+  for (let itemId = 1; itemId <= 5100; itemId++) {
+    itemPrices[itemId] = scan(itemId);
+  }
+  const to = await upload(itemPrices);
+
+  const capped = await request('GET', `/api/snapshots/diff?from=${from}&to=${to}&limit=1000000`);
+  assert.equal(capped.body.summary.added, 5100);
+  assert.equal(capped.body.added.length, 5000);
+
+  // an invalid limit falls back to the default
+  const invalid = await request('GET', `/api/snapshots/diff?from=${from}&to=${to}&limit=-3`);
+  assert.equal(invalid.body.added.length, 500);
+});
+
+test('answers 400 without both snapshot ids and 404 for unknown ones', async () => {
+  const id = await upload({ 2318: scan(100) });
+
+  assert.equal((await request('GET', `/api/snapshots/diff?from=${id}`)).status, 400);
+  assert.equal((await request('GET', `/api/snapshots/diff?from=${id}&to=1-missing`)).status, 404);
+  assert.equal((await request('GET', `/api/snapshots/diff?from=${id}&to=..%2Findex`)).status, 404);
+});
+
+test('rolls the stored data back to a snapshot and records the rollback', async () => {
+  const original = await upload({ 2318: scan(100) });
+  await upload({ 2318: scan(9999) });
+
+  const { status, body } = await request('POST', `/api/snapshots/${original}/rollback`);
+  assert.equal(status, 200);
+  assert.equal(body.snapshot.rollbackOf, original);
+
+  const stored = await request('GET', '/api/storage/auctionator-data');
+  assert.deepEqual(stored.body, payload({ 2318: scan(100) }));
+
+  const { body: list } = await request('GET', '/api/snapshots');
+  assert.equal(list.snapshots[0].id, body.snapshot.id);
+
+  assert.equal((await request('POST', '/api/snapshots/1-missing/rollback')).status, 404);
+});
+
+test('keeps only the newest snapshots', async () => {
+  const ids = [];
+  for (let price = 1; price <= 5; price++) {
+    ids.push(await upload({ 2318: scan(price) }));
+  }
+
+  const { body } = await request('GET', '/api/snapshots');
+  assert.deepEqual(
+    body.snapshots.map(({ id }) => id),
+    ids.slice(2).reverse()
+  );
+
+  const files = await fs.readdir(path.join(DATA_DIR, 'snapshots'));
+  assert.deepEqual(files.sort(), [...ids.slice(2).map((id) => `${id}.json`), 'index.json'].sort());
+  assert.equal((await request('POST', `/api/snapshots/${ids[0]}/rollback`)).status, 404);
+});
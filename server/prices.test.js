@@ -0,0 +1,184 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+
+const DATA_DIR = path.join(os.tmpdir(), `tradefury-prices-test-${process.pid}`);
+process.env.DATA_DIR = DATA_DIR;
+
+const { createApp } = require('./index');
+
+const LIGHT_LEATHER = 2318;
+const COARSE_THREAD = 2320;
+const HANDSTITCHED_BOOTS = 2302;
+const LEATHERWORKING = 165;
+
+let server;
+let baseUrl;
+
+const request = async (method, url, body) => {
+  const response = await fetch(`${baseUrl}${url}`, {
+    method,
+    headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : null };
+};
+
+const scan = (day, price, extra = {}) => ({
+  price,
+  importedAt: new Date(Date.UTC(2025, 0, day, 12)).toISOString(),
+  source: 'Auctionator.lua',
+  ...extra
+});
+
+const store = async (key, value) => {
+  const { status } = await request('PUT', `/api/storage/${key}`, value);
+  assert.equal(status, 204);
+};
+
+test.before(async () => {
+  await fs.rm(DATA_DIR, { recursive: true, force: true });
+  await new Promise((resolve) => {
+    server = createApp().listen(0, resolve);
+  });
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+  await store('auctionator-data', {
+    version: 3,
+    source: 'Auctionator.lua',
+    importedAt: scan(3, 0).importedAt,
+    realms: {
+      Frostmourne_Alliance: {
+        [LIGHT_LEATHER]: [scan(1, 120), scan(2, 90), scan(3, 100, { quantity: 40 })],
+        [COARSE_THREAD]: [scan(3, 10)],
+        [HANDSTITCHED_BOOTS]: [scan(3, 1000)]
+      },
+      Frostmourne_Horde: {
+        [LIGHT_LEATHER]: [scan(3, 80, { quantity: 5 })]
+      }
+    }
+  });
+});
+
+test.after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await fs.rm(DATA_DIR, { recursive: true, force: true });
+});
+
+test('looks up the price summary of one item', async () => {
+  const { status, body } = await request('GET', `/api/auctionator/item/${LIGHT_LEATHER}`);
+  assert.equal(status, 200);
+  assert.deepEqual(body, {
+    itemId: LIGHT_LEATHER,
+    server: 'Frostmourne',
+    faction: 'Alliance',
+    minBuyout: 90,
+    medianPrice: 100,
+    lastUpdated: scan(3, 0).importedAt,
+    quantity: 40
+  });
+
+  const horde = await request('GET', `/api/auctionator/item/${LIGHT_LEATHER}?server=Frostmourne&faction=Horde`);
+  assert.equal(horde.body.faction, 'Horde');
+  assert.equal(horde.body.minBuyout, 80);
+
+  // a one-day window counted back from the newest scan holds the last two scans
+  const shortWindow = await request('GET', `/api/auctionator/item/${LIGHT_LEATHER}?days=1`);
+  assert.equal(shortWindow.body.medianPrice, 95);
+
+  // scans without listing counts report an unknown quantity
+  const thread = await request('GET', `/api/auctionator/item/${COARSE_THREAD}`);
+  assert.equal(thread.body.quantity, null);
+});
+
+test('answers 400 for a bad item id and 404 without data', async () => {
+  assert.equal((await request('GET', '/api/auctionator/item/abc')).status, 400);
+  assert.equal((await request('GET', `/api/auctionator/item/${HANDSTITCHED_BOOTS}?faction=Horde`)).status, 404);
+  assert.equal((await request('GET', `/api/auctionator/item/${LIGHT_LEATHER}?server=Icecrown`)).status, 404);
+});
+
+test('looks up many items at once and leaves out those without data', async () => {
+  const { status, body } = await request('POST', '/api/auctionator/bulk?faction=Alliance', {
+    itemIds: [LIGHT_LEATHER, COARSE_THREAD, LIGHT_LEATHER, 999999, 'x']
+  });
+  assert.equal(status, 200);
+  assert.deepEqual(
+    body.map(({ itemId, minBuyout }) => [itemId, minBuyout]),
+    [
+      [LIGHT_LEATHER, 90],
+      [COARSE_THREAD, 10]
+    ]
+  );
+
+  const horde = await request('POST', '/api/auctionator/bulk', { itemIds: [LIGHT_LEATHER], faction: 'Horde' });
+  assert.equal(horde.body[0].minBuyout, 80);
+
+  assert.equal((await request('POST', '/api/auctionator/bulk', { itemIds: 'all' })).status, 400);
+  assert.equal((await request('POST', '/api/auctionator/bulk', { itemIds: new Array(20001).fill(1) })).status, 413);
+});
+
+test('calculates profession profits from the stored prices', async () => {
+  const { status, body } = await request(
+    'GET',
+    `/api/professions/${LEATHERWORKING}/profits?faction=Alliance&maxSkill=1&pageSize=500`
+  );
+  assert.equal(status, 200);
+  assert.deepEqual(body.profession, { id: LEATHERWORKING, name: 'Leatherworking' });
+  assert.equal(body.realmKey, 'Frostmourne_Alliance');
+  assert.ok(body.results.every(({ recipe }) => recipe.skillLevel <= 1));
+
+  const boots = body.results.find(({ recipe }) => recipe.resultItem.id === HANDSTITCHED_BOOTS);
+  // two Light Leather at their median and one Coarse Thread, sold with the
+  // faction house's 5% cut
+  assert.equal(boots.totalCost, 2 * 100 + 10);
+  assert.equal(boots.sellPrice, 1000);
+  assert.equal(boots.fees.auctionCut, 50);
+
+  const profitable = await request(
+    'GET',
+    `/api/professions/${LEATHERWORKING}/profits?faction=Alliance&maxSkill=1&minProfit=1`
+  );
+  assert.deepEqual(
+    profitable.body.results.map(({ recipe }) => recipe.resultItem.id),
+    [HANDSTITCHED_BOOTS]
+  );
+});
+
+test('applies an uploader\'s own auction fee settings to profits', async () => {
+  await store('user-preferences', {
+    'auctionFees:Alice': { auctionHouse: 'neutral', listingDuration: 12, expectedRelists: 0 }
+  });
+
+  const url = `/api/professions/${LEATHERWORKING}/profits?faction=Alliance&maxSkill=1&minProfit=1`;
+  const [shared, alice] = await Promise.all([request('GET', url), request('GET', `${url}&user=Alice`)]);
+  assert.equal(shared.body.results[0].fees.auctionCut, 50);
+  assert.equal(alice.body.results[0].fees.auctionCut, 150);
+});
+
+test('answers 400 for bad profit queries and 404 for unknown professions', async () => {
+  assert.equal((await request('GET', '/api/professions/0/profits')).status, 400);
+  assert.equal((await request('GET', `/api/professions/${LEATHERWORKING}/profits?sort=random`)).status, 400);
+  assert.equal((await request('GET', '/api/professions/99999/profits')).status, 404);
+});
+
+test('searches the bundled item catalog by name', async () => {
+  const { status, body } = await request('GET', '/api/wowhead/search/items?q=light%20leather&limit=3');
+  assert.equal(status, 200);
+  assert.equal(body.length, 3);
+  assert.deepEqual(body[0], {
+    id: LIGHT_LEATHER,
+    name: 'Light Leather',
+    icon: 'https://wow.zamimg.com/images/wow/icons/large/inv_misc_leatherscrap_03.jpg',
+    quality: 'Common',
+    itemLevel: 0,
+    sellPrice: 15,
+    stackSize: 1
+  });
+  assert.ok(body.every(({ name }) => name.toLowerCase().includes('light leather')));
+
+  assert.deepEqual((await request('GET', '/api/wowhead/search/items')).body, []);
+  assert.equal((await request('GET', '/api/wowhead/search/items?q=leather&limit=1000')).body.length, 100);
+});
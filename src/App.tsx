@@ -1,14 +1,33 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Header } from './components/Header';
 import { ProfessionSelector } from './components/ProfessionSelector';
 import { CraftingList } from './components/CraftingList';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { Footer } from './components/Footer';
-import { PersistentStorage } from './services/api';
 import { useSupportedProfessions } from './hooks/useSupportedProfessions';
 import { useAuctionatorData } from './hooks/useAuctionatorData';
+import { useUserPreferences } from './hooks/useUserPreferences';
+import { usePriceAlerts } from './hooks/usePriceAlerts';
 import { AuctionatorPanel } from './components/AuctionatorPanel';
+import { ServerSelector } from './components/ServerSelector';
+import { RealmArbitragePanel } from './components/RealmArbitragePanel';
+import { SnapshotAdminPanel } from './components/SnapshotAdminPanel';
+import { PriceAnomalyReviewPanel } from './components/PriceAnomalyReviewPanel';
 import { ItemNameMappingPanel } from './components/ItemNameMappingPanel';
+import { CalculationSettingsPanel } from './components/CalculationSettingsPanel';
+import { PriceAlertsPanel } from './components/PriceAlertsPanel';
+import { SkillUpPlannerPanel } from './components/SkillUpPlannerPanel';
+import {
+  buildCalculationSettingsChanges,
+  resolveCalculationSettings
+} from './services/CalculationSettings';
+import {
+  HISTORY_RETENTION_KEY,
+  normalizeRetentionPolicy,
+  RetentionPolicy
+} from './services/HistoryRetention';
+import { SnapshotService } from './services/SnapshotService';
+import { CalculationSettings } from './types';
 
 const REFRESH_DELAY_MS = 1000;
 const PREFERENCES_KEY = 'selectedProfessionId';
@@ -17,41 +36,48 @@ function App() {
   const [selectedProfessionId, setSelectedProfessionId] = useState<number | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [refreshError, setRefreshError] = useState<string | null>(null);
-  const preferencesRef = useRef<Record<string, unknown>>({});
+  // the uploader name also picks which user's auction fee settings apply
+  const [userName, setUserName] = useState(() => SnapshotService.getUploaderLabel());
 
   const {
     professions,
     isLoading: professionsLoading,
     error: professionsError
   } = useSupportedProfessions();
-  const auctionator = useAuctionatorData();
+  const {
+    preferences,
+    isLoaded: preferencesLoaded,
+    updatePreferences
+  } = useUserPreferences();
 
-  useEffect(() => {
-    let isCancelled = false;
-
-    const loadPreferences = async () => {
-      try {
-        const preferences = await PersistentStorage.getUserPreferences();
-        if (isCancelled) {
-          return;
-        }
-        const savedProfession = preferences?.[PREFERENCES_KEY];
-        preferencesRef.current = preferences;
-
-        if (typeof savedProfession === 'number') {
-          setSelectedProfessionId(savedProfession);
-        }
-      } catch (error) {
-        console.warn('Failed to load stored user preferences', error);
-      }
-    };
+  const calculationSettings = useMemo(
+    () => resolveCalculationSettings(preferences, userName),
+    [preferences, userName]
+  );
+  const retentionPolicy = useMemo(
+    () => normalizeRetentionPolicy(preferences[HISTORY_RETENTION_KEY]),
+    [preferences]
+  );
+  const alerts = usePriceAlerts(calculationSettings);
+  const auctionator = useAuctionatorData(
+    calculationSettings.priceStatistics,
+    calculationSettings.pricingPolicy.itemOverrides,
+    retentionPolicy,
+    alerts.evaluateImport
+  );
 
-    loadPreferences();
+  useEffect(() => {
+    if (!preferencesLoaded) {
+      return;
+    }
 
-    return () => {
-      isCancelled = true;
-    };
-  }, []);
+    const savedProfession = preferences[PREFERENCES_KEY];
+    if (typeof savedProfession === 'number') {
+      setSelectedProfessionId(savedProfession);
+    }
+    // restore the saved profession once, right after preferences arrive
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [preferencesLoaded]);
 
   useEffect(() => {
     if (selectedProfessionId === null) {
@@ -75,18 +101,15 @@ function App() {
   const handleProfessionChange = (professionId: number) => {
     setSelectedProfessionId(professionId);
     setRefreshError(null);
+    updatePreferences({ [PREFERENCES_KEY]: professionId });
+  };
 
-    (async () => {
-      try {
-        preferencesRef.current = {
-          ...preferencesRef.current,
-          [PREFERENCES_KEY]: professionId
-        };
-        await PersistentStorage.saveUserPreferences(preferencesRef.current);
-      } catch (error) {
-        console.warn('Failed to persist updated preferences', error);
-      }
-    })();
+  const handleCalculationSettingsChange = (settings: CalculationSettings) => {
+    updatePreferences(buildCalculationSettingsChanges(preferences, settings, userName));
+  };
+
+  const handleRetentionPolicyChange = (policy: RetentionPolicy) => {
+    updatePreferences({ [HISTORY_RETENTION_KEY]: policy });
   };
 
   const handleRefresh = async () => {
@@ -95,7 +118,7 @@ function App() {
 
     try {
       // Перезагружаем данные с сервера
-      const data = await auctionator.reload();
+      const [data] = await Promise.all([auctionator.reload(), alerts.reload()]);
       if (!data) {
         setRefreshError('No price data available. Please upload an Auctionator.lua file first.');
       }
@@ -119,16 +142,47 @@ function App() {
                 metadata={auctionator.metadata}
                 isLoading={auctionator.isLoading}
                 error={auctionator.error}
+                importProgress={auctionator.importProgress}
+                importSummary={auctionator.importSummary}
                 onFileSelected={auctionator.handleFileSelection}
+                onCancelImport={auctionator.cancelImport}
                 onClear={auctionator.clear}
                 priceHistory={auctionator.priceHistory}
+                retentionPolicy={retentionPolicy}
+                onRetentionPolicyChange={handleRetentionPolicyChange}
+              />
+              <PriceAlertsPanel
+                rules={alerts.rules}
+                notifications={alerts.notifications}
+                onDismiss={alerts.dismiss}
+                onDismissAll={alerts.dismissAll}
+                onRemoveRule={alerts.removeRule}
+              />
+              <ServerSelector
+                servers={auctionator.servers}
+                selectedServer={auctionator.activeServer}
+                onServerChange={auctionator.selectServer}
               />
               <ProfessionSelector
                 selectedProfession={selectedProfessionId}
                 onProfessionChange={handleProfessionChange}
                 professions={professions}
               />
+              <CalculationSettingsPanel
+                settings={calculationSettings}
+                userName={userName}
+                onChange={handleCalculationSettingsChange}
+              />
               <ItemNameMappingPanel />
+              <SnapshotAdminPanel
+                refreshKey={auctionator.metadata?.importedAt ?? null}
+                onRolledBack={auctionator.reload}
+                onUploaderChange={setUserName}
+              />
+              <PriceAnomalyReviewPanel
+                pending={auctionator.pendingAnomalies}
+                onReview={auctionator.reviewAnomaly}
+              />
 
               {professionsLoading && (
                 <div className="bg-[#121217]/80 border border-[#2a2b31] text-gray-300 px-4 py-3 rounded-lg">
@@ -150,6 +204,13 @@ function App() {
                 </div>
               )}
 
+              {auctionator.parsedData && auctionator.servers.length > 1 && (
+                <RealmArbitragePanel
+                  data={auctionator.parsedData}
+                  priceStatistics={calculationSettings.priceStatistics}
+                />
+              )}
+
               {!selectedProfession && (
                 <div className="bg-[#141518]/85 border border-[#2a2b31] text-gray-200 px-6 py-8 rounded-lg text-center">
                   <h3 className="text-xl font-bold mb-2 text-white">Welcome to the WotLK Crafting Monitor</h3>
@@ -160,14 +221,30 @@ function App() {
                 </div>
               )}
 
+              {selectedProfession && (
+                <SkillUpPlannerPanel
+                  key={selectedProfession.id}
+                  profession={selectedProfession}
+                  priceMap={auctionator.priceMap}
+                  priceEstimates={auctionator.priceEstimates}
+                  calculationSettings={calculationSettings}
+                />
+              )}
+
               {selectedProfession && (
                 <ErrorBoundary>
                   <CraftingList
                     profession={selectedProfession}
                     isRefreshing={isRefreshing}
                     priceMap={auctionator.priceMap}
+                    priceEstimates={auctionator.priceEstimates}
                     priceHistory={auctionator.priceHistory}
                     hasPriceData={auctionator.hasData}
+                    calculationSettings={calculationSettings}
+                    onCalculationSettingsChange={handleCalculationSettingsChange}
+                    watchedRecipeIds={alerts.watchedRecipeIds}
+                    onToggleWatch={alerts.toggleWatchedRecipe}
+                    onAddAlertRule={alerts.addRule}
                   />
                 </ErrorBoundary>
               )}
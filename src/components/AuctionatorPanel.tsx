@@ -1,19 +1,42 @@
 import React, { useRef, useState } from 'react';
-import { UploadCloud, Loader2, Trash2, Download } from 'lucide-react';
+import { UploadCloud, Loader2, Trash2, Download, X } from 'lucide-react';
 import { AuctionatorMetadata } from '../hooks/useAuctionatorData';
 import { loadItemIdToNameMap } from '../services/ItemNameIndex';
 import { ItemNameResolver } from '../services/ItemNameResolver';
-import { PriceHistoryEntry } from '../services/AuctionatorDataService';
+import {
+  AuctionatorImportProgress,
+  AuctionatorImportStage,
+  AuctionatorImportSummary,
+  PriceHistoryEntry
+} from '../services/AuctionatorDataService';
+import { RetentionPolicy } from '../services/HistoryRetention';
 
 interface AuctionatorPanelProps {
   metadata: AuctionatorMetadata | null;
   isLoading: boolean;
   error: string | null;
+  importProgress: AuctionatorImportProgress | null;
+  importSummary: AuctionatorImportSummary | null;
   onFileSelected: (file: File) => void | Promise<void>;
+  onCancelImport: () => void;
   onClear: () => Promise<void>;
   priceHistory: Map<number, PriceHistoryEntry[]> | null;
+  retentionPolicy: RetentionPolicy;
+  onRetentionPolicyChange: (policy: RetentionPolicy) => void;
 }
 
+const retentionInputClassName =
+  'w-full px-2 py-1 bg-[#18191f]/80 border border-[#2e3036] rounded-md text-xs text-white focus:outline-none focus:ring-2 focus:ring-wow-blue focus:border-transparent';
+
+const IMPORT_STAGE_LABELS: Record<AuctionatorImportStage, string> = {
+  reading: 'Reading file',
+  parsing: 'Parsing',
+  resolving: 'Resolving item names',
+  merging: 'Merging with stored prices'
+};
+
+const formatMillions = (count: number): string => (count / 1e6).toFixed(1);
+
 const formatTimestamp = (timestamp: string): string => {
   try {
     return new Date(timestamp).toLocaleString();
@@ -26,9 +49,14 @@ export const AuctionatorPanel: React.FC<AuctionatorPanelProps> = ({
   metadata,
   isLoading,
   error,
+  importProgress,
+  importSummary,
   onFileSelected,
+  onCancelImport,
   onClear,
-  priceHistory
+  priceHistory,
+  retentionPolicy,
+  onRetentionPolicyChange
 }) => {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [isExporting, setIsExporting] = useState(false);
@@ -94,7 +122,7 @@ export const AuctionatorPanel: React.FC<AuctionatorPanelProps> = ({
           disabled={isLoading}
         >
           {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <UploadCloud className="h-4 w-4" />}
-          <span>{isLoading ? 'Importing...' : 'Import Auctionator.lua'}</span>
+          <span>{isLoading ? 'Importing...' : 'Import addon data'}</span>
         </button>
         <input
           type="file"
@@ -105,6 +133,60 @@ export const AuctionatorPanel: React.FC<AuctionatorPanelProps> = ({
         />
       </div>
 
+      {isLoading && importProgress && (
+        <div className="mb-3 bg-[#16171d]/85 border border-[#2c2d34] rounded-md p-3 text-xs text-gray-300">
+          <div className="flex items-center justify-between mb-1.5">
+            <span className="font-medium text-white">{IMPORT_STAGE_LABELS[importProgress.stage]}</span>
+            <button
+              type="button"
+              onClick={onCancelImport}
+              className="inline-flex items-center space-x-1 text-gray-400 hover:text-red-300 transition-colors duration-150"
+            >
+              <X className="h-3.5 w-3.5" />
+              <span>Cancel</span>
+            </button>
+          </div>
+          <div className="h-1.5 bg-[#24252b] rounded-full overflow-hidden">
+            <div
+              className="h-full bg-wow-gold transition-all duration-200"
+              style={{
+                width: `${
+                  importProgress.totalCharacters > 0
+                    ? Math.min((importProgress.charactersParsed / importProgress.totalCharacters) * 100, 100)
+                    : 0
+                }%`
+              }}
+            />
+          </div>
+          <div className="mt-1.5 flex justify-between text-[11px] text-gray-400">
+            <span>
+              {importProgress.totalCharacters > 0 &&
+                `${formatMillions(importProgress.charactersParsed)} of ${formatMillions(
+                  importProgress.totalCharacters
+                )}M characters`}
+            </span>
+            <span>{importProgress.itemsResolved} items resolved</span>
+          </div>
+        </div>
+      )}
+
+      {importSummary && !isLoading && (
+        <div className="mb-3 bg-green-900/20 border border-green-500/30 rounded-md p-3 text-xs text-gray-300 space-y-0.5">
+          <div className="font-medium text-green-400">Imported {importSummary.addon} data</div>
+          <div>
+            {importSummary.resolved} items resolved
+            {importSummary.resolvedViaHistory > 0 && ` (${importSummary.resolvedViaHistory} via pricing history)`}
+          </div>
+          {importSummary.historyItems > 0 && <div>History for {importSummary.historyItems} items</div>}
+          {importSummary.realms.length > 0 && <div>Realms: {importSummary.realms.join(', ')}</div>}
+          {importSummary.unresolved > 0 && (
+            <div className="text-yellow-300" title={importSummary.unresolvedSample.join(', ')}>
+              {importSummary.unresolved} entries could not be matched to an item
+            </div>
+          )}
+        </div>
+      )}
+
       {metadata ? (
         <div className="bg-[#16171d]/85 border border-[#2c2d34] rounded-md p-3 text-sm text-gray-300 space-y-1">
           <div>
@@ -119,6 +201,20 @@ export const AuctionatorPanel: React.FC<AuctionatorPanelProps> = ({
             <span className="text-gray-400">Items with prices:</span>{' '}
             <span className="font-medium text-white">{metadata.itemCount}</span>
           </div>
+          <div title="Items whose newest scan is older than the freshness window in the profit settings">
+            <span className="text-gray-400">Stale items:</span>{' '}
+            <span
+              className={`font-medium ${metadata.staleItemCount > 0 ? 'text-yellow-300' : 'text-white'}`}
+            >
+              {metadata.staleItemCount}
+            </span>
+          </div>
+          {metadata.datasetCount > 1 && (
+            <div>
+              <span className="text-gray-400">Realm datasets:</span>{' '}
+              <span className="font-medium text-white">{metadata.datasetCount}</span>
+            </div>
+          )}
 
           <button
             type="button"
@@ -147,10 +243,51 @@ export const AuctionatorPanel: React.FC<AuctionatorPanelProps> = ({
         </div>
       ) : (
         <p className="text-gray-400 text-sm">
-          Import your Auctionator.lua file to use live auction prices for crafting cost and profit calculations.
+          Import the SavedVariables of Auctionator (Auctionator.lua), TradeSkillMaster (TradeSkillMaster.lua) or
+          Auctioneer (Auc-ScanData.lua) to use live auction prices for crafting cost and profit calculations. The
+          addon is detected automatically.
         </p>
       )}
 
+      <div className="mt-3 border-t border-[#24252b] pt-3">
+        <div className="text-xs font-semibold text-gray-300 mb-2">History retention</div>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-[11px] text-gray-400">
+            Every scan (days)
+            <input
+              type="number"
+              min={0}
+              value={retentionPolicy.rawDays}
+              onChange={(event) =>
+                onRetentionPolicyChange({
+                  ...retentionPolicy,
+                  rawDays: Math.max(Number(event.target.value) || 0, 0)
+                })
+              }
+              className={`${retentionInputClassName} mt-1`}
+            />
+          </label>
+          <label className="text-[11px] text-gray-400">
+            Daily until (days)
+            <input
+              type="number"
+              min={0}
+              value={retentionPolicy.dailyUntilDays}
+              onChange={(event) =>
+                onRetentionPolicyChange({
+                  ...retentionPolicy,
+                  dailyUntilDays: Math.max(Number(event.target.value) || 0, 0)
+                })
+              }
+              className={`${retentionInputClassName} mt-1`}
+            />
+          </label>
+        </div>
+        <p className="mt-2 text-[11px] text-gray-500">
+          Older scans are kept as daily, then weekly min/median/max. Applied on the next import.
+        </p>
+      </div>
+
       {error && (
         <div className="mt-3 bg-red-900/40 border border-red-500/50 text-red-200 text-sm px-3 py-2 rounded-md">
           {error}
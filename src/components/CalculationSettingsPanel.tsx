@@ -0,0 +1,340 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import {
+  AuctionFeeSettings,
+  AuctionHouseType,
+  CalculationSettings,
+  CostingMode,
+  ListingDuration,
+  PriceStatistic,
+  PriceStatisticSettings,
+  PricingPolicy,
+  ReagentPriceRule,
+  ResultValueRule,
+  StalePriceHandling
+} from '../types';
+import { LISTING_DURATIONS } from '../services/CalculationSettings';
+import { PRICE_STATISTICS, PRICE_STATISTIC_LABELS } from '../services/PriceStatistics';
+import { STALE_PRICE_HANDLINGS, STALE_PRICE_HANDLING_LABELS } from '../services/PriceFreshness';
+
+interface CalculationSettingsPanelProps {
+  settings: CalculationSettings;
+  // auction fee settings are kept for this user; null shares them
+  userName: string | null;
+  onChange: (settings: CalculationSettings) => void;
+}
+
+const AUCTION_HOUSE_LABELS: Record<AuctionHouseType, string> = {
+  faction: 'Faction AH (5% cut)',
+  neutral: 'Neutral AH (15% cut)'
+};
+
+const COSTING_MODE_LABELS: Record<CostingMode, string> = {
+  direct: 'Buy every reagent',
+  craftOrBuy: 'Craft intermediates when cheaper'
+};
+
+const REAGENT_RULE_LABELS: Record<ReagentPriceRule, string> = {
+  cheapest: 'Cheapest of vendor and AH',
+  auctionOnly: 'Auction house only',
+  vendorOnly: 'Vendor only'
+};
+
+const RESULT_RULE_LABELS: Record<ResultValueRule, string> = {
+  auction: 'Auction house price',
+  vendorSell: 'Vendor sell price',
+  custom: 'Custom item prices only'
+};
+
+const selectClassName =
+  'w-full px-3 py-2 bg-[#18191f]/80 border border-[#2e3036] rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-wow-blue focus:border-transparent appearance-none cursor-pointer';
+
+export const CalculationSettingsPanel: React.FC<CalculationSettingsPanelProps> = ({
+  settings,
+  userName,
+  onChange
+}) => {
+  const { auctionFees, pricingPolicy, priceStatistics } = settings;
+  const overrideCount = Object.keys(pricingPolicy.itemOverrides).length;
+
+  const updateAuctionFees = (patch: Partial<AuctionFeeSettings>) => {
+    onChange({
+      ...settings,
+      auctionFees: {
+        ...auctionFees,
+        ...patch
+      }
+    });
+  };
+
+  const updatePricingPolicy = (patch: Partial<PricingPolicy>) => {
+    onChange({
+      ...settings,
+      pricingPolicy: {
+        ...pricingPolicy,
+        ...patch
+      }
+    });
+  };
+
+  const updatePriceStatistics = (patch: Partial<PriceStatisticSettings>) => {
+    onChange({
+      ...settings,
+      priceStatistics: {
+        ...priceStatistics,
+        ...patch
+      }
+    });
+  };
+
+  return (
+    <div className="bg-[#111216]/85 backdrop-blur-sm rounded-lg border border-[#24252b] p-4 space-y-3">
+      <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+        <SlidersHorizontal className="h-5 w-5 text-wow-blue" aria-hidden />
+        Profit settings
+      </h3>
+
+      <div>
+        <label htmlFor="settings-auction-house" className="block text-xs font-semibold text-gray-300 mb-1">
+          Auction house
+        </label>
+        <select
+          id="settings-auction-house"
+          value={auctionFees.auctionHouse}
+          onChange={(event) =>
+            updateAuctionFees({ auctionHouse: event.target.value as AuctionHouseType })
+          }
+          className={selectClassName}
+        >
+          {(Object.keys(AUCTION_HOUSE_LABELS) as AuctionHouseType[]).map((type) => (
+            <option key={type} value={type}>
+              {AUCTION_HOUSE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="settings-listing-duration" className="block text-xs font-semibold text-gray-300 mb-1">
+            Listing duration
+          </label>
+          <select
+            id="settings-listing-duration"
+            value={auctionFees.listingDuration}
+            onChange={(event) =>
+              updateAuctionFees({ listingDuration: Number(event.target.value) as ListingDuration })
+            }
+            className={selectClassName}
+          >
+            {LISTING_DURATIONS.map((duration) => (
+              <option key={duration} value={duration}>
+                {duration}h
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="settings-relists" className="block text-xs font-semibold text-gray-300 mb-1">
+            Expected relists
+          </label>
+          <input
+            id="settings-relists"
+            type="number"
+            min={0}
+            step={0.5}
+            value={auctionFees.expectedRelists}
+            onChange={(event) => {
+              const value = Number(event.target.value);
+              updateAuctionFees({ expectedRelists: Number.isFinite(value) ? Math.max(value, 0) : 0 });
+            }}
+            className="w-full px-3 py-2 bg-[#18191f]/80 border border-[#2e3036] rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-wow-blue focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="settings-costing-mode" className="block text-xs font-semibold text-gray-300 mb-1">
+          Reagent costing
+        </label>
+        <select
+          id="settings-costing-mode"
+          value={settings.costingMode}
+          onChange={(event) =>
+            onChange({ ...settings, costingMode: event.target.value as CostingMode })
+          }
+          className={selectClassName}
+        >
+          {(Object.keys(COSTING_MODE_LABELS) as CostingMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {COSTING_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="settings-reagent-rule" className="block text-xs font-semibold text-gray-300 mb-1">
+            Reagent prices
+          </label>
+          <select
+            id="settings-reagent-rule"
+            value={pricingPolicy.reagentRule}
+            onChange={(event) =>
+              updatePricingPolicy({ reagentRule: event.target.value as ReagentPriceRule })
+            }
+            className={selectClassName}
+          >
+            {(Object.keys(REAGENT_RULE_LABELS) as ReagentPriceRule[]).map((rule) => (
+              <option key={rule} value={rule}>
+                {REAGENT_RULE_LABELS[rule]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="settings-result-rule" className="block text-xs font-semibold text-gray-300 mb-1">
+            Crafted item value
+          </label>
+          <select
+            id="settings-result-rule"
+            value={pricingPolicy.resultRule}
+            onChange={(event) =>
+              updatePricingPolicy({ resultRule: event.target.value as ResultValueRule })
+            }
+            className={selectClassName}
+          >
+            {(Object.keys(RESULT_RULE_LABELS) as ResultValueRule[]).map((rule) => (
+              <option key={rule} value={rule}>
+                {RESULT_RULE_LABELS[rule]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="settings-price-statistic" className="block text-xs font-semibold text-gray-300 mb-1">
+            Auction price
+          </label>
+          <select
+            id="settings-price-statistic"
+            value={priceStatistics.statistic}
+            onChange={(event) =>
+              updatePriceStatistics({ statistic: event.target.value as PriceStatistic })
+            }
+            className={selectClassName}
+          >
+            {PRICE_STATISTICS.map((statistic) => (
+              <option key={statistic} value={statistic}>
+                {PRICE_STATISTIC_LABELS[statistic]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="settings-statistic-window" className="block text-xs font-semibold text-gray-300 mb-1">
+            Window (days)
+          </label>
+          <input
+            id="settings-statistic-window"
+            type="number"
+            min={1}
+            max={90}
+            step={1}
+            value={priceStatistics.windowDays}
+            disabled={priceStatistics.statistic === 'latest'}
+            onChange={(event) => {
+              const value = Number(event.target.value);
+              updatePriceStatistics({ windowDays: Number.isFinite(value) ? Math.max(value, 1) : 1 });
+            }}
+            className="w-full px-3 py-2 bg-[#18191f]/80 border border-[#2e3036] rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-wow-blue focus:border-transparent disabled:opacity-50"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="settings-freshness-window" className="block text-xs font-semibold text-gray-300 mb-1">
+            Fresh for (days)
+          </label>
+          <input
+            id="settings-freshness-window"
+            type="number"
+            min={1}
+            max={365}
+            step={1}
+            value={priceStatistics.freshnessDays}
+            onChange={(event) => {
+              const value = Number(event.target.value);
+              updatePriceStatistics({ freshnessDays: Number.isFinite(value) ? Math.max(value, 1) : 1 });
+            }}
+            className="w-full px-3 py-2 bg-[#18191f]/80 border border-[#2e3036] rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-wow-blue focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label htmlFor="settings-stale-handling" className="block text-xs font-semibold text-gray-300 mb-1">
+            Older prices
+          </label>
+          <select
+            id="settings-stale-handling"
+            value={priceStatistics.staleHandling}
+            onChange={(event) =>
+              updatePriceStatistics({ staleHandling: event.target.value as StalePriceHandling })
+            }
+            className={selectClassName}
+          >
+            {STALE_PRICE_HANDLINGS.map((handling) => (
+              <option key={handling} value={handling}>
+                {STALE_PRICE_HANDLING_LABELS[handling]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="settings-suspicious-prices" className="block text-xs font-semibold text-gray-300 mb-1">
+          Suspicious prices
+        </label>
+        <select
+          id="settings-suspicious-prices"
+          value={priceStatistics.includeSuspicious ? 'include' : 'exclude'}
+          onChange={(event) =>
+            updatePriceStatistics({ includeSuspicious: event.target.value === 'include' })
+          }
+          className={selectClassName}
+        >
+          <option value="exclude">Excluded until accepted</option>
+          <option value="include">Included until rejected</option>
+        </select>
+      </div>
+
+      {overrideCount > 0 && (
+        <div className="flex items-center justify-between text-[11px] text-gray-300">
+          <span>
+            {overrideCount} item {overrideCount === 1 ? 'override' : 'overrides'}
+          </span>
+          <button
+            type="button"
+            onClick={() => updatePricingPolicy({ itemOverrides: {} })}
+            className="text-wow-blue hover:underline"
+          >
+            Clear all
+          </button>
+        </div>
+      )}
+
+      <p className="text-[11px] text-gray-400 leading-relaxed">
+        Profit and ROI are shown after the auction house cut. Deposits are refunded on a sale, so only
+        the expected relists forfeit them. Open an item to override its pricing rules or set a
+        custom price. These settings are saved on the server and shared by everyone using it
+        {userName
+          ? `, except the auction fee settings, which are kept for ${userName}.`
+          : '. Set an uploader name under Snapshots to keep your own auction fee settings.'}
+      </p>
+    </div>
+  );
+};
@@ -7,20 +7,96 @@ import {
   Minus,
   Package,
   Target,
-  Info
+  Info,
+  Hammer,
+  Eye,
+  EyeOff
 } from 'lucide-react';
-import { CraftingProfit, Item } from '../types';
+import {
+  CraftedCostBreakdown,
+  CraftingProfit,
+  Item,
+  LiquidityScore,
+  MarginTrend,
+  PriceSource,
+  PriceStatistic,
+  PriceTrend
+} from '../types';
 import { WowheadLink } from './WowheadLink';
 import { CurrencyAmount, type CurrencySize } from './CurrencyAmount';
 import { PriceHistoryEntry } from '../services/AuctionatorDataService';
+import { PRICE_STATISTIC_LABELS } from '../services/PriceStatistics';
+import { describeLiquidity, LiquidityLevel } from '../services/Liquidity';
+import { ConfidenceLevel, describeConfidence } from '../services/Confidence';
+import { PriceTrends } from '../services/PriceTrends';
+import { PriceFreshness } from '../services/PriceFreshness';
+import { Sparkline } from './Sparkline';
 
 interface CraftingItemProps {
   craftingProfit: CraftingProfit;
   densityLevel: number;
   priceHistory?: Map<number, PriceHistoryEntry[]> | null;
+  liquidity?: Map<number, LiquidityScore> | null;
+  marginTrend?: MarginTrend | null;
+  // the recipe is on the watchlist alerted when it turns unprofitable
+  isWatched?: boolean;
+  onToggleWatch?: () => void;
   onShowItemDetails?: (item: Item) => void;
 }
 
+const SALE_SOURCE_LABELS: Partial<Record<PriceSource, string>> = {
+  auctionator: 'Auctionator',
+  vendorSell: 'Vendor sell',
+  custom: 'Custom'
+};
+
+const describeStatistic = (statistic: PriceStatistic, sampleSize: number) =>
+  statistic === 'latest'
+    ? PRICE_STATISTIC_LABELS.latest
+    : `${PRICE_STATISTIC_LABELS[statistic]} of ${sampleSize} ${sampleSize === 1 ? 'scan' : 'scans'}`;
+
+const LEVEL_BADGE_COLORS: Record<LiquidityLevel | ConfidenceLevel, string> = {
+  High: 'bg-green-900/40 text-green-300',
+  Medium: 'bg-yellow-900/40 text-yellow-300',
+  Low: 'bg-red-900/40 text-red-300'
+};
+
+const describeLiquidityDetails = ({ daysSeen, daysScanned, listings }: LiquidityScore) =>
+  `Listed on ${daysSeen} of ${daysScanned} recent scan days` +
+  (listings !== null ? `, ${listings} on the market at the last scan` : '');
+
+const formatChange = (change: number | null) =>
+  change === null ? '—' : `${change > 0 ? '+' : ''}${change.toFixed(1)}%`;
+
+// rising prices help a crafted item and hurt a reagent
+const getChangeColor = (change: number | null, risingIsGood: boolean) => {
+  if (change === null || Math.abs(change) < 0.05) return 'text-gray-400';
+  return (change > 0) === risingIsGood ? 'text-green-400' : 'text-red-400';
+};
+
+const PriceTrendLine: React.FC<{
+  trend: PriceTrend;
+  risingIsGood: boolean;
+  className?: string;
+}> = ({ trend, risingIsGood, className = '' }) => (
+  <div
+    className={`inline-flex flex-wrap items-center gap-2 text-[10px] text-gray-500 ${className}`}
+    title={`${trend.points.length} ${trend.points.length === 1 ? 'price' : 'prices'} over the last two weeks`}
+  >
+    <Sparkline
+      points={trend.points}
+      className={getChangeColor(trend.change7d ?? trend.change24h, risingIsGood)}
+    />
+    <span>
+      24h <span className={getChangeColor(trend.change24h, risingIsGood)}>{formatChange(trend.change24h)}</span>
+    </span>
+    <span>
+      7d <span className={getChangeColor(trend.change7d, risingIsGood)}>{formatChange(trend.change7d)}</span>
+    </span>
+    {trend.volatility !== null && <span>Volatility {trend.volatility.toFixed(1)}%</span>}
+  </div>
+);
+
 const resolveDensityClass = <T,>(values: T[], level: number): T => {
   const index = Math.min(Math.max(Math.round(level), 0), values.length - 1);
   return values[index];
@@ -59,13 +135,68 @@ const getQualityColor = (quality: string) => {
   }
 };
 
+const CraftedCostTree: React.FC<{
+  breakdown: CraftedCostBreakdown;
+  currencySize: CurrencySize;
+}> = ({ breakdown, currencySize }) => (
+  <div className="mt-2 ml-3 pl-3 border-l border-[#2c2d34] space-y-1">
+    <div className="text-[11px] text-purple-300 inline-flex items-center gap-1">
+      <Hammer className="h-3 w-3" />
+      <span>
+        {breakdown.recipeName}
+        {breakdown.outputCount > 1 ? ` (makes ${breakdown.outputCount})` : ''}
+      </span>
+    </div>
+    {breakdown.materialCosts.map((materialCost) => {
+      const material = breakdown.materials[materialCost.index];
+      return (
+        <div key={`${material.item.id}-${materialCost.index}`}>
+          <div className="flex items-center justify-between gap-2 text-[11px] text-gray-300">
+            <span className="inline-flex items-center gap-1">
+              <span className="text-gray-400">{materialCost.quantity}x</span>
+              <WowheadLink
+                id={material.item.id}
+                type="item"
+                name={material.item.name}
+                icon={material.item.icon}
+                anchorClassName="inline-flex"
+              >
+                <span>{material.item.name}</span>
+              </WowheadLink>
+              {materialCost.source === 'vendor' && (
+                <span className="text-blue-400 text-[10px] font-medium">(Vendor)</span>
+              )}
+              {materialCost.source === 'crafted' && (
+                <span className="text-purple-400 text-[10px] font-medium">(Crafted)</span>
+              )}
+            </span>
+            <CurrencyAmount
+              amount={(materialCost.unitPrice ?? 0) * materialCost.quantity}
+              size={currencySize}
+              className="text-gray-400"
+            />
+          </div>
+          {materialCost.crafted && (
+            <CraftedCostTree breakdown={materialCost.crafted} currencySize={currencySize} />
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
 export const CraftingItem: React.FC<CraftingItemProps> = ({
   craftingProfit,
   densityLevel,
   priceHistory,
+  liquidity,
+  marginTrend,
+  isWatched = false,
+  onToggleWatch,
   onShowItemDetails
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [expandedCrafts, setExpandedCrafts] = useState<Record<number, boolean>>({});
   const {
     recipe,
     totalCost,
@@ -75,8 +206,13 @@ export const CraftingItem: React.FC<CraftingItemProps> = ({
     materialCosts,
     hasMissingPrices,
     sellPriceSource,
+    resultPriceEstimate,
     resultUnitPrice,
-    isCalculable
+    isCalculable,
+    fees,
+    netSellPrice,
+    grossProfit,
+    confidence
   } = craftingProfit;
 
   const handleToggle = () => {
@@ -117,6 +253,23 @@ export const CraftingItem: React.FC<CraftingItemProps> = ({
   const showSkillBadge = densityLevel > 1;
   const showOutputQuantity = densityLevel > 1;
   const showUnitBreakdown = densityLevel > 0;
+  const resultLiquidity = liquidity?.get(recipe.resultItem.id) ?? null;
+  const priceTrends = useMemo(() => {
+    const trends = new Map<number, PriceTrend>();
+    if (!priceHistory) {
+      return trends;
+    }
+
+    [recipe.resultItem, ...recipe.materials.map((material) => material.item)].forEach((item) => {
+      const entries = priceHistory.get(item.id);
+      const trend = entries ? PriceTrends.buildTrend(entries) : null;
+      if (trend) {
+        trends.set(item.id, trend);
+      }
+    });
+    return trends;
+  }, [priceHistory, recipe.resultItem, recipe.materials]);
+  const resultTrend = priceTrends.get(recipe.resultItem.id) ?? null;
   const resultHistory = useMemo(() => {
     if (!priceHistory) {
       return [] as PriceHistoryEntry[];
@@ -192,12 +345,51 @@ export const CraftingItem: React.FC<CraftingItemProps> = ({
                       <Info className="h-4 w-4" />
                     </button>
                   )}
+                  {onToggleWatch && (
+                    <button
+                      type="button"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        onToggleWatch();
+                      }}
+                      className={`inline-flex items-center justify-center rounded-md border transition-colors duration-150 h-7 w-7 ${
+                        isWatched
+                          ? 'border-wow-gold/60 bg-yellow-900/30 text-wow-gold hover:bg-yellow-900/50'
+                          : 'border-[#2c2d34] bg-[#1a1b21]/80 text-gray-300 hover:text-white hover:bg-[#22232a]/90'
+                      }`}
+                      aria-pressed={isWatched}
+                      aria-label={isWatched ? `Stop watching ${recipe.name}` : `Watch ${recipe.name}`}
+                      title={
+                        isWatched
+                          ? 'Watched: an alert fires when this recipe turns unprofitable'
+                          : 'Watch this recipe and get an alert when it turns unprofitable'
+                      }
+                    >
+                      {isWatched ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                    </button>
+                  )}
                 </div>
                 {showExtendedMeta && (
                   <span className={`${badgePadding} bg-[#1b1c22]/80 text-gray-300 ${badgeTextSize} rounded`}>
                     {recipe.category}
                   </span>
                 )}
+                {resultLiquidity && (
+                  <span
+                    className={`${badgePadding} ${LEVEL_BADGE_COLORS[describeLiquidity(resultLiquidity.score)]} ${badgeTextSize} rounded`}
+                    title={describeLiquidityDetails(resultLiquidity)}
+                  >
+                    {describeLiquidity(resultLiquidity.score)} liquidity ({resultLiquidity.score})
+                  </span>
+                )}
+                {isCalculable && (
+                  <span
+                    className={`${badgePadding} ${LEVEL_BADGE_COLORS[describeConfidence(confidence.score)]} ${badgeTextSize} rounded`}
+                    title={confidence.reasons.join('\n')}
+                  >
+                    {describeConfidence(confidence.score)} confidence ({confidence.score})
+                  </span>
+                )}
                 {showSkillBadge && (
                   <span className={`${badgePadding} bg-[#1f2027]/80 text-gray-200 ${badgeTextSize} rounded`}>
                     Skill level: {recipe.skillLevel}
@@ -208,6 +400,7 @@ export const CraftingItem: React.FC<CraftingItemProps> = ({
                 <span className={getQualityColor(recipe.resultItem.quality)}>{recipe.resultItem.quality}</span>
                 {showExtendedMeta && <span>iLvl {recipe.resultItem.itemLevel}</span>}
                 {/* Output quantity removed as it is now shown in icon and title */}
+                {resultTrend && <PriceTrendLine trend={resultTrend} risingIsGood />}
               </div>
             </div>
           </div>
@@ -228,7 +421,7 @@ export const CraftingItem: React.FC<CraftingItemProps> = ({
             </div>
             <div className="text-right min-w-[8.5rem]">
               <div className={`${labelTextSize} text-gray-400`}>Expected sale price</div>
-              {sellPriceSource === 'auctionator' && resultUnitPrice !== null ? (
+              {resultUnitPrice !== null ? (
                 <>
                   <div>
                     <CurrencyAmount
@@ -244,12 +437,26 @@ export const CraftingItem: React.FC<CraftingItemProps> = ({
                         size={currencySize}
                         className="text-gray-400"
                       />
-                      <span>each (Auctionator)</span>
+                      <span
+                        title={
+                          resultPriceEstimate
+                            ? describeStatistic(resultPriceEstimate.statistic, resultPriceEstimate.sampleSize)
+                            : undefined
+                        }
+                      >
+                        each ({SALE_SOURCE_LABELS[sellPriceSource] ?? 'Auctionator'})
+                      </span>
+                      {resultPriceEstimate && (
+                        <span className={resultPriceEstimate.isStale ? 'text-yellow-300' : undefined}>
+                          · {PriceFreshness.formatAge(resultPriceEstimate.updatedAt)}
+                          {resultPriceEstimate.isStale ? ', stale' : ''}
+                        </span>
+                      )}
                     </div>
                   )}
                 </>
               ) : (
-                <div className="text-[10px] text-yellow-300 mt-1">Not enough auction data</div>
+                <div className="text-[10px] text-yellow-300 mt-1">No sale price available</div>
               )}
             </div>
             <div className="text-right min-w-[8.5rem]">
@@ -305,102 +512,174 @@ export const CraftingItem: React.FC<CraftingItemProps> = ({
                     ? (materialCost.unitPrice ?? 0) * materialCost.quantity
                     : null;
                   const unitPriceValue = materialCost.unitPrice ?? 0;
+                  const materialLiquidity = liquidity?.get(recipeMaterial.item.id) ?? null;
+                  const materialTrend = priceTrends.get(recipeMaterial.item.id) ?? null;
 
                   return (
                     <div
                       key={`${recipeMaterial.item.id}-${materialCost.index}`}
-                      className={`flex items-center justify-between bg-[#111216]/85 rounded-lg ${materialPadding}`}
+                      className={`bg-[#111216]/85 rounded-lg ${materialPadding}`}
                     >
-                      <div className="flex items-center space-x-3">
-                        <WowheadLink
-                          id={recipeMaterial.item.id}
-                          type="item"
-                          name={recipeMaterial.item.name}
-                          icon={recipeMaterial.item.icon}
-                          anchorClassName="inline-flex"
-                        >
-                          <img
-                            src={recipeMaterial.item.icon}
-                            alt={recipeMaterial.item.name}
-                            className={`${materialIconSize} rounded border border-[#2c2d34]`}
-                            onError={(e) => {
-                              (e.target as HTMLImageElement).src =
-                                'https://wow.zamimg.com/images/wow/icons/large/inv_misc_questionmark.jpg';
-                            }}
-                          />
-                        </WowheadLink>
-                        <div>
-                          <div className="text-white font-medium">{recipeMaterial.item.name}</div>
-                          <div className={`${materialTextSize} ${getQualityColor(recipeMaterial.item.quality)}`}>
-                            {recipeMaterial.item.quality}
-                          </div>
-                        </div>
-                        {onShowItemDetails && (
-                          <button
-                            type="button"
-                            onClick={(event) => {
-                              event.stopPropagation();
-                              onShowItemDetails(recipeMaterial.item);
-                            }}
-                            className="inline-flex items-center justify-center rounded-md border border-[#2c2d34] bg-[#1a1b21]/80 text-gray-300 hover:text-white hover:bg-[#22232a]/90 transition-colors duration-150 h-6 w-6"
-                            aria-label={`View details for ${recipeMaterial.item.name}`}
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          <WowheadLink
+                            id={recipeMaterial.item.id}
+                            type="item"
+                            name={recipeMaterial.item.name}
+                            icon={recipeMaterial.item.icon}
+                            anchorClassName="inline-flex"
                           >
-                            <Info className="h-3.5 w-3.5" />
-                          </button>
-                        )}
-                      </div>
-                      <div className="text-right">
-                        <div className={`${valueTextSize} text-white font-medium`}>
-                          {materialCost.quantity}x
+                            <img
+                              src={recipeMaterial.item.icon}
+                              alt={recipeMaterial.item.name}
+                              className={`${materialIconSize} rounded border border-[#2c2d34]`}
+                              onError={(e) => {
+                                (e.target as HTMLImageElement).src =
+                                  'https://wow.zamimg.com/images/wow/icons/large/inv_misc_questionmark.jpg';
+                              }}
+                            />
+                          </WowheadLink>
+                          <div>
+                            <div className="text-white font-medium">{recipeMaterial.item.name}</div>
+                            <div className={`${materialTextSize} ${getQualityColor(recipeMaterial.item.quality)}`}>
+                              {recipeMaterial.item.quality}
+                            </div>
+                            {materialLiquidity && (
+                              <div
+                                className="text-[10px] text-gray-500"
+                                title={describeLiquidityDetails(materialLiquidity)}
+                              >
+                                {describeLiquidity(materialLiquidity.score)} liquidity ({materialLiquidity.score})
+                              </div>
+                            )}
+                            {materialTrend && (
+                              <PriceTrendLine trend={materialTrend} risingIsGood={false} className="mt-0.5" />
+                            )}
+                          </div>
+                          {onShowItemDetails && (
+                            <button
+                              type="button"
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                onShowItemDetails(recipeMaterial.item);
+                              }}
+                              className="inline-flex items-center justify-center rounded-md border border-[#2c2d34] bg-[#1a1b21]/80 text-gray-300 hover:text-white hover:bg-[#22232a]/90 transition-colors duration-150 h-6 w-6"
+                              aria-label={`View details for ${recipeMaterial.item.name}`}
+                            >
+                              <Info className="h-3.5 w-3.5" />
+                            </button>
+                          )}
                         </div>
-                        {hasPriceData ? (
-                          <div className="flex flex-col items-end gap-1">
-                            {showUnitBreakdown && (
-                              <div className="flex flex-col items-end">
-                                <div className="text-[11px] text-gray-400 inline-flex items-center gap-1">
+                        <div className="text-right">
+                          <div className={`${valueTextSize} text-white font-medium`}>
+                            {materialCost.quantity}x
+                          </div>
+                          {hasPriceData ? (
+                            <div className="flex flex-col items-end gap-1">
+                              {showUnitBreakdown && (
+                                <div className="flex flex-col items-end">
+                                  <div className="text-[11px] text-gray-400 inline-flex items-center gap-1">
+                                    <CurrencyAmount
+                                      amount={unitPriceValue}
+                                      size={currencySize}
+                                      className="text-gray-400"
+                                    />
+                                    <span>each</span>
+                                    {materialCost.source === 'vendor' && (
+                                      <span className="text-blue-400 text-[10px] ml-1 font-medium">
+                                        (Vendor)
+                                      </span>
+                                    )}
+                                    {materialCost.source === 'crafted' && (
+                                      <span className="text-purple-400 text-[10px] ml-1 font-medium">
+                                        (Crafted)
+                                      </span>
+                                    )}
+                                  </div>
+                                  {materialCost.source === 'auctionator' && materialCost.priceStatistic ? (
+                                    <div className="text-[10px] text-gray-500">
+                                      {describeStatistic(
+                                        materialCost.priceStatistic,
+                                        materialCost.sampleSize ?? 0
+                                      )}
+                                      {materialCost.priceUpdatedAt && (
+                                        <span className={materialCost.isPriceStale ? 'text-yellow-300' : undefined}>
+                                          {' '}
+                                          · {PriceFreshness.formatAge(materialCost.priceUpdatedAt)}
+                                          {materialCost.isPriceStale ? ', stale' : ''}
+                                        </span>
+                                      )}
+                                    </div>
+                                  ) : null}
+                                  {materialCost.source === 'crafted' && materialCost.buyPrice ? (
+                                    <div className="text-[10px] text-gray-500 inline-flex items-center gap-1">
+                                      <span>Buy:</span>
+                                      <CurrencyAmount
+                                        amount={materialCost.buyPrice}
+                                        size={currencySize}
+                                        className="text-gray-500"
+                                      />
+                                    </div>
+                                  ) : null}
+                                  {materialCost.source === 'auctionator' && materialCost.vendorPrice ? (
+                                    <div className="text-[10px] text-gray-500 inline-flex items-center gap-1">
+                                      <span>Vendor:</span>
+                                      <CurrencyAmount
+                                        amount={materialCost.vendorPrice}
+                                        size={currencySize}
+                                        className="text-gray-500"
+                                      />
+                                    </div>
+                                  ) : null}
+                                  {materialCost.source === 'vendor' && materialCost.auctionPrice ? (
+                                    <div className="text-[10px] text-gray-500 inline-flex items-center gap-1">
+                                      <span>AH:</span>
+                                      <CurrencyAmount
+                                        amount={materialCost.auctionPrice}
+                                        size={currencySize}
+                                        className="text-gray-500"
+                                      />
+                                    </div>
+                                  ) : null}
+                                </div>
+                              )}
+                              {totalMaterialCost !== null && (
+                                <div className="flex items-center justify-end gap-1">
                                   <CurrencyAmount
-                                    amount={unitPriceValue}
+                                    amount={totalMaterialCost}
                                     size={currencySize}
-                                    className="text-gray-400"
+                                    className="text-[11px] text-gray-300"
                                   />
-                                  <span>each</span>
-                                  {materialCost.source === 'vendor' && (
-                                    <span className="text-blue-400 text-[10px] ml-1 font-medium">
+                                  {!showUnitBreakdown && materialCost.source === 'vendor' && (
+                                    <span className="text-blue-400 text-[10px] font-medium">
                                       (Vendor)
                                     </span>
                                   )}
                                 </div>
-                                {materialCost.source === 'vendor' && materialCost.auctionPrice ? (
-                                  <div className="text-[10px] text-gray-500 inline-flex items-center gap-1">
-                                    <span>AH:</span>
-                                    <CurrencyAmount
-                                      amount={materialCost.auctionPrice}
-                                      size={currencySize}
-                                      className="text-gray-500"
-                                    />
-                                  </div>
-                                ) : null}
-                              </div>
-                            )}
-                            {totalMaterialCost !== null && (
-                              <div className="flex items-center justify-end gap-1">
-                                <CurrencyAmount
-                                  amount={totalMaterialCost}
-                                  size={currencySize}
-                                  className="text-[11px] text-gray-300"
-                                />
-                                {!showUnitBreakdown && materialCost.source === 'vendor' && (
-                                  <span className="text-blue-400 text-[10px] font-medium">
-                                    (Vendor)
-                                  </span>
-                                )}
-                              </div>
-                            )}
-                          </div>
-                        ) : (
-                          <div className="text-[11px] text-yellow-300">No auction data</div>
-                        )}
+                              )}
+                            </div>
+                          ) : (
+                            <div className="text-[11px] text-yellow-300">No auction data</div>
+                          )}
+                          {materialCost.crafted && (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setExpandedCrafts((prev) => ({
+                                  ...prev,
+                                  [materialCost.index]: !prev[materialCost.index]
+                                }))
+                              }
+                              className="mt-1 text-[10px] text-purple-300 hover:text-purple-200 transition-colors"
+                            >
+                              {expandedCrafts[materialCost.index] ? 'Hide crafting tree' : 'Show crafting tree'}
+                            </button>
+                          )}
+                        </div>
                       </div>
+                      {materialCost.crafted && expandedCrafts[materialCost.index] && (
+                        <CraftedCostTree breakdown={materialCost.crafted} currencySize={currencySize} />
+                      )}
                     </div>
                   );
                 })}
@@ -430,7 +709,7 @@ export const CraftingItem: React.FC<CraftingItemProps> = ({
                     </div>
                     <div>
                       <div className={`${labelTextSize} text-gray-400`}>Expected sale price</div>
-                      {sellPriceSource === 'auctionator' && resultUnitPrice !== null ? (
+                      {resultUnitPrice !== null ? (
                         <CurrencyAmount
                           amount={sellPrice}
                           size={currencySize}
@@ -438,7 +717,7 @@ export const CraftingItem: React.FC<CraftingItemProps> = ({
                         />
                       ) : (
                         <div className="text-[10px] text-yellow-300 mt-1">
-                          Not enough auction data
+                          No sale price available
                         </div>
                       )}
                     </div>
@@ -469,6 +748,48 @@ export const CraftingItem: React.FC<CraftingItemProps> = ({
                   </div>
                 </div>
 
+                {(sellPriceSource === 'auctionator' || sellPriceSource === 'custom') &&
+                  resultUnitPrice !== null && (
+                  <div className={`bg-[#111216]/85 rounded-lg ${sectionPadding}`}>
+                    <div className="text-sm text-gray-400 mb-2">Auction house fees</div>
+                    <div className="space-y-1 text-[11px] text-gray-300">
+                      <div className="flex items-center justify-between">
+                        <span>Auction house cut</span>
+                        <CurrencyAmount amount={-fees.auctionCut} size={currencySize} showSign />
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span>
+                          Deposits lost on relists
+                          {fees.depositPerListing > 0 && (
+                            <span className="text-gray-500 ml-1 inline-flex items-center gap-1">
+                              (<CurrencyAmount amount={fees.depositPerListing} size={currencySize} /> per listing)
+                            </span>
+                          )}
+                          {!fees.isDepositKnown && (
+                            <span
+                              className="text-yellow-300 ml-1"
+                              title="The deposit is worked out from the vendor sell price, which is not in the game data"
+                            >
+                              (unknown, counted as 0)
+                            </span>
+                          )}
+                        </span>
+                        <CurrencyAmount amount={-fees.depositLoss} size={currencySize} showSign />
+                      </div>
+                      <div className="flex items-center justify-between border-t border-[#24252b] pt-1">
+                        <span className="text-gray-400">Net sale proceeds</span>
+                        <CurrencyAmount amount={netSellPrice} size={currencySize} className="text-white" />
+                      </div>
+                      {isCalculable && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-gray-400">Profit before fees</span>
+                          <CurrencyAmount amount={grossProfit} size={currencySize} showSign />
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 <div className={`bg-[#111216]/85 rounded-lg ${sectionPadding}`}>
                   <div className="text-sm text-gray-400 mb-2">Insight</div>
                   {isCalculable ? (
@@ -492,6 +813,35 @@ export const CraftingItem: React.FC<CraftingItemProps> = ({
                   )}
                 </div>
 
+                {marginTrend && (
+                  <div className={`bg-[#111216]/85 rounded-lg ${sectionPadding}`}>
+                    <div className="text-sm text-gray-400 mb-2">Margin trend</div>
+                    <Sparkline
+                      points={marginTrend.points}
+                      width={160}
+                      height={32}
+                      className={getProfitColor(marginTrend.change)}
+                    />
+                    <div className="mt-2 space-y-1 text-[11px] text-gray-300">
+                      <div className="flex items-center justify-between">
+                        <span>Change over {marginTrend.points.length} days</span>
+                        <CurrencyAmount
+                          amount={marginTrend.change}
+                          size={currencySize}
+                          className={getProfitColor(marginTrend.change)}
+                          showSign
+                        />
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span title="Spread of the daily margin relative to the average sale value">
+                          Margin volatility
+                        </span>
+                        <span>{marginTrend.volatility.toFixed(1)}%</span>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 <div className={`bg-[#111216]/85 rounded-lg ${sectionPadding}`}>
                   <div className="text-sm text-gray-400 mb-2">Price history</div>
                   {resultHistory.length > 0 ? (
@@ -1,6 +1,16 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Search } from 'lucide-react';
-import { CraftingProfit, Profession, Item } from '../types';
+import {
+  CalculationSettings,
+  CraftingProfit,
+  Profession,
+  Item,
+  ItemPriceOverride,
+  PriceAlertRule,
+  PriceEstimate,
+  ProfitSortOption,
+  Recipe
+} from '../types';
 import { ProfitCalculator } from '../services/ProfitCalculator';
 import { useProfessionRecipes } from '../hooks/useProfessionRecipes';
 import { CraftingItem } from './CraftingItem';
@@ -9,16 +19,25 @@ import { LoadingSpinner } from './LoadingSpinner';
 import { ItemDetailsModal } from './ItemDetailsModal';
 import { PriceHistoryEntry } from '../services/AuctionatorDataService';
 import { ItemNameResolver } from '../services/ItemNameResolver';
+import { setItemPriceOverride } from '../services/CalculationSettings';
+import { Liquidity, LIQUIDITY_FILTER_LEVELS } from '../services/Liquidity';
+import { CONFIDENCE_FILTER_LEVELS } from '../services/Confidence';
+import { PriceTrends } from '../services/PriceTrends';
 
-type SortOption = 'profit' | 'profitPercent' | 'name' | 'cost';
 type FilterOption = 'all' | 'profitable' | 'unprofitable';
 
 interface CraftingListProps {
   profession: Profession;
   isRefreshing: boolean;
   priceMap: Map<number, number> | null;
+  priceEstimates: Map<number, PriceEstimate> | null;
   priceHistory: Map<number, PriceHistoryEntry[]> | null;
   hasPriceData: boolean;
+  calculationSettings: CalculationSettings;
+  onCalculationSettingsChange: (settings: CalculationSettings) => void;
+  watchedRecipeIds?: Set<number>;
+  onToggleWatch?: (recipe: Recipe) => void;
+  onAddAlertRule?: (rule: PriceAlertRule) => void;
 }
 
 interface SelectedItemDetails {
@@ -32,14 +51,22 @@ export const CraftingList: React.FC<CraftingListProps> = ({
   profession,
   isRefreshing,
   priceMap,
+  priceEstimates,
   priceHistory,
-  hasPriceData
+  hasPriceData,
+  calculationSettings,
+  onCalculationSettingsChange,
+  watchedRecipeIds,
+  onToggleWatch,
+  onAddAlertRule
 }) => {
   const { recipes, isLoading: recipesLoading, error } = useProfessionRecipes(profession);
   const [craftingProfits, setCraftingProfits] = useState<CraftingProfit[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState<SortOption>('profit');
+  const [sortBy, setSortBy] = useState<ProfitSortOption>('profit');
   const [filterBy, setFilterBy] = useState<FilterOption>('all');
+  const [minLiquidity, setMinLiquidity] = useState<number>(0);
+  const [minConfidence, setMinConfidence] = useState<number>(0);
   const [minSkillInput, setMinSkillInput] = useState<string>('');
   const [maxSkillInput, setMaxSkillInput] = useState<string>('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
@@ -47,6 +74,16 @@ export const CraftingList: React.FC<CraftingListProps> = ({
   const [selectedItem, setSelectedItem] = useState<SelectedItemDetails | null>(null);
 
   const isLoading = isRefreshing || recipesLoading;
+  const liquidity = useMemo(
+    () => (priceHistory ? Liquidity.buildScores(priceHistory) : null),
+    [priceHistory]
+  );
+
+  const marginTrends = useMemo(
+    () => (priceHistory ? PriceTrends.buildMarginTrends(craftingProfits, priceHistory) : null),
+    [craftingProfits, priceHistory]
+  );
+
   const resultMap = useMemo(() => {
     const map = new Map<number, CraftingProfit>();
     craftingProfits.forEach((profit) => {
@@ -90,6 +127,16 @@ export const CraftingList: React.FC<CraftingListProps> = ({
 
   const handleCloseItemDetails = useCallback(() => setSelectedItem(null), []);
 
+  const handlePriceOverrideChange = useCallback(
+    (itemId: number, override: ItemPriceOverride | null) => {
+      onCalculationSettingsChange({
+        ...calculationSettings,
+        pricingPolicy: setItemPriceOverride(calculationSettings.pricingPolicy, itemId, override)
+      });
+    },
+    [calculationSettings, onCalculationSettingsChange]
+  );
+
   const handleApplyLichKingRange = useCallback(() => {
     setMinSkillInput('376');
     setMaxSkillInput(String(profession.maxLevel));
@@ -110,7 +157,12 @@ export const CraftingList: React.FC<CraftingListProps> = ({
       }
 
       const profits = await ProfitCalculator.calculateProfitsForRecipes(recipes, {
-        priceMap
+        priceMap,
+        priceEstimates,
+        auctionFees: calculationSettings.auctionFees,
+        costingMode: calculationSettings.costingMode,
+        pricingPolicy: calculationSettings.pricingPolicy,
+        freshnessDays: calculationSettings.priceStatistics.freshnessDays
       });
       if (!isCancelled) {
         setCraftingProfits(profits);
@@ -122,7 +174,7 @@ export const CraftingList: React.FC<CraftingListProps> = ({
     return () => {
       isCancelled = true;
     };
-  }, [recipes, priceMap]);
+  }, [recipes, priceMap, priceEstimates, calculationSettings]);
 
   useEffect(() => {
     const unsubscribe = ItemNameResolver.addListener(({ id, name }) => {
@@ -203,29 +255,23 @@ export const CraftingList: React.FC<CraftingListProps> = ({
         matchesSkillRange = false;
       }
 
-      return matchesSearch && matchesCategory && matchesFilter && matchesSkillRange;
-    });
+      const matchesLiquidity =
+        minLiquidity === 0 ||
+        (liquidity?.get(profit.recipe.resultItem.id)?.score ?? 0) >= minLiquidity;
 
-    return filtered.sort((a, b) => {
-      switch (sortBy) {
-        case 'profit':
-          if (a.isCalculable !== b.isCalculable) {
-            return a.isCalculable ? -1 : 1;
-          }
-          return b.profit - a.profit;
-        case 'profitPercent':
-          if (a.isCalculable !== b.isCalculable) {
-            return a.isCalculable ? -1 : 1;
-          }
-          return b.profitPercentage - a.profitPercentage;
-        case 'name':
-          return a.recipe.name.localeCompare(b.recipe.name);
-        case 'cost':
-          return a.totalCost - b.totalCost;
-        default:
-          return 0;
-      }
+      const matchesConfidence = profit.confidence.score >= minConfidence;
+
+      return (
+        matchesSearch &&
+        matchesCategory &&
+        matchesFilter &&
+        matchesSkillRange &&
+        matchesLiquidity &&
+        matchesConfidence
+      );
     });
+
+    return ProfitCalculator.sortProfits(filtered, sortBy, liquidity, marginTrends);
   }, [
     craftingProfits,
     searchTerm,
@@ -233,7 +279,11 @@ export const CraftingList: React.FC<CraftingListProps> = ({
     filterBy,
     sortBy,
     minSkillInput,
-    maxSkillInput
+    maxSkillInput,
+    minLiquidity,
+    minConfidence,
+    liquidity,
+    marginTrends
   ]);
 
   if (isLoading) {
@@ -309,13 +359,40 @@ export const CraftingList: React.FC<CraftingListProps> = ({
               <div className="relative">
                 <select
                   value={sortBy}
-                  onChange={(event) => setSortBy(event.target.value as SortOption)}
+                  onChange={(event) => setSortBy(event.target.value as ProfitSortOption)}
                   className="w-full px-4 py-2 bg-[#18191f]/80 border border-[#2e3036] rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-wow-blue focus:border-transparent appearance-none cursor-pointer"
                 >
                   <option value="profit">Sort by profit</option>
                   <option value="profitPercent">Sort by profit %</option>
                   <option value="name">Sort by name</option>
                   <option value="cost">Sort by material cost</option>
+                  <option value="liquidity">Sort by liquidity</option>
+                  <option value="liquidityProfit">Sort by profit × liquidity</option>
+                  <option value="marginIncrease">Sort by biggest margin increase</option>
+                  <option value="marginStability">Sort by most stable margin</option>
+                  <option value="confidence">Sort by confidence</option>
+                </select>
+                <select
+                  value={minLiquidity}
+                  onChange={(event) => setMinLiquidity(Number(event.target.value))}
+                  className="mt-2 w-full px-4 py-2 bg-[#18191f]/80 border border-[#2e3036] rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-wow-blue focus:border-transparent appearance-none cursor-pointer"
+                >
+                  {LIQUIDITY_FILTER_LEVELS.map((level) => (
+                    <option key={level.minScore} value={level.minScore}>
+                      {level.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={minConfidence}
+                  onChange={(event) => setMinConfidence(Number(event.target.value))}
+                  className="mt-2 w-full px-4 py-2 bg-[#18191f]/80 border border-[#2e3036] rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-wow-blue focus:border-transparent appearance-none cursor-pointer"
+                >
+                  {CONFIDENCE_FILTER_LEVELS.map((level) => (
+                    <option key={level.minScore} value={level.minScore}>
+                      {level.label}
+                    </option>
+                  ))}
                 </select>
               </div>
 
@@ -444,6 +521,10 @@ export const CraftingList: React.FC<CraftingListProps> = ({
                 craftingProfit={craftingProfit}
                 densityLevel={densityLevel}
                 priceHistory={priceHistory}
+                liquidity={liquidity}
+                marginTrend={marginTrends?.get(craftingProfit.recipe.id) ?? null}
+                isWatched={watchedRecipeIds?.has(craftingProfit.recipe.id) ?? false}
+                onToggleWatch={onToggleWatch ? () => onToggleWatch(craftingProfit.recipe) : undefined}
                 onShowItemDetails={handleShowItemDetails}
               />
             ))
@@ -454,8 +535,13 @@ export const CraftingList: React.FC<CraftingListProps> = ({
         <ItemDetailsModal
           item={selectedItem.item}
           history={selectedItem.history}
-          asResult={selectedItem.asResult}
+          asResult={resultMap.get(selectedItem.item.id) ?? selectedItem.asResult}
           usedIn={selectedItem.usedIn}
+          priceOverride={calculationSettings.pricingPolicy.itemOverrides[selectedItem.item.id] ?? null}
+          onPriceOverrideChange={(override) =>
+            handlePriceOverrideChange(selectedItem.item.id, override)
+          }
+          onAddAlertRule={onAddAlertRule}
           onClose={handleCloseItemDetails}
         />
       )}
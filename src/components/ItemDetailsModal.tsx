@@ -1,7 +1,18 @@
-import React from 'react';
-import { X, Package, Target } from 'lucide-react';
-import { CraftingProfit, Item } from '../types';
+import React, { useEffect, useState } from 'react';
+import { X, Package, Target, SlidersHorizontal, BellPlus } from 'lucide-react';
+import {
+  AlertComparison,
+  CraftingProfit,
+  Item,
+  ItemPriceOverride,
+  PriceAlertRule,
+  PriceStatistic,
+  ReagentPriceRule,
+  ResultValueRule
+} from '../types';
 import { PriceHistoryEntry } from '../services/AuctionatorDataService';
+import { PRICE_STATISTICS, PRICE_STATISTIC_LABELS } from '../services/PriceStatistics';
+import { PriceAlerts } from '../services/PriceAlerts';
 import { CurrencyAmount } from './CurrencyAmount';
 import { WowheadLink } from './WowheadLink';
 
@@ -10,17 +21,87 @@ interface ItemDetailsModalProps {
   history: PriceHistoryEntry[];
   asResult: CraftingProfit | null;
   usedIn: CraftingProfit[];
+  priceOverride: ItemPriceOverride | null;
+  onPriceOverrideChange: (override: ItemPriceOverride | null) => void;
+  onAddAlertRule?: (rule: PriceAlertRule) => void;
   onClose: () => void;
 }
 
+const REAGENT_RULE_LABELS: Record<ReagentPriceRule, string> = {
+  cheapest: 'Cheapest of vendor and AH',
+  auctionOnly: 'Auction house only',
+  vendorOnly: 'Vendor only'
+};
+
+const RESULT_RULE_LABELS: Record<ResultValueRule, string> = {
+  auction: 'Auction house price',
+  vendorSell: 'Vendor sell price',
+  custom: 'Custom price'
+};
+
+const COPPER_PER_GOLD = 10000;
+
+const selectClassName =
+  'w-full px-3 py-2 bg-[#18191f]/80 border border-[#2e3036] rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-wow-blue focus:border-transparent';
+
 export const ItemDetailsModal: React.FC<ItemDetailsModalProps> = ({
   item,
   history,
   asResult,
   usedIn,
+  priceOverride,
+  onPriceOverrideChange,
+  onAddAlertRule,
   onClose
 }) => {
   const latestPrice = history.length > 0 ? history[0].price : null;
+  const [customGoldInput, setCustomGoldInput] = useState('');
+  const [priceAlertComparison, setPriceAlertComparison] = useState<AlertComparison>('below');
+  const [priceAlertGoldInput, setPriceAlertGoldInput] = useState('');
+  const [marginAlertComparison, setMarginAlertComparison] = useState<AlertComparison>('above');
+  const [marginAlertInput, setMarginAlertInput] = useState('');
+  const [addedAlert, setAddedAlert] = useState<string | null>(null);
+
+  useEffect(() => {
+    const customPrice = priceOverride?.customPrice;
+    setCustomGoldInput(customPrice !== undefined ? String(customPrice / COPPER_PER_GOLD) : '');
+  }, [priceOverride?.customPrice]);
+
+  const updateOverride = (patch: Partial<ItemPriceOverride>) => {
+    const next: ItemPriceOverride = { ...(priceOverride ?? {}), ...patch };
+    (Object.keys(next) as (keyof ItemPriceOverride)[]).forEach((key) => {
+      if (next[key] === undefined) {
+        delete next[key];
+      }
+    });
+    onPriceOverrideChange(Object.keys(next).length > 0 ? next : null);
+  };
+
+  const commitCustomPrice = () => {
+    const gold = Number(customGoldInput.replace(',', '.'));
+    const hasValue = customGoldInput.trim() !== '' && Number.isFinite(gold) && gold >= 0;
+    updateOverride({ customPrice: hasValue ? Math.round(gold * COPPER_PER_GOLD) : undefined });
+  };
+
+  const addPriceAlert = () => {
+    const gold = Number(priceAlertGoldInput.replace(',', '.'));
+    if (!onAddAlertRule || priceAlertGoldInput.trim() === '' || !Number.isFinite(gold) || gold < 0) {
+      return;
+    }
+    onAddAlertRule(PriceAlerts.createItemPriceRule(item, priceAlertComparison, gold * COPPER_PER_GOLD));
+    setPriceAlertGoldInput('');
+    setAddedAlert(`Alert added: ${item.name} ${priceAlertComparison} ${gold}g.`);
+  };
+
+  const addMarginAlert = () => {
+    const percent = Number(marginAlertInput.replace(',', '.'));
+    if (!onAddAlertRule || !asResult || marginAlertInput.trim() === '' || !Number.isFinite(percent)) {
+      return;
+    }
+    onAddAlertRule(PriceAlerts.createRecipeMarginRule(asResult.recipe, marginAlertComparison, percent));
+    setMarginAlertInput('');
+    setAddedAlert(`Alert added: ${asResult.recipe.name} margin ${marginAlertComparison} ${percent}%.`);
+  };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
@@ -68,7 +149,11 @@ export const ItemDetailsModal: React.FC<ItemDetailsModalProps> = ({
                     key={`item-history-${entry.importedAt}-${index}`}
                     className="flex items-center justify-between text-[13px] text-gray-300"
                   >
-                    <span>{new Date(entry.importedAt).toLocaleString()}</span>
+                    <span>
+                      {entry.aggregate
+                        ? `${entry.aggregate.period === 'day' ? 'Day' : 'Week'} of ${new Date(entry.importedAt).toLocaleDateString()} · median of ${entry.aggregate.count}`
+                        : new Date(entry.importedAt).toLocaleString()}
+                    </span>
                     <CurrencyAmount amount={entry.price} size="sm" />
                   </div>
                 ))}
@@ -131,6 +216,186 @@ export const ItemDetailsModal: React.FC<ItemDetailsModalProps> = ({
             )}
           </section>
 
+          <section className="lg:col-span-2 rounded-lg border border-[#2c2d34] bg-[#15161c] p-4">
+            <div className="mb-3 flex items-center gap-2 text-sm font-semibold text-gray-200">
+              <SlidersHorizontal className="h-4 w-4 text-wow-blue" /> Pricing override
+            </div>
+            <div className="grid gap-3 md:grid-cols-4">
+              <div>
+                <label htmlFor="item-override-reagent" className="block text-xs font-semibold text-gray-300 mb-1">
+                  As a reagent
+                </label>
+                <select
+                  id="item-override-reagent"
+                  value={priceOverride?.reagentRule ?? ''}
+                  onChange={(event) =>
+                    updateOverride({
+                      reagentRule: (event.target.value || undefined) as ReagentPriceRule | undefined
+                    })
+                  }
+                  className={selectClassName}
+                >
+                  <option value="">Use global setting</option>
+                  {(Object.keys(REAGENT_RULE_LABELS) as ReagentPriceRule[]).map((rule) => (
+                    <option key={rule} value={rule}>
+                      {REAGENT_RULE_LABELS[rule]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="item-override-result" className="block text-xs font-semibold text-gray-300 mb-1">
+                  As a crafted result
+                </label>
+                <select
+                  id="item-override-result"
+                  value={priceOverride?.resultRule ?? ''}
+                  onChange={(event) =>
+                    updateOverride({
+                      resultRule: (event.target.value || undefined) as ResultValueRule | undefined
+                    })
+                  }
+                  className={selectClassName}
+                >
+                  <option value="">Use global setting</option>
+                  {(Object.keys(RESULT_RULE_LABELS) as ResultValueRule[]).map((rule) => (
+                    <option key={rule} value={rule}>
+                      {RESULT_RULE_LABELS[rule]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="item-override-statistic" className="block text-xs font-semibold text-gray-300 mb-1">
+                  Auction price
+                </label>
+                <select
+                  id="item-override-statistic"
+                  value={priceOverride?.priceStatistic ?? ''}
+                  onChange={(event) =>
+                    updateOverride({
+                      priceStatistic: (event.target.value || undefined) as PriceStatistic | undefined
+                    })
+                  }
+                  className={selectClassName}
+                >
+                  <option value="">Use global setting</option>
+                  {PRICE_STATISTICS.map((statistic) => (
+                    <option key={statistic} value={statistic}>
+                      {PRICE_STATISTIC_LABELS[statistic]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="item-override-custom" className="block text-xs font-semibold text-gray-300 mb-1">
+                  Custom price (gold)
+                </label>
+                <input
+                  id="item-override-custom"
+                  type="number"
+                  min={0}
+                  step="0.0001"
+                  value={customGoldInput}
+                  onChange={(event) => setCustomGoldInput(event.target.value)}
+                  onBlur={commitCustomPrice}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') {
+                      commitCustomPrice();
+                    }
+                  }}
+                  placeholder="Not set"
+                  className={selectClassName}
+                />
+              </div>
+            </div>
+            <p className="mt-2 text-[11px] text-gray-400">
+              The custom price is used when the crafted result rule is set to a custom price. It is
+              treated as an auction listing, so the auction house fees still apply.
+            </p>
+          </section>
+
+          {onAddAlertRule && (
+            <section className="lg:col-span-2 rounded-lg border border-[#2c2d34] bg-[#15161c] p-4">
+              <div className="mb-3 flex items-center gap-2 text-sm font-semibold text-gray-200">
+                <BellPlus className="h-4 w-4 text-wow-gold" /> Price alerts
+              </div>
+              <div className="grid gap-3 md:grid-cols-2">
+                <div>
+                  <label htmlFor="item-alert-price" className="block text-xs font-semibold text-gray-300 mb-1">
+                    When the price is
+                  </label>
+                  <div className="flex gap-2">
+                    <select
+                      aria-label="Price comparison"
+                      value={priceAlertComparison}
+                      onChange={(event) => setPriceAlertComparison(event.target.value as AlertComparison)}
+                      className={selectClassName}
+                    >
+                      <option value="below">Below</option>
+                      <option value="above">Above</option>
+                    </select>
+                    <input
+                      id="item-alert-price"
+                      type="number"
+                      min={0}
+                      step="0.0001"
+                      value={priceAlertGoldInput}
+                      onChange={(event) => setPriceAlertGoldInput(event.target.value)}
+                      placeholder="Gold"
+                      className={selectClassName}
+                    />
+                    <button
+                      type="button"
+                      onClick={addPriceAlert}
+                      className="rounded-md border border-wow-blue/40 bg-wow-blue/20 px-3 py-1.5 text-sm text-wow-blue hover:bg-wow-blue/30"
+                    >
+                      Add
+                    </button>
+                  </div>
+                </div>
+                {asResult && (
+                  <div>
+                    <label htmlFor="item-alert-margin" className="block text-xs font-semibold text-gray-300 mb-1">
+                      When the margin of {asResult.recipe.name} is
+                    </label>
+                    <div className="flex gap-2">
+                      <select
+                        aria-label="Margin comparison"
+                        value={marginAlertComparison}
+                        onChange={(event) => setMarginAlertComparison(event.target.value as AlertComparison)}
+                        className={selectClassName}
+                      >
+                        <option value="above">Above</option>
+                        <option value="below">Below</option>
+                      </select>
+                      <input
+                        id="item-alert-margin"
+                        type="number"
+                        step="0.1"
+                        value={marginAlertInput}
+                        onChange={(event) => setMarginAlertInput(event.target.value)}
+                        placeholder="%"
+                        className={selectClassName}
+                      />
+                      <button
+                        type="button"
+                        onClick={addMarginAlert}
+                        className="rounded-md border border-wow-blue/40 bg-wow-blue/20 px-3 py-1.5 text-sm text-wow-blue hover:bg-wow-blue/30"
+                      >
+                        Add
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+              <p className="mt-2 text-[11px] text-gray-400">
+                {addedAlert ??
+                  'Rules are checked whenever new price data is imported. The margin is the profit as a percentage of the material cost.'}
+              </p>
+            </section>
+          )}
+
           <section className="lg:col-span-2 rounded-lg border border-[#2c2d34] bg-[#15161c] p-4">
             <div className="mb-3 flex items-center gap-2 text-sm font-semibold text-gray-200">
               <Package className="h-4 w-4 text-wow-gold" /> Used in recipes
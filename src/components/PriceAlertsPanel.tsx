@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Bell, ChevronDown, ChevronUp, Trash2, X } from 'lucide-react';
+import { PriceAlertNotification, PriceAlertRule } from '../types';
+import { describeAlertRule } from '../services/PriceAlerts';
+
+interface PriceAlertsPanelProps {
+  rules: PriceAlertRule[];
+  notifications: PriceAlertNotification[];
+  onDismiss: (notificationId: string) => void;
+  onDismissAll: () => void;
+  onRemoveRule: (ruleId: string) => void;
+}
+
+const formatTimestamp = (timestamp: string): string => {
+  try {
+    return new Date(timestamp).toLocaleString();
+  } catch {
+    return timestamp;
+  }
+};
+
+export const PriceAlertsPanel: React.FC<PriceAlertsPanelProps> = ({
+  rules,
+  notifications,
+  onDismiss,
+  onDismissAll,
+  onRemoveRule
+}) => {
+  const [showRules, setShowRules] = useState(false);
+
+  return (
+    <div className="bg-[#111216]/85 backdrop-blur-sm rounded-lg border border-[#24252b] p-4 space-y-3 text-xs text-gray-300">
+      <div className="flex items-center justify-between">
+        <span className="text-lg font-semibold text-white flex items-center gap-2">
+          <Bell className="h-5 w-5 text-wow-gold" aria-hidden />
+          Price alerts
+          {notifications.length > 0 && (
+            <span className="rounded-full bg-red-600 px-2 py-0.5 text-[11px] font-bold text-white">
+              {notifications.length}
+            </span>
+          )}
+        </span>
+        {notifications.length > 1 && (
+          <button
+            type="button"
+            onClick={onDismissAll}
+            className="text-[11px] text-gray-400 hover:text-white transition-colors"
+          >
+            Dismiss all
+          </button>
+        )}
+      </div>
+
+      {notifications.length === 0 ? (
+        <p className="text-gray-400">
+          {rules.length === 0
+            ? 'No alert rules yet. Add one from an item’s details or watch a recipe from its row.'
+            : 'No alerts have fired since the last dismissal.'}
+        </p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+          {notifications.map((notification) => (
+            <div
+              key={notification.id}
+              className="flex items-start justify-between gap-2 rounded border border-yellow-700/50 bg-yellow-900/20 px-2 py-1.5"
+            >
+              <div className="min-w-0">
+                <div className="text-yellow-100">{notification.message}</div>
+                <div className="text-[10px] text-gray-400">{formatTimestamp(notification.firedAt)}</div>
+              </div>
+              <button
+                type="button"
+                onClick={() => onDismiss(notification.id)}
+                className="text-gray-400 hover:text-white transition-colors"
+                aria-label="Dismiss alert"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {rules.length > 0 && (
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowRules((prev) => !prev)}
+            className="w-full flex items-center justify-between text-left font-semibold text-gray-300"
+          >
+            <span>Rules ({rules.length})</span>
+            {showRules ? (
+              <ChevronUp className="h-4 w-4 text-gray-400" />
+            ) : (
+              <ChevronDown className="h-4 w-4 text-gray-400" />
+            )}
+          </button>
+          {showRules && (
+            <div className="mt-2 space-y-1">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="flex items-center justify-between gap-2 rounded border border-[#2c2d34] bg-[#16171d]/85 px-2 py-1.5"
+                >
+                  <div className="min-w-0">
+                    <div className="text-white">{describeAlertRule(rule)}</div>
+                    {rule.type === 'watchlistUnprofitable' && (
+                      <div className="text-[10px] text-gray-400 truncate">
+                        {rule.recipes.map((recipe) => recipe.recipeName).join(', ')}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onRemoveRule(rule.id)}
+                    className="text-gray-400 hover:text-red-300 transition-colors"
+                    aria-label={`Delete rule: ${describeAlertRule(rule)}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
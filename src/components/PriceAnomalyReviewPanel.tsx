@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Ban, Check, ChevronDown, ChevronUp, Loader2, ShieldAlert } from 'lucide-react';
+import { AuctionatorDataService } from '../services/AuctionatorDataService';
+import { CraftingDataService } from '../services/CraftingDataService';
+import { PriceAnomalyReview } from '../services/PriceAnomalies';
+import { CurrencyAmount } from './CurrencyAmount';
+
+interface PriceAnomalyReviewPanelProps {
+  pending: PriceAnomalyReview[];
+  onReview: (review: PriceAnomalyReview, status: 'accepted' | 'rejected') => Promise<void>;
+}
+
+const MAX_REVIEW_ROWS = 50;
+
+const formatTimestamp = (timestamp: string): string => {
+  try {
+    return new Date(timestamp).toLocaleString();
+  } catch {
+    return timestamp;
+  }
+};
+
+const reviewKey = ({ realmKey, itemId, entry }: PriceAnomalyReview) =>
+  `${realmKey}-${itemId}-${entry.importedAt}-${entry.price}`;
+
+const describeRealm = (realmKey: string) => {
+  const { realm, faction } = AuctionatorDataService.parseRealmKey(realmKey);
+  return `${realm} (${faction})`;
+};
+
+export const PriceAnomalyReviewPanel: React.FC<PriceAnomalyReviewPanelProps> = ({
+  pending,
+  onReview
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [reviewingKey, setReviewingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReview = async (review: PriceAnomalyReview, status: 'accepted' | 'rejected') => {
+    setReviewingKey(reviewKey(review));
+    setError(null);
+    try {
+      await onReview(review, status);
+    } catch (reviewError) {
+      console.error('Failed to review suspicious price', reviewError);
+      setError('Failed to save the review. Please try again.');
+    } finally {
+      setReviewingKey(null);
+    }
+  };
+
+  return (
+    <div className="bg-[#111216]/85 backdrop-blur-sm rounded-lg border border-[#24252b] p-4">
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <span className="text-lg font-semibold text-white flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-yellow-400" aria-hidden />
+          Suspicious prices
+          {pending.length > 0 && (
+            <span className="rounded-full bg-yellow-600 px-2 py-0.5 text-[11px] font-bold text-white">
+              {pending.length}
+            </span>
+          )}
+        </span>
+        {isExpanded ? (
+          <ChevronUp className="h-4 w-4 text-gray-400" />
+        ) : (
+          <ChevronDown className="h-4 w-4 text-gray-400" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3 space-y-3 text-xs text-gray-300">
+          <p className="text-gray-400 leading-relaxed">
+            Scans far from an item&apos;s usual price are flagged on import and left out of prices
+            until accepted. Rejected scans are never used.
+          </p>
+
+          {pending.length === 0 ? (
+            <p className="text-gray-400">No flagged prices are waiting for review.</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto space-y-1 pr-1">
+              {pending.slice(0, MAX_REVIEW_ROWS).map((review) => {
+                const key = reviewKey(review);
+                const { entry } = review;
+                return (
+                  <div
+                    key={key}
+                    className="rounded border border-[#2c2d34] bg-[#16171d]/85 px-2 py-1.5 space-y-1"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-white truncate">
+                        {CraftingDataService.getItem(review.itemId).name}
+                      </span>
+                      <span className="inline-flex items-center gap-2 whitespace-nowrap">
+                        <button
+                          type="button"
+                          onClick={() => void handleReview(review, 'accepted')}
+                          disabled={reviewingKey !== null}
+                          className="inline-flex items-center gap-1 text-[11px] text-green-300 hover:text-green-200 disabled:opacity-50"
+                        >
+                          {reviewingKey === key ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          ) : (
+                            <Check className="h-3 w-3" />
+                          )}
+                          Accept
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void handleReview(review, 'rejected')}
+                          disabled={reviewingKey !== null}
+                          className="inline-flex items-center gap-1 text-[11px] text-red-300 hover:text-red-200 disabled:opacity-50"
+                        >
+                          <Ban className="h-3 w-3" />
+                          Reject
+                        </button>
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5">
+                      <CurrencyAmount amount={entry.price} size="xs" />
+                      {entry.anomaly && (
+                        <span className="inline-flex items-center gap-1 text-gray-400">
+                          usual
+                          <CurrencyAmount amount={entry.anomaly.baseline} size="xs" />
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-[10px] text-gray-400 truncate">
+                      {describeRealm(review.realmKey)} · {formatTimestamp(entry.importedAt)} · {entry.source}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {pending.length > MAX_REVIEW_ROWS && (
+            <p className="text-[10px] text-gray-500">
+              Showing the {MAX_REVIEW_ROWS} newest of {pending.length} flagged prices.
+            </p>
+          )}
+
+          {error && (
+            <div className="bg-red-900/40 border border-red-500/50 text-red-200 px-2 py-1.5 rounded-md">
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
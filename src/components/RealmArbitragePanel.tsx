@@ -0,0 +1,221 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRightLeft, ChevronDown, ChevronUp } from 'lucide-react';
+import { PriceStatisticSettings } from '../types';
+import { AuctionatorParsedData } from '../services/AuctionatorDataService';
+import { ArbitrageSort, RealmArbitrage, RealmQuote } from '../services/RealmArbitrage';
+import { CraftingDataService } from '../services/CraftingDataService';
+import { CurrencyAmount } from './CurrencyAmount';
+import { WowheadLink } from './WowheadLink';
+
+interface RealmArbitragePanelProps {
+  data: AuctionatorParsedData;
+  priceStatistics: PriceStatisticSettings;
+}
+
+const MAX_VISIBLE_ROWS = 100;
+
+const MAX_AGE_OPTIONS: { label: string; value: number | null }[] = [
+  { label: 'Last 24 hours', value: 1 },
+  { label: 'Last 3 days', value: 3 },
+  { label: 'Last 7 days', value: 7 },
+  { label: 'Any age', value: null }
+];
+
+const SORT_LABELS: Record<ArbitrageSort, string> = {
+  absolute: 'Largest spread',
+  relative: 'Largest spread %'
+};
+
+const selectClassName =
+  'px-3 py-2 bg-[#18191f]/80 border border-[#2e3036] rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-wow-blue focus:border-transparent';
+
+const formatAge = (timestamp: string): string => {
+  const hours = Math.max(0, (Date.now() - new Date(timestamp).getTime()) / (60 * 60 * 1000));
+  if (hours < 1) {
+    return 'just now';
+  }
+  if (hours < 48) {
+    return `${Math.round(hours)}h ago`;
+  }
+  return `${Math.round(hours / 24)}d ago`;
+};
+
+const QuoteCell: React.FC<{ quote: RealmQuote }> = ({ quote }) => (
+  <div className="text-right">
+    <CurrencyAmount amount={quote.price} size="xs" className="text-white" />
+    <div className="text-[10px] text-gray-400">
+      {quote.realm} · {quote.faction} · {formatAge(quote.updatedAt)}
+    </div>
+  </div>
+);
+
+export const RealmArbitragePanel: React.FC<RealmArbitragePanelProps> = ({
+  data,
+  priceStatistics
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [sortBy, setSortBy] = useState<ArbitrageSort>('absolute');
+  const [maxAgeDays, setMaxAgeDays] = useState<number | null>(3);
+  const [minSpreadInput, setMinSpreadInput] = useState('20');
+
+  const minSpreadPercent = Number(minSpreadInput);
+
+  const opportunities = useMemo(
+    () =>
+      isExpanded
+        ? RealmArbitrage.findOpportunities(data, {
+            priceStatistics,
+            sortBy,
+            maxAgeDays,
+            minSpreadPercent: Number.isFinite(minSpreadPercent) ? minSpreadPercent : 0
+          })
+        : [],
+    [data, priceStatistics, sortBy, maxAgeDays, minSpreadPercent, isExpanded]
+  );
+
+  return (
+    <div className="bg-[#111216]/85 backdrop-blur-sm rounded-lg border border-[#24252b] p-4 mb-6">
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <span className="text-lg font-semibold text-white flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5 text-wow-blue" aria-hidden />
+          Cross-realm prices
+        </span>
+        {isExpanded ? (
+          <ChevronUp className="h-4 w-4 text-gray-400" />
+        ) : (
+          <ChevronDown className="h-4 w-4 text-gray-400" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label htmlFor="arbitrage-sort" className="block text-xs font-semibold text-gray-300 mb-1">
+                Sort by
+              </label>
+              <select
+                id="arbitrage-sort"
+                value={sortBy}
+                onChange={(event) => setSortBy(event.target.value as ArbitrageSort)}
+                className={selectClassName}
+              >
+                {(Object.keys(SORT_LABELS) as ArbitrageSort[]).map((option) => (
+                  <option key={option} value={option}>
+                    {SORT_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="arbitrage-max-age" className="block text-xs font-semibold text-gray-300 mb-1">
+                Price data from
+              </label>
+              <select
+                id="arbitrage-max-age"
+                value={maxAgeDays ?? ''}
+                onChange={(event) =>
+                  setMaxAgeDays(event.target.value === '' ? null : Number(event.target.value))
+                }
+                className={selectClassName}
+              >
+                {MAX_AGE_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.value ?? ''}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="arbitrage-min-spread" className="block text-xs font-semibold text-gray-300 mb-1">
+                Min spread %
+              </label>
+              <input
+                id="arbitrage-min-spread"
+                type="number"
+                min={0}
+                step={5}
+                value={minSpreadInput}
+                onChange={(event) => setMinSpreadInput(event.target.value)}
+                className={`${selectClassName} w-24`}
+              />
+            </div>
+          </div>
+
+          {opportunities.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              No items differ enough between realms with fresh data on both sides.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-gray-300">
+                <thead>
+                  <tr className="text-xs text-gray-400 border-b border-[#24252b]">
+                    <th className="text-left font-medium py-2">Item</th>
+                    <th className="text-right font-medium py-2">Buy on</th>
+                    <th className="text-right font-medium py-2">Sell on</th>
+                    <th className="text-right font-medium py-2">Spread</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {opportunities.slice(0, MAX_VISIBLE_ROWS).map((opportunity) => {
+                    const item = CraftingDataService.getItem(opportunity.itemId);
+                    return (
+                      <tr key={opportunity.itemId} className="border-b border-[#1c1d22]">
+                        <td className="py-2">
+                          <WowheadLink
+                            id={item.id}
+                            type="item"
+                            name={item.name}
+                            icon={item.icon}
+                            anchorClassName="inline-flex items-center gap-2"
+                          >
+                            <img
+                              src={item.icon}
+                              alt={item.name}
+                              className="h-5 w-5 rounded border border-[#2c2d34]"
+                              onError={(e) => {
+                                (e.target as HTMLImageElement).src =
+                                  'https://wow.zamimg.com/images/wow/icons/large/inv_misc_questionmark.jpg';
+                              }}
+                            />
+                            <span className="text-white">{item.name}</span>
+                          </WowheadLink>
+                        </td>
+                        <td className="py-2">
+                          <QuoteCell quote={opportunity.low} />
+                        </td>
+                        <td className="py-2">
+                          <QuoteCell quote={opportunity.high} />
+                        </td>
+                        <td className="py-2 text-right">
+                          <CurrencyAmount
+                            amount={opportunity.spread}
+                            size="xs"
+                            className="text-green-400"
+                          />
+                          <div className="text-[10px] text-green-300">
+                            +{opportunity.spreadPercent.toFixed(0)}%
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {opportunities.length > MAX_VISIBLE_ROWS && (
+                <p className="mt-2 text-[11px] text-gray-400">
+                  Showing the top {MAX_VISIBLE_ROWS} of {opportunities.length} items.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
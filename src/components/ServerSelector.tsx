@@ -3,31 +3,34 @@ import { ChevronDown, Server, Users } from 'lucide-react';
 import { ServerInfo } from '../types';
 
 interface ServerSelectorProps {
+  servers: ServerInfo[];
   selectedServer: ServerInfo | null;
   onServerChange: (server: ServerInfo) => void;
 }
 
-const SAMPLE_SERVERS: ServerInfo[] = [
-  { name: 'Icecrown', region: 'EU', faction: 'Alliance', lastUpdated: new Date() },
-  { name: 'Lordaeron', region: 'EU', faction: 'Alliance', lastUpdated: new Date() },
-  { name: 'Chromie', region: 'EU', faction: 'Horde', lastUpdated: new Date() },
-  { name: 'Frostmourne', region: 'US', faction: 'Alliance', lastUpdated: new Date() },
-  { name: 'Warmane', region: 'EU', faction: 'Horde', lastUpdated: new Date() }
-];
-
 const FACTION_LABEL: Record<ServerInfo['faction'], string> = {
   Alliance: 'Альянс',
-  Horde: 'Орда'
+  Horde: 'Орда',
+  Neutral: 'Нейтральный'
+};
+
+const FACTION_BADGE_CLASS: Record<ServerInfo['faction'], string> = {
+  Alliance: 'bg-blue-900/40 text-blue-300',
+  Horde: 'bg-red-900/40 text-red-300',
+  Neutral: 'bg-gray-700/40 text-gray-300'
 };
 
+const getServerKey = (server: ServerInfo) => server.datasetKey ?? `${server.name}-${server.faction}`;
+
 export const ServerSelector: React.FC<ServerSelectorProps> = ({
+  servers,
   selectedServer,
   onServerChange
 }) => {
   const [isOpen, setIsOpen] = useState(false);
 
   const renderFactionBadge = (faction: ServerInfo['faction']) => (
-    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${faction === 'Alliance' ? 'bg-blue-900/40 text-blue-300' : 'bg-red-900/40 text-red-300'}`}>
+    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${FACTION_BADGE_CLASS[faction]}`}>
       {FACTION_LABEL[faction]}
     </span>
   );
@@ -42,7 +45,8 @@ export const ServerSelector: React.FC<ServerSelectorProps> = ({
       <div className="relative">
         <button
           onClick={() => setIsOpen(!isOpen)}
-          className="w-full flex items-center justify-between bg-[#1a1b21]/80 hover:bg-[#22232a]/80 border border-[#2e3036] rounded-lg px-4 py-3 text-left transition-colors duration-200"
+          disabled={servers.length === 0}
+          className="w-full flex items-center justify-between bg-[#1a1b21]/80 hover:bg-[#22232a]/80 border border-[#2e3036] rounded-lg px-4 py-3 text-left transition-colors duration-200 disabled:opacity-60"
         >
           <div className="flex items-center space-x-3">
             {selectedServer ? (
@@ -50,13 +54,15 @@ export const ServerSelector: React.FC<ServerSelectorProps> = ({
                 <div>
                   <div className="text-white font-medium">{selectedServer.name}</div>
                   <div className="text-sm text-gray-400 flex items-center space-x-2">
-                    <span>{selectedServer.region}</span>
+                    {selectedServer.region && <span>{selectedServer.region}</span>}
                     {renderFactionBadge(selectedServer.faction)}
                   </div>
                 </div>
               </>
             ) : (
-              <span className="text-gray-400">Выберите сервер</span>
+              <span className="text-gray-400">
+                {servers.length > 0 ? 'Выберите сервер' : 'Нет импортированных данных'}
+              </span>
             )}
           </div>
           <ChevronDown className={`h-4 w-4 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
@@ -64,9 +70,9 @@ export const ServerSelector: React.FC<ServerSelectorProps> = ({
 
         {isOpen && (
           <div className="absolute top-full left-0 right-0 mt-1 bg-gray-800 border border-gray-600 rounded-lg shadow-xl z-10 max-h-60 overflow-y-auto">
-            {SAMPLE_SERVERS.map((server) => (
+            {servers.map((server) => (
               <button
-                key={`${server.name}-${server.faction}`}
+                key={getServerKey(server)}
                 onClick={() => {
                   onServerChange(server);
                   setIsOpen(false);
@@ -76,7 +82,7 @@ export const ServerSelector: React.FC<ServerSelectorProps> = ({
                 <div>
                   <div className="text-white font-medium">{server.name}</div>
                   <div className="text-sm text-gray-400 flex items-center space-x-2">
-                    <span>{server.region}</span>
+                    {server.region && <span>{server.region}</span>}
                     {renderFactionBadge(server.faction)}
                   </div>
                 </div>
@@ -93,7 +99,7 @@ export const ServerSelector: React.FC<ServerSelectorProps> = ({
             <span className="text-sm font-medium">Сервер сохранён в настройках</span>
           </div>
           <div className="text-xs text-gray-400 mt-1">
-            Последнее обновление данных: {selectedServer.lastUpdated.toLocaleTimeString()}
+            Последнее обновление данных: {selectedServer.lastUpdated.toLocaleString()}
           </div>
         </div>
       )}
@@ -0,0 +1,309 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, TrendingUp } from 'lucide-react';
+import { CalculationSettings, CraftingProfit, PriceEstimate, Profession } from '../types';
+import { ProfitCalculator } from '../services/ProfitCalculator';
+import { CraftingDataService } from '../services/CraftingDataService';
+import { SkillUpColor, SkillUpPlanner } from '../services/SkillUpPlanner';
+import { useProfessionRecipes } from '../hooks/useProfessionRecipes';
+import { CurrencyAmount } from './CurrencyAmount';
+import { WowheadLink } from './WowheadLink';
+
+interface SkillUpPlannerPanelProps {
+  profession: Profession;
+  priceMap: Map<number, number> | null;
+  priceEstimates: Map<number, PriceEstimate> | null;
+  calculationSettings: CalculationSettings;
+}
+
+const COLOR_CLASSES: Record<SkillUpColor, string> = {
+  orange: 'text-orange-400',
+  yellow: 'text-yellow-300',
+  green: 'text-green-400',
+  grey: 'text-gray-400'
+};
+
+const selectClassName =
+  'px-3 py-2 bg-[#18191f]/80 border border-[#2e3036] rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-wow-blue focus:border-transparent';
+
+const parseSkill = (value: string, fallback: number) => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+const ItemIcon: React.FC<{ itemId: number }> = ({ itemId }) => {
+  const item = CraftingDataService.getItem(itemId);
+  return (
+    <WowheadLink
+      id={item.id}
+      type="item"
+      name={item.name}
+      icon={item.icon}
+      anchorClassName="inline-flex items-center gap-2"
+    >
+      <img
+        src={item.icon}
+        alt={item.name}
+        className="h-5 w-5 rounded border border-[#2c2d34]"
+        onError={(e) => {
+          (e.target as HTMLImageElement).src =
+            'https://wow.zamimg.com/images/wow/icons/large/inv_misc_questionmark.jpg';
+        }}
+      />
+      <span className="text-white">{item.name}</span>
+    </WowheadLink>
+  );
+};
+
+export const SkillUpPlannerPanel: React.FC<SkillUpPlannerPanelProps> = ({
+  profession,
+  priceMap,
+  priceEstimates,
+  calculationSettings
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [currentSkillInput, setCurrentSkillInput] = useState('1');
+  const [targetSkillInput, setTargetSkillInput] = useState(String(profession.maxLevel));
+  const [subtractResale, setSubtractResale] = useState(false);
+  const [profits, setProfits] = useState<CraftingProfit[]>([]);
+  const { recipes, isLoading } = useProfessionRecipes(profession);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const calculateProfits = async () => {
+      if (!isExpanded || recipes.length === 0) {
+        setProfits([]);
+        return;
+      }
+
+      const results = await ProfitCalculator.calculateProfitsForRecipes(recipes, {
+        priceMap,
+        priceEstimates,
+        auctionFees: calculationSettings.auctionFees,
+        costingMode: calculationSettings.costingMode,
+        pricingPolicy: calculationSettings.pricingPolicy,
+        freshnessDays: calculationSettings.priceStatistics.freshnessDays
+      });
+      if (!isCancelled) {
+        setProfits(results);
+      }
+    };
+
+    calculateProfits();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isExpanded, recipes, priceMap, priceEstimates, calculationSettings]);
+
+  const currentSkill = Math.max(parseSkill(currentSkillInput, 1), 1);
+  const targetSkill = Math.min(parseSkill(targetSkillInput, profession.maxLevel), profession.maxLevel);
+
+  const plan = useMemo(
+    () =>
+      profits.length > 0
+        ? SkillUpPlanner.plan(profits, { currentSkill, targetSkill, subtractResale })
+        : null,
+    [profits, currentSkill, targetSkill, subtractResale]
+  );
+
+  const hasEstimatedRanges = plan?.steps.some((step) => step.isRangeEstimated) ?? false;
+
+  return (
+    <div className="bg-[#111216]/85 backdrop-blur-sm rounded-lg border border-[#24252b] p-4 mb-6">
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <span className="text-lg font-semibold text-white flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-wow-blue" aria-hidden />
+          {profession.name} skill-up planner
+        </span>
+        {isExpanded ? (
+          <ChevronUp className="h-4 w-4 text-gray-400" />
+        ) : (
+          <ChevronDown className="h-4 w-4 text-gray-400" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label htmlFor="skillup-current" className="block text-xs font-semibold text-gray-300 mb-1">
+                Current skill
+              </label>
+              <input
+                id="skillup-current"
+                type="number"
+                min={1}
+                max={profession.maxLevel}
+                value={currentSkillInput}
+                onChange={(event) => setCurrentSkillInput(event.target.value)}
+                className={`${selectClassName} w-24`}
+              />
+            </div>
+            <div>
+              <label htmlFor="skillup-target" className="block text-xs font-semibold text-gray-300 mb-1">
+                Target skill
+              </label>
+              <input
+                id="skillup-target"
+                type="number"
+                min={1}
+                max={profession.maxLevel}
+                value={targetSkillInput}
+                onChange={(event) => setTargetSkillInput(event.target.value)}
+                className={`${selectClassName} w-24`}
+              />
+            </div>
+            <div>
+              <label htmlFor="skillup-ranking" className="block text-xs font-semibold text-gray-300 mb-1">
+                Choose recipes by
+              </label>
+              <select
+                id="skillup-ranking"
+                value={subtractResale ? 'net' : 'cost'}
+                onChange={(event) => setSubtractResale(event.target.value === 'net')}
+                className={selectClassName}
+              >
+                <option value="cost">Reagent cost</option>
+                <option value="net">Cost after selling the products</option>
+              </select>
+            </div>
+          </div>
+
+          {isLoading || (recipes.length > 0 && !plan) ? (
+            <p className="text-sm text-gray-400">Calculating the plan...</p>
+          ) : !plan || plan.steps.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              {currentSkill >= targetSkill
+                ? 'The current skill already reaches the target.'
+                : 'No recipe with known reagent prices gives skill-ups from the current skill.'}
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div className="bg-[#16171d]/85 border border-[#2c2d34] rounded-md p-3">
+                  <div className="text-xs text-gray-400">Expected crafts</div>
+                  <div className="font-semibold text-white">{plan.totalCrafts}</div>
+                </div>
+                <div className="bg-[#16171d]/85 border border-[#2c2d34] rounded-md p-3">
+                  <div className="text-xs text-gray-400">Expected cost</div>
+                  <CurrencyAmount amount={plan.expectedCost} size="sm" className="text-white" />
+                </div>
+                <div className="bg-[#16171d]/85 border border-[#2c2d34] rounded-md p-3">
+                  <div className="text-xs text-gray-400">Resale value</div>
+                  <CurrencyAmount amount={plan.resaleValue} size="sm" className="text-green-400" />
+                </div>
+                <div className="bg-[#16171d]/85 border border-[#2c2d34] rounded-md p-3">
+                  <div className="text-xs text-gray-400">Net cost</div>
+                  <CurrencyAmount
+                    amount={Math.max(plan.expectedCost - plan.resaleValue, 0)}
+                    size="sm"
+                    className="text-white"
+                  />
+                  {plan.resaleValue > plan.expectedCost && (
+                    <div className="text-[10px] text-green-300">Levels at a profit</div>
+                  )}
+                </div>
+              </div>
+
+              {plan.reachedSkill < plan.targetSkill && (
+                <div className="bg-[#2a1f10]/70 border border-yellow-600/60 text-yellow-200 text-xs px-3 py-2 rounded-md">
+                  No recipe with known reagent prices gives skill-ups past {plan.reachedSkill}.
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-gray-300">
+                  <thead>
+                    <tr className="text-xs text-gray-400 border-b border-[#24252b]">
+                      <th className="text-left font-medium py-2">Skill</th>
+                      <th className="text-left font-medium py-2">Recipe</th>
+                      <th className="text-right font-medium py-2">Crafts</th>
+                      <th className="text-right font-medium py-2">Cost</th>
+                      <th className="text-right font-medium py-2">Resale</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.steps.map((step) => (
+                      <tr key={`${step.recipe.id}-${step.fromSkill}`} className="border-b border-[#1c1d22]">
+                        <td className="py-2 whitespace-nowrap">
+                          <span className={COLOR_CLASSES[step.color]}>
+                            {step.fromSkill} → {step.toSkill}
+                          </span>
+                          {step.isRangeEstimated && (
+                            <span className="text-gray-500" title="Skill range estimated from the required skill">
+                              {' '}*
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2">
+                          <ItemIcon itemId={step.recipe.resultItem.id} />
+                          {step.recipe.name !== step.recipe.resultItem.name && (
+                            <div className="text-[10px] text-gray-400">{step.recipe.name}</div>
+                          )}
+                        </td>
+                        <td className="py-2 text-right" title={`${step.expectedCrafts.toFixed(1)} expected`}>
+                          {step.crafts}
+                        </td>
+                        <td className="py-2 text-right">
+                          <CurrencyAmount amount={step.cost} size="xs" className="text-white" />
+                        </td>
+                        <td className="py-2 text-right">
+                          <CurrencyAmount amount={step.resaleValue} size="xs" className="text-gray-300" />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold text-white mb-2">Shopping list</h4>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-gray-300">
+                    <thead>
+                      <tr className="text-xs text-gray-400 border-b border-[#24252b]">
+                        <th className="text-left font-medium py-2">Reagent</th>
+                        <th className="text-right font-medium py-2">Quantity</th>
+                        <th className="text-right font-medium py-2">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {plan.shoppingList.map((entry) => (
+                        <tr key={entry.itemId} className="border-b border-[#1c1d22]">
+                          <td className="py-2">
+                            <ItemIcon itemId={entry.itemId} />
+                            {entry.source === 'vendor' && (
+                              <span className="text-blue-400 text-[10px] ml-1 font-medium">(Vendor)</span>
+                            )}
+                          </td>
+                          <td className="py-2 text-right">{entry.quantity}</td>
+                          <td className="py-2 text-right">
+                            <CurrencyAmount amount={entry.cost} size="xs" className="text-white" />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <p className="text-[11px] text-gray-400 leading-relaxed">
+                Orange recipes always give a point; the chance then falls from yellow to none at
+                grey. Each point uses the recipe with the lowest expected cost, and crafts are
+                rounded up per step. Recipes with a reagent without a price are left out
+                {plan.skippedRecipeCount > 0 ? ` (${plan.skippedRecipeCount} here)` : ''}.
+                {hasEstimatedRanges &&
+                  ' * Skill range not in the game data, estimated from the required skill.'}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, History, Loader2, RotateCcw } from 'lucide-react';
+import { SnapshotDiff, SnapshotMetadata, SnapshotService } from '../services/SnapshotService';
+import { CraftingDataService } from '../services/CraftingDataService';
+import { CurrencyAmount } from './CurrencyAmount';
+
+interface SnapshotAdminPanelProps {
+  // changes whenever new data was uploaded so the list can refresh
+  refreshKey: string | null;
+  onRolledBack: () => void | Promise<unknown>;
+  onUploaderChange: (uploader: string | null) => void;
+}
+
+const MAX_DIFF_ROWS = 25;
+
+const selectClassName =
+  'w-full px-2 py-1.5 bg-[#18191f]/80 border border-[#2e3036] rounded-lg text-xs text-white focus:outline-none focus:ring-2 focus:ring-wow-blue focus:border-transparent';
+
+const formatTimestamp = (timestamp: string): string => {
+  try {
+    return new Date(timestamp).toLocaleString();
+  } catch {
+    return timestamp;
+  }
+};
+
+const describeSnapshot = (snapshot: SnapshotMetadata) =>
+  `${formatTimestamp(snapshot.createdAt)} · ${snapshot.uploader}`;
+
+export const SnapshotAdminPanel: React.FC<SnapshotAdminPanelProps> = ({
+  refreshKey,
+  onRolledBack,
+  onUploaderChange
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [snapshots, setSnapshots] = useState<SnapshotMetadata[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [uploader, setUploader] = useState(() => SnapshotService.getUploaderLabel() ?? '');
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const list = await SnapshotService.list();
+      setSnapshots(list);
+      setToId(list[0]?.id ?? '');
+      setFromId(list[1]?.id ?? '');
+      setDiff(null);
+    } catch (loadError) {
+      console.error('Failed to load snapshots', loadError);
+      setError('Failed to load snapshots from the server.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isExpanded) {
+      void loadSnapshots();
+    }
+  }, [isExpanded, refreshKey, loadSnapshots]);
+
+  const handleDiff = async () => {
+    if (!fromId || !toId) {
+      return;
+    }
+
+    setError(null);
+    try {
+      setDiff(await SnapshotService.diff(fromId, toId));
+    } catch (diffError) {
+      console.error('Failed to diff snapshots', diffError);
+      setError('Failed to compare the selected snapshots.');
+    }
+  };
+
+  const handleRollback = async (snapshot: SnapshotMetadata) => {
+    if (!window.confirm(`Replace the current price data with the snapshot from ${describeSnapshot(snapshot)}?`)) {
+      return;
+    }
+
+    setRollingBackId(snapshot.id);
+    setError(null);
+    try {
+      await SnapshotService.rollback(snapshot.id);
+      await onRolledBack();
+      await loadSnapshots();
+    } catch (rollbackError) {
+      console.error('Failed to roll back snapshot', rollbackError);
+      setError('Failed to roll back to the selected snapshot.');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  return (
+    <div className="bg-[#111216]/85 backdrop-blur-sm rounded-lg border border-[#24252b] p-4">
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <span className="text-lg font-semibold text-white flex items-center gap-2">
+          <History className="h-5 w-5 text-wow-blue" aria-hidden />
+          Upload snapshots
+        </span>
+        {isExpanded ? (
+          <ChevronUp className="h-4 w-4 text-gray-400" />
+        ) : (
+          <ChevronDown className="h-4 w-4 text-gray-400" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3 space-y-3 text-xs text-gray-300">
+          <div>
+            <label htmlFor="snapshot-uploader" className="block font-semibold text-gray-300 mb-1">
+              Uploader name
+            </label>
+            <input
+              id="snapshot-uploader"
+              type="text"
+              value={uploader}
+              onChange={(event) => setUploader(event.target.value)}
+              onBlur={() => {
+                SnapshotService.setUploaderLabel(uploader);
+                onUploaderChange(SnapshotService.getUploaderLabel());
+              }}
+              placeholder="Shown on your uploads, keeps your fee settings"
+              className={selectClassName}
+            />
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-gray-400">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" /> Loading snapshots…
+            </div>
+          ) : snapshots.length === 0 ? (
+            <p className="text-gray-400">No uploads have been recorded yet.</p>
+          ) : (
+            <>
+              <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+                {snapshots.map((snapshot, index) => (
+                  <div
+                    key={snapshot.id}
+                    className="flex items-center justify-between gap-2 rounded border border-[#2c2d34] bg-[#16171d]/85 px-2 py-1.5"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-white truncate">{describeSnapshot(snapshot)}</div>
+                      <div className="text-[10px] text-gray-400 truncate">
+                        {snapshot.rollbackOf ? 'Rollback' : snapshot.source} · {snapshot.itemCount} items
+                        {index === 0 && ' · current'}
+                      </div>
+                    </div>
+                    {index > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => void handleRollback(snapshot)}
+                        disabled={rollingBackId !== null}
+                        className="inline-flex items-center gap-1 text-[11px] text-yellow-300 hover:text-yellow-200 disabled:opacity-50"
+                      >
+                        {rollingBackId === snapshot.id ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-3 w-3" />
+                        )}
+                        Roll back
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  aria-label="Compare from snapshot"
+                  value={fromId}
+                  onChange={(event) => setFromId(event.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">From…</option>
+                  {snapshots.map((snapshot) => (
+                    <option key={snapshot.id} value={snapshot.id}>
+                      {describeSnapshot(snapshot)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  aria-label="Compare to snapshot"
+                  value={toId}
+                  onChange={(event) => setToId(event.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">To…</option>
+                  {snapshots.map((snapshot) => (
+                    <option key={snapshot.id} value={snapshot.id}>
+                      {describeSnapshot(snapshot)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="button"
+                onClick={() => void handleDiff()}
+                disabled={!fromId || !toId || fromId === toId}
+                className="w-full rounded-md border border-wow-blue/40 bg-wow-blue/20 px-3 py-1.5 text-wow-blue hover:bg-wow-blue/30 disabled:opacity-50"
+              >
+                Compare snapshots
+              </button>
+            </>
+          )}
+
+          {diff && (
+            <div className="space-y-2 rounded border border-[#2c2d34] bg-[#16171d]/85 p-2">
+              <div className="flex flex-wrap gap-3">
+                <span className="text-green-300">+{diff.summary.added} new</span>
+                <span className="text-red-300">−{diff.summary.removed} removed</span>
+                <span className="text-yellow-300">{diff.summary.changed} changed</span>
+                <span className="text-gray-400">{diff.summary.unchanged} unchanged</span>
+              </div>
+              {diff.changed.slice(0, MAX_DIFF_ROWS).map((change) => (
+                <div
+                  key={`${change.realm}-${change.itemId}`}
+                  className="flex items-center justify-between gap-2"
+                >
+                  <span className="truncate">
+                    {CraftingDataService.getItem(change.itemId).name}
+                    <span className="text-gray-500"> · {change.realm}</span>
+                  </span>
+                  <span className="inline-flex items-center gap-1 whitespace-nowrap">
+                    <CurrencyAmount amount={change.change} size="xs" showSign />
+                    {change.changePercent !== null && (
+                      <span className="text-gray-400">({change.changePercent.toFixed(0)}%)</span>
+                    )}
+                  </span>
+                </div>
+              ))}
+              {diff.summary.changed > MAX_DIFF_ROWS && (
+                <p className="text-[10px] text-gray-500">
+                  Showing the {MAX_DIFF_ROWS} largest relative changes.
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-900/40 border border-red-500/50 text-red-200 px-2 py-1.5 rounded-md">
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
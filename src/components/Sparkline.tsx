@@ -0,0 +1,56 @@
+import React from 'react';
+import { TrendPoint } from '../types';
+
+interface SparklineProps {
+  points: TrendPoint[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+// Draws the points as a line in the current text colour, spaced by time.
+export const Sparkline: React.FC<SparklineProps> = ({
+  points,
+  width = 64,
+  height = 18,
+  className = 'text-gray-400'
+}) => {
+  if (points.length < 2) {
+    return null;
+  }
+
+  const times = points.map((point) => point.time);
+  const values = points.map((point) => point.value);
+  const minTime = Math.min(...times);
+  const timeSpan = Math.max(...times) - minTime;
+  const minValue = Math.min(...values);
+  const valueSpan = Math.max(...values) - minValue;
+
+  // keep a pixel of padding so the stroke is not clipped
+  const toX = (time: number) => (timeSpan === 0 ? width / 2 : 1 + ((time - minTime) / timeSpan) * (width - 2));
+  const toY = (value: number) =>
+    valueSpan === 0 ? height / 2 : height - 1 - ((value - minValue) / valueSpan) * (height - 2);
+
+  const coordinates = points.map((point) => `${toX(point.time).toFixed(1)},${toY(point.value).toFixed(1)}`);
+  const last = points[points.length - 1];
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={`inline-block align-middle ${className}`}
+      aria-hidden
+    >
+      <polyline
+        points={coordinates.join(' ')}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+      <circle cx={toX(last.time)} cy={toY(last.value)} r={1.75} fill="currentColor" />
+    </svg>
+  );
+};
@@ -21,6 +21,9 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({ craftingProfits, profess
   const unprofitableCrafts = calculableCrafts.filter((p) => p.profit <= 0);
 
   const totalProfit = calculableCrafts.reduce((sum, p) => sum + p.profit, 0);
+  const totalAuctionCut = calculableCrafts.reduce((sum, p) => sum + p.fees.auctionCut, 0);
+  const totalDepositLoss = calculableCrafts.reduce((sum, p) => sum + p.fees.depositLoss, 0);
+  const totalGrossProfit = calculableCrafts.reduce((sum, p) => sum + p.grossProfit, 0);
   const averageProfit = calculableCrafts.length > 0 ? totalProfit / calculableCrafts.length : 0;
   const averageROI =
     calculableCrafts.length > 0
@@ -203,6 +206,26 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({ craftingProfits, profess
             </p>
           </div>
         </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4 pt-4 border-t border-[#2c2d34]">
+          <div>
+            <p className="text-gray-400 text-sm">Profit before fees</p>
+            <p className={`text-lg font-bold ${getStatColor(totalGrossProfit)} flex items-center justify-end`}>
+              <CurrencyAmount amount={totalGrossProfit} size="sm" showSign />
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-400 text-sm">Auction house cut</p>
+            <p className="text-lg font-bold text-red-300 flex items-center justify-end">
+              <CurrencyAmount amount={-totalAuctionCut} size="sm" showSign />
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-400 text-sm">Deposits lost on relists</p>
+            <p className="text-lg font-bold text-red-300 flex items-center justify-end">
+              <CurrencyAmount amount={-totalDepositLoss} size="sm" showSign />
+            </p>
+          </div>
+        </div>
       </div>
     </div>
   );
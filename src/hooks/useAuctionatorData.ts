@@ -1,42 +1,56 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   AuctionatorDataService,
-  AuctionatorParsedData,
-  PriceHistoryEntry
+  AuctionatorImportProgress,
+  AuctionatorImportSummary,
+  AuctionatorParsedData
 } from '../services/AuctionatorDataService';
+import {
+  AuctionatorImportCancelledError,
+  AuctionatorImportTask,
+  startAuctionatorImport
+} from '../services/AuctionatorImportTask';
+import { ItemNameResolver } from '../services/ItemNameResolver';
+import { PersistentStorage } from '../services/api';
+import { PriceAnomalies, PriceAnomalyReview } from '../services/PriceAnomalies';
+import { SnapshotService } from '../services/SnapshotService';
+import { PriceStatistics } from '../services/PriceStatistics';
+import { PriceFreshness } from '../services/PriceFreshness';
+import { RetentionPolicy } from '../services/HistoryRetention';
+import { LuaParseError } from '../services/LuaTableParser';
+import { ItemPriceOverride, PriceStatisticSettings, ServerInfo } from '../types';
 
 export interface AuctionatorMetadata {
   source: string;
   importedAt: string;
   itemCount: number;
+  // items on the selected realm whose newest price is past the freshness window
+  staleItemCount: number;
+  datasetCount: number;
 }
 
 const SHARED_STORAGE_ENABLED = false; // Always use server storage
 
-export const useAuctionatorData = () => {
-  const [priceMap, setPriceMap] = useState<Map<number, number> | null>(null);
-  const [priceHistory, setPriceHistory] = useState<Map<number, PriceHistoryEntry[]> | null>(null);
-  const [metadata, setMetadata] = useState<AuctionatorMetadata | null>(null);
+// Called with the stored data after an import and the keys of the realms the
+// imported file had prices for; other stored realms are left out.
+export type AuctionatorImportListener = (data: AuctionatorParsedData, realmKeys: string[]) => void;
+
+export const useAuctionatorData = (
+  priceStatistics: PriceStatisticSettings,
+  itemOverrides: Record<number, ItemPriceOverride>,
+  retention: RetentionPolicy,
+  onImported?: AuctionatorImportListener
+) => {
+  const [parsedData, setParsedData] = useState<AuctionatorParsedData | null>(null);
+  const [selectedRealmKey, setSelectedRealmKey] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [importProgress, setImportProgress] = useState<AuctionatorImportProgress | null>(null);
+  const [importSummary, setImportSummary] = useState<AuctionatorImportSummary | null>(null);
+  const importTaskRef = useRef<AuctionatorImportTask | null>(null);
 
   const setFromParsedData = useCallback((parsed: AuctionatorParsedData) => {
-    const history = new Map(parsed.itemPrices);
-    const latest = new Map<number, number>();
-
-    history.forEach((entries, itemId) => {
-      if (entries.length > 0) {
-        latest.set(itemId, entries[entries.length - 1].price);
-      }
-    });
-
-    setPriceHistory(history);
-    setPriceMap(latest);
-    setMetadata({
-      source: parsed.source,
-      importedAt: parsed.importedAt,
-      itemCount: parsed.itemPrices.size
-    });
+    setParsedData(parsed);
     setError(null);
   }, []);
 
@@ -45,8 +59,17 @@ export const useAuctionatorData = () => {
 
     const loadData = async () => {
       try {
-        const data = await AuctionatorDataService.load();
-        if (!cancelled && data) {
+        const [data, serverInfo] = await Promise.all([
+          AuctionatorDataService.load(),
+          PersistentStorage.getServerInfo().catch(() => null)
+        ]);
+        if (cancelled) {
+          return;
+        }
+        if (serverInfo?.datasetKey) {
+          setSelectedRealmKey(serverInfo.datasetKey);
+        }
+        if (data) {
           setFromParsedData(data);
         }
       } catch (err) {
@@ -63,24 +86,51 @@ export const useAuctionatorData = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // stop a running import when the component using the hook unmounts
+  useEffect(() => () => importTaskRef.current?.cancel(), []);
+
   const handleFileSelection = useCallback(async (file: File) => {
+    importTaskRef.current?.cancel();
+    const task = startAuctionatorImport(file, retention, setImportProgress);
+    importTaskRef.current = task;
     setIsLoading(true);
     setError(null);
+    setImportSummary(null);
 
     try {
-      const content = await file.text();
-      const parsed = await AuctionatorDataService.parse(content, file.name);
-      const existing = await AuctionatorDataService.load();
-      const merged = AuctionatorDataService.mergeWithExisting(existing, parsed);
-      await AuctionatorDataService.save(merged);
-      setFromParsedData(merged);
+      const { data, summary, resolvedNames, realmKeys } = await task.result;
+      ItemNameResolver.prime(resolvedNames);
+      const stored = await AuctionatorDataService.save(
+        data,
+        SnapshotService.getUploaderLabel(),
+        retention
+      );
+      setFromParsedData(stored);
+      setImportSummary(summary);
+      onImported?.(stored, realmKeys);
     } catch (err) {
-      console.error('Failed to parse Auctionator.lua file', err);
-      setError('Failed to parse Auctionator.lua. Please ensure you selected a valid Auctionator file.');
+      if (err instanceof AuctionatorImportCancelledError) {
+        return;
+      }
+      console.error(`Failed to import ${file.name}`, err);
+      setError(
+        err instanceof LuaParseError
+          ? `Failed to parse ${file.name}: ${err.message}.`
+          : `Failed to import ${file.name}. Please select the SavedVariables file of Auctionator, TradeSkillMaster or Auctioneer.`
+      );
     } finally {
-      setIsLoading(false);
+      // a newer import may have replaced this one
+      if (importTaskRef.current === task) {
+        importTaskRef.current = null;
+        setIsLoading(false);
+        setImportProgress(null);
+      }
     }
-  }, [setFromParsedData]);
+  }, [setFromParsedData, retention, onImported]);
+
+  const cancelImport = useCallback(() => {
+    importTaskRef.current?.cancel();
+  }, []);
 
   const clear = useCallback(async () => {
     try {
@@ -88,14 +138,103 @@ export const useAuctionatorData = () => {
     } catch (err) {
       console.error('Failed to clear Auctionator data', err);
     }
-    setPriceMap(null);
-    setPriceHistory(null);
-    setMetadata(null);
+    setParsedData(null);
     setError(null);
+    setImportSummary(null);
   }, []);
 
+  const servers = useMemo(
+    () => (parsedData ? AuctionatorDataService.listServers(parsedData) : []),
+    [parsedData]
+  );
+
+  // fall back to the largest dataset when nothing (or a missing realm) is selected
+  const activeRealmKey = useMemo(() => {
+    if (!parsedData) {
+      return null;
+    }
+    if (selectedRealmKey && parsedData.realms.has(selectedRealmKey)) {
+      return selectedRealmKey;
+    }
+    return AuctionatorDataService.getPrimaryRealmKey(parsedData);
+  }, [parsedData, selectedRealmKey]);
+
+  const activeServer = useMemo(
+    () => servers.find((server) => server.datasetKey === activeRealmKey) ?? null,
+    [servers, activeRealmKey]
+  );
+
+  const priceHistory = useMemo(
+    () => (parsedData && activeRealmKey ? parsedData.realms.get(activeRealmKey) ?? null : null),
+    [parsedData, activeRealmKey]
+  );
+
+  const metadata = useMemo<AuctionatorMetadata | null>(
+    () =>
+      parsedData
+        ? {
+            source: parsedData.source,
+            importedAt: parsedData.importedAt,
+            itemCount: priceHistory?.size ?? 0,
+            staleItemCount: priceHistory ? PriceFreshness.countStale(priceHistory, priceStatistics) : 0,
+            datasetCount: servers.length
+          }
+        : null,
+    [parsedData, priceHistory, priceStatistics, servers]
+  );
+
+  const selectServer = useCallback(async (server: ServerInfo) => {
+    if (!server.datasetKey) {
+      return;
+    }
+
+    setSelectedRealmKey(server.datasetKey);
+    try {
+      await PersistentStorage.saveServerInfo(server);
+    } catch (err) {
+      console.warn('Failed to persist selected server', err);
+    }
+  }, []);
+
+  const priceEstimates = useMemo(
+    () =>
+      priceHistory
+        ? PriceStatistics.buildEstimates(priceHistory, priceStatistics, itemOverrides)
+        : null,
+    [priceHistory, priceStatistics, itemOverrides]
+  );
+
+  const priceMap = useMemo(() => {
+    if (!priceEstimates) {
+      return null;
+    }
+
+    const map = new Map<number, number>();
+    priceEstimates.forEach((estimate, itemId) => {
+      map.set(itemId, estimate.price);
+    });
+    return map;
+  }, [priceEstimates]);
+
   const hasData = useMemo(() => Boolean(priceMap && priceMap.size > 0), [priceMap]);
 
+  const pendingAnomalies = useMemo(
+    () => (parsedData ? PriceAnomalies.listPending(parsedData) : []),
+    [parsedData]
+  );
+
+  // rejects on failure so the review list can report it
+  const reviewAnomaly = useCallback(
+    async (review: PriceAnomalyReview, status: 'accepted' | 'rejected') => {
+      if (!parsedData) {
+        return;
+      }
+      const stored = await AuctionatorDataService.reviewAnomaly(parsedData, review, status);
+      setFromParsedData(stored);
+    },
+    [parsedData, setFromParsedData]
+  );
+
   const reload = useCallback(async () => {
     try {
       const data = await AuctionatorDataService.load();
@@ -111,13 +250,23 @@ export const useAuctionatorData = () => {
 
   return {
     priceMap,
+    priceEstimates,
     priceHistory,
+    parsedData,
+    servers,
+    activeServer,
+    selectServer,
     metadata,
     hasData,
     error,
     isLoading,
+    importProgress,
+    importSummary,
     handleFileSelection,
+    cancelImport,
     clear,
+    pendingAnomalies,
+    reviewAnomaly,
     reload
   };
 };
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { PersistentStorage } from '../services/api';
+import { AuctionatorParsedData, RealmPriceHistory } from '../services/AuctionatorDataService';
+import { EMPTY_PRICE_ALERTS, normalizePriceAlerts, PriceAlerts } from '../services/PriceAlerts';
+import { CalculationSettings, PriceAlertRule, PriceAlertState, Recipe } from '../types';
+
+export const usePriceAlerts = (settings: CalculationSettings) => {
+  const [alerts, setAlerts] = useState<PriceAlertState>(EMPTY_PRICE_ALERTS);
+  const alertsRef = useRef<PriceAlertState>(EMPTY_PRICE_ALERTS);
+  const settingsRef = useRef(settings);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  const replaceAlerts = useCallback((next: PriceAlertState) => {
+    alertsRef.current = next;
+    setAlerts(next);
+  }, []);
+
+  const reload = useCallback(async () => {
+    try {
+      replaceAlerts(normalizePriceAlerts(await PersistentStorage.getPriceAlerts()));
+    } catch (error) {
+      console.warn('Failed to load price alerts', error);
+    }
+  }, [replaceAlerts]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  // the change is applied again to the stored state if another client saved in between
+  const applyChange = useCallback(
+    (change: (state: PriceAlertState) => PriceAlertState) => {
+      const local = change(alertsRef.current);
+      replaceAlerts(local);
+
+      (async () => {
+        try {
+          const stored = await PersistentStorage.savePriceAlerts(local, (current) =>
+            change(normalizePriceAlerts(current))
+          );
+          if (stored !== local) {
+            replaceAlerts(stored);
+          }
+        } catch (error) {
+          console.warn('Failed to persist price alerts', error);
+        }
+      })();
+    },
+    [replaceAlerts]
+  );
+
+  // Checks the rules against the realms an import brought new data for.
+  const evaluateImport = useCallback(
+    async (data: AuctionatorParsedData, realmKeys: string[]) => {
+      const { rules } = alertsRef.current;
+      if (rules.length === 0) {
+        return;
+      }
+
+      const realms = new Map<string, RealmPriceHistory>();
+      realmKeys.forEach((realmKey) => {
+        const history = data.realms.get(realmKey);
+        if (history) {
+          realms.set(realmKey, history);
+        }
+      });
+
+      try {
+        const check = await PriceAlerts.check(rules, realms, settingsRef.current);
+        applyChange((state) => PriceAlerts.applyCheck(state, check).state);
+      } catch (error) {
+        console.error('Failed to evaluate price alerts', error);
+      }
+    },
+    [applyChange]
+  );
+
+  const addRule = useCallback(
+    (rule: PriceAlertRule) => applyChange((state) => PriceAlerts.addRule(state, rule)),
+    [applyChange]
+  );
+
+  const removeRule = useCallback(
+    (ruleId: string) => applyChange((state) => PriceAlerts.removeRule(state, ruleId)),
+    [applyChange]
+  );
+
+  const toggleWatchedRecipe = useCallback(
+    (recipe: Recipe) => applyChange((state) => PriceAlerts.toggleWatchedRecipe(state, recipe)),
+    [applyChange]
+  );
+
+  const dismiss = useCallback(
+    (notificationId: string) => applyChange((state) => PriceAlerts.dismiss(state, notificationId)),
+    [applyChange]
+  );
+
+  const dismissAll = useCallback(
+    () => applyChange((state) => PriceAlerts.dismissAll(state)),
+    [applyChange]
+  );
+
+  const watchedRecipeIds = useMemo(() => PriceAlerts.watchedRecipeIds(alerts), [alerts]);
+
+  return {
+    rules: alerts.rules,
+    notifications: alerts.notifications,
+    watchedRecipeIds,
+    evaluateImport,
+    addRule,
+    removeRule,
+    toggleWatchedRecipe,
+    dismiss,
+    dismissAll,
+    reload
+  };
+};
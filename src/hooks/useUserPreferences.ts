@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PersistentStorage } from '../services/api';
+
+export const useUserPreferences = () => {
+  const [preferences, setPreferences] = useState<Record<string, unknown>>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+  const preferencesRef = useRef<Record<string, unknown>>({});
+  const saveSequenceRef = useRef(0);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadPreferences = async () => {
+      try {
+        const stored = await PersistentStorage.getUserPreferences();
+        if (isCancelled) {
+          return;
+        }
+        preferencesRef.current = stored;
+        setPreferences(stored);
+      } catch (error) {
+        console.warn('Failed to load stored user preferences', error);
+      } finally {
+        if (!isCancelled) {
+          setIsLoaded(true);
+        }
+      }
+    };
+
+    loadPreferences();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const updatePreferences = useCallback((patch: Record<string, unknown>) => {
+    preferencesRef.current = {
+      ...preferencesRef.current,
+      ...patch
+    };
+    setPreferences(preferencesRef.current);
+    saveSequenceRef.current += 1;
+    const sequence = saveSequenceRef.current;
+
+    (async () => {
+      try {
+        const stored = await PersistentStorage.saveUserPreferences(preferencesRef.current, patch);
+        // after a conflict the stored value also holds other users' changes; a
+        // newer local update will resolve with its own stored value instead
+        if (sequence === saveSequenceRef.current) {
+          preferencesRef.current = stored;
+          setPreferences(stored);
+        }
+      } catch (error) {
+        console.warn('Failed to persist updated preferences', error);
+      }
+    })();
+  }, []);
+
+  return {
+    preferences,
+    isLoaded,
+    updatePreferences
+  };
+};
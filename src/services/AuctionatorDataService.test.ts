@@ -0,0 +1,227 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  AuctionatorDataService,
+  AuctionatorParsedData,
+  LEGACY_REALM_KEY,
+  PriceHistoryEntry
+} from './AuctionatorDataService';
+import { setDbFileReader } from './DbFiles';
+
+const LIGHT_LEATHER = 2318;
+const ROUGH_STONE = 2835;
+
+// keeps every scan raw so the tests see exactly what was parsed
+const KEEP_RAW = { rawDays: 3650, dailyUntilDays: 3650 };
+
+const AUCTIONATOR_FILE = `AUCTIONATOR_PRICE_DATABASE = {
+	["__dbversion"] = 2,
+	["PTR Frostmourne_Alliance"] = {
+	},
+	["Frostmourne_Alliance"] = {
+		["Light Leather"] = 120,
+		["Rough Stone"] = 53,
+	},
+	["Icecrown_Horde"] = {
+		["Light Leather"] = 95,
+	},
+}
+AUCTIONATOR_LAST_SCAN_TIME = 1760344016
+`;
+
+const scan = (day: number, price: number): PriceHistoryEntry => ({
+  price,
+  importedAt: new Date(Date.UTC(2025, 0, day, 12)).toISOString(),
+  source: 'Auctionator.lua'
+});
+
+const dataset = (realms: Record<string, Array<[number, PriceHistoryEntry[]]>>): AuctionatorParsedData => ({
+  realms: new Map(Object.entries(realms).map(([realmKey, items]) => [realmKey, new Map(items)])),
+  importedAt: scan(10, 0).importedAt,
+  source: 'Auctionator.lua'
+});
+
+describe('AuctionatorDataService realms', () => {
+  beforeAll(() => {
+    setDbFileReader((fileName) =>
+      fs.promises.readFile(path.join(__dirname, '..', '..', 'public', 'db', fileName), 'utf8')
+    );
+  });
+
+  afterAll(() => {
+    setDbFileReader(null);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads the realm and faction from a realm key', () => {
+    expect(AuctionatorDataService.parseRealmKey('Frostmourne_Alliance')).toEqual({
+      key: 'Frostmourne_Alliance',
+      realm: 'Frostmourne',
+      faction: 'Alliance'
+    });
+    expect(AuctionatorDataService.parseRealmKey('PTR  Frostmourne_horde')).toMatchObject({
+      realm: 'PTR Frostmourne',
+      faction: 'Horde'
+    });
+    expect(AuctionatorDataService.parseRealmKey(LEGACY_REALM_KEY)).toMatchObject({
+      realm: LEGACY_REALM_KEY,
+      faction: 'Neutral'
+    });
+  });
+
+  it('keeps the prices of each realm and faction apart', async () => {
+    const { data, summary } = await AuctionatorDataService.parseWithSummary(
+      AUCTIONATOR_FILE,
+      'Auctionator.lua',
+      KEEP_RAW
+    );
+
+    // realms without prices are left out
+    expect(summary.realms).toEqual(['Frostmourne_Alliance', 'Icecrown_Horde']);
+    expect(data.realms.get('Frostmourne_Alliance')?.get(LIGHT_LEATHER)?.[0].price).toBe(120);
+    expect(data.realms.get('Frostmourne_Alliance')?.get(ROUGH_STONE)?.[0].price).toBe(53);
+    expect(data.realms.get('Icecrown_Horde')?.get(LIGHT_LEATHER)?.[0].price).toBe(95);
+    expect(data.realms.get('Icecrown_Horde')?.has(ROUGH_STONE)).toBe(false);
+  });
+
+  it('finds a dataset by realm and faction, preferring the largest', () => {
+    const data = dataset({
+      Frostmourne_Alliance: [
+        [LIGHT_LEATHER, [scan(1, 120)]],
+        [ROUGH_STONE, [scan(1, 53)]]
+      ],
+      Frostmourne_Horde: [[LIGHT_LEATHER, [scan(2, 110)]]],
+      Icecrown_Horde: [[LIGHT_LEATHER, [scan(3, 95)]]]
+    });
+
+    expect(AuctionatorDataService.findRealmKey(data)).toBe('Frostmourne_Alliance');
+    expect(AuctionatorDataService.findRealmKey(data, 'frostmourne', 'horde')).toBe('Frostmourne_Horde');
+    expect(AuctionatorDataService.findRealmKey(data, null, 'Horde')).toBe('Frostmourne_Horde');
+    expect(AuctionatorDataService.findRealmKey(data, 'Icecrown_Horde')).toBe('Icecrown_Horde');
+    expect(AuctionatorDataService.findRealmKey(data, 'Icecrown', 'Alliance')).toBeNull();
+  });
+
+  it('lists the realms with data as servers, newest first', () => {
+    const servers = AuctionatorDataService.listServers(
+      dataset({
+        Frostmourne_Alliance: [[LIGHT_LEATHER, [scan(1, 120)]]],
+        Icecrown_Horde: [[LIGHT_LEATHER, [scan(3, 95)]]],
+        // a scan whose date does not parse counts as the oldest
+        Undated_Horde: [[LIGHT_LEATHER, [{ ...scan(5, 90), importedAt: 'not a date' }]]],
+        Empty_Alliance: []
+      })
+    );
+
+    expect(servers.map(({ name, faction, datasetKey }) => [name, faction, datasetKey])).toEqual([
+      ['Icecrown', 'Horde', 'Icecrown_Horde'],
+      ['Frostmourne', 'Alliance', 'Frostmourne_Alliance'],
+      ['Undated', 'Horde', 'Undated_Horde']
+    ]);
+  });
+
+  it('stores realms in the payload and reads single-realm payloads as the legacy realm', () => {
+    const data = dataset({
+      Frostmourne_Alliance: [[LIGHT_LEATHER, [scan(1, 120)]]],
+      Icecrown_Horde: [[LIGHT_LEATHER, [scan(3, 95)]]]
+    });
+
+    const restored = AuctionatorDataService.fromStoragePayload(
+      AuctionatorDataService.toStoragePayload(data)
+    );
+    expect(Array.from(restored?.realms.keys() ?? [])).toEqual(['Frostmourne_Alliance', 'Icecrown_Horde']);
+    expect(restored?.realms.get('Icecrown_Horde')?.get(LIGHT_LEATHER)).toEqual([scan(3, 95)]);
+
+    const legacy = AuctionatorDataService.fromStoragePayload({
+      version: 2,
+      source: 'Auctionator.lua',
+      importedAt: scan(1, 0).importedAt,
+      itemPrices: { [LIGHT_LEATHER]: [scan(1, 120)] }
+    });
+    expect(Array.from(legacy?.realms.keys() ?? [])).toEqual([LEGACY_REALM_KEY]);
+  });
+
+  it('keeps stored realms that an upload does not include', () => {
+    const merged = AuctionatorDataService.mergeWithExisting(
+      dataset({
+        Frostmourne_Alliance: [[LIGHT_LEATHER, [scan(1, 120)]]],
+        Icecrown_Horde: [[LIGHT_LEATHER, [scan(1, 95)]]]
+      }),
+      dataset({ Frostmourne_Alliance: [[LIGHT_LEATHER, [scan(2, 130)]]] }),
+      KEEP_RAW
+    );
+
+    expect(merged.realms.get('Frostmourne_Alliance')?.get(LIGHT_LEATHER)?.map(({ price }) => price)).toEqual([
+      120, 130
+    ]);
+    expect(merged.realms.get('Icecrown_Horde')?.get(LIGHT_LEATHER)).toEqual([scan(1, 95)]);
+  });
+
+  it('screens the scans of a first import against its own earlier scans', () => {
+    const scans = [scan(1, 100), scan(2, 102), scan(3, 98), scan(4, 101), scan(5, 99), scan(6, 200)];
+    const incoming = dataset({ Frostmourne_Alliance: [[LIGHT_LEATHER, scans]] });
+    const merged = AuctionatorDataService.mergeWithExisting(null, incoming, KEEP_RAW);
+
+    const entries = merged.realms.get('Frostmourne_Alliance')?.get(LIGHT_LEATHER) ?? [];
+    expect(entries.map(({ anomaly }) => anomaly?.status)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      'pending'
+    ]);
+    expect(merged.importedAt).toBe(incoming.importedAt);
+  });
+});
+
+describe('AuctionatorDataService.getAuctionData', () => {
+  const summarise = (entries: PriceHistoryEntry[], medianDays?: number) =>
+    AuctionatorDataService.getAuctionData(
+      dataset({ Frostmourne_Alliance: [[LIGHT_LEATHER, entries]] }),
+      'Frostmourne_Alliance',
+      LIGHT_LEATHER,
+      medianDays
+    );
+
+  it('reports the lowest price of the window rather than the latest scan', () => {
+    const summary = summarise([scan(1, 50), scan(5, 120), scan(6, 90), { ...scan(7, 100), quantity: 40 }], 3);
+
+    // the scan of day 1 is outside the three-day window
+    expect(summary).toEqual({
+      itemId: LIGHT_LEATHER,
+      server: 'Frostmourne',
+      faction: 'Alliance',
+      minBuyout: 90,
+      medianPrice: 100,
+      lastUpdated: new Date(scan(7, 0).importedAt),
+      quantity: 40
+    });
+  });
+
+  it('counts the lowest scan behind an aggregate and skips flagged scans', () => {
+    const daily = {
+      ...scan(5, 110),
+      aggregate: { period: 'day' as const, min: 70, median: 110, max: 140, count: 6 }
+    };
+    const flagged = { ...scan(6, 5), anomaly: { score: -9, baseline: 110, status: 'pending' as const } };
+
+    expect(summarise([daily, flagged, scan(7, 100)])?.minBuyout).toBe(70);
+  });
+
+  it('leaves the quantity unknown when the scan did not record it', () => {
+    expect(summarise([scan(7, 100)])?.quantity).toBeNull();
+    expect(summarise([{ ...scan(7, 100), quantity: 0 }])?.quantity).toBe(0);
+  });
+});
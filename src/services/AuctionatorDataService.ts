@@ -2,23 +2,123 @@ import { PersistentStorage } from './api';
 import { ItemNameResolver } from './ItemNameResolver';
 import { loadItemNameIndex, normalizeItemName } from './ItemNameIndex';
 import { SharedStorageClient } from './SharedStorageClient';
+import { entryTimestamp } from '../utils/common';
 import { decodeHtmlEntities } from '../utils/html';
+import { AuctionData, ServerInfo } from '../types';
+import { applyRetention, DEFAULT_RETENTION_POLICY, RetentionPolicy } from './HistoryRetention';
+import {
+  isModernPriceDatabase,
+  parseModernPriceDatabase,
+  parsePostingHistory
+} from './AuctionatorModernFormat';
+import {
+  getLuaField,
+  isLuaTable,
+  luaNumber,
+  LuaNode,
+  luaString,
+  LuaTableNode,
+  readSavedVariables
+} from './LuaTableParser';
+import { PriceAnomalies, PriceAnomalyReview } from './PriceAnomalies';
+import { PriceStatistics } from './PriceStatistics';
+import { buildItemIdImport, PriceImporter, UNRESOLVED_SAMPLE_SIZE } from './PriceImporter';
+import { tsmAuctionDbImporter } from './TsmAuctionDbFormat';
+import { auctioneerImporter } from './AuctioneerScanFormat';
+
+// v4 payloads may contain daily/weekly aggregate entries (see HistoryRetention)
+const STORAGE_KEY_VERSION = 4;
+
+// Dataset for prices stored before realms were tracked and for files that only
+// carry a pricing history.
+export const LEGACY_REALM_KEY = 'Unknown';
+
+const REALM_KEY_PATTERN = /^(.*?)[_\s-]+(Alliance|Horde|Neutral)$/i;
+
+export interface PriceAggregate {
+  period: 'day' | 'week';
+  min: number;
+  median: number;
+  max: number;
+  count: number;
+}
+
+export const PRICE_ANOMALY_STATUSES = ['pending', 'accepted', 'rejected'] as const;
 
-const STORAGE_KEY_VERSION = 2;
-const HISTORY_LIMIT = 50;
+export type PriceAnomalyStatus = (typeof PRICE_ANOMALY_STATUSES)[number];
+
+// Set on a scan whose price was an outlier against the item's earlier scans.
+export interface PriceAnomaly {
+  // robust z-score; negative for prices below the usual level
+  score: number;
+  // median of the earlier scans the price was compared with
+  baseline: number;
+  status: PriceAnomalyStatus;
+}
+
+export const PRICE_SOURCE_ADDONS = ['Auctionator', 'TradeSkillMaster', 'Auctioneer'] as const;
+
+export type PriceSourceAddon = (typeof PRICE_SOURCE_ADDONS)[number];
 
 export interface PriceHistoryEntry {
+  // for aggregates this is the median and importedAt is the start of the period
   price: number;
   importedAt: string;
   source: string;
+  // entries stored before other addons were supported come from Auctionator
+  addon?: PriceSourceAddon;
+  // market value, units listed and number of auctions, where the addon records them
+  marketValue?: number;
+  quantity?: number;
+  auctions?: number;
+  aggregate?: PriceAggregate;
+  anomaly?: PriceAnomaly;
 }
 
+export type RealmPriceHistory = Map<number, PriceHistoryEntry[]>;
+
 export interface AuctionatorParsedData {
-  itemPrices: Map<number, PriceHistoryEntry[]>;
+  // keyed by the Auctionator realm key, e.g. "Frostmourne_Alliance"
+  realms: Map<string, RealmPriceHistory>;
   importedAt: string;
   source: string;
 }
 
+export interface AuctionatorImportSummary {
+  addon: PriceSourceAddon;
+  // names matched to an item id, including those found via the history fallback
+  resolved: number;
+  resolvedViaHistory: number;
+  unresolved: number;
+  unresolvedSample: string[];
+  historyItems: number;
+  realms: string[];
+}
+
+export type AuctionatorImportStage = 'reading' | 'parsing' | 'resolving' | 'merging';
+
+export interface AuctionatorImportProgress {
+  stage: AuctionatorImportStage;
+  // counted in characters of the decoded file; the total is 0 until it is read
+  charactersParsed: number;
+  totalCharacters: number;
+  itemsResolved: number;
+}
+
+export type AuctionatorProgressListener = (progress: AuctionatorImportProgress) => void;
+
+export interface AuctionatorImportResult {
+  data: AuctionatorParsedData;
+  summary: AuctionatorImportSummary;
+  resolvedNames: Map<string, number>;
+}
+
+export interface RealmDescriptor {
+  key: string;
+  realm: string;
+  faction: ServerInfo['faction'];
+}
+
 interface RawHistoryRecord {
   key: number;
   totalPrice: number;
@@ -45,182 +145,106 @@ interface AuctionatorStoragePayloadV2 {
   itemPrices: Record<number, PriceHistoryEntry[]>;
 }
 
-type AuctionatorStoragePayload = AuctionatorStoragePayloadV1 | AuctionatorStoragePayloadV2;
+interface AuctionatorStoragePayloadV3 {
+  version: number;
+  source: string;
+  importedAt: string;
+  realms: Record<string, Record<number, PriceHistoryEntry[]>>;
+}
+
+export type AuctionatorStoragePayload =
+  | AuctionatorStoragePayloadV1
+  | AuctionatorStoragePayloadV2
+  | AuctionatorStoragePayloadV3;
 
 const STORAGE_FALLBACK: AuctionatorParsedData = {
-  itemPrices: new Map(),
+  realms: new Map(),
   importedAt: new Date(0).toISOString(),
   source: 'Unknown'
 };
 
-const extractTableBlock = (content: string, tableName: string): string | null => {
-  const startToken = `${tableName} = {`;
-  const startIndex = content.indexOf(startToken);
-
-  if (startIndex === -1) {
-    return null;
-  }
+// Fields of very old price database entries, in the order they were written.
+const LEGACY_PRICE_KEY_PATTERN = /^(?:price|mr|minBuyout|marketValue|recent|historical|H\d+)$/;
 
-  let index = startIndex + startToken.length;
-  let depth = 1;
+// "12345:0:..." item strings of `is` fields
+const ITEM_STRING_PATTERN = /^(\d+):/;
 
-  while (index < content.length && depth > 0) {
-    const char = content[index];
-    if (char === '{') {
-      depth += 1;
-    } else if (char === '}') {
-      depth -= 1;
-    }
-    index += 1;
-  }
-
-  if (depth !== 0) {
-    return null;
-  }
-
-  return content.slice(startIndex, index);
+const readItemString = (node: LuaNode | undefined): number | null => {
+  const match = luaString(node)?.match(ITEM_STRING_PATTERN);
+  return match ? Number(match[1]) : null;
 };
 
-const PRICE_KEY_PATTERNS = [
-  /\["price"\]\s*=\s*([\d]+)/,
-  /\["mr"\]\s*=\s*([\d]+)/,
-  /\["minBuyout"\]\s*=\s*([\d]+)/,
-  /\["marketValue"\]\s*=\s*([\d]+)/,
-  /\["recent"\]\s*=\s*([\d]+)/,
-  /\["historical"\]\s*=\s*([\d]+)/,
-  /\["H\d+"\]\s*=\s*([\d]+)/ // historical spillover keys
-] as const;
-
-const parseLegacyPriceDatabase = (tableBlock: string): Map<number, number> => {
-  const lines = tableBlock.split(/\r?\n/);
+/**
+ * Price databases of the oldest Auctionator versions hold one table per item
+ * with its `is` item string; the last price field of an entry wins.
+ */
+const parseLegacyPriceDatabase = (table: LuaTableNode): Map<number, number> => {
   const prices = new Map<number, number>();
 
-  let currentItemId: number | null = null;
-  let currentPrice: number | null = null;
-
-  const commitEntry = () => {
-    if (currentItemId !== null && currentPrice !== null) {
-      prices.set(currentItemId, currentPrice);
-    }
-    currentItemId = null;
-    currentPrice = null;
-  };
-
-  for (const rawLine of lines) {
-    const line = rawLine.trim();
-    if (!line) {
-      continue;
-    }
-
-    const idMatch = line.match(/\["is"\]\s*=\s*"(\d+):/);
-    if (idMatch) {
-      if (currentItemId !== null && currentPrice !== null) {
-        commitEntry();
-      }
-      currentItemId = Number(idMatch[1]);
-      continue;
-    }
-
-    for (const pattern of PRICE_KEY_PATTERNS) {
-      const match = line.match(pattern);
-      if (match) {
-        const parsed = Number(match[1]);
-        if (!Number.isNaN(parsed) && parsed > 0) {
-          currentPrice = parsed;
+  const visit = (node: LuaTableNode) => {
+    const itemId = readItemString(getLuaField(node, 'is'));
+    if (itemId === null) {
+      node.entries.forEach(({ value }) => {
+        if (isLuaTable(value)) {
+          visit(value);
         }
-        break;
-      }
+      });
+      return;
     }
 
-    if (line.startsWith('},') || line === '}' || line === '}, --') {
-      if (currentItemId !== null && currentPrice !== null) {
-        commitEntry();
-      } else {
-        currentItemId = null;
-        currentPrice = null;
+    let price: number | null = null;
+    node.entries.forEach(({ key, value }) => {
+      const parsed = luaNumber(value);
+      if (LEGACY_PRICE_KEY_PATTERN.test(String(key)) && parsed !== null && parsed > 0) {
+        price = parsed;
       }
+    });
+    if (price !== null) {
+      prices.set(itemId, price);
     }
-  }
-
-  if (currentItemId !== null && currentPrice !== null) {
-    commitEntry();
-  }
+  };
 
+  visit(table);
   return prices;
 };
 
-const extractBracketKeyValue = (
-  line: string
-): { key: string; rawValue: string } | null => {
-  const match = line.match(/^\["([^"]+)"\]\s*=\s*(.+)$/);
-  if (!match) {
-    return null;
+// Prices are integers of copper, possibly written as strings.
+const readNamedPrice = (node: LuaNode): number | null => {
+  if (node.type === 'number') {
+    return Math.trunc(node.value);
   }
-
-  return {
-    key: match[1],
-    rawValue: match[2]
-  };
+  const match = luaString(node)?.match(/-?\d+/);
+  return match ? Number(match[0]) : null;
 };
 
-const parseNamedPriceDatabase = (tableBlock: string): Map<string, number> => {
-  const lines = tableBlock.split(/\r?\n/);
-  const prices = new Map<string, number>();
+const parseNamedPriceDatabase = (table: LuaTableNode): Map<string, Map<string, number>> => {
+  const pricesByRealm = new Map<string, Map<string, number>>();
 
-  let depth = 0;
-  let currentRealm: string | null = null;
-
-  for (const rawLine of lines) {
-    const line = rawLine.trim();
-    if (!line) {
-      depth += (rawLine.match(/{/g) || []).length;
-      depth -= (rawLine.match(/}/g) || []).length;
-      if (depth < 2) {
-        currentRealm = null;
-      }
-      if (depth < 0) {
-        depth = 0;
-      }
-      continue;
+  table.entries.forEach(({ key: realmKey, value: realmTable }) => {
+    if (!isLuaTable(realmTable)) {
+      return;
     }
 
-    const openCount = (rawLine.match(/{/g) || []).length;
-    const closeCount = (rawLine.match(/}/g) || []).length;
-
-    const keyValue = extractBracketKeyValue(line);
-    if (keyValue) {
-      const { key, rawValue } = keyValue;
+    const prices = new Map<string, number>();
+    realmTable.entries.forEach(({ key, value }) => {
+      const price = readNamedPrice(value);
+      if (price === null || price <= 0) {
+        return;
+      }
 
-      if (rawValue.startsWith('{')) {
-        if (depth === 1) {
-          currentRealm = key;
-        }
-      } else if (depth >= 2 && currentRealm) {
-        const priceMatch = rawValue.match(/(-?\d+)/);
-        if (priceMatch) {
-          const price = Number(priceMatch[1]);
-          if (!Number.isNaN(price) && price > 0) {
-            const decodedKey = decodeHtmlEntities(key);
-            const existing = prices.get(decodedKey);
-            if (existing === undefined || price < existing) {
-              prices.set(decodedKey, price);
-            }
-          }
-        }
+      const decodedKey = decodeHtmlEntities(String(key));
+      const existing = prices.get(decodedKey);
+      if (existing === undefined || price < existing) {
+        prices.set(decodedKey, price);
       }
-    }
+    });
 
-    depth += openCount;
-    depth -= closeCount;
-    if (depth < 2) {
-      currentRealm = null;
+    if (prices.size > 0) {
+      pricesByRealm.set(String(realmKey), prices);
     }
-    if (depth < 0) {
-      depth = 0;
-    }
-  }
+  });
 
-  return prices;
+  return pricesByRealm;
 };
 
 const toHistoryObject = (map: Map<number, PriceHistoryEntry[]>): Record<number, PriceHistoryEntry[]> => {
@@ -238,33 +262,87 @@ const fromHistoryObject = (obj: Record<number, PriceHistoryEntry[]>): Map<number
     if (!Number.isNaN(numericKey) && Array.isArray(value)) {
       const sanitized = value
         .filter((entry) => Number.isFinite(entry?.price) && typeof entry?.importedAt === 'string')
-        .map((entry) => ({
-          price: Number(entry.price),
-          importedAt: entry.importedAt,
-          source: entry.source ?? 'Unknown'
-        }))
-        .sort((a, b) => new Date(a.importedAt).getTime() - new Date(b.importedAt).getTime());
-      map.set(numericKey, sanitized.slice(-HISTORY_LIMIT));
+        .map((entry): PriceHistoryEntry => {
+          const sanitizedEntry: PriceHistoryEntry = {
+            price: Number(entry.price),
+            importedAt: entry.importedAt,
+            source: entry.source ?? 'Unknown'
+          };
+          if (entry.addon && PRICE_SOURCE_ADDONS.includes(entry.addon)) {
+            sanitizedEntry.addon = entry.addon;
+          }
+          if (Number.isFinite(entry.marketValue)) {
+            sanitizedEntry.marketValue = Number(entry.marketValue);
+          }
+          if (Number.isFinite(entry.quantity)) {
+            sanitizedEntry.quantity = Number(entry.quantity);
+          }
+          if (Number.isFinite(entry.auctions)) {
+            sanitizedEntry.auctions = Number(entry.auctions);
+          }
+          if (entry.aggregate && Number.isFinite(entry.aggregate.count)) {
+            sanitizedEntry.aggregate = { ...entry.aggregate };
+          }
+          if (entry.anomaly && PRICE_ANOMALY_STATUSES.includes(entry.anomaly.status)) {
+            sanitizedEntry.anomaly = { ...entry.anomaly };
+          }
+          return sanitizedEntry;
+        })
+        .sort((a, b) => entryTimestamp(a) - entryTimestamp(b));
+      map.set(numericKey, sanitized);
     }
   });
   return map;
 };
 
-const createHistoryEntry = (price: number, importedAt: string, source: string): PriceHistoryEntry => ({
+const createHistoryEntry = (
+  price: number,
+  importedAt: string,
+  source: string,
+  quantity?: number
+): PriceHistoryEntry => ({
   price,
   importedAt,
-  source
+  source,
+  addon: 'Auctionator',
+  ...(quantity !== undefined ? { quantity } : {})
 });
 
-const createStoragePayload = (data: AuctionatorParsedData): AuctionatorStoragePayloadV2 => ({
-  version: STORAGE_KEY_VERSION,
-  source: data.source,
-  importedAt: data.importedAt,
-  itemPrices: toHistoryObject(data.itemPrices)
-});
+const createStoragePayload = (data: AuctionatorParsedData): AuctionatorStoragePayloadV3 => {
+  const realms: Record<string, Record<number, PriceHistoryEntry[]>> = {};
+  data.realms.forEach((history, realmKey) => {
+    realms[realmKey] = toHistoryObject(history);
+  });
+
+  return {
+    version: STORAGE_KEY_VERSION,
+    source: data.source,
+    importedAt: data.importedAt,
+    realms
+  };
+};
 
 const parseStoragePayload = (raw: AuctionatorStoragePayload | null): AuctionatorParsedData | null => {
-  if (!raw || !raw.itemPrices) {
+  if (!raw) {
+    return null;
+  }
+
+  if ('realms' in raw && raw.realms) {
+    const realms = new Map<string, RealmPriceHistory>();
+    Object.entries(raw.realms).forEach(([realmKey, history]) => {
+      if (history && typeof history === 'object') {
+        realms.set(realmKey, fromHistoryObject(history));
+      }
+    });
+
+    return {
+      realms,
+      importedAt: raw.importedAt || STORAGE_FALLBACK.importedAt,
+      source: raw.source || STORAGE_FALLBACK.source
+    };
+  }
+
+  if (!('itemPrices' in raw) || !raw.itemPrices) {
     return null;
   }
 
@@ -286,7 +364,7 @@ const parseStoragePayload = (raw: AuctionatorStoragePayload | null): Auctionator
     });
 
     return {
-      itemPrices: history,
+      realms: new Map([[LEGACY_REALM_KEY, history]]),
       importedAt: legacy.importedAt || STORAGE_FALLBACK.importedAt,
       source: legacy.source || STORAGE_FALLBACK.source
     };
@@ -295,131 +373,61 @@ const parseStoragePayload = (raw: AuctionatorStoragePayload | null): Auctionator
   const v2 = raw as AuctionatorStoragePayloadV2;
 
   return {
-    itemPrices: fromHistoryObject(v2.itemPrices),
+    realms: new Map([[LEGACY_REALM_KEY, fromHistoryObject(v2.itemPrices)]]),
     importedAt: v2.importedAt || STORAGE_FALLBACK.importedAt,
     source: v2.source || STORAGE_FALLBACK.source
   };
 };
 
-const extractLastScanTime = (content: string): number | null => {
-  const match = content.match(/AUCTIONATOR_LAST_SCAN_TIME\s*=\s*(\d+)/);
-  if (!match) {
-    return null;
-  }
-
-  const value = Number(match[1]);
-  return Number.isFinite(value) ? value : null;
-};
-
-const parsePricingHistoryData = (tableBlock: string): PricingHistoryParseResult => {
-  const lines = tableBlock.split(/\r?\n/);
+// Pricing history records are keyed by scan minute with "totalPrice:quantity" values.
+const parsePricingHistoryData = (table: LuaTableNode): PricingHistoryParseResult => {
   const index = new Map<string, number>();
   const entriesByItemId = new Map<number, RawHistoryRecord[]>();
-
-  let depth = 0;
-  let currentItemName: string | null = null;
-  let currentNormalizedName: string | null = null;
-  let currentItemId: number | null = null;
-  let pendingEntries: RawHistoryRecord[] = [];
   let maxKey: number | null = null;
 
-  const commitCurrent = () => {
-    if (currentNormalizedName && currentItemId !== null) {
-      index.set(currentNormalizedName, currentItemId);
-      if (pendingEntries.length > 0) {
-        const existing = entriesByItemId.get(currentItemId) ?? [];
-        entriesByItemId.set(currentItemId, existing.concat(pendingEntries));
-      }
+  table.entries.forEach(({ key: itemName, value: itemTable }) => {
+    if (!isLuaTable(itemTable)) {
+      return;
     }
 
-    currentItemName = null;
-    currentNormalizedName = null;
-    currentItemId = null;
-    pendingEntries = [];
-  };
-
-  for (const rawLine of lines) {
-    const line = rawLine.trim();
-    const openCount = (rawLine.match(/{/g) || []).length;
-    const closeCount = (rawLine.match(/}/g) || []).length;
+    const normalizedName = normalizeItemName(decodeHtmlEntities(String(itemName)));
+    const itemId = readItemString(getLuaField(itemTable, 'is'));
+    const records: RawHistoryRecord[] = [];
 
-    if (!line) {
-      depth += openCount;
-      depth -= closeCount;
-      if (depth < 2 && currentItemName) {
-        commitCurrent();
-      }
-      if (depth < 0) {
-        depth = 0;
-      }
-      continue;
-    }
-
-    const itemStartMatch = line.match(/^\["([^"]+)"\]\s*=\s*{\s*,?\s*$/);
-    if (itemStartMatch && depth === 1) {
-      commitCurrent();
-      const decoded = decodeHtmlEntities(itemStartMatch[1]);
-      currentItemName = decoded;
-      currentNormalizedName = normalizeItemName(decoded);
-      depth += openCount;
-      depth -= closeCount;
-      if (depth < 0) {
-        depth = 0;
+    itemTable.entries.forEach(({ key, value }) => {
+      const keyText = String(key);
+      const record = luaString(value);
+      if (!/^\d+$/.test(keyText) || record === null) {
+        return;
       }
-      continue;
-    }
 
-    if (currentItemName) {
-      const keyValue = extractBracketKeyValue(line);
+      const [pricePart, quantityPart] = record.split(':');
+      const totalPrice = Number(pricePart);
+      const quantity = Number(quantityPart ?? '1');
+      if (!Number.isFinite(totalPrice) || totalPrice <= 0) {
+        return;
+      }
 
-      if (keyValue && keyValue.key === 'is') {
-        const idMatch = keyValue.rawValue.match(/"(\d+):/);
-        if (idMatch) {
-          const parsedId = Number(idMatch[1]);
-          if (!Number.isNaN(parsedId)) {
-            currentItemId = parsedId;
-            if (currentNormalizedName) {
-              index.set(currentNormalizedName, parsedId);
-            }
-          }
-        }
-      } else if (keyValue && /^\d+$/.test(keyValue.key)) {
-        const keyNumber = Number(keyValue.key);
-        if (Number.isFinite(keyNumber)) {
-          const valueWithoutComment = keyValue.rawValue.split('--')[0].trim();
-          const sanitized = valueWithoutComment.replace(/[},]$/, '').trim();
-          const valueMatch = sanitized.match(/^"([^"]+)"/);
-          if (valueMatch) {
-            const [pricePart, quantityPart] = valueMatch[1].split(':');
-            const totalPrice = Number(pricePart);
-            const quantity = Number(quantityPart ?? '1');
-            if (Number.isFinite(totalPrice) && totalPrice > 0) {
-              const record: RawHistoryRecord = {
-                key: keyNumber,
-                totalPrice,
-                quantity: Number.isFinite(quantity) && quantity > 0 ? quantity : 1
-              };
-              pendingEntries.push(record);
-              if (maxKey === null || keyNumber > maxKey) {
-                maxKey = keyNumber;
-              }
-            }
-          }
-        }
+      const keyNumber = Number(keyText);
+      records.push({
+        key: keyNumber,
+        totalPrice,
+        quantity: Number.isFinite(quantity) && quantity > 0 ? quantity : 1
+      });
+      if (maxKey === null || keyNumber > maxKey) {
+        maxKey = keyNumber;
       }
-    }
+    });
 
-    depth += openCount;
-    depth -= closeCount;
-    if (depth < 2 && currentItemName) {
-      commitCurrent();
-    }
-    if (depth < 0) {
-      depth = 0;
+    if (itemId === null || !normalizedName) {
+      return;
     }
-  }
 
-  commitCurrent();
+    index.set(normalizedName, itemId);
+    if (records.length > 0) {
+      entriesByItemId.set(itemId, (entriesByItemId.get(itemId) ?? []).concat(records));
+    }
+  });
 
   return {
     index,
@@ -432,7 +440,8 @@ const convertRawHistoryToEntries = (
   rawHistory: Map<number, RawHistoryRecord[]>,
   source: string,
   anchorTimestamp?: number,
-  maxKeyOverride: number | null = null
+  maxKeyOverride: number | null = null,
+  retention: RetentionPolicy = DEFAULT_RETENTION_POLICY
 ): Map<number, PriceHistoryEntry[]> => {
   const history = new Map<number, PriceHistoryEntry[]>();
   let globalMaxKey: number | null = maxKeyOverride;
@@ -475,18 +484,13 @@ const convertRawHistoryToEntries = (
       );
 
       if (!duplicate) {
-        entries.push(createHistoryEntry(perItemPrice, importedAt, source));
+        entries.push(createHistoryEntry(perItemPrice, importedAt, source, quantity));
       }
     });
 
-    entries.sort(
-      (a, b) => new Date(a.importedAt).getTime() - new Date(b.importedAt).getTime()
-    );
-
-    if (entries.length > HISTORY_LIMIT) {
-      history.set(itemId, entries.slice(-HISTORY_LIMIT));
-    } else if (entries.length > 0) {
-      history.set(itemId, entries);
+    const retained = applyRetention(entries, retention);
+    if (retained.length > 0) {
+      history.set(itemId, retained);
     }
   });
 
@@ -537,10 +541,34 @@ const mapNamePricesToItemIds = (
   return { prices, unknownNames, resolvedViaHistory, resolvedNames };
 };
 
+const findPrimaryRealm = (realms: Map<string, Map<number, unknown>>): string | null => {
+  let bestKey: string | null = null;
+  let bestSize = 0;
+  realms.forEach((prices, realmKey) => {
+    if (prices.size > bestSize) {
+      bestKey = realmKey;
+      bestSize = prices.size;
+    }
+  });
+  return bestKey;
+};
+
+const getLatestTimestamp = (history: RealmPriceHistory): number => {
+  let latest = 0;
+  history.forEach((entries) => {
+    const last = entries[entries.length - 1];
+    const time = last ? entryTimestamp(last) : 0;
+    if (time > latest) {
+      latest = time;
+    }
+  });
+  return latest;
+};
+
 const mergeHistories = (
   existing: Map<number, PriceHistoryEntry[]>,
   incoming: Map<number, PriceHistoryEntry[]>,
-  limit = HISTORY_LIMIT
+  retention: RetentionPolicy = DEFAULT_RETENTION_POLICY
 ): Map<number, PriceHistoryEntry[]> => {
   const result = new Map<number, PriceHistoryEntry[]>();
 
@@ -555,56 +583,139 @@ const mergeHistories = (
 
     const updates = result.get(itemId) ?? [];
     entries.forEach((entry) => {
-      const duplicate = updates.find(
+      // re-importing a file yields the same aggregate for a period; keep the
+      // fuller one instead of folding the same scans in twice
+      const overlappingIndex = updates.findIndex(
         (existingEntry) =>
-          existingEntry.importedAt === entry.importedAt && existingEntry.price === entry.price
+          existingEntry.importedAt === entry.importedAt &&
+          (existingEntry.price === entry.price ||
+            (existingEntry.aggregate !== undefined &&
+              existingEntry.aggregate.period === entry.aggregate?.period))
       );
-      if (!duplicate) {
-        updates.push(entry);
+      if (overlappingIndex === -1) {
+        // scans are screened once; a flag and its review travel with the entry
+        const anomaly = entry.anomaly ? null : PriceAnomalies.screen(entry, updates);
+        updates.push(anomaly ? { ...entry, anomaly } : entry);
+      } else if ((entry.aggregate?.count ?? 0) > (updates[overlappingIndex].aggregate?.count ?? 0)) {
+        updates[overlappingIndex] = entry;
       }
     });
 
-    updates.sort(
-      (a, b) => new Date(a.importedAt).getTime() - new Date(b.importedAt).getTime()
-    );
-    result.set(itemId, updates.slice(-limit));
+    result.set(itemId, applyRetention(updates, retention));
   });
 
   return result;
 };
 
-export const AuctionatorDataService = {
-  async parse(content: string, sourceLabel: string): Promise<AuctionatorParsedData> {
-    const priceBlock = extractTableBlock(content, 'AUCTIONATOR_PRICE_DATABASE');
-    const historyBlock = extractTableBlock(content, 'AUCTIONATOR_PRICING_HISTORY');
+// SavedVariables the importer reads; the rest of the file is only checked for syntax.
+const AUCTIONATOR_VARIABLES = [
+  'AUCTIONATOR_PRICE_DATABASE',
+  'AUCTIONATOR_PRICING_HISTORY',
+  'AUCTIONATOR_POSTING_HISTORY',
+  'AUCTIONATOR_LAST_SCAN_TIME'
+];
+
+/**
+ * Files of newer Auctionator builds are keyed by item id, so no names need
+ * resolving. Like the legacy pricing history, the posting history is not
+ * split by realm and goes to the realm with the most prices.
+ */
+const parseModernFile = (
+  priceTable: LuaTableNode | null,
+  postingTable: LuaTableNode | null,
+  importedAt: string,
+  sourceLabel: string,
+  retention: RetentionPolicy
+): AuctionatorImportResult => {
+  const database = priceTable
+    ? parseModernPriceDatabase(priceTable, sourceLabel, importedAt)
+    : { realms: new Map<string, RealmPriceHistory>(), skippedKeys: [] };
+  const postingHistory = postingTable
+    ? parsePostingHistory(postingTable, sourceLabel)
+    : new Map<number, PriceHistoryEntry[]>();
+
+  const realms = database.realms;
+  if (postingHistory.size > 0) {
+    const historyRealm = findPrimaryRealm(realms) ?? LEGACY_REALM_KEY;
+    const scanned = realms.get(historyRealm) ?? new Map<number, PriceHistoryEntry[]>();
+    realms.set(historyRealm, mergeHistories(scanned, postingHistory, retention));
+  }
 
-    if (!priceBlock && !historyBlock) {
-      throw new Error(
-        'Auctionator.lua does not contain AUCTIONATOR_PRICE_DATABASE or AUCTIONATOR_PRICING_HISTORY sections.'
+  return buildItemIdImport(
+    realms,
+    importedAt,
+    sourceLabel,
+    'Auctionator',
+    database.skippedKeys,
+    retention,
+    postingHistory.size
+  );
+};
+
+const auctionatorImporter: PriceImporter = {
+  addon: 'Auctionator',
+  variables: AUCTIONATOR_VARIABLES,
+
+  detect: (variables) =>
+    ['AUCTIONATOR_PRICE_DATABASE', 'AUCTIONATOR_PRICING_HISTORY', 'AUCTIONATOR_POSTING_HISTORY'].some(
+      (name) => isLuaTable(variables.get(name))
+    ),
+
+  async parse(variables, sourceLabel, retention, onItemsResolved) {
+    const readTable = (name: string) => {
+      const node = variables.get(name);
+      return isLuaTable(node) ? node : null;
+    };
+    const priceTable = readTable('AUCTIONATOR_PRICE_DATABASE');
+    const historyTable = readTable('AUCTIONATOR_PRICING_HISTORY');
+    const postingTable = readTable('AUCTIONATOR_POSTING_HISTORY');
+    const lastScanTime = luaNumber(variables.get('AUCTIONATOR_LAST_SCAN_TIME'));
+
+    const isModernFile = priceTable ? isModernPriceDatabase(priceTable) : !historyTable;
+    if (isModernFile) {
+      const scanTime = lastScanTime ?? Math.floor(Date.now() / 1000);
+      return parseModernFile(
+        priceTable,
+        postingTable,
+        new Date(scanTime * 1000).toISOString(),
+        sourceLabel,
+        retention
       );
     }
 
-    if (!priceBlock) {
+    if (!priceTable) {
       console.warn(
         `[Auctionator] AUCTIONATOR_PRICE_DATABASE not found in ${sourceLabel}. Proceeding with pricing history only.`
       );
     }
 
-    const namePrices = priceBlock ? parseNamedPriceDatabase(priceBlock) : new Map<string, number>();
+    const namePricesByRealm = priceTable
+      ? parseNamedPriceDatabase(priceTable)
+      : new Map<string, Map<string, number>>();
 
-    const historyData = historyBlock ? parsePricingHistoryData(historyBlock) : null;
+    const historyData = historyTable ? parsePricingHistoryData(historyTable) : null;
     const historyIndex = historyData?.index ?? new Map<string, number>();
     const rawHistory = historyData?.entriesByItemId ?? new Map<number, RawHistoryRecord[]>();
     const historyMaxKey = historyData?.maxKey ?? null;
-    const lastScanTime = extractLastScanTime(content);
 
     const itemNameIndex = await loadItemNameIndex();
-    const resolved = mapNamePricesToItemIds(namePrices, itemNameIndex, historyIndex);
-    ItemNameResolver.prime(resolved.resolvedNames);
-    // ItemNameResolver.queueIdResolution(resolved.prices.keys());
+    const realmPrices = new Map<string, Map<number, number>>();
+    const unresolvedNames = new Set<string>();
+    const resolvedNames = new Map<string, number>();
+    let resolvedViaHistory = 0;
+
+    namePricesByRealm.forEach((namePrices, realmKey) => {
+      const resolved = mapNamePricesToItemIds(namePrices, itemNameIndex, historyIndex);
+      resolved.resolvedNames.forEach((itemId, name) => resolvedNames.set(name, itemId));
+      // ItemNameResolver.queueIdResolution(resolved.prices.keys());
+      resolved.unknownNames.forEach((name) => unresolvedNames.add(name));
+      resolvedViaHistory += resolved.resolvedViaHistory;
+      if (resolved.prices.size > 0) {
+        realmPrices.set(realmKey, resolved.prices);
+      }
+      onItemsResolved?.(resolvedNames.size);
+    });
 
-    const unresolvedNames = new Set(resolved.unknownNames);
-    let itemPrices = resolved.prices;
     let resolvedViaWowhead = 0;
 
     // Disabled Wowhead lookups - they cause thousands of CORS-blocked requests
@@ -638,16 +749,17 @@ export const AuctionatorDataService = {
     //   }
     // }
 
-    if (itemPrices.size === 0 && priceBlock) {
-      itemPrices = parseLegacyPriceDatabase(priceBlock);
-      // if (itemPrices.size > 0) {
-      //   ItemNameResolver.queueIdResolution(itemPrices.keys());
-      // }
+    if (realmPrices.size === 0 && priceTable) {
+      const legacyPrices = parseLegacyPriceDatabase(priceTable);
+      if (legacyPrices.size > 0) {
+        realmPrices.set(LEGACY_REALM_KEY, legacyPrices);
+        // ItemNameResolver.queueIdResolution(legacyPrices.keys());
+      }
     }
 
-    if (resolved.resolvedViaHistory > 0) {
+    if (resolvedViaHistory > 0) {
       console.info(
-        `[Auctionator] Resolved ${resolved.resolvedViaHistory} item(s) via pricing history fallback.`
+        `[Auctionator] Resolved ${resolvedViaHistory} item(s) via pricing history fallback.`
       );
     }
 
@@ -656,7 +768,7 @@ export const AuctionatorDataService = {
     }
 
     if (unresolvedNames.size > 0) {
-      const sample = Array.from(unresolvedNames).slice(0, 10);
+      const sample = Array.from(unresolvedNames).slice(0, UNRESOLVED_SAMPLE_SIZE);
       console.warn(
         `[Auctionator] Unable to resolve ${unresolvedNames.size} items from Auctionator.lua`,
         sample
@@ -669,7 +781,8 @@ export const AuctionatorDataService = {
       rawHistory,
       sourceLabel,
       anchorTimestamp,
-      historyMaxKey
+      historyMaxKey,
+      retention
     );
 
     if (historyFromFile.size > 0) {
@@ -679,12 +792,21 @@ export const AuctionatorDataService = {
       );
     }
 
-    const history = new Map<number, PriceHistoryEntry[]>();
-    historyFromFile.forEach((entries, itemId) => {
-      history.set(itemId, [...entries]);
-    });
+    // AUCTIONATOR_PRICING_HISTORY is not split by realm, so it is attributed to
+    // the realm with the most scanned prices in this file.
+    const historyRealm = findPrimaryRealm(realmPrices) ?? LEGACY_REALM_KEY;
+    const realms = new Map<string, RealmPriceHistory>();
 
-    if (itemPrices.size > 0) {
+    if (historyFromFile.size > 0) {
+      const history: RealmPriceHistory = new Map();
+      historyFromFile.forEach((entries, itemId) => {
+        history.set(itemId, [...entries]);
+      });
+      realms.set(historyRealm, history);
+    }
+
+    realmPrices.forEach((itemPrices, realmKey) => {
+      const history = realms.get(realmKey) ?? new Map<number, PriceHistoryEntry[]>();
       itemPrices.forEach((price, itemId) => {
         const existingEntries = history.get(itemId) ? [...history.get(itemId)!] : [];
         const latestEntry = createHistoryEntry(price, importedAt, sourceLabel);
@@ -693,28 +815,250 @@ export const AuctionatorDataService = {
         );
         if (!duplicate) {
           existingEntries.push(latestEntry);
-          existingEntries.sort(
-            (a, b) => new Date(a.importedAt).getTime() - new Date(b.importedAt).getTime()
-          );
         }
-        history.set(itemId, existingEntries.slice(-HISTORY_LIMIT));
+        history.set(itemId, applyRetention(existingEntries, retention));
       });
+      realms.set(realmKey, history);
+    });
+
+    return {
+      data: {
+        realms,
+        importedAt,
+        source: sourceLabel
+      },
+      summary: {
+        addon: 'Auctionator',
+        resolved: resolvedNames.size,
+        resolvedViaHistory,
+        unresolved: unresolvedNames.size,
+        unresolvedSample: Array.from(unresolvedNames).slice(0, UNRESOLVED_SAMPLE_SIZE),
+        historyItems: historyFromFile.size,
+        realms: Array.from(realms.keys())
+      },
+      resolvedNames
+    };
+  }
+};
+
+// Tried in order; the first importer that detects its variables reads the file.
+const priceImporters: PriceImporter[] = [auctionatorImporter, tsmAuctionDbImporter, auctioneerImporter];
+
+// days of history the minimum and median in AuctionData are taken over
+const AUCTION_DATA_MEDIAN_DAYS = 7;
+
+export const AuctionatorDataService = {
+  async parse(
+    content: string,
+    sourceLabel: string,
+    retention: RetentionPolicy = DEFAULT_RETENTION_POLICY
+  ): Promise<AuctionatorParsedData> {
+    const { data, resolvedNames } = await this.parseWithSummary(content, sourceLabel, retention);
+    ItemNameResolver.prime(resolvedNames);
+    return data;
+  },
+
+  /**
+   * Parses a file without touching the shared item name cache. The server
+   * uses this directly; it only needs the data and the import summary.
+   * The addon that wrote the file is detected by its SavedVariables.
+   */
+  async parseWithSummary(
+    content: string,
+    sourceLabel: string,
+    retention: RetentionPolicy = DEFAULT_RETENTION_POLICY,
+    onProgress?: AuctionatorProgressListener
+  ): Promise<AuctionatorImportResult> {
+    const report = (stage: AuctionatorImportStage, charactersParsed: number, itemsResolved: number) =>
+      onProgress?.({ stage, charactersParsed, totalCharacters: content.length, itemsResolved });
+
+    const variableNames = new Set<string>();
+    priceImporters.forEach((importer) => importer.variables.forEach((name) => variableNames.add(name)));
+    const variables = readSavedVariables(
+      content,
+      Array.from(variableNames),
+      onProgress && ((charactersRead) => report('parsing', charactersRead, 0))
+    );
+
+    const importer = priceImporters.find((candidate) => candidate.detect(variables));
+    if (!importer) {
+      throw new Error(
+        `The file holds no price data of a supported addon (${priceImporters.map(({ addon }) => addon).join(', ')}).`
+      );
+    }
+
+    report('resolving', content.length, 0);
+    const result = await importer.parse(variables, sourceLabel, retention, (count) =>
+      report('resolving', content.length, count)
+    );
+    report('resolving', content.length, result.summary.resolved);
+    return result;
+  },
+
+  // Adds an importer for another addon; it is tried after the built-in ones.
+  registerImporter(importer: PriceImporter): void {
+    priceImporters.push(importer);
+  },
+
+  parseRealmKey(realmKey: string): RealmDescriptor {
+    const match = realmKey.match(REALM_KEY_PATTERN);
+    const realm = (match ? match[1] : realmKey).replace(/\s+/g, ' ').trim() || realmKey;
+    const faction = match
+      ? ((match[2].charAt(0).toUpperCase() + match[2].slice(1).toLowerCase()) as ServerInfo['faction'])
+      : 'Neutral';
+
+    return { key: realmKey, realm, faction };
+  },
+
+  /**
+   * Lists the stored datasets as servers, newest data first, so the app can
+   * offer them for selection.
+   */
+  listServers(data: AuctionatorParsedData): ServerInfo[] {
+    const servers: ServerInfo[] = [];
+    data.realms.forEach((history, realmKey) => {
+      if (history.size === 0) {
+        return;
+      }
+
+      const { realm, faction } = this.parseRealmKey(realmKey);
+      servers.push({
+        name: realm,
+        region: '',
+        faction,
+        lastUpdated: new Date(getLatestTimestamp(history)),
+        datasetKey: realmKey
+      });
+    });
+
+    return servers.sort((a, b) => b.lastUpdated.getTime() - a.lastUpdated.getTime());
+  },
+
+  getPrimaryRealmKey(data: AuctionatorParsedData): string | null {
+    return findPrimaryRealm(data.realms);
+  },
+
+  /**
+   * Finds the dataset for a realm name (or full realm key) and faction.
+   * Either may be omitted; the largest matching dataset wins.
+   */
+  findRealmKey(
+    data: AuctionatorParsedData,
+    realm?: string | null,
+    faction?: string | null
+  ): string | null {
+    const wantedRealm = realm?.trim().toLowerCase();
+    const wantedFaction = faction?.trim().toLowerCase();
+    const candidates = new Map<string, RealmPriceHistory>();
+
+    data.realms.forEach((history, realmKey) => {
+      const descriptor = this.parseRealmKey(realmKey);
+      if (
+        wantedRealm &&
+        descriptor.realm.toLowerCase() !== wantedRealm &&
+        realmKey.toLowerCase() !== wantedRealm
+      ) {
+        return;
+      }
+      if (wantedFaction && descriptor.faction.toLowerCase() !== wantedFaction) {
+        return;
+      }
+      candidates.set(realmKey, history);
+    });
+
+    return findPrimaryRealm(candidates);
+  },
+
+  /**
+   * Summarises one item's stored history in the shape the price API returns.
+   * `minBuyout` is the lowest price over the same window as the median;
+   * `quantity` is null when the latest scan did not record listings.
+   */
+  getAuctionData(
+    data: AuctionatorParsedData,
+    realmKey: string,
+    itemId: number,
+    medianDays: number = AUCTION_DATA_MEDIAN_DAYS
+  ): AuctionData | null {
+    const entries = data.realms.get(realmKey)?.get(itemId);
+    if (!entries || entries.length === 0) {
+      return null;
+    }
+
+    const counted = entries.filter((entry) => PriceAnomalies.isCounted(entry));
+    if (counted.length === 0) {
+      return null;
     }
 
+    const latest = counted[counted.length - 1];
+    const lowest = PriceStatistics.estimate(counted, 'windowMin', medianDays);
+    const median = PriceStatistics.estimate(counted, 'median', medianDays);
+    const { realm, faction } = this.parseRealmKey(realmKey);
+
     return {
-      itemPrices: history,
-      importedAt,
-      source: sourceLabel
+      itemId,
+      server: realm,
+      faction,
+      minBuyout: lowest?.price ?? latest.aggregate?.min ?? latest.price,
+      medianPrice: median?.price ?? latest.price,
+      lastUpdated: new Date(latest.importedAt),
+      quantity: latest.quantity ?? null
     };
   },
 
-  async save(data: AuctionatorParsedData): Promise<void> {
-    const payload = createStoragePayload(data);
+  toStoragePayload(data: AuctionatorParsedData): AuctionatorStoragePayload {
+    return createStoragePayload(data);
+  },
+
+  fromStoragePayload(raw: AuctionatorStoragePayload | null): AuctionatorParsedData | null {
+    return parseStoragePayload(raw);
+  },
+
+  /**
+   * Persists the data and resolves with what was stored: if another upload
+   * landed first, this data is merged into it rather than replacing it.
+   */
+  async save(
+    data: AuctionatorParsedData,
+    uploader?: string | null,
+    retention: RetentionPolicy = DEFAULT_RETENTION_POLICY
+  ): Promise<AuctionatorParsedData> {
+    let stored = data;
     try {
-      await PersistentStorage.saveAuctionatorData(payload);
+      await PersistentStorage.saveAuctionatorData(
+        createStoragePayload(data),
+        (current) => {
+          const existing = parseStoragePayload(current as AuctionatorStoragePayload | null);
+          stored = this.mergeWithExisting(existing, stored, retention);
+          return createStoragePayload(stored);
+        },
+        uploader
+      );
     } catch (error) {
       console.error('Failed to persist Auctionator price data locally', error);
     }
+    return stored;
+  },
+
+  /**
+   * Accepts or rejects a flagged scan. The server records the decision on the
+   * stored data; the returned data has it applied locally.
+   */
+  async reviewAnomaly(
+    data: AuctionatorParsedData,
+    review: PriceAnomalyReview,
+    status: 'accepted' | 'rejected'
+  ): Promise<AuctionatorParsedData> {
+    await PersistentStorage.reviewAuctionatorAnomalies([
+      {
+        realmKey: review.realmKey,
+        itemId: review.itemId,
+        importedAt: review.entry.importedAt,
+        price: review.entry.price,
+        status
+      }
+    ]);
+    return PriceAnomalies.review(data, review, status);
   },
 
   async load(): Promise<AuctionatorParsedData | null> {
@@ -739,15 +1083,19 @@ export const AuctionatorDataService = {
 
   mergeWithExisting(
     existing: AuctionatorParsedData | null,
-    incoming: AuctionatorParsedData
+    incoming: AuctionatorParsedData,
+    retention: RetentionPolicy = DEFAULT_RETENTION_POLICY
   ): AuctionatorParsedData {
-    if (!existing) {
-      return incoming;
-    }
+    // a first import is merged into nothing rather than taken as it is, so
+    // its scans are screened against the earlier scans the file holds
+    const mergedRealms = new Map(existing?.realms ?? []);
+    incoming.realms.forEach((history, realmKey) => {
+      const current = mergedRealms.get(realmKey) ?? new Map<number, PriceHistoryEntry[]>();
+      mergedRealms.set(realmKey, mergeHistories(current, history, retention));
+    });
 
-    const mergedHistory = mergeHistories(existing.itemPrices, incoming.itemPrices, HISTORY_LIMIT);
     return {
-      itemPrices: mergedHistory,
+      realms: mergedRealms,
       importedAt: incoming.importedAt,
       source: incoming.source
     };
@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  AuctionatorDataService,
+  AuctionatorImportProgress,
+  AuctionatorParsedData
+} from './AuctionatorDataService';
+import { runAuctionatorImport } from './AuctionatorImport';
+import { setDbFileReader } from './DbFiles';
+
+const LIGHT_LEATHER = 2318;
+const KEEP_RAW = { rawDays: 3650, dailyUntilDays: 3650 };
+
+// a realm name outside ASCII makes the file longer in bytes than in characters
+const CONTENT = `AUCTIONATOR_PRICE_DATABASE = {
+	["__dbversion"] = 2,
+	["Гордунни_Horde"] = {
+		["Light Leather"] = 95,
+	},
+}
+AUCTIONATOR_LAST_SCAN_TIME = 1760344016
+`;
+
+const file = {
+  name: 'Auctionator.lua',
+  size: Buffer.byteLength(CONTENT),
+  text: async () => CONTENT
+} as unknown as File;
+
+const storedScan = { price: 120, importedAt: '2025-01-10T12:00:00.000Z', source: 'Auctionator.lua' };
+
+const stored: AuctionatorParsedData = {
+  realms: new Map([['Frostmourne_Alliance', new Map([[LIGHT_LEATHER, [storedScan]]])]]),
+  importedAt: '2025-01-10T12:00:00.000Z',
+  source: 'Auctionator.lua'
+};
+
+describe('runAuctionatorImport', () => {
+  beforeAll(() => {
+    setDbFileReader((fileName) =>
+      fs.promises.readFile(path.join(__dirname, '..', '..', 'public', 'db', fileName), 'utf8')
+    );
+  });
+
+  afterAll(() => {
+    setDbFileReader(null);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(AuctionatorDataService, 'load').mockResolvedValue(stored);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports progress in characters of the decoded file', async () => {
+    const progress: AuctionatorImportProgress[] = [];
+    await runAuctionatorImport(file, KEEP_RAW, (update) => progress.push(update));
+
+    expect(file.size).toBeGreaterThan(CONTENT.length);
+    // the total is unknown while the file is read, then counted in characters
+    expect(progress[0]).toEqual({ stage: 'reading', charactersParsed: 0, totalCharacters: 0, itemsResolved: 0 });
+    expect(progress.slice(1).every(({ totalCharacters }) => totalCharacters === CONTENT.length)).toBe(true);
+    expect(progress.every((update) => update.charactersParsed <= update.totalCharacters)).toBe(true);
+    expect(progress[progress.length - 1]).toMatchObject({
+      stage: 'merging',
+      charactersParsed: CONTENT.length,
+      itemsResolved: 1
+    });
+  });
+
+  it('merges the file into the stored data read for every import', async () => {
+    const first = await runAuctionatorImport(file, KEEP_RAW, () => undefined);
+    await runAuctionatorImport(file, KEEP_RAW, () => undefined);
+
+    expect(AuctionatorDataService.load).toHaveBeenCalledTimes(2);
+    expect(Array.from(first.data.realms.keys())).toEqual(['Frostmourne_Alliance', 'Гордунни_Horde']);
+    expect(first.data.realms.get('Гордунни_Horde')?.get(LIGHT_LEATHER)?.[0].price).toBe(95);
+    expect(first.summary.realms).toEqual(['Гордунни_Horde']);
+    expect(first.resolvedNames.get('Light Leather')).toBe(LIGHT_LEATHER);
+  });
+
+  it('reports the realms of the file rather than of the merged data', async () => {
+    const { data, realmKeys } = await runAuctionatorImport(file, KEEP_RAW, () => undefined);
+
+    expect(data.realms.has('Frostmourne_Alliance')).toBe(true);
+    expect(realmKeys).toEqual(['Гордунни_Horde']);
+  });
+});
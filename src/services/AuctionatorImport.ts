@@ -0,0 +1,70 @@
+import {
+  AuctionatorDataService,
+  AuctionatorImportProgress,
+  AuctionatorImportSummary,
+  AuctionatorParsedData,
+  AuctionatorProgressListener
+} from './AuctionatorDataService';
+import { RetentionPolicy } from './HistoryRetention';
+
+export interface AuctionatorImportOutcome {
+  // the file merged into the stored data; saving is left to the caller
+  data: AuctionatorParsedData;
+  summary: AuctionatorImportSummary;
+  resolvedNames: Map<string, number>;
+  // realms the file itself brought prices for, collected before merging
+  realmKeys: string[];
+}
+
+// Messages between the page and the import worker. One worker serves every
+// import, so each message carries the id of the request it belongs to.
+export interface AuctionatorImportRequest {
+  requestId: number;
+  file: File;
+  retention: RetentionPolicy;
+}
+
+export type AuctionatorImportMessage = { requestId: number } & (
+  | { type: 'progress'; progress: AuctionatorImportProgress }
+  | { type: 'complete'; outcome: AuctionatorImportOutcome }
+  // errors lose their class when posted, so Lua syntax errors are sent field by field
+  | { type: 'error'; message: string; parseError?: { reason: string; line: number; column: number } }
+);
+
+/**
+ * Reads, parses and merges an Auctionator file. The worker runs this off the
+ * main thread; it also runs inline where workers are not available.
+ */
+export const runAuctionatorImport = async (
+  file: File,
+  retention: RetentionPolicy,
+  onProgress: AuctionatorProgressListener
+): Promise<AuctionatorImportOutcome> => {
+  // the file size is in bytes, so the total waits until the text is decoded
+  onProgress({ stage: 'reading', charactersParsed: 0, totalCharacters: 0, itemsResolved: 0 });
+  const content = await file.text();
+
+  const { data, summary, resolvedNames } = await AuctionatorDataService.parseWithSummary(
+    content,
+    file.name,
+    retention,
+    onProgress
+  );
+
+  onProgress({
+    stage: 'merging',
+    charactersParsed: content.length,
+    totalCharacters: content.length,
+    itemsResolved: summary.resolved
+  });
+  const realmKeys = Array.from(data.realms.keys());
+  // read on every import: another upload may have changed the stored data
+  const existing = await AuctionatorDataService.load();
+
+  return {
+    data: AuctionatorDataService.mergeWithExisting(existing, data, retention),
+    summary,
+    resolvedNames,
+    realmKeys
+  };
+};
@@ -0,0 +1,28 @@
+import { AuctionatorImportMessage, AuctionatorImportRequest, runAuctionatorImport } from './AuctionatorImport';
+import { LuaParseError } from './LuaTableParser';
+
+// Entry point of the import worker started by startAuctionatorImport. The
+// worker outlives a single import, so the item name index it loads from
+// Item.csv is read once and reused by later imports.
+const scope = globalThis as unknown as Worker;
+
+const post = (message: AuctionatorImportMessage) => scope.postMessage(message);
+
+scope.onmessage = async (event: MessageEvent<AuctionatorImportRequest>) => {
+  const { requestId, file, retention } = event.data;
+
+  try {
+    const outcome = await runAuctionatorImport(file, retention, (progress) =>
+      post({ requestId, type: 'progress', progress })
+    );
+    post({ requestId, type: 'complete', outcome });
+  } catch (error) {
+    console.error('Auctionator import failed in worker', error);
+    if (error instanceof LuaParseError) {
+      const { reason, line, column } = error;
+      post({ requestId, type: 'error', message: error.message, parseError: { reason, line, column } });
+    } else {
+      post({ requestId, type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+};
@@ -0,0 +1,150 @@
+import { AuctionatorProgressListener } from './AuctionatorDataService';
+import {
+  AuctionatorImportMessage,
+  AuctionatorImportOutcome,
+  AuctionatorImportRequest,
+  runAuctionatorImport
+} from './AuctionatorImport';
+import { RetentionPolicy } from './HistoryRetention';
+import { LuaParseError } from './LuaTableParser';
+
+export class AuctionatorImportCancelledError extends Error {
+  constructor() {
+    super('Auctionator import was cancelled');
+    this.name = 'AuctionatorImportCancelledError';
+    Object.setPrototypeOf(this, AuctionatorImportCancelledError.prototype);
+  }
+}
+
+export interface AuctionatorImportTask {
+  result: Promise<AuctionatorImportOutcome>;
+  // rejects the result with AuctionatorImportCancelledError
+  cancel: () => void;
+}
+
+const toImportError = (message: Extract<AuctionatorImportMessage, { type: 'error' }>): Error =>
+  message.parseError
+    ? new LuaParseError(message.parseError.reason, message.parseError.line, message.parseError.column)
+    : new Error(message.message);
+
+const startInline = (
+  file: File,
+  retention: RetentionPolicy,
+  onProgress: AuctionatorProgressListener
+): AuctionatorImportTask => {
+  let cancelled = false;
+  let rejectCancelled: (error: Error) => void = () => undefined;
+  const cancellation = new Promise<never>((_resolve, reject) => {
+    rejectCancelled = reject;
+  });
+
+  const run = runAuctionatorImport(file, retention, (progress) => {
+    if (!cancelled) {
+      onProgress(progress);
+    }
+  });
+
+  return {
+    result: Promise.race([run, cancellation]),
+    cancel: () => {
+      cancelled = true;
+      rejectCancelled(new AuctionatorImportCancelledError());
+    }
+  };
+};
+
+interface ImportWorker {
+  worker: Worker;
+  // rejects the imports still running in the worker, by request id
+  pending: Map<number, (error: Error) => void>;
+}
+
+// Kept between imports so the worker's item name index is loaded once.
+let importWorker: ImportWorker | null = null;
+let nextRequestId = 1;
+
+const stopImportWorker = (target: ImportWorker, error: Error) => {
+  target.worker.terminate();
+  if (importWorker === target) {
+    importWorker = null;
+  }
+  target.pending.forEach((reject) => reject(error));
+  target.pending.clear();
+};
+
+const getImportWorker = (): ImportWorker => {
+  if (!importWorker) {
+    const target: ImportWorker = {
+      worker: new Worker(new URL('./AuctionatorImport.worker.ts', import.meta.url)),
+      pending: new Map()
+    };
+    target.worker.onerror = (event) => {
+      stopImportWorker(target, new Error(event.message || 'Auctionator import worker failed'));
+    };
+    importWorker = target;
+  }
+  return importWorker;
+};
+
+/**
+ * Imports an Auctionator file in a worker so large files do not block the
+ * page. The worker is reused by later imports; cancelling terminates it, and
+ * the next import starts a new one. Browsers without worker support run the
+ * import inline.
+ */
+export const startAuctionatorImport = (
+  file: File,
+  retention: RetentionPolicy,
+  onProgress: AuctionatorProgressListener
+): AuctionatorImportTask => {
+  if (typeof Worker === 'undefined') {
+    return startInline(file, retention, onProgress);
+  }
+
+  const target = getImportWorker();
+  const requestId = nextRequestId++;
+
+  const result = new Promise<AuctionatorImportOutcome>((resolve, reject) => {
+    const handleMessage = (event: MessageEvent<AuctionatorImportMessage>) => {
+      const message = event.data;
+      if (message.requestId !== requestId) {
+        return;
+      }
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+
+      finish();
+      if (message.type === 'complete') {
+        resolve(message.outcome);
+      } else {
+        reject(toImportError(message));
+      }
+    };
+
+    const finish = () => {
+      target.worker.removeEventListener('message', handleMessage);
+      target.pending.delete(requestId);
+    };
+
+    target.worker.addEventListener('message', handleMessage);
+    target.pending.set(requestId, (error) => {
+      finish();
+      reject(error);
+    });
+  });
+
+  const request: AuctionatorImportRequest = { requestId, file, retention };
+  target.worker.postMessage(request);
+
+  return {
+    result,
+    cancel: () => {
+      // a finished import leaves the worker to the next one
+      if (target.pending.has(requestId)) {
+        stopImportWorker(target, new AuctionatorImportCancelledError());
+      }
+    }
+  };
+};
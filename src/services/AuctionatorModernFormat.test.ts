@@ -0,0 +1,101 @@
+import {
+  isModernPriceDatabase,
+  parseModernPriceDatabase,
+  parsePostingHistory
+} from './AuctionatorModernFormat';
+import { isLuaTable, LuaTableNode, readSavedVariables } from './LuaTableParser';
+
+const SCANNED_AT = '2025-10-13T08:26:56.000Z';
+
+const readTable = (content: string): LuaTableNode => {
+  const table = readSavedVariables(`X = ${content}`, ['X']).get('X');
+  if (!isLuaTable(table)) {
+    throw new Error('expected a table');
+  }
+  return table;
+};
+
+// scan days count from 2020-01-01, so day 366 is 2021-01-01
+const DAY_366 = '2021-01-01T00:00:00.000Z';
+const DAY_367 = '2021-01-02T00:00:00.000Z';
+
+const MODERN_DATABASE = `{
+  ["__dbversion"] = 6,
+  ["Quel&#39;Thalas_Alliance"] = {
+    ["2318"] = { ["m"] = 95, ["l"] = { ["366"] = 90, ["367"] = 100 }, ["h"] = { ["366"] = 140 }, ["a"] = { ["366"] = 40 } },
+    ["g:2302:10"] = { ["l"] = { ["366"] = 900 }, ["h"] = { ["366"] = 1000, ["368"] = 1200 }, ["a"] = { ["366"] = 2 } },
+    ["g:2302:15"] = { ["l"] = { ["366"] = 800 }, ["h"] = { ["366"] = 1500 }, ["a"] = { ["366"] = 3 } },
+    ["2320"] = { ["m"] = 12 },
+    ["p:39:1:3"] = { ["m"] = 5000, ["l"] = { ["366"] = 5000 } },
+  },
+  ["Empty_Horde"] = {
+  },
+}`;
+
+describe('isModernPriceDatabase', () => {
+  it('tells the item-keyed database from the older name-keyed one', () => {
+    expect(isModernPriceDatabase(readTable(MODERN_DATABASE))).toBe(true);
+    const nameKeyed = readTable('{ ["__dbversion"] = 2, ["Frostmourne_Alliance"] = { ["Light Leather"] = 120 } }');
+    expect(isModernPriceDatabase(nameKeyed)).toBe(false);
+  });
+});
+
+describe('parseModernPriceDatabase', () => {
+  const { realms, skippedKeys } = parseModernPriceDatabase(
+    readTable(MODERN_DATABASE),
+    'Auctionator.lua',
+    SCANNED_AT
+  );
+  const realm = realms.get("Quel'Thalas_Alliance");
+
+  it('keeps one entry per scan day priced at the day\'s low', () => {
+    expect(realm?.get(2318)).toEqual([
+      { price: 90, importedAt: DAY_366, source: 'Auctionator.lua', addon: 'Auctionator', quantity: 40 },
+      { price: 100, importedAt: DAY_367, source: 'Auctionator.lua', addon: 'Auctionator' }
+    ]);
+  });
+
+  it('merges gear variants: lowest low, adding up quantities, highs for days without lows', () => {
+    const entries = realm?.get(2302)?.map(({ price, importedAt, quantity }) => [price, importedAt, quantity]);
+    expect(entries).toEqual([
+      [800, DAY_366, 5],
+      [1200, '2021-01-03T00:00:00.000Z', undefined]
+    ]);
+  });
+
+  it('falls back to the last scan minimum for items without daily prices', () => {
+    expect(realm?.get(2320)).toEqual([
+      { price: 12, importedAt: SCANNED_AT, source: 'Auctionator.lua', addon: 'Auctionator' }
+    ]);
+  });
+
+  it('skips battle pets and realms without prices', () => {
+    expect(skippedKeys).toEqual(['p:39:1:3']);
+    expect(Array.from(realms.keys())).toEqual(["Quel'Thalas_Alliance"]);
+  });
+});
+
+describe('parsePostingHistory', () => {
+  it('reads the character\'s own postings in time order and skips incomplete ones', () => {
+    const history = parsePostingHistory(
+      readTable(`{
+        ["2318"] = {
+          { ["price"] = 130.4, ["time"] = 1760344016 },
+          { ["price"] = 120, ["time"] = 1760000000 },
+          { ["price"] = 0, ["time"] = 1760000001 },
+          { ["price"] = 125 },
+        },
+        ["g:2302:10"] = { { ["price"] = 1100, ["time"] = 1760000000 } },
+        ["p:39:1:3"] = { { ["price"] = 5000, ["time"] = 1760000000 } },
+      }`),
+      'Auctionator.lua'
+    );
+
+    expect(history.get(2318)).toEqual([
+      { price: 120, importedAt: '2025-10-09T08:53:20.000Z', source: 'Auctionator.lua', addon: 'Auctionator' },
+      { price: 130, importedAt: SCANNED_AT, source: 'Auctionator.lua', addon: 'Auctionator' }
+    ]);
+    expect(history.get(2302)?.map(({ price }) => price)).toEqual([1100]);
+    expect(history.size).toBe(2);
+  });
+});
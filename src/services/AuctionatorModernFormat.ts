@@ -0,0 +1,207 @@
+import { DAY_MS, entryTimestamp } from '../utils/common';
+import { decodeHtmlEntities } from '../utils/html';
+import type { PriceHistoryEntry, RealmPriceHistory } from './AuctionatorDataService';
+import { getLuaField, isLuaTable, LuaNode, luaNumber, LuaTableNode } from './LuaTableParser';
+
+// Auctionator counts scan days from 2020-01-01 (Auctionator.Constants.SCAN_DAY_0).
+const SCAN_DAY_0_MS = Date.UTC(2020, 0, 1);
+
+// Plain item ids, or "g:<itemId>:<itemLevel>" for gear; pets ("p:...") have no item id.
+const ITEM_KEY_PATTERN = /^(?:g:)?(\d+)(?::|$)/;
+
+// Entry fields of the item-keyed database; older files map names straight to prices.
+const MODERN_FIELDS = new Set(['l', 'h', 'm', 'a']);
+
+export interface ModernPriceDatabase {
+  realms: Map<string, RealmPriceHistory>;
+  // entry keys that do not name an item, such as battle pets
+  skippedKeys: string[];
+}
+
+interface DailyPrices {
+  // current minimum at the last scan
+  minimum: number | null;
+  lows: Map<number, number>;
+  highs: Map<number, number>;
+  available: Map<number, number>;
+}
+
+const scanDayToIso = (day: number) => new Date(SCAN_DAY_0_MS + day * DAY_MS).toISOString();
+
+/**
+ * Newer Auctionator builds key the price database by item and keep the lowest
+ * (`l`) and highest (`h`) price seen on each scan day and the quantity
+ * available (`a`) per day; `m` is the minimum of the last scan. Both formats carry
+ * `__dbversion`, so the entry fields tell them apart.
+ */
+export const isModernPriceDatabase = (table: LuaTableNode): boolean =>
+  table.entries.some(
+    ({ value: realmTable }) =>
+      isLuaTable(realmTable) &&
+      realmTable.entries.some(
+        ({ value }) =>
+          isLuaTable(value) && value.entries.some(({ key }) => MODERN_FIELDS.has(String(key)))
+      )
+  );
+
+/**
+ * Converts the price database into one entry per item and scan day, priced at
+ * the day's low. Items without daily data fall back to `m` at the scan time.
+ */
+export const parseModernPriceDatabase = (
+  table: LuaTableNode,
+  source: string,
+  scannedAt: string
+): ModernPriceDatabase => {
+  const pricesByRealm = new Map<string, Map<number, DailyPrices>>();
+  const skippedKeys = new Set<string>();
+
+  // across gear variants the day's low is the lowest low and its high the highest high
+  const readDailyPrices = (
+    node: LuaNode | undefined,
+    target: Map<number, number>,
+    pick: (a: number, b: number) => number
+  ) => {
+    if (!isLuaTable(node)) {
+      return;
+    }
+    node.entries.forEach(({ key, value }) => {
+      const day = Number(key);
+      const price = luaNumber(value);
+      if (Number.isInteger(day) && price !== null && price > 0) {
+        const existing = target.get(day);
+        target.set(day, existing === undefined ? price : pick(existing, price));
+      }
+    });
+  };
+
+  // gear variants are listed separately, so their quantities add up
+  const readDailyQuantities = (node: LuaNode | undefined, target: Map<number, number>) => {
+    if (!isLuaTable(node)) {
+      return;
+    }
+    node.entries.forEach(({ key, value }) => {
+      const day = Number(key);
+      const quantity = luaNumber(value);
+      if (Number.isInteger(day) && quantity !== null && quantity >= 0) {
+        target.set(day, (target.get(day) ?? 0) + quantity);
+      }
+    });
+  };
+
+  table.entries.forEach(({ key: realm, value: realmTable }) => {
+    if (!isLuaTable(realmTable)) {
+      return;
+    }
+
+    const realmKey = decodeHtmlEntities(String(realm));
+    const items = pricesByRealm.get(realmKey) ?? new Map<number, DailyPrices>();
+    pricesByRealm.set(realmKey, items);
+
+    realmTable.entries.forEach(({ key: itemKey, value: entry }) => {
+      if (!isLuaTable(entry)) {
+        return;
+      }
+      const itemMatch = String(itemKey).match(ITEM_KEY_PATTERN);
+      if (!itemMatch) {
+        skippedKeys.add(String(itemKey));
+        return;
+      }
+
+      // gear of several item levels shares an item id; keep the cheapest
+      const itemId = Number(itemMatch[1]);
+      const prices = items.get(itemId) ?? {
+        minimum: null,
+        lows: new Map(),
+        highs: new Map(),
+        available: new Map()
+      };
+      items.set(itemId, prices);
+
+      const minimum = luaNumber(getLuaField(entry, 'm'));
+      if (minimum !== null && minimum > 0) {
+        prices.minimum = prices.minimum === null ? minimum : Math.min(prices.minimum, minimum);
+      }
+      readDailyPrices(getLuaField(entry, 'l'), prices.lows, Math.min);
+      readDailyPrices(getLuaField(entry, 'h'), prices.highs, Math.max);
+      readDailyQuantities(getLuaField(entry, 'a'), prices.available);
+    });
+  });
+
+  const realms = new Map<string, RealmPriceHistory>();
+  pricesByRealm.forEach((items, realmKey) => {
+    const history: RealmPriceHistory = new Map();
+    items.forEach((prices, itemId) => {
+      const days = new Set([...Array.from(prices.lows.keys()), ...Array.from(prices.highs.keys())]);
+      const entries: PriceHistoryEntry[] = Array.from(days)
+        .sort((a, b) => a - b)
+        .map((day) => {
+          const quantity = prices.available.get(day);
+          return {
+            price: prices.lows.get(day) ?? (prices.highs.get(day) as number),
+            importedAt: scanDayToIso(day),
+            source,
+            addon: 'Auctionator' as const,
+            ...(quantity !== undefined ? { quantity } : {})
+          };
+        });
+
+      if (entries.length === 0 && prices.minimum !== null) {
+        entries.push({ price: prices.minimum, importedAt: scannedAt, source, addon: 'Auctionator' });
+      }
+      if (entries.length > 0) {
+        history.set(itemId, entries);
+      }
+    });
+
+    if (history.size > 0) {
+      realms.set(realmKey, history);
+    }
+  });
+
+  return { realms, skippedKeys: Array.from(skippedKeys) };
+};
+
+/**
+ * AUCTIONATOR_POSTING_HISTORY lists the character's own auctions per item with
+ * the unit price and the posting time.
+ */
+export const parsePostingHistory = (table: LuaTableNode, source: string): RealmPriceHistory => {
+  const postings: { itemId: number; price: number | null; time: number | null }[] = [];
+
+  table.entries.forEach(({ key: itemKey, value: itemPostings }) => {
+    const itemMatch = String(itemKey).match(ITEM_KEY_PATTERN);
+    if (!itemMatch || !isLuaTable(itemPostings)) {
+      return;
+    }
+
+    itemPostings.entries.forEach(({ value: posting }) => {
+      if (isLuaTable(posting)) {
+        postings.push({
+          itemId: Number(itemMatch[1]),
+          price: luaNumber(getLuaField(posting, 'price')),
+          time: luaNumber(getLuaField(posting, 'time'))
+        });
+      }
+    });
+  });
+
+  const history: RealmPriceHistory = new Map();
+  postings.forEach(({ itemId, price, time }) => {
+    if (price === null || price <= 0 || time === null || time <= 0) {
+      return;
+    }
+    const entries = history.get(itemId) ?? [];
+    entries.push({
+      price: Math.round(price),
+      importedAt: new Date(time * 1000).toISOString(),
+      source,
+      addon: 'Auctionator'
+    });
+    history.set(itemId, entries);
+  });
+
+  history.forEach((entries) => entries.sort((a, b) => entryTimestamp(a) - entryTimestamp(b)));
+
+  return history;
+};
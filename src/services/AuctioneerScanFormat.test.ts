@@ -0,0 +1,85 @@
+import type { AuctionatorImportResult } from './AuctionatorDataService';
+import { auctioneerImporter } from './AuctioneerScanFormat';
+import { readSavedVariables } from './LuaTableParser';
+
+const KEEP_RAW = { rawDays: 3650, dailyUntilDays: 3650 };
+
+const LIGHT_LEATHER = 2318;
+const COARSE_THREAD = 2320;
+const HEAVY_LEATHER = 4234;
+
+const AUCTIONEER_FILE = `AucScanData = {
+	["Version"] = 1,
+	["scans"] = {
+		["Icecrown-Horde"] = {
+			["ropes"] = {
+				[[return {{[1]="|cffffffff|Hitem:2318::::|h[Light Leather]|h|r",[8]=1760340000,[11]=20,[17]=2000,[23]=2318},{[1]="|Hitem:2318|h",[8]=1760344016,[11]=5,[17]=400,[23]=2318}};]],
+				[[return {{[1]="|Hitem:2320|h",[8]=1760344016,[11]=1,[17]=0,[23]=2320},{[1]="|Hitem:4234|h",[8]=1760344016,[11]=2,[17]=300},{[1]="|Hbattlepet:39:1:3|h",[8]=1760344016,[11]=1,[17]=5000}};]],
+			},
+		},
+		["Frostmourne"] = {
+			["Alliance"] = {
+				["image"] = {{[1]="|Hitem:2318|h",[8]=1760000000,[11]=1,[17]=150,[23]=2318}},
+			},
+		},
+	},
+}
+`;
+
+const readFile = (content: string) => readSavedVariables(content, auctioneerImporter.variables);
+
+describe('auctioneerImporter', () => {
+  const variables = readFile(AUCTIONEER_FILE);
+
+  it('detects saved scans of Auctioneer', () => {
+    expect(auctioneerImporter.detect(variables)).toBe(true);
+    expect(auctioneerImporter.detect(readFile('AucScanData = { ["scans"] = {} }'))).toBe(false);
+  });
+
+  let result: AuctionatorImportResult;
+  beforeAll(async () => {
+    result = await auctioneerImporter.parse(variables, 'Auc-ScanData.lua', KEEP_RAW);
+  });
+
+  it('prices an item at its cheapest buyout per unit and adds up its listings', () => {
+    expect(result.data.realms.get('Icecrown_Horde')?.get(LIGHT_LEATHER)).toEqual([
+      {
+        price: 80,
+        importedAt: '2025-10-13T08:26:56.000Z',
+        source: 'Auc-ScanData.lua',
+        addon: 'Auctioneer',
+        quantity: 25,
+        auctions: 2
+      }
+    ]);
+  });
+
+  it('reads the item id from the link and ignores bid-only auctions', () => {
+    const realm = result.data.realms.get('Icecrown_Horde');
+    expect(realm?.get(HEAVY_LEATHER)?.[0]).toMatchObject({ price: 150, quantity: 2, auctions: 1 });
+    expect(realm?.has(COARSE_THREAD)).toBe(false);
+  });
+
+  it('reads the older realm and faction layout with an unpacked image', () => {
+    expect(result.summary.realms).toEqual(['Icecrown_Horde', 'Frostmourne_Alliance']);
+    expect(result.data.realms.get('Frostmourne_Alliance')?.get(LIGHT_LEATHER)?.[0]).toMatchObject({
+      price: 150,
+      importedAt: '2025-10-09T08:53:20.000Z'
+    });
+    expect(result.data.importedAt).toBe('2025-10-13T08:26:56.000Z');
+  });
+
+  it('skips battle pets', () => {
+    expect(result.summary).toMatchObject({ addon: 'Auctioneer', unresolved: 1 });
+    expect(result.summary.unresolvedSample).toEqual(['|Hbattlepet:39:1:3|h']);
+  });
+
+  it('names the realm and rope of a malformed scan', () => {
+    const malformed = readFile(
+      'AucScanData = { ["scans"] = { ["Icecrown-Horde"] = { ["ropes"] = { "return {}", "return {{[1]=" } } } }'
+    );
+    expect(() => auctioneerImporter.parse(malformed, 'Auc-ScanData.lua', KEEP_RAW)).toThrow(
+      /^Auctioneer scan of Icecrown-Horde is malformed \(rope 2: /
+    );
+  });
+});
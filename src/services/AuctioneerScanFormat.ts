@@ -0,0 +1,179 @@
+import type { PriceHistoryEntry, RealmPriceHistory } from './AuctionatorDataService';
+import {
+  getLuaField,
+  isLuaTable,
+  LuaParseError,
+  LuaTableNode,
+  luaNumber,
+  luaString,
+  readLuaReturnValue
+} from './LuaTableParser';
+import { buildItemIdImport, normalizeRealmKey, PriceImporter } from './PriceImporter';
+
+const AUCTIONEER_VARIABLE = 'AucScanData';
+
+// Positions in an Auctioneer auction record (Const.LINK, Const.TIME, ... in Auc-Advanced).
+const AUCTION_FIELDS = {
+  link: '1',
+  time: '8',
+  count: '11',
+  buyout: '17',
+  itemId: '23'
+};
+
+const ITEM_LINK_PATTERN = /item:(\d+)/;
+
+interface ScanEntry {
+  serverKey: string;
+  scan: LuaTableNode;
+}
+
+interface ItemListings {
+  price: number;
+  quantity: number;
+  auctions: number;
+}
+
+const isScan = (table: LuaTableNode) =>
+  getLuaField(table, 'ropes') !== undefined || getLuaField(table, 'image') !== undefined;
+
+// Scans are keyed by "Realm-Faction", or by realm and then faction in older versions.
+const collectScans = (scans: LuaTableNode): ScanEntry[] => {
+  const found: ScanEntry[] = [];
+  scans.entries.forEach(({ key, value }) => {
+    if (!isLuaTable(value)) {
+      return;
+    }
+    if (isScan(value)) {
+      found.push({ serverKey: String(key), scan: value });
+      return;
+    }
+    value.entries.forEach(({ key: faction, value: scan }) => {
+      if (isLuaTable(scan) && isScan(scan)) {
+        found.push({ serverKey: `${key}-${faction}`, scan });
+      }
+    });
+  });
+  return found;
+};
+
+/**
+ * The scan image is saved as "ropes": strings holding `return {...}` chunks
+ * with one record per auction. Unpacked images are read as they are.
+ */
+const readAuctions = ({ serverKey, scan }: ScanEntry): LuaTableNode[] => {
+  const ropes = getLuaField(scan, 'ropes');
+  const tables = isLuaTable(ropes)
+    ? ropes.entries.map(({ value }, index) => {
+        const rope = luaString(value) ?? '';
+        try {
+          return readLuaReturnValue(rope);
+        } catch (error) {
+          if (error instanceof LuaParseError) {
+            throw new Error(`Auctioneer scan of ${serverKey} is malformed (rope ${index + 1}: ${error.message})`);
+          }
+          throw error;
+        }
+      })
+    : [getLuaField(scan, 'image')];
+
+  const auctions: LuaTableNode[] = [];
+  tables.forEach((table) => {
+    if (isLuaTable(table)) {
+      table.entries.forEach(({ value }) => {
+        if (isLuaTable(value)) {
+          auctions.push(value);
+        }
+      });
+    }
+  });
+  return auctions;
+};
+
+const readItemId = (auction: LuaTableNode): number | null => {
+  const itemId = luaNumber(getLuaField(auction, AUCTION_FIELDS.itemId));
+  if (itemId !== null && itemId > 0) {
+    return itemId;
+  }
+  const linkMatch = (luaString(getLuaField(auction, AUCTION_FIELDS.link)) ?? '').match(ITEM_LINK_PATTERN);
+  return linkMatch ? Number(linkMatch[1]) : null;
+};
+
+/**
+ * Auctioneer keeps the full image of the last scan of each realm. Each item
+ * is priced at its cheapest buyout per unit; bid-only auctions are ignored.
+ */
+export const auctioneerImporter: PriceImporter = {
+  addon: 'Auctioneer',
+  variables: [AUCTIONEER_VARIABLE],
+
+  detect(variables) {
+    const data = variables.get(AUCTIONEER_VARIABLE);
+    const scans = isLuaTable(data) ? getLuaField(data, 'scans') : undefined;
+    return isLuaTable(scans) && collectScans(scans).length > 0;
+  },
+
+  parse(variables, sourceLabel, retention) {
+    const scans = getLuaField(variables.get(AUCTIONEER_VARIABLE) as LuaTableNode, 'scans') as LuaTableNode;
+    const realms = new Map<string, RealmPriceHistory>();
+    const skippedKeys: string[] = [];
+    let latestScan = 0;
+
+    collectScans(scans).forEach((entry) => {
+      const listings = new Map<number, ItemListings>();
+      let scanTime = 0;
+
+      readAuctions(entry).forEach((auction) => {
+        const itemId = readItemId(auction);
+        if (itemId === null) {
+          skippedKeys.push(luaString(getLuaField(auction, AUCTION_FIELDS.link)) ?? `${entry.serverKey} auction`);
+          return;
+        }
+        scanTime = Math.max(scanTime, luaNumber(getLuaField(auction, AUCTION_FIELDS.time)) ?? 0);
+
+        const buyout = luaNumber(getLuaField(auction, AUCTION_FIELDS.buyout));
+        const count = Math.max(luaNumber(getLuaField(auction, AUCTION_FIELDS.count)) ?? 1, 1);
+        if (buyout === null || buyout <= 0) {
+          return;
+        }
+
+        const price = Math.round(buyout / count);
+        const current = listings.get(itemId);
+        listings.set(itemId, {
+          price: current ? Math.min(current.price, price) : price,
+          quantity: (current?.quantity ?? 0) + count,
+          auctions: (current?.auctions ?? 0) + 1
+        });
+      });
+
+      const scannedAt = scanTime || Math.floor(Date.now() / 1000);
+      latestScan = Math.max(latestScan, scannedAt);
+      const importedAt = new Date(scannedAt * 1000).toISOString();
+
+      const history: RealmPriceHistory = new Map();
+      listings.forEach(({ price, quantity, auctions }, itemId) => {
+        const historyEntry: PriceHistoryEntry = {
+          price,
+          importedAt,
+          source: sourceLabel,
+          addon: 'Auctioneer',
+          quantity,
+          auctions
+        };
+        history.set(itemId, [historyEntry]);
+      });
+      if (history.size > 0) {
+        realms.set(normalizeRealmKey(entry.serverKey), history);
+      }
+    });
+
+    return buildItemIdImport(
+      realms,
+      new Date((latestScan || Math.floor(Date.now() / 1000)) * 1000).toISOString(),
+      sourceLabel,
+      'Auctioneer',
+      skippedKeys,
+      retention
+    );
+  }
+};
@@ -0,0 +1,63 @@
+import {
+  buildCalculationSettingsChanges,
+  CALCULATION_SETTINGS_KEY,
+  DEFAULT_CALCULATION_SETTINGS,
+  resolveCalculationSettings
+} from './CalculationSettings';
+
+const shared = {
+  ...DEFAULT_CALCULATION_SETTINGS,
+  auctionFees: { auctionHouse: 'faction', listingDuration: 24, expectedRelists: 1 },
+  costingMode: 'craftOrBuy'
+};
+
+describe('resolveCalculationSettings', () => {
+  it('uses a named user\'s own auction fee settings over the shared ones', () => {
+    const preferences = {
+      [CALCULATION_SETTINGS_KEY]: shared,
+      'auctionFees:Alice': { auctionHouse: 'neutral', listingDuration: 12, expectedRelists: 3 }
+    };
+
+    const settings = resolveCalculationSettings(preferences, ' Alice ');
+    expect(settings.auctionFees).toEqual({
+      auctionHouse: 'neutral',
+      listingDuration: 12,
+      expectedRelists: 3
+    });
+    expect(settings.costingMode).toBe('craftOrBuy');
+  });
+
+  it('falls back to the shared settings without a name or own settings', () => {
+    const preferences = { [CALCULATION_SETTINGS_KEY]: shared };
+
+    expect(resolveCalculationSettings(preferences, null).auctionFees).toEqual(shared.auctionFees);
+    expect(resolveCalculationSettings(preferences, 'Bob').auctionFees).toEqual(shared.auctionFees);
+  });
+});
+
+describe('buildCalculationSettingsChanges', () => {
+  const updated = {
+    ...DEFAULT_CALCULATION_SETTINGS,
+    auctionFees: { auctionHouse: 'neutral' as const, listingDuration: 48 as const, expectedRelists: 2 },
+    costingMode: 'direct' as const
+  };
+
+  it('stores a named user\'s fees under their own key and keeps the shared fees', () => {
+    const changes = buildCalculationSettingsChanges(
+      { [CALCULATION_SETTINGS_KEY]: shared },
+      updated,
+      'Alice'
+    );
+
+    expect(changes).toEqual({
+      [CALCULATION_SETTINGS_KEY]: { ...updated, auctionFees: shared.auctionFees },
+      'auctionFees:Alice': updated.auctionFees
+    });
+  });
+
+  it('stores everything in the shared settings without a name', () => {
+    expect(buildCalculationSettingsChanges({}, updated, '  ')).toEqual({
+      [CALCULATION_SETTINGS_KEY]: updated
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import {
+  AuctionFeeSettings,
+  AuctionHouseType,
+  CalculationSettings,
+  CostingMode,
+  ItemPriceOverride,
+  ListingDuration,
+  PriceStatistic,
+  PriceStatisticSettings,
+  PricingPolicy,
+  ReagentPriceRule,
+  ResultValueRule,
+  StalePriceHandling
+} from '../types';
+import { isPlainObject } from '../utils/common';
+import { PRICE_STATISTICS } from './PriceStatistics';
+import { STALE_PRICE_HANDLINGS } from './PriceFreshness';
+
+export const CALCULATION_SETTINGS_KEY = 'calculationSettings';
+// prefix of the preference keys holding one user's own auction fee settings
+const USER_AUCTION_FEES_KEY_PREFIX = 'auctionFees:';
+
+const AUCTION_HOUSE_TYPES: AuctionHouseType[] = ['faction', 'neutral'];
+export const LISTING_DURATIONS: ListingDuration[] = [12, 24, 48];
+const COSTING_MODES: CostingMode[] = ['direct', 'craftOrBuy'];
+const REAGENT_PRICE_RULES: ReagentPriceRule[] = ['cheapest', 'auctionOnly', 'vendorOnly'];
+const RESULT_VALUE_RULES: ResultValueRule[] = ['auction', 'vendorSell', 'custom'];
+const MAX_EXPECTED_RELISTS = 20;
+const MAX_STATISTIC_WINDOW_DAYS = 90;
+const MAX_FRESHNESS_DAYS = 365;
+
+export const DEFAULT_CALCULATION_SETTINGS: CalculationSettings = {
+  auctionFees: {
+    auctionHouse: 'faction',
+    listingDuration: 48,
+    expectedRelists: 0
+  },
+  costingMode: 'direct',
+  pricingPolicy: {
+    reagentRule: 'cheapest',
+    resultRule: 'auction',
+    itemOverrides: {}
+  },
+  priceStatistics: {
+    statistic: 'median',
+    windowDays: 7,
+    includeSuspicious: false,
+    freshnessDays: 14,
+    staleHandling: 'downweight'
+  }
+};
+
+const normalizeAuctionFees = (raw: unknown): AuctionFeeSettings => {
+  const defaults = DEFAULT_CALCULATION_SETTINGS.auctionFees;
+  if (!isPlainObject(raw)) {
+    return { ...defaults };
+  }
+
+  const auctionHouse = AUCTION_HOUSE_TYPES.includes(raw.auctionHouse as AuctionHouseType)
+    ? (raw.auctionHouse as AuctionHouseType)
+    : defaults.auctionHouse;
+  const listingDuration = LISTING_DURATIONS.includes(raw.listingDuration as ListingDuration)
+    ? (raw.listingDuration as ListingDuration)
+    : defaults.listingDuration;
+  const relists = Number(raw.expectedRelists);
+  const expectedRelists = Number.isFinite(relists)
+    ? Math.min(Math.max(relists, 0), MAX_EXPECTED_RELISTS)
+    : defaults.expectedRelists;
+
+  return {
+    auctionHouse,
+    listingDuration,
+    expectedRelists
+  };
+};
+
+const normalizeItemOverride = (raw: unknown): ItemPriceOverride | null => {
+  if (!isPlainObject(raw)) {
+    return null;
+  }
+
+  const override: ItemPriceOverride = {};
+  if (REAGENT_PRICE_RULES.includes(raw.reagentRule as ReagentPriceRule)) {
+    override.reagentRule = raw.reagentRule as ReagentPriceRule;
+  }
+  if (RESULT_VALUE_RULES.includes(raw.resultRule as ResultValueRule)) {
+    override.resultRule = raw.resultRule as ResultValueRule;
+  }
+  if (PRICE_STATISTICS.includes(raw.priceStatistic as PriceStatistic)) {
+    override.priceStatistic = raw.priceStatistic as PriceStatistic;
+  }
+  const customPrice = Number(raw.customPrice);
+  if (raw.customPrice !== undefined && Number.isFinite(customPrice) && customPrice >= 0) {
+    override.customPrice = Math.round(customPrice);
+  }
+
+  return Object.keys(override).length > 0 ? override : null;
+};
+
+const normalizePricingPolicy = (raw: unknown): PricingPolicy => {
+  const defaults = DEFAULT_CALCULATION_SETTINGS.pricingPolicy;
+  if (!isPlainObject(raw)) {
+    return { ...defaults, itemOverrides: {} };
+  }
+
+  const itemOverrides: Record<number, ItemPriceOverride> = {};
+  if (isPlainObject(raw.itemOverrides)) {
+    Object.entries(raw.itemOverrides).forEach(([key, value]) => {
+      const itemId = Number(key);
+      const override = normalizeItemOverride(value);
+      if (Number.isInteger(itemId) && itemId > 0 && override) {
+        itemOverrides[itemId] = override;
+      }
+    });
+  }
+
+  return {
+    reagentRule: REAGENT_PRICE_RULES.includes(raw.reagentRule as ReagentPriceRule)
+      ? (raw.reagentRule as ReagentPriceRule)
+      : defaults.reagentRule,
+    resultRule: RESULT_VALUE_RULES.includes(raw.resultRule as ResultValueRule)
+      ? (raw.resultRule as ResultValueRule)
+      : defaults.resultRule,
+    itemOverrides
+  };
+};
+
+const normalizePriceStatistics = (raw: unknown): PriceStatisticSettings => {
+  const defaults = DEFAULT_CALCULATION_SETTINGS.priceStatistics;
+  if (!isPlainObject(raw)) {
+    return { ...defaults };
+  }
+
+  const windowDays = Number(raw.windowDays);
+  const freshnessDays = Number(raw.freshnessDays);
+
+  return {
+    statistic: PRICE_STATISTICS.includes(raw.statistic as PriceStatistic)
+      ? (raw.statistic as PriceStatistic)
+      : defaults.statistic,
+    windowDays: Number.isFinite(windowDays)
+      ? Math.min(Math.max(Math.round(windowDays), 1), MAX_STATISTIC_WINDOW_DAYS)
+      : defaults.windowDays,
+    includeSuspicious:
+      typeof raw.includeSuspicious === 'boolean' ? raw.includeSuspicious : defaults.includeSuspicious,
+    freshnessDays: Number.isFinite(freshnessDays)
+      ? Math.min(Math.max(Math.round(freshnessDays), 1), MAX_FRESHNESS_DAYS)
+      : defaults.freshnessDays,
+    staleHandling: STALE_PRICE_HANDLINGS.includes(raw.staleHandling as StalePriceHandling)
+      ? (raw.staleHandling as StalePriceHandling)
+      : defaults.staleHandling
+  };
+};
+
+export const setItemPriceOverride = (
+  policy: PricingPolicy,
+  itemId: number,
+  override: ItemPriceOverride | null
+): PricingPolicy => {
+  const itemOverrides = { ...policy.itemOverrides };
+  const normalized = normalizeItemOverride(override);
+  if (normalized) {
+    itemOverrides[itemId] = normalized;
+  } else {
+    delete itemOverrides[itemId];
+  }
+
+  return {
+    ...policy,
+    itemOverrides
+  };
+};
+
+export const normalizeCalculationSettings = (raw: unknown): CalculationSettings => {
+  const source = isPlainObject(raw) ? raw : {};
+
+  return {
+    auctionFees: normalizeAuctionFees(source.auctionFees),
+    costingMode: COSTING_MODES.includes(source.costingMode as CostingMode)
+      ? (source.costingMode as CostingMode)
+      : DEFAULT_CALCULATION_SETTINGS.costingMode,
+    pricingPolicy: normalizePricingPolicy(source.pricingPolicy),
+    priceStatistics: normalizePriceStatistics(source.priceStatistics)
+  };
+};
+
+const getUserAuctionFeesKey = (user?: string | null): string | null => {
+  const name = user?.trim();
+  return name ? `${USER_AUCTION_FEES_KEY_PREFIX}${name}` : null;
+};
+
+/**
+ * Calculation settings as one user sees them. Auction fee settings depend on
+ * where and how that user sells, so a named user may keep their own; everyone
+ * else, and every other setting, uses the shared calculation settings.
+ */
+export const resolveCalculationSettings = (
+  preferences: Record<string, unknown>,
+  user?: string | null
+): CalculationSettings => {
+  const settings = normalizeCalculationSettings(preferences[CALCULATION_SETTINGS_KEY]);
+  const userFeesKey = getUserAuctionFeesKey(user);
+  const userFees = userFeesKey ? preferences[userFeesKey] : undefined;
+
+  return isPlainObject(userFees)
+    ? { ...settings, auctionFees: normalizeAuctionFees(userFees) }
+    : settings;
+};
+
+// Preference changes that store `settings` for `user`: a named user's fee
+// settings go to their own key and leave the shared ones untouched.
+export const buildCalculationSettingsChanges = (
+  preferences: Record<string, unknown>,
+  settings: CalculationSettings,
+  user?: string | null
+): Record<string, unknown> => {
+  const userFeesKey = getUserAuctionFeesKey(user);
+  if (!userFeesKey) {
+    return { [CALCULATION_SETTINGS_KEY]: settings };
+  }
+
+  const shared = normalizeCalculationSettings(preferences[CALCULATION_SETTINGS_KEY]);
+  return {
+    [CALCULATION_SETTINGS_KEY]: { ...settings, auctionFees: shared.auctionFees },
+    [userFeesKey]: settings.auctionFees
+  };
+};
@@ -0,0 +1,112 @@
+import { Item, MaterialCostInfo, PriceEstimate, PROFESSIONS, Recipe } from '../types';
+import { DAY_MS } from '../utils/common';
+import { Confidence, describeConfidence } from './Confidence';
+
+const now = Date.UTC(2025, 0, 20);
+
+const item = (id: number, name: string): Item => ({
+  id,
+  name,
+  icon: '',
+  quality: 'Common',
+  itemLevel: 1,
+  stackSize: 20
+});
+
+const recipe: Recipe = {
+  id: 1,
+  name: 'Bolt of Silk Cloth',
+  profession: PROFESSIONS[0],
+  skillLevel: 1,
+  resultItem: item(4305, 'Bolt of Silk Cloth'),
+  outputCount: 1,
+  materials: [{ item: item(4306, 'Silk Cloth'), quantity: 4 }],
+  category: 'Test'
+};
+
+const estimate = (daysOld: number, sampleSize: number, volatility: number | null): PriceEstimate => ({
+  price: 25,
+  statistic: 'median',
+  sampleSize,
+  updatedAt: new Date(now - daysOld * DAY_MS).toISOString(),
+  volatility
+});
+
+const material = (source: MaterialCostInfo['source']): MaterialCostInfo => ({
+  index: 0,
+  itemId: 4306,
+  quantity: 4,
+  unitPrice: 25,
+  source
+});
+
+const assess = (
+  resultPriceEstimate: PriceEstimate | null,
+  materialCosts: MaterialCostInfo[],
+  priceEstimates: Map<number, PriceEstimate> | null = null
+) =>
+  Confidence.assess({
+    recipe,
+    isCalculable: true,
+    sellPrice: 100,
+    resultPriceEstimate,
+    materialCosts,
+    priceEstimates,
+    now,
+    freshnessDays: 3
+  });
+
+describe('Confidence.assess', () => {
+  it('scores results with missing prices as zero', () => {
+    const result = Confidence.assess({
+      recipe,
+      isCalculable: false,
+      sellPrice: 0,
+      resultPriceEstimate: null,
+      materialCosts: []
+    });
+    expect(result).toEqual({ score: 0, reasons: ['Some prices are missing'] });
+  });
+
+  it('fully trusts fixed prices and fresh, well-sampled, steady auction prices', () => {
+    expect(assess(null, [material('vendor')])).toEqual({
+      score: 100,
+      reasons: ['0% of the value rests on auction prices']
+    });
+    expect(assess(estimate(0, 5, 0), [material('vendor')]).score).toBe(100);
+  });
+
+  it('keeps little weight for stale prices', () => {
+    // the stale sale is half the value and rates 0.2, the vendor reagent rates fully
+    expect(assess(estimate(10, 5, null), [material('vendor')])).toEqual({
+      score: 60,
+      reasons: [
+        '50% of the value rests on auction prices',
+        'Bolt of Silk Cloth: stale, last scanned 10 days ago'
+      ]
+    });
+  });
+
+  it('lowers the score for few scans and moving prices, worst input first', () => {
+    const priceEstimates = new Map([[4306, estimate(0, 1, 50)]]);
+    const result = assess(estimate(2, 5, null), [material('auctionator')], priceEstimates);
+
+    // 2 days into a 3 day window keeps 0.8; one scan halves and 50% spread halves again
+    expect(result.score).toBe(53);
+    // reagent names come from the game data, which is not loaded here
+    expect(result.reasons).toEqual([
+      '100% of the value rests on auction prices',
+      'Item #4306: 1 scan behind the price',
+      'Item #4306: price varies by 50%',
+      'Bolt of Silk Cloth: last scanned 2 days ago'
+    ]);
+  });
+});
+
+describe('describeConfidence', () => {
+  it('maps scores to levels', () => {
+    expect(describeConfidence(67)).toBe('High');
+    expect(describeConfidence(34)).toBe('Medium');
+    expect(describeConfidence(33)).toBe('Low');
+  });
+});
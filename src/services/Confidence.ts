@@ -0,0 +1,184 @@
+import { ConfidenceScore, MaterialCostInfo, PriceEstimate, Recipe } from '../types';
+import { DEFAULT_CALCULATION_SETTINGS } from './CalculationSettings';
+import { CraftingDataService } from './CraftingDataService';
+import { PriceFreshness } from './PriceFreshness';
+
+// Prices up to this old count as current.
+const FRESH_DAYS = 1;
+
+// Trust left from age at the end of the freshness window; stale prices keep MIN_FRESHNESS.
+const WINDOW_END_FRESHNESS = 0.6;
+
+// Scans in the statistic window at which the sample counts as complete.
+const FULL_SAMPLE_SIZE = 5;
+
+// Floors so no single factor can zero an input on its own.
+const MIN_FRESHNESS = 0.2;
+const MIN_SAMPLE_FACTOR = 0.5;
+const MIN_STABILITY = 0.4;
+
+const MAX_REASONS = 5;
+
+export type ConfidenceLevel = 'High' | 'Medium' | 'Low';
+
+export const CONFIDENCE_FILTER_LEVELS: { label: string; minScore: number }[] = [
+  { label: 'Any confidence', minScore: 0 },
+  { label: 'Medium confidence or better', minScore: 34 },
+  { label: 'High confidence only', minScore: 67 }
+];
+
+export const describeConfidence = (score: number): ConfidenceLevel => {
+  if (score >= 67) return 'High';
+  if (score >= 34) return 'Medium';
+  return 'Low';
+};
+
+export interface ConfidenceInput {
+  recipe: Recipe;
+  isCalculable: boolean;
+  sellPrice: number;
+  // null unless the sale is valued at the auction price
+  resultPriceEstimate: PriceEstimate | null;
+  materialCosts: MaterialCostInfo[];
+  priceEstimates?: Map<number, PriceEstimate> | null;
+  now?: number;
+  freshnessDays?: number;
+}
+
+interface PricedInput {
+  name: string;
+  // copper of the sale or cost that rests on this price
+  value: number;
+  // null for prices that do not move: vendor, vendor sell and custom prices
+  estimate: PriceEstimate | null;
+}
+
+interface RatedInput extends PricedInput {
+  quality: number;
+  reasons: string[];
+}
+
+const rateInput = (input: PricedInput, now: number, freshnessDays: number): RatedInput => {
+  const { estimate } = input;
+  if (!estimate) {
+    return { ...input, quality: 1, reasons: [] };
+  }
+
+  const reasons: string[] = [];
+  const ageDays = PriceFreshness.ageDays(estimate.updatedAt, now);
+  let freshness = 1;
+  if (ageDays === null || ageDays > freshnessDays) {
+    freshness = MIN_FRESHNESS;
+    reasons.push(
+      ageDays === null
+        ? `${input.name}: scan time unknown`
+        : `${input.name}: stale, last scanned ${Math.round(ageDays)} days ago`
+    );
+  } else if (ageDays > FRESH_DAYS) {
+    const windowShare = (ageDays - FRESH_DAYS) / Math.max(freshnessDays - FRESH_DAYS, 1);
+    freshness = 1 - windowShare * (1 - WINDOW_END_FRESHNESS);
+    const days = Math.round(ageDays);
+    reasons.push(`${input.name}: last scanned ${days} ${days === 1 ? 'day' : 'days'} ago`);
+  }
+
+  const sampleFactor = Math.max(Math.min(estimate.sampleSize / FULL_SAMPLE_SIZE, 1), MIN_SAMPLE_FACTOR);
+  if (estimate.sampleSize < FULL_SAMPLE_SIZE) {
+    reasons.push(
+      `${input.name}: ${estimate.sampleSize} ${estimate.sampleSize === 1 ? 'scan' : 'scans'} behind the price`
+    );
+  }
+
+  const stability =
+    estimate.volatility === null ? 1 : Math.max(1 - estimate.volatility / 100, MIN_STABILITY);
+  if (stability < 0.9) {
+    reasons.push(`${input.name}: price varies by ${Math.round(estimate.volatility ?? 0)}%`);
+  }
+
+  return { ...input, quality: freshness * sampleFactor * stability, reasons };
+};
+
+/**
+ * Lists the prices a result rests on. Reagents crafted in craft-or-buy mode
+ * are followed down to the reagents they are made from.
+ */
+const collectMaterialInputs = (
+  materialCosts: MaterialCostInfo[],
+  multiplier: number,
+  priceEstimates: Map<number, PriceEstimate> | null | undefined,
+  inputs: PricedInput[]
+) => {
+  materialCosts.forEach((materialCost) => {
+    if (materialCost.source === 'crafted' && materialCost.crafted) {
+      const { crafted } = materialCost;
+      collectMaterialInputs(
+        crafted.materialCosts,
+        (multiplier * materialCost.quantity) / (crafted.outputCount || 1),
+        priceEstimates,
+        inputs
+      );
+      return;
+    }
+
+    inputs.push({
+      name: CraftingDataService.getItem(materialCost.itemId).name,
+      value: (materialCost.unitPrice ?? 0) * materialCost.quantity * multiplier,
+      estimate:
+        materialCost.source === 'auctionator' ? priceEstimates?.get(materialCost.itemId) ?? null : null
+    });
+  });
+};
+
+export const Confidence = {
+  /**
+   * Scores how far a result can be trusted. Each price is rated by its age
+   * within the freshness window, the scans behind it and how much it moves;
+   * stale prices keep little weight and fixed prices rate fully. The
+   * score is the average rating weighted by how much of the sale and cost
+   * rest on each price, so a mostly vendor-bought recipe stays trustworthy
+   * even with one doubtful auction reagent.
+   */
+  assess(input: ConfidenceInput): ConfidenceScore {
+    if (!input.isCalculable) {
+      return { score: 0, reasons: ['Some prices are missing'] };
+    }
+
+    const now = input.now ?? Date.now();
+    const freshnessDays =
+      input.freshnessDays ?? DEFAULT_CALCULATION_SETTINGS.priceStatistics.freshnessDays;
+    const inputs: PricedInput[] = [
+      {
+        name: input.recipe.resultItem.name,
+        value: input.sellPrice,
+        estimate: input.resultPriceEstimate
+      }
+    ];
+    collectMaterialInputs(input.materialCosts, 1, input.priceEstimates, inputs);
+
+    const rated = inputs.map((priced) => rateInput(priced, now, freshnessDays));
+    const totalValue = rated.reduce((sum, priced) => sum + priced.value, 0);
+    if (totalValue <= 0) {
+      return { score: 100, reasons: [] };
+    }
+
+    const auctionValue = rated.reduce(
+      (sum, priced) => sum + (priced.estimate ? priced.value : 0),
+      0
+    );
+    const score = rated.reduce((sum, priced) => sum + priced.value * priced.quality, 0) / totalValue;
+
+    // the prices that cost the most confidence are explained first
+    const reasons = rated
+      .filter((priced) => priced.reasons.length > 0)
+      .sort((a, b) => b.value * (1 - b.quality) - a.value * (1 - a.quality))
+      .reduce<string[]>((list, priced) => list.concat(priced.reasons), [])
+      .slice(0, MAX_REASONS);
+
+    return {
+      score: Math.round(score * 100),
+      reasons: [
+        `${Math.round((auctionValue / totalValue) * 100)}% of the value rests on auction prices`,
+        ...reasons
+      ]
+    };
+  }
+};
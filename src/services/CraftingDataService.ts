@@ -80,6 +80,12 @@ const resolveItemName = (itemId: number): string => {
     return repositoryName;
   }
 
+  // items outside the crafting data still have a name from the override lists
+  const knownName = ItemNameResolver.getNameForId(itemId);
+  if (knownName) {
+    return knownName;
+  }
+
   return `Item #${itemId}`;
 };
 
@@ -101,7 +107,8 @@ const getBaseItem = (itemId: number): Item => {
     icon,
     quality: DEFAULT_ITEM_QUALITY,
     itemLevel: DEFAULT_ITEM_LEVEL,
-    sellPrice: 0,
+    // left out when unknown so a missing price is not read as 0
+    sellPrice: gameDataRepository.getVendorSellPrice(itemId),
     stackSize: 1
   };
 
@@ -157,6 +164,11 @@ export const CraftingDataService = {
     await ensureRepositoryLoaded();
   },
 
+  // Expects the repository to be loaded; used for reagents outside the current recipe list.
+  getItem(itemId: number): Item {
+    return cloneItem(getBaseItem(itemId));
+  },
+
   async getSupportedProfessionIds(): Promise<number[]> {
     await ensureRepositoryLoaded();
     return gameDataRepository.getAvailableProfessionIds();
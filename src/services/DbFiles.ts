@@ -0,0 +1,103 @@
+import Papa from 'papaparse';
+
+/**
+ * Reads a file from the db directory as text. Outside the browser there is no
+ * origin to download the files from, so Node callers install a reader backed
+ * by the file system.
+ */
+export type DbFileReader = (fileName: string) => Promise<string>;
+
+interface DbCsvHandlers<T> {
+  step: (row: T) => void;
+  complete: () => void;
+  error: (error: unknown) => void;
+}
+
+interface DbJsonOptions {
+  cache?: RequestCache;
+  // appends a timestamp so proxies cannot serve a stale copy
+  bustCache?: boolean;
+}
+
+let dbFileReader: DbFileReader | null = null;
+
+export const setDbFileReader = (reader: DbFileReader | null): void => {
+  dbFileReader = reader;
+};
+
+const normalizePath = (value: string): string => value.replace(/\/{2,}/g, '/');
+
+const buildRelativeDbPath = (fileName: string): string =>
+  normalizePath(`${process.env.PUBLIC_URL || ''}/db/${fileName}`);
+
+export const getDbFileUrl = (fileName: string): string => {
+  if (typeof window !== 'undefined' && window.location) {
+    return new URL(buildRelativeDbPath(fileName), window.location.origin).toString();
+  }
+
+  return buildRelativeDbPath(fileName);
+};
+
+export const parseDbCsv = <T>(fileName: string, handlers: DbCsvHandlers<T>): void => {
+  if (dbFileReader) {
+    dbFileReader(fileName)
+      .then((content) => {
+        Papa.parse<T>(content, {
+          header: true,
+          skipEmptyLines: true,
+          step: (stepResult) => handlers.step(stepResult.data),
+          complete: () => handlers.complete()
+        });
+      })
+      .catch(handlers.error);
+    return;
+  }
+
+  Papa.parse<T>(getDbFileUrl(fileName), {
+    download: true,
+    header: true,
+    skipEmptyLines: true,
+    worker: true,
+    step: (stepResult) => handlers.step(stepResult.data),
+    complete: () => handlers.complete(),
+    error: handlers.error
+  });
+};
+
+export const parseDbCsvRows = <T>(fileName: string): Promise<T[]> =>
+  new Promise((resolve, reject) => {
+    const rows: T[] = [];
+    parseDbCsv<T>(fileName, {
+      step: (row) => rows.push(row),
+      complete: () => resolve(rows),
+      error: reject
+    });
+  });
+
+// Resolves with null when the file does not exist or cannot be read.
+export const readDbJson = async <T>(
+  fileName: string,
+  options: DbJsonOptions = {}
+): Promise<T | null> => {
+  if (dbFileReader) {
+    try {
+      // response.json() drops a byte order mark, so do the same here
+      const content = (await dbFileReader(fileName)).replace(/^\uFEFF/, '');
+      return JSON.parse(content) as T;
+    } catch (error) {
+      // a missing file is expected, just as a 404 is in the browser
+      if ((error as { code?: string }).code !== 'ENOENT') {
+        console.warn(`[DbFiles] Failed to read ${fileName}`, error);
+      }
+      return null;
+    }
+  }
+
+  const url = getDbFileUrl(fileName) + (options.bustCache ? `?t=${Date.now()}` : '');
+  const response = await fetch(url, { cache: options.cache ?? 'default' });
+  if (!response.ok) {
+    return null;
+  }
+
+  return (await response.json()) as T;
+};
@@ -1,8 +1,7 @@
-import Papa from 'papaparse';
-
 import { decodeHtmlEntities } from '../utils/html';
 import { ItemNameResolver } from './ItemNameResolver';
 import { loadItemIdToNameMap } from './ItemNameIndex';
+import { getDbFileUrl, parseDbCsv, parseDbCsvRows, readDbJson } from './DbFiles';
 
 const CRAFTING_DB_FILE = 'craftingdb.csv';
 const CRAFTING_WITH_SKILL_FILE = 'crafting_with_skill.csv';
@@ -11,14 +10,13 @@ const ITEM_FILE = 'Item.csv';
 const ITEM_DISPLAY_INFO_FILE = 'ItemDisplayInfo.csv';
 const GAME_DATA_JSON_FILE = 'game-data.json';
 const VENDOR_PRICES_FILE = 'vendor_prices.json';
+const VENDOR_SELL_PRICES_FILE = 'vendor_sell_prices.json';
 
 const CREATE_ITEM_EFFECT_ID = '24';
 const ENCHANT_SCROLL_EFFECT_ID = '53';
 const FALLBACK_ICON_URL =
   'https://wow.zamimg.com/images/wow/icons/large/inv_misc_questionmark.jpg';
 
-type PapaParseResult<T> = Papa.ParseResult<T>;
-
 export interface ReagentEntry {
   itemId: number;
   quantity: number;
@@ -49,6 +47,15 @@ export interface ItemDisplayRecord {
   iconName: string | null;
 }
 
+// pre-parsed output of scripts/build-game-data.js
+interface GameDataFile {
+  version: string;
+  professionSpellIds: Record<string, number[]>;
+  spells: SpellRecord[];
+  items: ItemRecord[];
+  itemDisplayInfo: ItemDisplayRecord[];
+}
+
 interface CraftingSkillRow {
   SpellID: string;
   SkillName: string;
@@ -60,8 +67,10 @@ interface SkillLineAbilityRow {
   Spell: string;
   MinSkillLineRank: string;
   MaxSkillLineRank?: string;
-  TrivialSkillLineRankHigh?: string;
-  TrivialSkillLineRankLow?: string;
+  // In this export the TrivialSkillLineRank* columns only hold flags; the grey
+  // (trivial high) and yellow (trivial low) skills are in the CharacterPoints ones.
+  CharacterPoints_1?: string;
+  CharacterPoints_2?: string;
 }
 
 interface CraftingDbRow {
@@ -133,6 +142,12 @@ const parseNumber = (value?: string | number | null): number | null => {
   return Number.isFinite(numeric) ? numeric : null;
 };
 
+// 0 marks a recipe without a known skill range
+const parseSkillRank = (value: string | undefined): number | null => {
+  const rank = parseNumber(value);
+  return rank !== null && rank > 0 ? rank : null;
+};
+
 const parseString = (value?: string | null): string | null => {
   if (value === null || value === undefined) {
     return null;
@@ -165,19 +180,6 @@ const ITEM_NAME_KEYS = [
   'Name_Lang'
 ] as const;
 
-const normalizePath = (pathValue: string): string => pathValue.replace(/\/{2,}/g, '/');
-
-const buildRelativeDbPath = (fileName: string): string =>
-  normalizePath(`${process.env.PUBLIC_URL || ''}/db/${fileName}`);
-
-const getCsvUrl = (fileName: string): string => {
-  if (typeof window !== 'undefined' && window.location) {
-    return new URL(buildRelativeDbPath(fileName), window.location.origin).toString();
-  }
-
-  return buildRelativeDbPath(fileName);
-};
-
 const extractItemName = (row: ItemRow): string | null => {
   for (const key of ITEM_NAME_KEYS) {
     const rawValue = row[key];
@@ -190,31 +192,14 @@ const extractItemName = (row: ItemRow): string | null => {
   return null;
 };
 
-const parseCsvFile = async <T>(fileName: string): Promise<PapaParseResult<T>> =>
-  new Promise((resolve, reject) => {
-    Papa.parse<T>(getCsvUrl(fileName), {
-      download: true,
-      header: true,
-      skipEmptyLines: true,
-      worker: true,
-      complete: (results) => resolve(results),
-      error: (error) => reject(error)
-    });
-  });
-
 const parseCraftingDb = async (
   relevantSpellIds: Set<number>
 ): Promise<Map<number, CraftingDbRow>> =>
   new Promise((resolve, reject) => {
     const spells = new Map<number, CraftingDbRow>();
 
-    Papa.parse<CraftingDbRow>(getCsvUrl(CRAFTING_DB_FILE), {
-      download: true,
-      header: true,
-      skipEmptyLines: true,
-      worker: true,
-      step: (stepResult) => {
-        const row = stepResult.data;
+    parseDbCsv<CraftingDbRow>(CRAFTING_DB_FILE, {
+      step: (row) => {
         const id = parseNumber(row.ID);
         if (id === null || !relevantSpellIds.has(id)) {
           return;
@@ -225,7 +210,7 @@ const parseCraftingDb = async (
         }
       },
       complete: () => resolve(spells),
-      error: (error) => reject(error)
+      error: reject
     });
   });
 
@@ -332,6 +317,7 @@ export class GameDataRepository {
   private readonly items = new Map<number, ItemRecord>();
   private readonly itemDisplayInfo = new Map<number, ItemDisplayRecord>();
   private readonly vendorPrices = new Map<number, number>();
+  private readonly vendorSellPrices = new Map<number, number>();
   private readonly professionSpellIds = new Map<number, Set<number>>();
   private readonly unsubscribeItemNameListener = ItemNameResolver.addListener(
     ({ id, name }: { id: number; name: string }) => {
@@ -376,16 +362,14 @@ export class GameDataRepository {
 
   private async loadFromJson(): Promise<boolean> {
     try {
-      const url = getCsvUrl(GAME_DATA_JSON_FILE);
       console.log('[GameDataRepository] Attempting to load pre-parsed JSON...');
-      const response = await fetch(url, { cache: 'default' });
+      const gameData = await readDbJson<GameDataFile>(GAME_DATA_JSON_FILE);
 
-      if (!response.ok) {
+      if (!gameData) {
         console.log('[GameDataRepository] JSON not found, falling back to CSV parsing');
         return false;
       }
 
-      const gameData = await response.json();
       console.log('[GameDataRepository] Successfully loaded JSON, version:', gameData.version);
 
       // Restore professionSpellIds
@@ -456,12 +440,12 @@ export class GameDataRepository {
     // Fallback to CSV parsing (slow, only if JSON not available)
     console.log('[GameDataRepository] Falling back to CSV parsing...');
 
-    const skillRows = await parseCsvFile<CraftingSkillRow>(CRAFTING_WITH_SKILL_FILE);
+    const skillRows = await parseDbCsvRows<CraftingSkillRow>(CRAFTING_WITH_SKILL_FILE);
 
     const spellToProfession = new Map<number, SpellProfessionMeta>();
     const professionSpellIds = new Map<number, Set<number>>();
 
-    for (const row of skillRows.data) {
+    for (const row of skillRows) {
       const spellId = parseNumber(row.SpellID);
       const professionId =
         typeof row.SkillName === 'string'
@@ -497,8 +481,8 @@ export class GameDataRepository {
       }
     }
 
-    const skillLineRows = await parseCsvFile<SkillLineAbilityRow>(SKILL_LINE_FILE);
-    for (const row of skillLineRows.data) {
+    const skillLineRows = await parseDbCsvRows<SkillLineAbilityRow>(SKILL_LINE_FILE);
+    for (const row of skillLineRows) {
       const professionId = parseNumber(row.SkillLine);
       const spellId = parseNumber(row.Spell);
       if (professionId === null || spellId === null) {
@@ -507,8 +491,8 @@ export class GameDataRepository {
 
       const minSkill = parseNumber(row.MinSkillLineRank);
       const maxSkill = parseNumber(row.MaxSkillLineRank);
-      const trivialHigh = parseNumber(row.TrivialSkillLineRankHigh);
-      const trivialLow = parseNumber(row.TrivialSkillLineRankLow);
+      const trivialHigh = parseSkillRank(row.CharacterPoints_1);
+      const trivialLow = parseSkillRank(row.CharacterPoints_2);
 
       if (!professionSpellIds.has(professionId)) {
         professionSpellIds.set(professionId, new Set());
@@ -608,11 +592,12 @@ export class GameDataRepository {
 
   private async loadVendorPrices(): Promise<void> {
     try {
-      const url = getCsvUrl(VENDOR_PRICES_FILE) + '?t=' + Date.now();
-      console.log(`[GameDataRepository] Fetching vendor prices from: ${url}`);
-      const response = await fetch(url, { cache: 'no-store' });
-      if (response.ok) {
-        const prices = await response.json();
+      console.log(`[GameDataRepository] Fetching vendor prices from: ${getDbFileUrl(VENDOR_PRICES_FILE)}`);
+      const prices = await readDbJson<Record<string, unknown>>(VENDOR_PRICES_FILE, {
+        cache: 'no-store',
+        bustCache: true
+      });
+      if (prices) {
         Object.entries(prices).forEach(([id, price]) => {
           this.vendorPrices.set(Number(id), Number(price));
         });
@@ -621,19 +606,26 @@ export class GameDataRepository {
     } catch (error) {
       console.warn('[GameDataRepository] Failed to load vendor prices:', error);
     }
+
+    try {
+      const prices = await readDbJson<Record<string, unknown>>(VENDOR_SELL_PRICES_FILE);
+      if (prices) {
+        Object.entries(prices).forEach(([id, price]) => {
+          this.vendorSellPrices.set(Number(id), Number(price));
+        });
+        console.log(`[GameDataRepository] Loaded ${this.vendorSellPrices.size} vendor sell prices`);
+      }
+    } catch (error) {
+      console.warn('[GameDataRepository] Failed to load vendor sell prices:', error);
+    }
   }
 
   private async loadItems(itemIds: Set<number>): Promise<void> {
     await new Promise<void>((resolve, reject) => {
       const idsMissingNames = new Set<number>();
 
-      Papa.parse<ItemRow>(getCsvUrl(ITEM_FILE), {
-        download: true,
-        header: true,
-        skipEmptyLines: true,
-        worker: true,
-        step: (stepResult) => {
-          const row = stepResult.data;
+      parseDbCsv<ItemRow>(ITEM_FILE, {
+        step: (row) => {
           const id = parseNumber(row.ID);
           if (id === null || !itemIds.has(id)) {
             return;
@@ -683,20 +675,15 @@ export class GameDataRepository {
           // }
           resolve();
         },
-        error: (error) => reject(error)
+        error: reject
       });
     });
   }
 
   private async loadItemDisplayInfo(displayInfoIds: Set<number>): Promise<void> {
     await new Promise<void>((resolve, reject) => {
-      Papa.parse<ItemDisplayRow>(getCsvUrl(ITEM_DISPLAY_INFO_FILE), {
-        download: true,
-        header: true,
-        skipEmptyLines: true,
-        worker: true,
-        step: (stepResult) => {
-          const row = stepResult.data;
+      parseDbCsv<ItemDisplayRow>(ITEM_DISPLAY_INFO_FILE, {
+        step: (row) => {
           const id = parseNumber(row.ID);
           if (id === null || !displayInfoIds.has(id)) {
             return;
@@ -710,7 +697,7 @@ export class GameDataRepository {
           }
         },
         complete: () => resolve(),
-        error: (error) => reject(error)
+        error: reject
       });
     });
   }
@@ -734,6 +721,14 @@ export class GameDataRepository {
     return this.items.get(itemId);
   }
 
+  public getItemIds(): number[] {
+    return Array.from(this.items.keys());
+  }
+
+  public getSpell(spellId: number): SpellRecord | undefined {
+    return this.spells.get(spellId);
+  }
+
   public getItemName(itemId: number): string | undefined {
     return this.items.get(itemId)?.name ?? undefined;
   }
@@ -753,6 +748,10 @@ export class GameDataRepository {
     // console.log(`[GameDataRepository] getVendorPrice(${itemId}) = ${price}`); 
     return price;
   }
+
+  public getVendorSellPrice(itemId: number): number | undefined {
+    return this.vendorSellPrices.get(itemId);
+  }
 }
 
 export const gameDataRepository = GameDataRepository.getInstance();
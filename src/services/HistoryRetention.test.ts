@@ -0,0 +1,121 @@
+import type { PriceHistoryEntry } from './AuctionatorDataService';
+import {
+  applyRetention,
+  DEFAULT_RETENTION_POLICY,
+  normalizeRetentionPolicy,
+  RetentionPolicy
+} from './HistoryRetention';
+
+const scan = (importedAt: string, price: number, extra: Partial<PriceHistoryEntry> = {}): PriceHistoryEntry => ({
+  price,
+  importedAt,
+  source: 'Auctionator.lua',
+  ...extra
+});
+
+const policy: RetentionPolicy = { rawDays: 14, dailyUntilDays: 180 };
+const now = Date.parse('2025-12-31T00:00:00Z');
+
+describe('normalizeRetentionPolicy', () => {
+  it('falls back to the defaults for missing or invalid values', () => {
+    expect(normalizeRetentionPolicy(null)).toEqual(DEFAULT_RETENTION_POLICY);
+    expect(normalizeRetentionPolicy({ rawDays: 'soon', dailyUntilDays: 30 })).toEqual({
+      rawDays: DEFAULT_RETENTION_POLICY.rawDays,
+      dailyUntilDays: 30
+    });
+  });
+
+  it('clamps the days and keeps daily aggregates at least as long as raw scans', () => {
+    expect(normalizeRetentionPolicy({ rawDays: -3, dailyUntilDays: 99999 })).toEqual({
+      rawDays: 0,
+      dailyUntilDays: 3650
+    });
+    expect(normalizeRetentionPolicy({ rawDays: 30, dailyUntilDays: 7 })).toEqual({
+      rawDays: 30,
+      dailyUntilDays: 30
+    });
+  });
+});
+
+describe('applyRetention', () => {
+  it('keeps recent scans as they are', () => {
+    const recent = [scan('2025-12-30T10:00:00Z', 120), scan('2025-12-29T10:00:00Z', 100)];
+    expect(applyRetention(recent, policy, now)).toEqual([recent[1], recent[0]]);
+  });
+
+  it('folds older scans into daily aggregates', () => {
+    const result = applyRetention(
+      [
+        scan('2025-11-01T08:00:00Z', 100, { quantity: 10 }),
+        scan('2025-11-01T12:00:00Z', 300, { quantity: 20 }),
+        scan('2025-11-01T20:00:00Z', 200)
+      ],
+      policy,
+      now
+    );
+
+    expect(result).toEqual([
+      {
+        price: 200,
+        importedAt: '2025-11-01T00:00:00.000Z',
+        source: 'Auctionator.lua',
+        quantity: 15,
+        aggregate: { period: 'day', min: 100, median: 200, max: 300, count: 3 }
+      }
+    ]);
+  });
+
+  it('folds scans past the daily window into weeks starting on Monday', () => {
+    const result = applyRetention(
+      [scan('2025-01-08T10:00:00Z', 100), scan('2025-01-10T10:00:00Z', 140)],
+      policy,
+      now
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0].importedAt).toBe('2025-01-06T00:00:00.000Z');
+    expect(result[0].aggregate).toEqual({ period: 'week', min: 100, median: 100, max: 140, count: 2 });
+  });
+
+  it('leaves aggregates unchanged when applied again', () => {
+    const once = applyRetention(
+      [
+        scan('2025-01-08T10:00:00Z', 100),
+        scan('2025-01-10T10:00:00Z', 140),
+        scan('2025-11-01T08:00:00Z', 90),
+        scan('2025-12-30T10:00:00Z', 120)
+      ],
+      policy,
+      now
+    );
+
+    expect(applyRetention(once, policy, now)).toEqual(once);
+  });
+
+  it('weights existing aggregates by their scan count', () => {
+    const daily = scan('2025-01-07T00:00:00Z', 100, {
+      aggregate: { period: 'day', min: 90, median: 100, max: 110, count: 5 }
+    });
+    const result = applyRetention([daily, scan('2025-01-09T10:00:00Z', 500)], policy, now);
+
+    expect(result[0].aggregate).toEqual({ period: 'week', min: 90, median: 100, max: 500, count: 6 });
+  });
+
+  it('keeps unreviewed outliers raw and drops rejected ones', () => {
+    const pending = scan('2025-11-01T12:00:00Z', 5, {
+      anomaly: { score: -8, baseline: 100, status: 'pending' }
+    });
+    const rejected = scan('2025-11-01T13:00:00Z', 9000, {
+      anomaly: { score: 50, baseline: 100, status: 'rejected' }
+    });
+    const accepted = scan('2025-11-01T14:00:00Z', 120, {
+      anomaly: { score: 4, baseline: 100, status: 'accepted' }
+    });
+
+    const result = applyRetention([scan('2025-11-01T10:00:00Z', 100), pending, rejected, accepted], policy, now);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].aggregate).toEqual({ period: 'day', min: 100, median: 100, max: 120, count: 2 });
+    expect(result[1]).toBe(pending);
+  });
+});
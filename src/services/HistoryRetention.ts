@@ -0,0 +1,146 @@
+import { DAY_MS, entryTimestamp, isPlainObject } from '../utils/common';
+import type { PriceAggregate, PriceHistoryEntry } from './AuctionatorDataService';
+import { PriceAnomalies } from './PriceAnomalies';
+
+const WEEK_MS = 7 * DAY_MS;
+// 1970-01-01 was a Thursday; shift by four days so weekly buckets start on Monday.
+const WEEK_OFFSET_MS = 4 * DAY_MS;
+const MAX_RETENTION_DAYS = 3650;
+
+export const HISTORY_RETENTION_KEY = 'historyRetention';
+
+export interface RetentionPolicy {
+  // every scan is kept for this many days
+  rawDays: number;
+  // older scans are folded into daily aggregates up to this age, weekly beyond
+  dailyUntilDays: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  rawDays: 14,
+  dailyUntilDays: 180
+};
+
+const clampDays = (value: unknown, fallback: number) => {
+  const days = Number(value);
+  return Number.isFinite(days) ? Math.min(Math.max(Math.round(days), 0), MAX_RETENTION_DAYS) : fallback;
+};
+
+export const normalizeRetentionPolicy = (raw: unknown): RetentionPolicy => {
+  if (!isPlainObject(raw)) {
+    return { ...DEFAULT_RETENTION_POLICY };
+  }
+
+  const rawDays = clampDays(raw.rawDays, DEFAULT_RETENTION_POLICY.rawDays);
+  const dailyUntilDays = clampDays(raw.dailyUntilDays, DEFAULT_RETENTION_POLICY.dailyUntilDays);
+
+  return {
+    rawDays,
+    dailyUntilDays: Math.max(dailyUntilDays, rawDays)
+  };
+};
+
+const weightedMedian = (samples: { value: number; weight: number }[]) => {
+  const sorted = [...samples].sort((a, b) => a.value - b.value);
+  const totalWeight = sorted.reduce((sum, sample) => sum + sample.weight, 0);
+  let cumulative = 0;
+  for (const sample of sorted) {
+    cumulative += sample.weight;
+    if (cumulative >= totalWeight / 2) {
+      return sample.value;
+    }
+  }
+  return sorted[sorted.length - 1].value;
+};
+
+// Rounded mean of the values that are present, or null if none are.
+const averageOf = (values: (number | undefined)[]): number | null => {
+  const present = values.filter((value): value is number => value !== undefined);
+  return present.length > 0
+    ? Math.round(present.reduce((sum, value) => sum + value, 0) / present.length)
+    : null;
+};
+
+/**
+ * Folds a bucket of scans into one entry. Entries that are already aggregates
+ * contribute their min/max and count their median once per underlying scan,
+ * so re-applying the policy leaves existing aggregates unchanged.
+ */
+const aggregateBucket = (
+  entries: PriceHistoryEntry[],
+  period: PriceAggregate['period'],
+  bucketStart: number
+): PriceHistoryEntry => {
+  let min = Infinity;
+  let max = -Infinity;
+  let count = 0;
+  const samples = entries.map((entry) => {
+    const weight = entry.aggregate?.count ?? 1;
+    min = Math.min(min, entry.aggregate?.min ?? entry.price);
+    max = Math.max(max, entry.aggregate?.max ?? entry.price);
+    count += weight;
+    return { value: entry.aggregate?.median ?? entry.price, weight };
+  });
+  const median = Math.round(weightedMedian(samples));
+  const sources = Array.from(new Set(entries.map((entry) => entry.source)));
+  const quantity = averageOf(entries.map((entry) => entry.quantity));
+  const auctions = averageOf(entries.map((entry) => entry.auctions));
+  const addons = Array.from(new Set(entries.map((entry) => entry.addon)));
+
+  return {
+    price: median,
+    importedAt: new Date(bucketStart).toISOString(),
+    source: sources.length === 1 ? sources[0] : 'Aggregated',
+    ...(addons.length === 1 && addons[0] ? { addon: addons[0] } : {}),
+    ...(quantity !== null ? { quantity } : {}),
+    ...(auctions !== null ? { auctions } : {}),
+    aggregate: { period, min, median, max, count }
+  };
+};
+
+/**
+ * Applies the retention policy to one item's history and returns it sorted
+ * oldest first. Ages are measured from `now`. Flagged scans waiting for a
+ * review are kept as they are until reviewed; rejected ones are dropped
+ * instead of being aggregated.
+ */
+export const applyRetention = (
+  entries: PriceHistoryEntry[],
+  policy: RetentionPolicy = DEFAULT_RETENTION_POLICY,
+  now: number = Date.now()
+): PriceHistoryEntry[] => {
+  const rawCutoff = now - policy.rawDays * DAY_MS;
+  const dailyCutoff = now - Math.max(policy.dailyUntilDays, policy.rawDays) * DAY_MS;
+
+  const kept: PriceHistoryEntry[] = [];
+  const buckets = new Map<string, { period: PriceAggregate['period']; start: number; entries: PriceHistoryEntry[] }>();
+
+  entries.forEach((entry) => {
+    const time = entryTimestamp(entry);
+    const isPending = entry.anomaly?.status === 'pending';
+    if ((time >= rawCutoff || isPending) && !entry.aggregate) {
+      kept.push(entry);
+      return;
+    }
+    if (!PriceAnomalies.isCounted(entry)) {
+      return;
+    }
+
+    const period: PriceAggregate['period'] =
+      time >= dailyCutoff && entry.aggregate?.period !== 'week' ? 'day' : 'week';
+    const start =
+      period === 'day'
+        ? Math.floor(time / DAY_MS) * DAY_MS
+        : Math.floor((time - WEEK_OFFSET_MS) / WEEK_MS) * WEEK_MS + WEEK_OFFSET_MS;
+    const key = `${period}:${start}`;
+    const bucket = buckets.get(key) ?? { period, start, entries: [] };
+    bucket.entries.push(entry);
+    buckets.set(key, bucket);
+  });
+
+  buckets.forEach((bucket) => {
+    kept.push(aggregateBucket(bucket.entries, bucket.period, bucket.start));
+  });
+
+  return kept.sort((a, b) => entryTimestamp(a) - entryTimestamp(b));
+};
@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { setDbFileReader } from './DbFiles';
+import { ItemCatalog } from './ItemCatalog';
+
+const LIGHT_LEATHER = 2318;
+const LEATHER_SLED = 38571;
+const LIGHT_LEATHER_PANTS = 7282;
+
+const search = async (query: string, limit?: number) =>
+  (await ItemCatalog.searchItems(query, limit)).map(({ id, name }) => ({ id, name }));
+
+describe('ItemCatalog.searchItems', () => {
+  beforeAll(() => {
+    setDbFileReader((fileName) =>
+      fs.promises.readFile(path.join(__dirname, '..', '..', 'public', 'db', fileName), 'utf8')
+    );
+  });
+
+  afterAll(() => {
+    setDbFileReader(null);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('ranks names ending in the query word above names it only starts', async () => {
+    const results = await search('leather', 100);
+    const ids = results.map(({ id }) => id);
+
+    expect(results.slice(0, 8).every(({ name }) => name.endsWith(' Leather'))).toBe(true);
+    expect(ids.indexOf(LIGHT_LEATHER)).toBeGreaterThanOrEqual(0);
+    expect(ids.indexOf(LIGHT_LEATHER)).toBeLessThan(ids.indexOf(LEATHER_SLED));
+  });
+
+  it('puts the exact name first, then whole-word matches, then partial words', async () => {
+    const results = await search('light leather', 6);
+
+    expect(results[0]).toEqual({ id: LIGHT_LEATHER, name: 'Light Leather' });
+    expect(results.map(({ id }) => id)).toContain(LIGHT_LEATHER_PANTS);
+    // "Blight Leather" only holds the query inside a word
+    expect(results[results.length - 1].name).toBe('Blight Leather Gloves');
+  });
+
+  it('ranks prefixes by name length and ignores case and spacing', async () => {
+    const results = await search('  LEATH ', 3);
+
+    expect(results[0]).toEqual({ id: LEATHER_SLED, name: 'Leather Sled' });
+    expect(results.map(({ name }) => name.length)).toEqual(
+      results.map(({ name }) => name.length).sort((a, b) => a - b)
+    );
+    expect(await search('   ')).toEqual([]);
+  });
+});
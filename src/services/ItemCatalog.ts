@@ -0,0 +1,149 @@
+import { Item, Recipe } from '../types';
+import { CraftingDataService } from './CraftingDataService';
+import { gameDataRepository } from './GameDataRepository';
+import { loadItemIdToNameMap, normalizeItemName } from './ItemNameIndex';
+import { findProfession } from './ProfessionProfits';
+
+const DEFAULT_SEARCH_LIMIT = 25;
+
+// Lower ranks sort first.
+const MATCH_RANK = {
+  exact: 0,
+  lastWord: 1,
+  wholeWord: 2,
+  prefix: 3,
+  wordPrefix: 4,
+  substring: 5
+} as const;
+
+interface CatalogEntry {
+  id: number;
+  normalizedName: string;
+}
+
+interface Catalog {
+  entries: CatalogEntry[];
+  ids: Set<number>;
+}
+
+let catalogPromise: Promise<Catalog> | null = null;
+
+/**
+ * Every item with a known name: the crafting data plus the name override
+ * lists, which also cover items no recipe uses.
+ */
+const buildCatalog = async (): Promise<Catalog> => {
+  await CraftingDataService.load();
+  const ids = new Set<number>([
+    ...gameDataRepository.getItemIds(),
+    ...Array.from((await loadItemIdToNameMap()).keys())
+  ]);
+
+  const entries = Array.from(ids).map((id) => ({
+    id,
+    normalizedName: normalizeItemName(CraftingDataService.getItem(id).name)
+  }));
+
+  return { entries, ids };
+};
+
+const loadCatalog = (): Promise<Catalog> => {
+  if (!catalogPromise) {
+    catalogPromise = buildCatalog().catch((error) => {
+      catalogPromise = null;
+      throw error;
+    });
+  }
+  return catalogPromise;
+};
+
+const isWordCharacter = (char: string | undefined) => char !== undefined && /[a-z0-9]/.test(char);
+
+// Item names put the noun last, so "leather" names Light Leather before the
+// Leather Sled: a query ending the name ranks above one elsewhere in it.
+const rankMatch = (name: string, query: string): number | null => {
+  if (name === query) {
+    return MATCH_RANK.exact;
+  }
+
+  const isWholeWordAt = (index: number) =>
+    !isWordCharacter(name[index - 1]) && !isWordCharacter(name[index + query.length]);
+  if (name.endsWith(query) && isWholeWordAt(name.length - query.length)) {
+    return MATCH_RANK.lastWord;
+  }
+  for (let index = name.indexOf(query); index !== -1; index = name.indexOf(query, index + 1)) {
+    if (isWholeWordAt(index)) {
+      return MATCH_RANK.wholeWord;
+    }
+  }
+
+  if (name.startsWith(query)) {
+    return MATCH_RANK.prefix;
+  }
+  if (name.includes(` ${query}`)) {
+    return MATCH_RANK.wordPrefix;
+  }
+  if (name.includes(query)) {
+    return MATCH_RANK.substring;
+  }
+  return null;
+};
+
+/**
+ * Offline item and recipe lookups over the bundled game data. Results are the
+ * same objects CraftingDataService hands to the UI.
+ */
+export const ItemCatalog = {
+  async getItem(itemId: number): Promise<Item | null> {
+    const { ids } = await loadCatalog();
+    return ids.has(itemId) ? CraftingDataService.getItem(itemId) : null;
+  },
+
+  async getRecipesByProfession(professionId: number): Promise<Recipe[] | null> {
+    const profession = findProfession(professionId);
+    return profession ? CraftingDataService.getRecipesForProfession(profession) : null;
+  },
+
+  async getRecipe(recipeId: number): Promise<Recipe | null> {
+    await CraftingDataService.load();
+    const spell = gameDataRepository.getSpell(recipeId);
+    const profession = spell ? findProfession(spell.professionId) : undefined;
+    if (!profession) {
+      return null;
+    }
+
+    const recipes = await CraftingDataService.getRecipesForProfession(profession);
+    return recipes.find((recipe) => recipe.id === recipeId) ?? null;
+  },
+
+  /**
+   * Ranks exact names first, then names ending in the query as whole words,
+   * then names holding it as whole words elsewhere, then prefixes, word
+   * prefixes and any substring; shorter names win within a rank.
+   */
+  async searchItems(query: string, limit: number = DEFAULT_SEARCH_LIMIT): Promise<Item[]> {
+    const normalizedQuery = normalizeItemName(query);
+    if (!normalizedQuery) {
+      return [];
+    }
+
+    const { entries } = await loadCatalog();
+    const matches: { entry: CatalogEntry; rank: number }[] = [];
+    entries.forEach((entry) => {
+      const rank = rankMatch(entry.normalizedName, normalizedQuery);
+      if (rank !== null) {
+        matches.push({ entry, rank });
+      }
+    });
+
+    return matches
+      .sort(
+        (a, b) =>
+          a.rank - b.rank ||
+          a.entry.normalizedName.length - b.entry.normalizedName.length ||
+          a.entry.normalizedName.localeCompare(b.entry.normalizedName)
+      )
+      .slice(0, limit)
+      .map(({ entry }) => CraftingDataService.getItem(entry.id));
+  }
+};
@@ -1,5 +1,5 @@
-import Papa from 'papaparse';
 import { decodeHtmlEntities } from '../utils/html';
+import { parseDbCsv } from './DbFiles';
 
 const ITEM_FILE = 'Item.csv';
 const ITEM_NAME_OVERRIDE_FILES = [
@@ -38,19 +38,6 @@ let inflightIndexPromise: Promise<ItemNameIndex> | null = null;
 let cachedOverrides: ItemIdNameMap | null = null;
 let inflightOverridePromise: Promise<ItemIdNameMap> | null = null;
 
-const normalizePath = (value: string): string => value.replace(/\/{2,}/g, '/');
-
-const buildRelativeDbPath = (fileName: string): string =>
-  normalizePath(`${process.env.PUBLIC_URL || ''}/db/${fileName}`);
-
-const getDbFileUrl = (fileName: string): string => {
-  if (typeof window !== 'undefined' && window.location) {
-    return new URL(buildRelativeDbPath(fileName), window.location.origin).toString();
-  }
-
-  return buildRelativeDbPath(fileName);
-};
-
 const parseNumber = (value?: string | null): number | null => {
   if (!value) {
     return null;
@@ -86,13 +73,8 @@ const parseOverrideFile = async (
   overrides: ItemIdNameMap
 ): Promise<void> =>
   new Promise((resolve) => {
-    Papa.parse<ItemOverrideRow>(getDbFileUrl(fileName), {
-      download: true,
-      header: true,
-      skipEmptyLines: true,
-      worker: true,
-      step: (stepResult) => {
-        const { id, name } = stepResult.data;
+    parseDbCsv<ItemOverrideRow>(fileName, {
+      step: ({ id, name }) => {
         const parsedId = parseNumber(id);
         const parsedName = parseString(name);
         if (parsedId === null || !parsedName) {
@@ -168,13 +150,8 @@ const createItemNameIndex = async (): Promise<ItemNameIndex> => {
       collisions.get(normalized)?.add(id);
     };
 
-    Papa.parse<ItemRow>(getDbFileUrl(ITEM_FILE), {
-      download: true,
-      header: true,
-      skipEmptyLines: true,
-      worker: true,
-      step: (stepResult) => {
-        const row = stepResult.data;
+    parseDbCsv<ItemRow>(ITEM_FILE, {
+      step: (row) => {
         const id = parseNumber(row.ID);
         if (id === null) {
           return;
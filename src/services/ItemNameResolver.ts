@@ -1,4 +1,4 @@
-import { PersistentStorage } from './api';
+import { ItemNameCachePayload, PersistentStorage } from './api';
 import { normalizeItemName, registerNameMapping } from './ItemNameIndex';
 
 export interface ItemNameResolutionListener {
@@ -31,6 +31,39 @@ let queueScheduled = false;
 
 const listeners = new Set<ItemNameResolutionListener>();
 
+// The server and CLI load these services too; they have no shared storage to
+// hydrate the cache from or persist it to, so the cache stays in memory there.
+const hasSharedStorage = typeof window !== 'undefined';
+
+// Adds stored mappings the in-memory cache does not have yet; local entries win.
+const absorbStoredMappings = (stored: ItemNameCachePayload): void => {
+  const cache = cacheState;
+  if (!cache) {
+    return;
+  }
+
+  Object.entries(stored.nameToId).forEach(([key, value]) => {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      if (!cache.nameToId.has(key)) {
+        cache.nameToId.set(key, value);
+      }
+    }
+  });
+
+  Object.entries(stored.idToName).forEach(([key, value]) => {
+    const numericKey = Number(key);
+    if (!Number.isNaN(numericKey) && typeof value === 'string') {
+      if (!cache.idToName.has(numericKey)) {
+        cache.idToName.set(numericKey, value);
+      }
+    }
+  });
+
+  cache.idToName.forEach((name, id) => {
+    registerNameMapping(name, id);
+  });
+};
+
 const ensureCache = (): CacheState => {
   if (!cacheState) {
     cacheState = {
@@ -38,35 +71,9 @@ const ensureCache = (): CacheState => {
       idToName: new Map()
     };
 
-    if (!cacheLoadPromise) {
+    if (!cacheLoadPromise && hasSharedStorage) {
       cacheLoadPromise = PersistentStorage.getItemNameCache()
-        .then((stored) => {
-          const cache = cacheState;
-          if (!cache) {
-            return;
-          }
-
-          Object.entries(stored.nameToId).forEach(([key, value]) => {
-            if (typeof value === 'number' && Number.isFinite(value)) {
-              if (!cache.nameToId.has(key)) {
-                cache.nameToId.set(key, value);
-              }
-            }
-          });
-
-          Object.entries(stored.idToName).forEach(([key, value]) => {
-            const numericKey = Number(key);
-            if (!Number.isNaN(numericKey) && typeof value === 'string') {
-              if (!cache.idToName.has(numericKey)) {
-                cache.idToName.set(numericKey, value);
-              }
-            }
-          });
-
-          cache.idToName.forEach((name, id) => {
-            registerNameMapping(name, id);
-          });
-        })
+        .then(absorbStoredMappings)
         .catch((error) => {
           console.warn('Failed to hydrate item name cache', error);
         })
@@ -80,7 +87,7 @@ const ensureCache = (): CacheState => {
 };
 
 const schedulePersist = (): void => {
-  if (persistScheduled) {
+  if (persistScheduled || !hasSharedStorage) {
     return;
   }
 
@@ -99,7 +106,10 @@ const schedulePersist = (): void => {
 
     const write = async () => {
       try {
-        await PersistentStorage.saveItemNameCache(payload);
+        // on a conflict the stored cache is merged in, so pick up the other
+        // client's mappings as well
+        const stored = await PersistentStorage.saveItemNameCache(payload);
+        absorbStoredMappings(stored);
       } catch (error) {
         console.warn('Failed to persist item name cache', error);
       }
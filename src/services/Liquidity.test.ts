@@ -0,0 +1,73 @@
+import { DAY_MS } from '../utils/common';
+import type { PriceHistoryEntry } from './AuctionatorDataService';
+import { describeLiquidity, Liquidity } from './Liquidity';
+
+const NEWEST_SCAN = Date.UTC(2025, 9, 14, 12);
+
+const scan = (daysAgo: number, counts: Partial<PriceHistoryEntry> = {}): PriceHistoryEntry => ({
+  price: 100,
+  importedAt: new Date(NEWEST_SCAN - daysAgo * DAY_MS).toISOString(),
+  source: 'Auctionator.lua',
+  ...counts
+});
+
+// one scan on each of the last `days` days, the newest one carrying the counts
+const dailyScans = (days: number, counts: Partial<PriceHistoryEntry> = {}) =>
+  Array.from({ length: days }, (_, index) => scan(days - 1 - index, index === days - 1 ? counts : {}));
+
+describe('Liquidity.buildScores', () => {
+  it('scores an item listed every day in depth as fully liquid', () => {
+    const scores = Liquidity.buildScores(new Map([[1, dailyScans(14, { quantity: 200 })]]));
+
+    expect(scores.get(1)).toEqual({ score: 100, listings: 200, daysSeen: 14, daysScanned: 14 });
+  });
+
+  it('scores items without listing counts on presence alone', () => {
+    const scores = Liquidity.buildScores(
+      new Map([
+        [1, dailyScans(14)],
+        [2, dailyScans(7)]
+      ])
+    );
+
+    expect(scores.get(2)).toEqual({ score: 50, listings: null, daysSeen: 7, daysScanned: 14 });
+  });
+
+  it('takes the listings of the newest scan, falling back to the auction count', () => {
+    const scores = Liquidity.buildScores(
+      new Map([
+        [1, [scan(0, { quantity: 14 }), scan(1, { quantity: 200 })]],
+        [2, [scan(0, { auctions: 14 }), scan(1)]]
+      ])
+    );
+
+    // depth grows logarithmically: 14 listings are about half of a deep market
+    expect(scores.get(1)).toMatchObject({ score: 76, listings: 14 });
+    expect(scores.get(2)).toMatchObject({ score: 76, listings: 14 });
+  });
+
+  it('only counts scan days within two weeks of the newest scan', () => {
+    const scores = Liquidity.buildScores(
+      new Map([
+        [1, dailyScans(14)],
+        [2, [scan(20, { quantity: 0 }), scan(30)]]
+      ])
+    );
+
+    expect(scores.get(1)?.daysScanned).toBe(14);
+    expect(scores.get(2)).toEqual({ score: 0, listings: 0, daysSeen: 0, daysScanned: 14 });
+  });
+});
+
+describe('describeLiquidity', () => {
+  it('labels scores by the filter thresholds', () => {
+    expect([0, 33, 34, 66, 67, 100].map(describeLiquidity)).toEqual([
+      'Low',
+      'Low',
+      'Medium',
+      'Medium',
+      'High',
+      'High'
+    ]);
+  });
+});
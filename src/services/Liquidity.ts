@@ -0,0 +1,89 @@
+import { LiquidityScore } from '../types';
+import { DAY_MS, entryTimestamp, toTimestamp } from '../utils/common';
+import type { PriceHistoryEntry } from './AuctionatorDataService';
+
+// Scan days the presence share is measured over, counted back from the newest scan.
+const LIQUIDITY_WINDOW_DAYS = 14;
+
+// Listings at which a market counts as fully deep; depth grows logarithmically up to it.
+const DEEP_MARKET_LISTINGS = 200;
+
+export type LiquidityLevel = 'High' | 'Medium' | 'Low';
+
+export const LIQUIDITY_FILTER_LEVELS: { label: string; minScore: number }[] = [
+  { label: 'Any liquidity', minScore: 0 },
+  { label: 'Medium liquidity or better', minScore: 34 },
+  { label: 'High liquidity only', minScore: 67 }
+];
+
+export const describeLiquidity = (score: number): LiquidityLevel => {
+  if (score >= 67) return 'High';
+  if (score >= 34) return 'Medium';
+  return 'Low';
+};
+
+const toDay = (entry: PriceHistoryEntry) => {
+  const time = toTimestamp(entry.importedAt);
+  return time !== null ? Math.floor(time / DAY_MS) : null;
+};
+
+export const Liquidity = {
+  /**
+   * Scores every item of one realm's history. Half of the score is the share
+   * of recent scan days the item was listed on, half the depth of its newest
+   * listing count; items without listing counts are scored on presence alone.
+   */
+  buildScores(history: Map<number, PriceHistoryEntry[]>): Map<number, LiquidityScore> {
+    let newestDay = -Infinity;
+    history.forEach((entries) =>
+      entries.forEach((entry) => {
+        const day = toDay(entry);
+        if (day !== null && day > newestDay) {
+          newestDay = day;
+        }
+      })
+    );
+
+    const windowStart = newestDay - LIQUIDITY_WINDOW_DAYS + 1;
+    const scanDays = new Set<number>();
+    const daysByItem = new Map<number, Set<number>>();
+    history.forEach((entries, itemId) => {
+      const days = new Set<number>();
+      entries.forEach((entry) => {
+        const day = toDay(entry);
+        if (day !== null && day >= windowStart) {
+          days.add(day);
+          scanDays.add(day);
+        }
+      });
+      daysByItem.set(itemId, days);
+    });
+
+    const scores = new Map<number, LiquidityScore>();
+    history.forEach((entries, itemId) => {
+      if (entries.length === 0) {
+        return;
+      }
+
+      const latest = entries.reduce((newest, entry) =>
+        entryTimestamp(entry) >= entryTimestamp(newest) ? entry : newest
+      );
+      const listings = latest.quantity ?? latest.auctions ?? null;
+      const daysSeen = daysByItem.get(itemId)?.size ?? 0;
+      const presence = scanDays.size > 0 ? daysSeen / scanDays.size : 0;
+      const depth =
+        listings === null
+          ? null
+          : Math.min(Math.log1p(listings) / Math.log1p(DEEP_MARKET_LISTINGS), 1);
+
+      scores.set(itemId, {
+        score: Math.round(100 * (depth === null ? presence : (presence + depth) / 2)),
+        listings,
+        daysSeen,
+        daysScanned: scanDays.size
+      });
+    });
+
+    return scores;
+  }
+};
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  getLuaField,
+  isLuaTable,
+  LuaNode,
+  LuaParseError,
+  luaNumber,
+  readLuaReturnValue,
+  readSavedVariables
+} from './LuaTableParser';
+
+const EXAMPLE_FILE = path.join(__dirname, '..', '..', 'db', 'exmpl', 'AuctionatorExmpl.lua');
+
+// Plain JavaScript value of a node; tables become objects keyed by their Lua keys.
+const toPlain = (node: LuaNode | undefined): unknown => {
+  if (!node || node.type === 'nil') {
+    return null;
+  }
+  if (node.type !== 'table') {
+    return node.value;
+  }
+
+  const table: Record<string, unknown> = {};
+  node.entries.forEach((entry) => {
+    table[String(entry.key)] = toPlain(entry.value);
+  });
+  return table;
+};
+
+const readVariable = (content: string, name = 'X') =>
+  toPlain(readSavedVariables(content, [name]).get(name));
+
+const parseError = (content: string): LuaParseError => {
+  try {
+    readSavedVariables(content, ['X']);
+  } catch (error) {
+    if (error instanceof LuaParseError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected a LuaParseError');
+};
+
+describe('readSavedVariables', () => {
+  it('reads the example Auctionator file', () => {
+    const content = fs.readFileSync(EXAMPLE_FILE, 'utf8');
+    const variables = readSavedVariables(content, [
+      'AUCTIONATOR_PRICING_HISTORY',
+      'AUCTIONATOR_LAST_SCAN_TIME'
+    ]);
+
+    const history = variables.get('AUCTIONATOR_PRICING_HISTORY');
+    expect(isLuaTable(history)).toBe(true);
+    if (!isLuaTable(history)) {
+      return;
+    }
+
+    expect(history.entries).toHaveLength(168);
+    expect(toPlain(getLuaField(history, 'Light Leather'))).toEqual({
+      '9033122': '166:15',
+      is: '2318:0',
+      '9035422': '120:12',
+      '9034044': '87:20',
+      '9033922': '58:20'
+    });
+    expect(luaNumber(variables.get('AUCTIONATOR_LAST_SCAN_TIME'))).toBe(1760344016);
+    // variables that were not asked for are skipped
+    expect(variables.has('AUCTIONATOR_SAVEDVARS')).toBe(false);
+  });
+
+  it('unescapes quotes inside strings', () => {
+    expect(readVariable('X = { "say \\"hi\\"", \'it\\\'s\' }')).toEqual({
+      '1': 'say "hi"',
+      '2': "it's"
+    });
+  });
+
+  it('keeps braces inside strings as text', () => {
+    expect(readVariable('X = { ["}{"] = "{ not a table }" }\nY = 1')).toEqual({
+      '}{': '{ not a table }'
+    });
+    expect(readVariable('X = { ["}"] = 1 }\nY = "{"', 'Y')).toBe('{');
+  });
+
+  it('reads tables written on one line', () => {
+    expect(readVariable('X = { 1, "two", { a = true, [3] = nil }; b = -4.5 }')).toEqual({
+      '1': 1,
+      '2': 'two',
+      '3': { a: true, '3': null },
+      b: -4.5
+    });
+  });
+
+  it('skips the index comments WoW writes after array entries', () => {
+    expect(readVariable('X = {\n\t"first", -- [1]\n\t"second", -- [2]\n}')).toEqual({
+      '1': 'first',
+      '2': 'second'
+    });
+  });
+
+  it('reads long strings and skips long comments', () => {
+    expect(readVariable('--[==[ a comment\n] with ]] inside ]==]\nX = [[\nline one\nline "two"]]')).toBe(
+      'line one\nline "two"'
+    );
+    expect(readVariable('X = [=[ends with ]] here]=]')).toBe('ends with ]] here');
+  });
+
+  it('reads hexadecimal numbers', () => {
+    expect(readVariable('X = { 0x1F, 0XfF, -0x10 }')).toEqual({ '1': 31, '2': 255, '3': -16 });
+  });
+
+  it('reads serialized return chunks', () => {
+    expect(toPlain(readLuaReturnValue('return { ["a"] = 1 };'))).toEqual({ a: 1 });
+  });
+});
+
+describe('LuaParseError', () => {
+  it('reports the line and column of an unexpected token', () => {
+    const error = parseError('X = {\n  ["a"] = 1\n  ["b"] = 2\n}');
+    expect(error.line).toBe(3);
+    expect(error.column).toBe(3);
+    expect(error.message).toBe("Expected ',' or '}' but found '[' at line 3, column 3");
+  });
+
+  it('reports where an unterminated string starts', () => {
+    const error = parseError('X = {\n\t"ok",\n\t"open\n}');
+    expect(error.reason).toBe('Unterminated string');
+    expect(error.line).toBe(3);
+    expect(error.column).toBe(2);
+  });
+
+  it('reports where an unclosed table starts', () => {
+    const error = parseError('\nX = { 1, { 2 },');
+    expect(error.reason).toBe('Unclosed table');
+    expect(error.line).toBe(2);
+    expect(error.column).toBe(5);
+  });
+});
@@ -0,0 +1,539 @@
+/**
+ * Reader for WoW SavedVariables files: a sequence of `NAME = value`
+ * assignments whose values are Lua literals and table constructors.
+ */
+
+export type LuaKey = string | number | boolean;
+
+export interface LuaTableEntry {
+  // positional values get their 1-based index
+  key: LuaKey;
+  value: LuaNode;
+}
+
+export interface LuaTableNode {
+  type: 'table';
+  entries: LuaTableEntry[];
+  line: number;
+}
+
+export type LuaNode =
+  | { type: 'string'; value: string; line: number }
+  | { type: 'number'; value: number; line: number }
+  | { type: 'boolean'; value: boolean; line: number }
+  | { type: 'nil'; line: number }
+  | LuaTableNode;
+
+export class LuaParseError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly line: number,
+    readonly column: number
+  ) {
+    super(`${reason} at line ${line}, column ${column}`);
+    this.name = 'LuaParseError';
+    Object.setPrototypeOf(this, LuaParseError.prototype);
+  }
+}
+
+type TokenType = 'name' | 'string' | 'number' | 'symbol' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  // decoded value of string and number tokens
+  value: string | number;
+  line: number;
+  column: number;
+}
+
+const SYMBOLS = new Set(['{', '}', '[', ']', '=', ',', ';', '-']);
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  a: '\x07',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+  '\n': '\n'
+};
+
+const isDigit = (char: string) => char >= '0' && char <= '9';
+const isNameStart = (char: string) =>
+  (char >= 'a' && char <= 'z') || (char >= 'A' && char <= 'Z') || char === '_';
+const isNameChar = (char: string) => isNameStart(char) || isDigit(char);
+
+const MAX_TOKEN_PREVIEW = 20;
+
+const describeToken = (token: Token) => {
+  if (token.type === 'eof') {
+    return 'end of file';
+  }
+  const text = token.text.length > MAX_TOKEN_PREVIEW
+    ? `${token.text.slice(0, MAX_TOKEN_PREVIEW)}…`
+    : token.text;
+  return `'${text}'`;
+};
+
+class LuaLexer {
+  private position = 0;
+  private line = 1;
+  private lineStart = 0;
+
+  constructor(private readonly content: string) {
+    // a byte order mark is not part of the Lua source
+    if (content.charCodeAt(0) === 0xfeff) {
+      this.position = 1;
+      this.lineStart = 1;
+    }
+  }
+
+  // Characters consumed so far.
+  get offset(): number {
+    return this.position;
+  }
+
+  next(): Token {
+    this.skipWhitespaceAndComments();
+
+    const line = this.line;
+    const column = this.column();
+    const start = this.position;
+    const char = this.content[this.position];
+
+    const token = (type: TokenType, value: string | number): Token => ({
+      type,
+      text: this.content.slice(start, this.position),
+      value,
+      line,
+      column
+    });
+
+    if (char === undefined) {
+      return { type: 'eof', text: '', value: '', line, column };
+    }
+    if (char === '"' || char === "'") {
+      return token('string', this.readQuotedString(char));
+    }
+    if (char === '[' && this.longBracketLevel() !== null) {
+      return token('string', this.readLongBracket());
+    }
+    if (isDigit(char) || (char === '.' && isDigit(this.content[this.position + 1] ?? ''))) {
+      return token('number', this.readNumber());
+    }
+    if (isNameStart(char)) {
+      while (isNameChar(this.content[this.position] ?? '')) {
+        this.position += 1;
+      }
+      return token('name', this.content.slice(start, this.position));
+    }
+    if (SYMBOLS.has(char)) {
+      this.position += 1;
+      return token('symbol', char);
+    }
+
+    throw this.error(`Unexpected character '${char}'`);
+  }
+
+  error(reason: string, line = this.line, column = this.column()): LuaParseError {
+    return new LuaParseError(reason, line, column);
+  }
+
+  private column() {
+    return this.position - this.lineStart + 1;
+  }
+
+  private newLine() {
+    this.line += 1;
+    this.lineStart = this.position;
+  }
+
+  private skipWhitespaceAndComments() {
+    for (;;) {
+      const char = this.content[this.position];
+      if (char === '\n') {
+        this.position += 1;
+        this.newLine();
+      } else if (char === ' ' || char === '\t' || char === '\r' || char === '\f' || char === '\v') {
+        this.position += 1;
+      } else if (char === '-' && this.content[this.position + 1] === '-') {
+        this.position += 2;
+        if (this.content[this.position] === '[' && this.longBracketLevel() !== null) {
+          this.readLongBracket();
+        } else {
+          while (this.position < this.content.length && this.content[this.position] !== '\n') {
+            this.position += 1;
+          }
+        }
+      } else {
+        return;
+      }
+    }
+  }
+
+  // Level of a `[==[` opener at the current position, or null if there is none.
+  private longBracketLevel(): number | null {
+    let index = this.position + 1;
+    while (this.content[index] === '=') {
+      index += 1;
+    }
+    return this.content[index] === '[' ? index - this.position - 1 : null;
+  }
+
+  private readLongBracket(): string {
+    const line = this.line;
+    const column = this.column();
+    const level = this.longBracketLevel() ?? 0;
+    const closer = `]${'='.repeat(level)}]`;
+    this.position += level + 2;
+
+    // a newline right after the opener is not part of the string
+    if (this.content[this.position] === '\r') {
+      this.position += 1;
+    }
+    if (this.content[this.position] === '\n') {
+      this.position += 1;
+      this.newLine();
+    }
+
+    const start = this.position;
+    const end = this.content.indexOf(closer, start);
+    if (end === -1) {
+      throw this.error('Unterminated long string or comment', line, column);
+    }
+
+    for (let index = start; index < end; index += 1) {
+      if (this.content[index] === '\n') {
+        this.line += 1;
+        this.lineStart = index + 1;
+      }
+    }
+    this.position = end + closer.length;
+    return this.content.slice(start, end);
+  }
+
+  private readQuotedString(quote: string): string {
+    const line = this.line;
+    const column = this.column();
+    let value = '';
+    this.position += 1;
+
+    for (;;) {
+      const char = this.content[this.position];
+      if (char === undefined || char === '\n') {
+        throw this.error('Unterminated string', line, column);
+      }
+      this.position += 1;
+
+      if (char === quote) {
+        return value;
+      }
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+
+      let escape = this.content[this.position];
+      if (escape === '\r') {
+        // an escaped Windows line break is a single newline
+        if (this.content[this.position + 1] === '\n') {
+          this.position += 1;
+        }
+        escape = '\n';
+      }
+      if (escape !== undefined && SIMPLE_ESCAPES[escape] !== undefined) {
+        value += SIMPLE_ESCAPES[escape];
+        this.position += 1;
+        if (escape === '\n') {
+          this.newLine();
+        }
+      } else if (escape !== undefined && isDigit(escape)) {
+        const digits = this.content.slice(this.position, this.position + 3).match(/^\d+/)![0];
+        value += String.fromCharCode(Number(digits));
+        this.position += digits.length;
+      } else if (escape === 'x') {
+        const hex = this.content.slice(this.position + 1, this.position + 3);
+        if (!/^[0-9a-fA-F]{2}$/.test(hex)) {
+          throw this.error('Invalid hexadecimal escape');
+        }
+        value += String.fromCharCode(parseInt(hex, 16));
+        this.position += 3;
+      } else if (escape === 'z') {
+        this.position += 1;
+        this.skipWhitespaceAndComments();
+      } else {
+        throw this.error(`Invalid escape sequence '\\${escape ?? ''}'`);
+      }
+    }
+  }
+
+  private readNumber(): number {
+    const rest = this.content.slice(this.position, this.position + 64);
+    const match =
+      rest.match(/^0[xX][0-9a-fA-F]+/) ?? rest.match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/);
+    const text = match![0];
+    if (isNameChar(rest[text.length] ?? '')) {
+      throw this.error(`Malformed number near '${rest.slice(0, text.length + 1)}'`);
+    }
+
+    this.position += text.length;
+    return Number(text);
+  }
+}
+
+// Called with the number of characters read, roughly every PROGRESS_INTERVAL.
+export type LuaProgressListener = (charactersRead: number) => void;
+
+const PROGRESS_INTERVAL = 256 * 1024;
+
+/**
+ * Pulls one top-level assignment at a time, so callers can skip the
+ * variables they do not need without building nodes for them.
+ */
+export class SavedVariablesReader {
+  private readonly lexer: LuaLexer;
+  private token: Token;
+  private lookahead: Token | null = null;
+  private nextProgressAt = PROGRESS_INTERVAL;
+
+  constructor(
+    content: string,
+    private readonly onProgress?: LuaProgressListener
+  ) {
+    this.lexer = new LuaLexer(content);
+    this.token = this.lexer.next();
+  }
+
+  // Name of the next assignment, or null at the end of the file.
+  nextName(): string | null {
+    while (this.isSymbol(';')) {
+      this.advance();
+    }
+    if (this.token.type === 'eof') {
+      return null;
+    }
+    if (this.token.type !== 'name') {
+      throw this.unexpected('a variable name');
+    }
+
+    const name = this.token.text;
+    this.advance();
+    this.expectSymbol('=');
+    return name;
+  }
+
+  readValue(): LuaNode {
+    const token = this.token;
+
+    if (token.type === 'string') {
+      this.advance();
+      return { type: 'string', value: token.value as string, line: token.line };
+    }
+    if (token.type === 'number') {
+      this.advance();
+      return { type: 'number', value: token.value as number, line: token.line };
+    }
+    if (token.type === 'name') {
+      if (token.text === 'true' || token.text === 'false') {
+        this.advance();
+        return { type: 'boolean', value: token.text === 'true', line: token.line };
+      }
+      if (token.text === 'nil') {
+        this.advance();
+        return { type: 'nil', line: token.line };
+      }
+    }
+    if (this.isSymbol('-')) {
+      this.advance();
+      if (this.token.type !== 'number') {
+        throw this.unexpected('a number');
+      }
+      const value = -(this.token.value as number);
+      this.advance();
+      return { type: 'number', value, line: token.line };
+    }
+    if (this.isSymbol('{')) {
+      return this.readTable();
+    }
+
+    throw this.unexpected('a value');
+  }
+
+  // Reads a serialized `return <value>` chunk up to its end.
+  readReturnValue(): LuaNode {
+    const keyword = this.token;
+    if (keyword.type !== 'name' || keyword.text !== 'return') {
+      throw this.unexpected("'return'");
+    }
+    this.advance();
+    const value = this.readValue();
+    if (this.isSymbol(';')) {
+      this.advance();
+    }
+    if (this.token.type !== 'eof') {
+      throw this.unexpected('the end of the chunk');
+    }
+    return value;
+  }
+
+  // Skips a value by its tokens; strings are still checked, nesting is not.
+  skipValue(): void {
+    if (!this.isSymbol('{')) {
+      this.readValue();
+      return;
+    }
+
+    const start = this.token;
+    let depth = 0;
+    do {
+      if (this.token.type === 'eof') {
+        throw this.lexer.error('Unclosed table', start.line, start.column);
+      }
+      if (this.isSymbol('{')) {
+        depth += 1;
+      } else if (this.isSymbol('}')) {
+        depth -= 1;
+      }
+      this.advance();
+    } while (depth > 0);
+  }
+
+  private readTable(): LuaTableNode {
+    const start = this.token;
+    const entries: LuaTableEntry[] = [];
+    let nextIndex = 1;
+    this.advance();
+
+    while (!this.isSymbol('}')) {
+      if (this.token.type === 'eof') {
+        throw this.lexer.error('Unclosed table', start.line, start.column);
+      }
+
+      if (this.isSymbol('[')) {
+        this.advance();
+        const keyToken = this.token;
+        const keyNode = this.readValue();
+        if (keyNode.type === 'table' || keyNode.type === 'nil') {
+          throw this.lexer.error(
+            'Table keys must be strings, numbers or booleans',
+            keyToken.line,
+            keyToken.column
+          );
+        }
+        this.expectSymbol(']');
+        this.expectSymbol('=');
+        entries.push({ key: keyNode.value, value: this.readValue() });
+      } else if (this.token.type === 'name' && this.peek().type === 'symbol' && this.peek().text === '=') {
+        const key = this.token.text;
+        this.advance();
+        this.advance();
+        entries.push({ key, value: this.readValue() });
+      } else {
+        entries.push({ key: nextIndex, value: this.readValue() });
+        nextIndex += 1;
+      }
+
+      if (this.isSymbol(',') || this.isSymbol(';')) {
+        this.advance();
+      } else if (!this.isSymbol('}')) {
+        throw this.unexpected("',' or '}'");
+      }
+    }
+
+    this.advance();
+    return { type: 'table', entries, line: start.line };
+  }
+
+  private advance() {
+    this.token = this.lookahead ?? this.lexer.next();
+    this.lookahead = null;
+
+    if (this.onProgress && this.lexer.offset >= this.nextProgressAt) {
+      this.nextProgressAt = this.lexer.offset + PROGRESS_INTERVAL;
+      this.onProgress(this.lexer.offset);
+    }
+  }
+
+  private peek(): Token {
+    if (!this.lookahead) {
+      this.lookahead = this.lexer.next();
+    }
+    return this.lookahead;
+  }
+
+  private isSymbol(symbol: string) {
+    return this.token.type === 'symbol' && this.token.text === symbol;
+  }
+
+  private expectSymbol(symbol: string) {
+    if (!this.isSymbol(symbol)) {
+      throw this.unexpected(`'${symbol}'`);
+    }
+    this.advance();
+  }
+
+  private unexpected(expected: string): LuaParseError {
+    return this.lexer.error(
+      `Expected ${expected} but found ${describeToken(this.token)}`,
+      this.token.line,
+      this.token.column
+    );
+  }
+}
+
+/**
+ * Parses the named top-level variables of a SavedVariables file; all others
+ * are skipped. Throws a LuaParseError for malformed input.
+ */
+export const readSavedVariables = (
+  content: string,
+  names: string[],
+  onProgress?: LuaProgressListener
+): Map<string, LuaNode> => {
+  const wanted = new Set(names);
+  const variables = new Map<string, LuaNode>();
+  const reader = new SavedVariablesReader(content, onProgress);
+
+  let name = reader.nextName();
+  while (name !== null) {
+    if (wanted.has(name)) {
+      variables.set(name, reader.readValue());
+    } else {
+      reader.skipValue();
+    }
+    name = reader.nextName();
+  }
+
+  return variables;
+};
+
+// Some addons keep tables serialized as `return {...}` strings.
+export const readLuaReturnValue = (content: string): LuaNode =>
+  new SavedVariablesReader(content).readReturnValue();
+
+export const isLuaTable = (node: LuaNode | null | undefined): node is LuaTableNode =>
+  node?.type === 'table';
+
+// SavedVariables mix ["1"] and [1] keys, so fields are matched by their text.
+export const getLuaField = (table: LuaTableNode, key: string): LuaNode | undefined =>
+  table.entries.find((entry) => String(entry.key) === key)?.value;
+
+// Numbers, and strings that hold a number.
+export const luaNumber = (node: LuaNode | null | undefined): number | null => {
+  if (node?.type === 'number') {
+    return node.value;
+  }
+  if (node?.type === 'string' && node.value.trim() !== '') {
+    const value = Number(node.value);
+    return Number.isFinite(value) ? value : null;
+  }
+  return null;
+};
+
+export const luaString = (node: LuaNode | null | undefined): string | null =>
+  node?.type === 'string' ? node.value : null;
@@ -0,0 +1,87 @@
+import { ItemPriceAlertRule, PriceAlertState } from '../types';
+import type { RealmPriceHistory } from './AuctionatorDataService';
+import { DEFAULT_CALCULATION_SETTINGS } from './CalculationSettings';
+import { PriceAlerts } from './PriceAlerts';
+
+const LIGHT_LEATHER = 2318;
+const NOW = new Date('2025-10-13T12:00:00.000Z');
+
+const rule: ItemPriceAlertRule = {
+  id: 'cheap-leather',
+  createdAt: '2025-10-01T00:00:00.000Z',
+  matched: [],
+  type: 'itemPrice',
+  itemId: LIGHT_LEATHER,
+  itemName: 'Light Leather',
+  comparison: 'below',
+  price: 100
+};
+
+const realmWithPrice = (price: number): RealmPriceHistory =>
+  new Map([[LIGHT_LEATHER, [{ price, importedAt: '2025-10-13T08:00:00.000Z', source: 'Auctionator.lua' }]]]);
+
+describe('PriceAlerts.check', () => {
+  it('checks rules against the given realms only', async () => {
+    const check = await PriceAlerts.check(
+      [rule],
+      new Map([
+        ['Icecrown_Horde', realmWithPrice(90)],
+        ['Frostmourne_Alliance', realmWithPrice(150)]
+      ]),
+      DEFAULT_CALCULATION_SETTINGS
+    );
+
+    expect(check.realmKeys).toEqual(['Icecrown_Horde', 'Frostmourne_Alliance']);
+    expect(check.matches.get(rule.id)).toEqual([
+      {
+        subject: `Icecrown_Horde|item:${LIGHT_LEATHER}`,
+        realmKey: 'Icecrown_Horde',
+        message: 'Light Leather is at 90c on Icecrown (Horde), below 1s 0c'
+      }
+    ]);
+  });
+});
+
+describe('PriceAlerts.applyCheck', () => {
+  const state: PriceAlertState = {
+    rules: [
+      {
+        ...rule,
+        matched: [`Icecrown_Horde|item:${LIGHT_LEATHER}`, `Frostmourne_Alliance|item:${LIGHT_LEATHER}`]
+      }
+    ],
+    notifications: []
+  };
+
+  it('keeps the matches of realms the check did not cover', () => {
+    const { state: next, firedCount } = PriceAlerts.applyCheck(
+      state,
+      { realmKeys: ['Icecrown_Horde'], matches: new Map([[rule.id, []]]) },
+      NOW
+    );
+
+    expect(firedCount).toBe(0);
+    expect(next.rules[0].matched).toEqual([`Frostmourne_Alliance|item:${LIGHT_LEATHER}`]);
+  });
+
+  it('fires only for subjects that did not match before', () => {
+    const match = (realmKey: string) => ({
+      subject: `${realmKey}|item:${LIGHT_LEATHER}`,
+      realmKey,
+      message: `Light Leather on ${realmKey}`
+    });
+    const { state: next, firedCount } = PriceAlerts.applyCheck(
+      state,
+      {
+        realmKeys: ['Icecrown_Horde', 'Stormrage_Alliance'],
+        matches: new Map([[rule.id, [match('Icecrown_Horde'), match('Stormrage_Alliance')]]])
+      },
+      NOW
+    );
+
+    expect(firedCount).toBe(1);
+    expect(next.notifications).toMatchObject([
+      { ruleId: rule.id, realmKey: 'Stormrage_Alliance', firedAt: NOW.toISOString() }
+    ]);
+  });
+});
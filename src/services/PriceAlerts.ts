@@ -0,0 +1,430 @@
+import {
+  AlertComparison,
+  CalculationSettings,
+  CraftingProfit,
+  Item,
+  PriceAlertNotification,
+  PriceAlertRule,
+  PriceAlertState,
+  Recipe,
+  WatchedRecipe
+} from '../types';
+import { isPlainObject } from '../utils/common';
+import { AuctionatorDataService, RealmPriceHistory } from './AuctionatorDataService';
+import { findProfession, ProfessionProfits } from './ProfessionProfits';
+
+const COPPER_PER_GOLD = 10000;
+
+// Oldest undismissed alerts are dropped beyond this many.
+const MAX_NOTIFICATIONS = 200;
+
+const ALERT_COMPARISONS: AlertComparison[] = ['below', 'above'];
+
+export const EMPTY_PRICE_ALERTS: PriceAlertState = { rules: [], notifications: [] };
+
+/**
+ * What every rule matched on the realms of one import. Computed once, then
+ * applied to whatever alert state is current when it is saved.
+ */
+export interface PriceAlertCheck {
+  realmKeys: string[];
+  matches: Map<string, PriceAlertMatch[]>;
+}
+
+export interface PriceAlertCheckResult {
+  state: PriceAlertState;
+  // alerts this check fired, counted before the notification list is capped
+  firedCount: number;
+}
+
+interface PriceAlertMatch {
+  subject: string;
+  realmKey: string;
+  message: string;
+}
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const createAlertId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const formatGold = (copper: number): string => {
+  const sign = copper < 0 ? '-' : '';
+  const amount = Math.abs(Math.round(copper));
+  const gold = Math.floor(amount / COPPER_PER_GOLD);
+  const silver = Math.floor((amount % COPPER_PER_GOLD) / 100);
+  const parts: string[] = [];
+  if (gold) parts.push(`${gold}g`);
+  if (gold || silver) parts.push(`${silver}s`);
+  parts.push(`${amount % 100}c`);
+  return sign + parts.join(' ');
+};
+
+const describeRealm = (realmKey: string) => {
+  const { realm, faction } = AuctionatorDataService.parseRealmKey(realmKey);
+  return `${realm} (${faction})`;
+};
+
+const normalizeWatchedRecipe = (raw: unknown): WatchedRecipe | null =>
+  isPlainObject(raw) &&
+  isPositiveInteger(raw.professionId) &&
+  isPositiveInteger(raw.recipeId) &&
+  isString(raw.recipeName)
+    ? { professionId: raw.professionId, recipeId: raw.recipeId, recipeName: raw.recipeName }
+    : null;
+
+const normalizeRule = (raw: unknown): PriceAlertRule | null => {
+  if (!isPlainObject(raw) || !isString(raw.id)) {
+    return null;
+  }
+
+  const base = {
+    id: raw.id,
+    createdAt: isString(raw.createdAt) ? raw.createdAt : new Date(0).toISOString(),
+    matched: Array.isArray(raw.matched) ? raw.matched.filter(isString) : []
+  };
+  const comparison = ALERT_COMPARISONS.includes(raw.comparison as AlertComparison)
+    ? (raw.comparison as AlertComparison)
+    : null;
+
+  switch (raw.type) {
+    case 'itemPrice':
+      return comparison &&
+        isPositiveInteger(raw.itemId) &&
+        isString(raw.itemName) &&
+        isFiniteNumber(raw.price) &&
+        raw.price >= 0
+        ? {
+            ...base,
+            type: 'itemPrice',
+            itemId: raw.itemId,
+            itemName: raw.itemName,
+            comparison,
+            price: Math.round(raw.price)
+          }
+        : null;
+    case 'recipeMargin':
+      return comparison &&
+        isPositiveInteger(raw.professionId) &&
+        isPositiveInteger(raw.recipeId) &&
+        isString(raw.recipeName) &&
+        isFiniteNumber(raw.percent)
+        ? {
+            ...base,
+            type: 'recipeMargin',
+            professionId: raw.professionId,
+            recipeId: raw.recipeId,
+            recipeName: raw.recipeName,
+            comparison,
+            percent: raw.percent
+          }
+        : null;
+    case 'watchlistUnprofitable':
+      return {
+        ...base,
+        type: 'watchlistUnprofitable',
+        recipes: Array.isArray(raw.recipes)
+          ? raw.recipes
+              .map(normalizeWatchedRecipe)
+              .filter((recipe): recipe is WatchedRecipe => recipe !== null)
+          : []
+      };
+    default:
+      return null;
+  }
+};
+
+const normalizeNotification = (raw: unknown): PriceAlertNotification | null =>
+  isPlainObject(raw) &&
+  isString(raw.id) &&
+  isString(raw.ruleId) &&
+  isString(raw.realmKey) &&
+  isString(raw.firedAt) &&
+  isString(raw.message)
+    ? {
+        id: raw.id,
+        ruleId: raw.ruleId,
+        realmKey: raw.realmKey,
+        firedAt: raw.firedAt,
+        message: raw.message
+      }
+    : null;
+
+export const normalizePriceAlerts = (raw: unknown): PriceAlertState => {
+  if (!isPlainObject(raw)) {
+    return EMPTY_PRICE_ALERTS;
+  }
+
+  return {
+    rules: Array.isArray(raw.rules)
+      ? raw.rules.map(normalizeRule).filter((rule): rule is PriceAlertRule => rule !== null)
+      : [],
+    notifications: Array.isArray(raw.notifications)
+      ? raw.notifications
+          .map(normalizeNotification)
+          .filter((notification): notification is PriceAlertNotification => notification !== null)
+      : []
+  };
+};
+
+export const describeAlertRule = (rule: PriceAlertRule): string => {
+  switch (rule.type) {
+    case 'itemPrice':
+      return `${rule.itemName} ${rule.comparison} ${formatGold(rule.price)}`;
+    case 'recipeMargin':
+      return `${rule.recipeName} margin ${rule.comparison} ${rule.percent}%`;
+    default:
+      return `A watched recipe turns unprofitable (${rule.recipes.length} watched)`;
+  }
+};
+
+const isMet = (value: number, comparison: AlertComparison, threshold: number) =>
+  comparison === 'below' ? value < threshold : value > threshold;
+
+const matchRule = (
+  rule: PriceAlertRule,
+  realmKey: string,
+  priceMap: Map<number, number> | null,
+  profitsByRecipe: Map<number, CraftingProfit>
+): PriceAlertMatch[] => {
+  const realm = describeRealm(realmKey);
+  const toMatch = (subjectId: string, message: string): PriceAlertMatch => ({
+    subject: `${realmKey}|${subjectId}`,
+    realmKey,
+    message
+  });
+
+  switch (rule.type) {
+    case 'itemPrice': {
+      const price = priceMap?.get(rule.itemId);
+      return price !== undefined && isMet(price, rule.comparison, rule.price)
+        ? [
+            toMatch(
+              `item:${rule.itemId}`,
+              `${rule.itemName} is at ${formatGold(price)} on ${realm}, ${rule.comparison} ${formatGold(rule.price)}`
+            )
+          ]
+        : [];
+    }
+    case 'recipeMargin': {
+      const profit = profitsByRecipe.get(rule.recipeId);
+      return profit?.isCalculable && isMet(profit.profitPercentage, rule.comparison, rule.percent)
+        ? [
+            toMatch(
+              `recipe:${rule.recipeId}`,
+              `${rule.recipeName} margin is ${profit.profitPercentage.toFixed(1)}% on ${realm}, ${rule.comparison} ${rule.percent}%`
+            )
+          ]
+        : [];
+    }
+    default:
+      return rule.recipes.reduce<PriceAlertMatch[]>((matches, watched) => {
+        const profit = profitsByRecipe.get(watched.recipeId);
+        if (profit?.isCalculable && profit.profit <= 0) {
+          matches.push(
+            toMatch(
+              `recipe:${watched.recipeId}`,
+              `${watched.recipeName} is no longer profitable on ${realm} (${formatGold(profit.profit)} per craft)`
+            )
+          );
+        }
+        return matches;
+      }, []);
+  }
+};
+
+export const PriceAlerts = {
+  createItemPriceRule(item: Item, comparison: AlertComparison, price: number): PriceAlertRule {
+    return {
+      id: createAlertId(),
+      createdAt: new Date().toISOString(),
+      matched: [],
+      type: 'itemPrice',
+      itemId: item.id,
+      itemName: item.name,
+      comparison,
+      price: Math.round(price)
+    };
+  },
+
+  createRecipeMarginRule(recipe: Recipe, comparison: AlertComparison, percent: number): PriceAlertRule {
+    return {
+      id: createAlertId(),
+      createdAt: new Date().toISOString(),
+      matched: [],
+      type: 'recipeMargin',
+      professionId: recipe.profession.id,
+      recipeId: recipe.id,
+      recipeName: recipe.name,
+      comparison,
+      percent
+    };
+  },
+
+  addRule(state: PriceAlertState, rule: PriceAlertRule): PriceAlertState {
+    return { ...state, rules: [...state.rules.filter((existing) => existing.id !== rule.id), rule] };
+  },
+
+  removeRule(state: PriceAlertState, ruleId: string): PriceAlertState {
+    return { ...state, rules: state.rules.filter((rule) => rule.id !== ruleId) };
+  },
+
+  watchedRecipeIds(state: PriceAlertState): Set<number> {
+    const ids = new Set<number>();
+    state.rules.forEach((rule) => {
+      if (rule.type === 'watchlistUnprofitable') {
+        rule.recipes.forEach((recipe) => ids.add(recipe.recipeId));
+      }
+    });
+    return ids;
+  },
+
+  // The watchlist is a single rule, created with its first recipe and removed with its last.
+  toggleWatchedRecipe(state: PriceAlertState, recipe: Recipe): PriceAlertState {
+    const watchlist = state.rules.find((rule) => rule.type === 'watchlistUnprofitable');
+    if (!watchlist || watchlist.type !== 'watchlistUnprofitable') {
+      return this.addRule(state, {
+        id: createAlertId(),
+        createdAt: new Date().toISOString(),
+        matched: [],
+        type: 'watchlistUnprofitable',
+        recipes: [{ professionId: recipe.profession.id, recipeId: recipe.id, recipeName: recipe.name }]
+      });
+    }
+
+    const isWatched = watchlist.recipes.some((watched) => watched.recipeId === recipe.id);
+    const recipes = isWatched
+      ? watchlist.recipes.filter((watched) => watched.recipeId !== recipe.id)
+      : [
+          ...watchlist.recipes,
+          { professionId: recipe.profession.id, recipeId: recipe.id, recipeName: recipe.name }
+        ];
+    if (recipes.length === 0) {
+      return this.removeRule(state, watchlist.id);
+    }
+
+    return {
+      ...state,
+      rules: state.rules.map((rule) =>
+        rule.id === watchlist.id
+          ? {
+              ...watchlist,
+              recipes,
+              matched: watchlist.matched.filter((subject) => !subject.endsWith(`|recipe:${recipe.id}`))
+            }
+          : rule
+      )
+    };
+  },
+
+  dismiss(state: PriceAlertState, notificationId: string): PriceAlertState {
+    return {
+      ...state,
+      notifications: state.notifications.filter((notification) => notification.id !== notificationId)
+    };
+  },
+
+  dismissAll(state: PriceAlertState): PriceAlertState {
+    return { ...state, notifications: [] };
+  },
+
+  /**
+   * Checks every rule against the given realms, valued like the crafting
+   * list with the shared calculation settings. Profits are only calculated
+   * for professions that recipe rules refer to.
+   */
+  async check(
+    rules: PriceAlertRule[],
+    realms: Map<string, RealmPriceHistory>,
+    settings: CalculationSettings
+  ): Promise<PriceAlertCheck> {
+    const professionIds = new Set<number>();
+    rules.forEach((rule) => {
+      if (rule.type === 'recipeMargin') {
+        professionIds.add(rule.professionId);
+      } else if (rule.type === 'watchlistUnprofitable') {
+        rule.recipes.forEach((recipe) => professionIds.add(recipe.professionId));
+      }
+    });
+
+    const matches = new Map<string, PriceAlertMatch[]>(rules.map((rule) => [rule.id, []]));
+    const realmKeys = Array.from(realms.keys());
+
+    for (const realmKey of realmKeys) {
+      const history = realms.get(realmKey) ?? null;
+      const { priceMap } = ProfessionProfits.estimatePrices(history, settings);
+
+      const profitsByRecipe = new Map<number, CraftingProfit>();
+      for (const professionId of Array.from(professionIds)) {
+        const profession = findProfession(professionId);
+        if (!profession) {
+          continue;
+        }
+        const profits = await ProfessionProfits.calculate(profession, history, settings);
+        profits.forEach((profit) => profitsByRecipe.set(profit.recipe.id, profit));
+      }
+
+      rules.forEach((rule) => {
+        matches.get(rule.id)?.push(...matchRule(rule, realmKey, priceMap, profitsByRecipe));
+      });
+    }
+
+    return { realmKeys, matches };
+  },
+
+  /**
+   * Records what each checked rule matched and adds an alert for every
+   * subject that did not match at the previous check. Rules added after the
+   * check, and matches on realms that were not checked, are left as they are.
+   */
+  applyCheck(
+    state: PriceAlertState,
+    check: PriceAlertCheck,
+    now: Date = new Date()
+  ): PriceAlertCheckResult {
+    const fired: PriceAlertNotification[] = [];
+    const isChecked = (subject: string) =>
+      check.realmKeys.some((realmKey) => subject.startsWith(`${realmKey}|`));
+
+    const rules = state.rules.map((rule) => {
+      const ruleMatches = check.matches.get(rule.id);
+      if (!ruleMatches) {
+        return rule;
+      }
+
+      ruleMatches.forEach((match) => {
+        if (!rule.matched.includes(match.subject)) {
+          fired.push({
+            id: createAlertId(),
+            ruleId: rule.id,
+            realmKey: match.realmKey,
+            firedAt: now.toISOString(),
+            message: match.message
+          });
+        }
+      });
+
+      return {
+        ...rule,
+        matched: [
+          ...rule.matched.filter((subject) => !isChecked(subject)),
+          ...ruleMatches.map((match) => match.subject)
+        ]
+      };
+    });
+
+    return {
+      state: {
+        rules,
+        notifications: [...fired, ...state.notifications].slice(0, MAX_NOTIFICATIONS)
+      },
+      firedCount: fired.length
+    };
+  }
+};
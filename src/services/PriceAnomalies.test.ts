@@ -0,0 +1,92 @@
+import type { AuctionatorParsedData, PriceHistoryEntry } from './AuctionatorDataService';
+import { PriceAnomalies } from './PriceAnomalies';
+
+const scan = (day: number, price: number, extra: Partial<PriceHistoryEntry> = {}): PriceHistoryEntry => ({
+  price,
+  importedAt: new Date(Date.UTC(2025, 0, day, 12)).toISOString(),
+  source: 'Auctionator.lua',
+  ...extra
+});
+
+const baseline = [scan(10, 100), scan(11, 102), scan(12, 98), scan(13, 101), scan(14, 99)];
+
+const dataWith = (entries: PriceHistoryEntry[]): AuctionatorParsedData => ({
+  realms: new Map([['Frostmourne_Alliance', new Map([[2589, entries]])]]),
+  importedAt: '2025-01-20T12:00:00.000Z',
+  source: 'Auctionator.lua'
+});
+
+describe('PriceAnomalies.screen', () => {
+  it('flags prices far outside the recent scans', () => {
+    // the spread is at least a tenth of the median, so 200 sits ten spreads above 100
+    expect(PriceAnomalies.screen(scan(15, 200), baseline)).toEqual({
+      score: 10,
+      baseline: 100,
+      status: 'pending'
+    });
+    expect(PriceAnomalies.screen(scan(15, 1), baseline)?.score).toBe(-9.9);
+  });
+
+  it('accepts ordinary price changes', () => {
+    expect(PriceAnomalies.screen(scan(15, 130), baseline)).toBeNull();
+  });
+
+  it('needs enough earlier scans from the preceding two weeks', () => {
+    expect(PriceAnomalies.screen(scan(15, 200), baseline.slice(1))).toBeNull();
+    expect(PriceAnomalies.screen(scan(30, 200), baseline)).toBeNull();
+  });
+
+  it('leaves rejected scans out of the baseline', () => {
+    const rejected = scan(9, 5000, { anomaly: { score: 9, baseline: 100, status: 'rejected' } });
+    const history = [...baseline.slice(1), rejected];
+    expect(PriceAnomalies.screen(scan(15, 200), history)).toBeNull();
+  });
+
+  it('does not screen aggregates', () => {
+    const aggregate = scan(15, 200, {
+      aggregate: { period: 'day', min: 150, median: 200, max: 250, count: 3 }
+    });
+    expect(PriceAnomalies.screen(aggregate, baseline)).toBeNull();
+  });
+});
+
+describe('PriceAnomalies.isCounted', () => {
+  it('counts unflagged and accepted scans, and pending ones only on request', () => {
+    const withStatus = (status: 'pending' | 'accepted' | 'rejected') =>
+      scan(15, 200, { anomaly: { score: 10, baseline: 100, status } });
+
+    expect(PriceAnomalies.isCounted(scan(15, 200))).toBe(true);
+    expect(PriceAnomalies.isCounted(withStatus('accepted'))).toBe(true);
+    expect(PriceAnomalies.isCounted(withStatus('pending'))).toBe(false);
+    expect(PriceAnomalies.isCounted(withStatus('pending'), true)).toBe(true);
+    expect(PriceAnomalies.isCounted(withStatus('rejected'), true)).toBe(false);
+  });
+});
+
+describe('PriceAnomalies review', () => {
+  const older = scan(15, 200, { anomaly: { score: 10, baseline: 100, status: 'pending' } });
+  const newer = scan(16, 1, { anomaly: { score: -9.9, baseline: 100, status: 'pending' } });
+  const data = dataWith([...baseline, older, newer]);
+
+  it('lists pending scans newest first', () => {
+    expect(PriceAnomalies.listPending(data)).toEqual([
+      { realmKey: 'Frostmourne_Alliance', itemId: 2589, entry: newer },
+      { realmKey: 'Frostmourne_Alliance', itemId: 2589, entry: older }
+    ]);
+  });
+
+  it('records the decision without changing the original data', () => {
+    const [review] = PriceAnomalies.listPending(data);
+    const reviewed = PriceAnomalies.review(data, review, 'rejected');
+
+    const entries = reviewed.realms.get('Frostmourne_Alliance')?.get(2589) ?? [];
+    expect(entries[entries.length - 1].anomaly?.status).toBe('rejected');
+    expect(newer.anomaly?.status).toBe('pending');
+    expect(PriceAnomalies.listPending(reviewed)).toHaveLength(1);
+  });
+
+  it('returns the data unchanged when the scan is no longer stored', () => {
+    const review = { realmKey: 'Frostmourne_Alliance', itemId: 2589, entry: scan(20, 7) };
+    expect(PriceAnomalies.review(data, review, 'accepted')).toBe(data);
+  });
+});
@@ -0,0 +1,132 @@
+import type {
+  AuctionatorParsedData,
+  PriceAnomaly,
+  PriceAnomalyStatus,
+  PriceHistoryEntry
+} from './AuctionatorDataService';
+import { DAY_MS, entryTimestamp, median } from '../utils/common';
+
+// Days of earlier scans a new price is compared with.
+const BASELINE_DAYS = 14;
+
+// With fewer earlier scans the usual price is not known well enough to judge.
+const MIN_BASELINE_SAMPLES = 5;
+
+// Modified z-score beyond which a price is flagged (Iglewicz and Hoaglin).
+const OUTLIER_THRESHOLD = 3.5;
+
+// Scales the median absolute deviation to a standard deviation of normal data.
+const MAD_TO_DEVIATION = 1.4826;
+
+// Smallest spread assumed, as a share of the median, so an item whose price
+// never moved is not flagged for its first ordinary change.
+const MIN_RELATIVE_SPREAD = 0.1;
+
+export interface PriceAnomalyReview {
+  realmKey: string;
+  itemId: number;
+  entry: PriceHistoryEntry;
+}
+
+const isSameScan = (a: PriceHistoryEntry, b: PriceHistoryEntry) =>
+  a.importedAt === b.importedAt && a.price === b.price;
+
+export const PriceAnomalies = {
+  /**
+   * Tests a scan against the item's scans of the preceding days with the
+   * median absolute deviation, which a few earlier outliers barely move.
+   * Aggregates are not screened; they only summarise scans kept before.
+   */
+  screen(entry: PriceHistoryEntry, history: PriceHistoryEntry[]): PriceAnomaly | null {
+    if (entry.aggregate || !Number.isFinite(entry.price) || entry.price <= 0) {
+      return null;
+    }
+
+    const time = entryTimestamp(entry);
+    const baselinePrices = history
+      .filter((candidate) => {
+        const candidateTime = entryTimestamp(candidate);
+        return (
+          candidateTime <= time &&
+          candidateTime >= time - BASELINE_DAYS * DAY_MS &&
+          candidate.price > 0 &&
+          candidate.anomaly?.status !== 'rejected' &&
+          !isSameScan(candidate, entry)
+        );
+      })
+      .map((candidate) => candidate.price);
+
+    if (baselinePrices.length < MIN_BASELINE_SAMPLES) {
+      return null;
+    }
+
+    const baseline = median(baselinePrices);
+    const deviation = median(baselinePrices.map((price) => Math.abs(price - baseline)));
+    const spread = Math.max(deviation * MAD_TO_DEVIATION, baseline * MIN_RELATIVE_SPREAD);
+    const score = (entry.price - baseline) / spread;
+
+    if (Math.abs(score) <= OUTLIER_THRESHOLD) {
+      return null;
+    }
+
+    return {
+      score: Math.round(score * 10) / 10,
+      baseline: Math.round(baseline),
+      status: 'pending'
+    };
+  },
+
+  /**
+   * Whether a scan counts towards prices. Rejected scans never do; flagged
+   * ones only once accepted, unless suspicious prices are included.
+   */
+  isCounted(entry: PriceHistoryEntry, includeSuspicious: boolean = false): boolean {
+    const status = entry.anomaly?.status;
+    return (
+      status === undefined || status === 'accepted' || (includeSuspicious && status === 'pending')
+    );
+  },
+
+  // Flagged scans still waiting for a decision, newest first.
+  listPending(data: AuctionatorParsedData): PriceAnomalyReview[] {
+    const pending: PriceAnomalyReview[] = [];
+    data.realms.forEach((history, realmKey) => {
+      history.forEach((entries, itemId) => {
+        entries.forEach((entry) => {
+          if (entry.anomaly?.status === 'pending') {
+            pending.push({ realmKey, itemId, entry });
+          }
+        });
+      });
+    });
+
+    return pending.sort((a, b) => entryTimestamp(b.entry) - entryTimestamp(a.entry));
+  },
+
+  /**
+   * Records a decision on a flagged scan. The data is returned unchanged
+   * when the scan is no longer stored.
+   */
+  review(
+    data: AuctionatorParsedData,
+    review: PriceAnomalyReview,
+    status: Exclude<PriceAnomalyStatus, 'pending'>
+  ): AuctionatorParsedData {
+    const history = data.realms.get(review.realmKey);
+    const entries = history?.get(review.itemId);
+    const index = entries?.findIndex((entry) => entry.anomaly && isSameScan(entry, review.entry)) ?? -1;
+    if (!history || !entries || index === -1) {
+      return data;
+    }
+
+    const updatedEntries = [...entries];
+    const entry = updatedEntries[index];
+    updatedEntries[index] = { ...entry, anomaly: { ...entry.anomaly!, status } };
+
+    const updatedHistory = new Map(history);
+    updatedHistory.set(review.itemId, updatedEntries);
+    const realms = new Map(data.realms);
+    realms.set(review.realmKey, updatedHistory);
+    return { ...data, realms };
+  }
+};
@@ -0,0 +1,54 @@
+import { PriceStatisticSettings } from '../types';
+import type { PriceHistoryEntry } from './AuctionatorDataService';
+import { PriceFreshness } from './PriceFreshness';
+
+const now = Date.parse('2025-01-10T12:00:00.000Z');
+
+const scan = (importedAt: string, extra: Partial<PriceHistoryEntry> = {}): PriceHistoryEntry => ({
+  price: 100,
+  importedAt,
+  source: 'Auctionator.lua',
+  ...extra
+});
+
+const settings: PriceStatisticSettings = {
+  statistic: 'median',
+  windowDays: 7,
+  includeSuspicious: false,
+  freshnessDays: 3,
+  staleHandling: 'downweight'
+};
+
+describe('PriceFreshness', () => {
+  it('measures the age of a price from the current time', () => {
+    expect(PriceFreshness.ageDays('2025-01-08T12:00:00.000Z', now)).toBe(2);
+    // scans dated after now count as new rather than negative
+    expect(PriceFreshness.ageDays('2025-01-11T12:00:00.000Z', now)).toBe(0);
+    expect(PriceFreshness.ageDays('not a date', now)).toBeNull();
+  });
+
+  it('counts prices older than the window and undated ones as stale', () => {
+    expect(PriceFreshness.isStale('2025-01-07T12:00:00.000Z', 3, now)).toBe(false);
+    expect(PriceFreshness.isStale('2025-01-07T11:00:00.000Z', 3, now)).toBe(true);
+    expect(PriceFreshness.isStale('not a date', 3, now)).toBe(true);
+  });
+
+  it('formats ages in hours below a day', () => {
+    expect(PriceFreshness.formatAge('2025-01-10T11:30:00.000Z', now)).toBe('under 1h old');
+    expect(PriceFreshness.formatAge('2025-01-10T01:00:00.000Z', now)).toBe('11h old');
+    expect(PriceFreshness.formatAge('2025-01-06T00:00:00.000Z', now)).toBe('4d old');
+    expect(PriceFreshness.formatAge('', now)).toBe('unknown age');
+  });
+
+  it('counts items by their newest scan that counts towards prices', () => {
+    const pending = { score: 40, baseline: 100, status: 'pending' as const };
+    const history = new Map([
+      [1, [scan('2025-01-01T12:00:00.000Z'), scan('2025-01-09T12:00:00.000Z')]],
+      [2, [scan('2025-01-01T12:00:00.000Z'), scan('2025-01-09T12:00:00.000Z', { anomaly: pending })]],
+      [3, [scan('2025-01-05T12:00:00.000Z')]]
+    ]);
+
+    expect(PriceFreshness.countStale(history, settings, now)).toBe(2);
+    expect(PriceFreshness.countStale(history, { ...settings, includeSuspicious: true }, now)).toBe(1);
+  });
+});
@@ -0,0 +1,68 @@
+import { PriceStatisticSettings, StalePriceHandling } from '../types';
+import { DAY_MS, toTimestamp } from '../utils/common';
+import type { PriceHistoryEntry } from './AuctionatorDataService';
+import { PriceAnomalies } from './PriceAnomalies';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const STALE_PRICE_HANDLINGS: StalePriceHandling[] = ['downweight', 'missing'];
+
+export const STALE_PRICE_HANDLING_LABELS: Record<StalePriceHandling, string> = {
+  downweight: 'Kept, ranked after fresh prices',
+  missing: 'Treated as missing'
+};
+
+/**
+ * Unlike the statistic window, freshness is measured from the current time:
+ * a price is stale once its newest scan is older than the window.
+ */
+export const PriceFreshness = {
+  ageDays(updatedAt: string, now: number = Date.now()): number | null {
+    const time = toTimestamp(updatedAt);
+    return time === null ? null : Math.max(now - time, 0) / DAY_MS;
+  },
+
+  // prices without a readable scan time count as stale
+  isStale(updatedAt: string, freshnessDays: number, now: number = Date.now()): boolean {
+    const age = this.ageDays(updatedAt, now);
+    return age === null || age > freshnessDays;
+  },
+
+  formatAge(updatedAt: string, now: number = Date.now()): string {
+    const time = toTimestamp(updatedAt);
+    if (time === null) {
+      return 'unknown age';
+    }
+
+    const age = Math.max(now - time, 0);
+    if (age < HOUR_MS) {
+      return 'under 1h old';
+    }
+    if (age < DAY_MS) {
+      return `${Math.floor(age / HOUR_MS)}h old`;
+    }
+    return `${Math.floor(age / DAY_MS)}d old`;
+  },
+
+  // Items whose newest scan that counts towards prices is stale.
+  countStale(
+    history: Map<number, PriceHistoryEntry[]>,
+    settings: PriceStatisticSettings,
+    now: number = Date.now()
+  ): number {
+    let count = 0;
+    history.forEach((entries) => {
+      const counted = entries.filter((entry) =>
+        PriceAnomalies.isCounted(entry, settings.includeSuspicious)
+      );
+      const newest = counted.reduce<number | null>((latest, entry) => {
+        const time = toTimestamp(entry.importedAt);
+        return time !== null && (latest === null || time > latest) ? time : latest;
+      }, null);
+      if (newest !== null && now - newest > settings.freshnessDays * DAY_MS) {
+        count += 1;
+      }
+    });
+    return count;
+  }
+};
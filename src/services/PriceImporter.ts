@@ -0,0 +1,82 @@
+import type {
+  AuctionatorImportResult,
+  PriceSourceAddon,
+  RealmPriceHistory
+} from './AuctionatorDataService';
+import type { LuaNode } from './LuaTableParser';
+import { applyRetention, RetentionPolicy } from './HistoryRetention';
+
+export const UNRESOLVED_SAMPLE_SIZE = 10;
+
+// Realm keys follow Auctionator's "Realm_Faction" so datasets of all addons line up.
+const REALM_FACTION_PATTERN = /^(.*?)\s*[-_]\s*(Alliance|Horde|Neutral)$/i;
+
+/**
+ * Reads the price data of one addon's SavedVariables file. The importers are
+ * tried in order and the first one that detects its variables parses the file.
+ */
+export interface PriceImporter {
+  addon: PriceSourceAddon;
+  // top-level SavedVariables the importer reads
+  variables: string[];
+  detect(variables: Map<string, LuaNode>): boolean;
+  parse(
+    variables: Map<string, LuaNode>,
+    sourceLabel: string,
+    retention: RetentionPolicy,
+    onItemsResolved?: (count: number) => void
+  ): AuctionatorImportResult | Promise<AuctionatorImportResult>;
+}
+
+const toRealmKey = (realm: string, faction: string): string =>
+  `${realm.trim()}_${faction.charAt(0).toUpperCase()}${faction.slice(1).toLowerCase()}`;
+
+// "Frostmourne-Alliance" and "Alliance - Frostmourne" both become "Frostmourne_Alliance".
+export const normalizeRealmKey = (key: string): string => {
+  const trailing = key.match(REALM_FACTION_PATTERN);
+  if (trailing) {
+    return toRealmKey(trailing[1], trailing[2]);
+  }
+  const leading = key.match(/^(Alliance|Horde|Neutral)\s*-\s*(.+)$/i);
+  return leading ? toRealmKey(leading[2], leading[1]) : key.trim();
+};
+
+/**
+ * Builds the import result of an addon whose data is keyed by item id, so
+ * nothing needs resolving by name.
+ */
+export const buildItemIdImport = (
+  realms: Map<string, RealmPriceHistory>,
+  importedAt: string,
+  sourceLabel: string,
+  addon: PriceSourceAddon,
+  skippedKeys: string[],
+  retention: RetentionPolicy,
+  historyItems = 0
+): AuctionatorImportResult => {
+  const itemIds = new Set<number>();
+  realms.forEach((history) =>
+    history.forEach((entries, itemId) => {
+      history.set(itemId, applyRetention(entries, retention));
+      itemIds.add(itemId);
+    })
+  );
+
+  if (skippedKeys.length > 0) {
+    console.info(`[${addon}] Skipped ${skippedKeys.length} entries without an item id.`);
+  }
+
+  return {
+    data: { realms, importedAt, source: sourceLabel },
+    summary: {
+      addon,
+      resolved: itemIds.size,
+      resolvedViaHistory: 0,
+      unresolved: skippedKeys.length,
+      unresolvedSample: skippedKeys.slice(0, UNRESOLVED_SAMPLE_SIZE),
+      historyItems,
+      realms: Array.from(realms.keys())
+    },
+    resolvedNames: new Map()
+  };
+};
@@ -0,0 +1,120 @@
+import { PriceStatisticSettings } from '../types';
+import type { PriceHistoryEntry } from './AuctionatorDataService';
+import { PriceStatistics } from './PriceStatistics';
+
+const scan = (day: number, price: number, extra: Partial<PriceHistoryEntry> = {}): PriceHistoryEntry => ({
+  price,
+  importedAt: new Date(Date.UTC(2025, 0, day, 12)).toISOString(),
+  source: 'Auctionator.lua',
+  ...extra
+});
+
+// five daily scans ending in a spike on the 5th
+const history = [scan(3, 120), scan(1, 100), scan(2, 110), scan(5, 1000), scan(4, 130)];
+
+const settings: PriceStatisticSettings = {
+  statistic: 'median',
+  windowDays: 7,
+  includeSuspicious: false,
+  freshnessDays: 3,
+  staleHandling: 'downweight'
+};
+
+describe('PriceStatistics.estimate', () => {
+  it('takes the newest scan for the latest statistic', () => {
+    expect(PriceStatistics.estimate(history, 'latest', 7)).toMatchObject({
+      price: 1000,
+      sampleSize: 1,
+      updatedAt: scan(5, 0).importedAt
+    });
+  });
+
+  it('computes the median, trimmed mean and moving average over the window', () => {
+    expect(PriceStatistics.estimate(history, 'median', 7)).toMatchObject({ price: 120, sampleSize: 5 });
+    // a tenth of five samples trims nothing
+    expect(PriceStatistics.estimate(history, 'trimmedMean', 7)?.price).toBe(292);
+    expect(PriceStatistics.estimate(history, 'ema', 7)?.price).toBe(380);
+  });
+
+  it('anchors the window at the newest scan', () => {
+    expect(PriceStatistics.estimate(history, 'median', 2)).toMatchObject({ price: 130, sampleSize: 3 });
+  });
+
+  it('averages the middle pair for the median of an even number of scans', () => {
+    expect(PriceStatistics.estimate([scan(2, 200), scan(1, 100)], 'median', 7)?.price).toBe(150);
+  });
+
+  it('takes the lowest scan in the window for the window minimum', () => {
+    expect(PriceStatistics.estimate(history, 'windowMin', 2)).toMatchObject({ price: 120, sampleSize: 3 });
+  });
+
+  it('uses the lowest scan of aggregated entries for the window minimum', () => {
+    const aggregated = scan(2, 110, {
+      aggregate: { period: 'day', min: 60, median: 110, max: 150, count: 4 }
+    });
+    expect(PriceStatistics.estimate([scan(1, 100), aggregated], 'windowMin', 7)?.price).toBe(60);
+  });
+
+  it('leaves out unreviewed and rejected outliers', () => {
+    const flagged = [
+      scan(1, 100),
+      scan(4, 130),
+      scan(5, 1000, { anomaly: { score: 40, baseline: 115, status: 'pending' } }),
+      scan(6, 1, { anomaly: { score: -9, baseline: 115, status: 'rejected' } })
+    ];
+
+    expect(PriceStatistics.estimate(flagged, 'latest', 7)?.price).toBe(130);
+    expect(PriceStatistics.estimate(flagged, 'latest', 7, true)?.price).toBe(1000);
+  });
+
+  it('treats a scan with an unreadable date as the oldest', () => {
+    const undated = scan(6, 5, { importedAt: 'not a date' });
+    expect(PriceStatistics.estimate([scan(1, 100), undated], 'latest', 7)?.price).toBe(100);
+    // it falls outside any window anchored at a dated scan
+    expect(PriceStatistics.estimate([scan(1, 100), undated], 'windowMin', 7)?.price).toBe(100);
+  });
+
+  it('reports the spread of the window as volatility', () => {
+    expect(PriceStatistics.estimate([scan(1, 100), scan(2, 100)], 'median', 7)?.volatility).toBe(0);
+    expect(PriceStatistics.estimate([scan(1, 100)], 'median', 7)?.volatility).toBeNull();
+  });
+
+  it('returns null without a usable price', () => {
+    expect(PriceStatistics.estimate([scan(1, 0), scan(2, NaN)], 'median', 7)).toBeNull();
+  });
+});
+
+describe('PriceStatistics.buildEstimates', () => {
+  const now = Date.UTC(2025, 0, 10);
+  const histories = new Map([
+    [1, history],
+    [2, [scan(9, 500)]]
+  ]);
+
+  it('marks estimates whose newest scan is outside the freshness window as stale', () => {
+    const estimates = PriceStatistics.buildEstimates(histories, settings, {}, now);
+    expect(estimates.get(1)).toMatchObject({ price: 120, isStale: true });
+    expect(estimates.get(2)).toMatchObject({ price: 500, isStale: false });
+  });
+
+  it('drops stale estimates when stale prices count as missing', () => {
+    const estimates = PriceStatistics.buildEstimates(
+      histories,
+      { ...settings, staleHandling: 'missing' },
+      {},
+      now
+    );
+    expect(estimates.has(1)).toBe(false);
+    expect(estimates.has(2)).toBe(true);
+  });
+
+  it('applies per-item statistic overrides', () => {
+    const estimates = PriceStatistics.buildEstimates(
+      histories,
+      settings,
+      { 1: { priceStatistic: 'latest' } },
+      now
+    );
+    expect(estimates.get(1)?.price).toBe(1000);
+  });
+});
@@ -0,0 +1,146 @@
+import { ItemPriceOverride, PriceEstimate, PriceStatistic, PriceStatisticSettings } from '../types';
+import { DAY_MS, entryTimestamp, median } from '../utils/common';
+import type { PriceHistoryEntry } from './AuctionatorDataService';
+import { PriceAnomalies } from './PriceAnomalies';
+import { PriceFreshness } from './PriceFreshness';
+
+// Share of samples dropped from each end before averaging.
+const TRIM_RATIO = 0.1;
+
+// Weight of the newest sample in the exponential moving average.
+const EMA_SMOOTHING = 0.3;
+
+export const PRICE_STATISTICS: PriceStatistic[] = [
+  'latest',
+  'median',
+  'trimmedMean',
+  'ema',
+  'windowMin'
+];
+
+export const PRICE_STATISTIC_LABELS: Record<PriceStatistic, string> = {
+  latest: 'Latest scan',
+  median: 'Median',
+  trimmedMean: 'Trimmed mean',
+  ema: 'Moving average (EMA)',
+  windowMin: 'Minimum'
+};
+
+const trimmedMean = (sorted: number[]) => {
+  const trim = Math.floor(sorted.length * TRIM_RATIO);
+  const kept = sorted.slice(trim, sorted.length - trim);
+  return kept.reduce((sum, value) => sum + value, 0) / kept.length;
+};
+
+const exponentialMovingAverage = (chronological: number[]) =>
+  chronological
+    .slice(1)
+    .reduce((average, value) => average + EMA_SMOOTHING * (value - average), chronological[0]);
+
+// Standard deviation as a percentage of the mean; null below two samples.
+const coefficientOfVariation = (values: number[]): number | null => {
+  if (values.length < 2) {
+    return null;
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return mean > 0 ? (Math.sqrt(variance) / mean) * 100 : null;
+};
+
+export const PriceStatistics = {
+  /**
+   * The window is anchored at the item's newest sample rather than the
+   * current time, so an older import still yields a price. Flagged scans are
+   * left out until accepted unless `includeSuspicious` is set.
+   */
+  estimate(
+    entries: PriceHistoryEntry[],
+    statistic: PriceStatistic,
+    windowDays: number,
+    includeSuspicious: boolean = false
+  ): PriceEstimate | null {
+    const chronological = entries
+      .filter(
+        (entry) =>
+          Number.isFinite(entry.price) &&
+          entry.price > 0 &&
+          PriceAnomalies.isCounted(entry, includeSuspicious)
+      )
+      .sort((a, b) => entryTimestamp(a) - entryTimestamp(b));
+
+    if (chronological.length === 0) {
+      return null;
+    }
+
+    const latest = chronological[chronological.length - 1];
+    const windowStart = entryTimestamp(latest) - Math.max(windowDays, 0) * DAY_MS;
+    const windowEntries = chronological.filter((entry) => entryTimestamp(entry) >= windowStart);
+    const windowPrices = windowEntries.map((entry) => entry.price);
+    const sorted = [...windowPrices].sort((a, b) => a - b);
+    const volatility = coefficientOfVariation(windowPrices);
+
+    if (statistic === 'latest') {
+      return { price: latest.price, statistic, sampleSize: 1, updatedAt: latest.importedAt, volatility };
+    }
+
+    let price: number;
+    switch (statistic) {
+      case 'median':
+        price = median(sorted);
+        break;
+      case 'trimmedMean':
+        price = trimmedMean(sorted);
+        break;
+      case 'ema':
+        price = exponentialMovingAverage(windowPrices);
+        break;
+      case 'windowMin':
+        // aggregated entries carry the lowest scan of their period
+        price = Math.min(...windowEntries.map((entry) => entry.aggregate?.min ?? entry.price));
+        break;
+      default:
+        price = latest.price;
+    }
+
+    return {
+      price: Math.round(price),
+      statistic,
+      sampleSize: windowPrices.length,
+      updatedAt: latest.importedAt,
+      volatility
+    };
+  },
+
+  /**
+   * Estimates whose newest scan is older than the freshness window are marked
+   * stale, or left out when stale prices are to be treated as missing.
+   */
+  buildEstimates(
+    history: Map<number, PriceHistoryEntry[]>,
+    settings: PriceStatisticSettings,
+    itemOverrides: Record<number, ItemPriceOverride> = {},
+    now: number = Date.now()
+  ): Map<number, PriceEstimate> {
+    const estimates = new Map<number, PriceEstimate>();
+
+    history.forEach((entries, itemId) => {
+      const statistic = itemOverrides[itemId]?.priceStatistic ?? settings.statistic;
+      const estimate = this.estimate(
+        entries,
+        statistic,
+        settings.windowDays,
+        settings.includeSuspicious
+      );
+      if (!estimate) {
+        return;
+      }
+
+      const isStale = PriceFreshness.isStale(estimate.updatedAt, settings.freshnessDays, now);
+      if (!isStale || settings.staleHandling !== 'missing') {
+        estimates.set(itemId, { ...estimate, isStale });
+      }
+    });
+
+    return estimates;
+  }
+};
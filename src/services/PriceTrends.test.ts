@@ -0,0 +1,98 @@
+import { Item, PROFESSIONS, Recipe } from '../types';
+import type { PriceHistoryEntry } from './AuctionatorDataService';
+import { PriceTrends } from './PriceTrends';
+import { ProfitCalculator } from './ProfitCalculator';
+
+const scan = (day: number, price: number, extra: Partial<PriceHistoryEntry> = {}): PriceHistoryEntry => ({
+  price,
+  importedAt: new Date(Date.UTC(2025, 0, day, 12)).toISOString(),
+  source: 'Auctionator.lua',
+  ...extra
+});
+
+const item = (id: number): Item => ({
+  id,
+  name: `Item ${id}`,
+  icon: '',
+  quality: 'Common',
+  itemLevel: 1,
+  stackSize: 20
+});
+
+describe('PriceTrends.buildTrend', () => {
+  it('compares the newest price with a day and a week earlier', () => {
+    const trend = PriceTrends.buildTrend([scan(8, 120), scan(1, 80), scan(7, 100)]);
+
+    expect(trend?.change24h).toBeCloseTo(20);
+    expect(trend?.change7d).toBeCloseTo(50);
+    expect(trend?.points.map(({ value }) => value)).toEqual([80, 100, 120]);
+  });
+
+  it('leaves out changes whose reference is more than two periods old', () => {
+    const trend = PriceTrends.buildTrend([scan(1, 100), scan(8, 120)]);
+
+    expect(trend?.change24h).toBeNull();
+    expect(trend?.change7d).toBeCloseTo(20);
+  });
+
+  it('measures volatility over the last two weeks only', () => {
+    expect(PriceTrends.buildTrend([scan(1, 500), scan(19, 100), scan(20, 100)])).toMatchObject({
+      volatility: 0,
+      points: [
+        { time: Date.parse(scan(19, 0).importedAt), value: 100 },
+        { time: Date.parse(scan(20, 0).importedAt), value: 100 }
+      ]
+    });
+    expect(PriceTrends.buildTrend([scan(1, 100)])?.volatility).toBeNull();
+  });
+
+  it('keeps flagged scans out until they are accepted', () => {
+    const anomaly = { score: 40, baseline: 100 };
+    const trend = PriceTrends.buildTrend([
+      scan(1, 100),
+      scan(2, 1000, { anomaly: { ...anomaly, status: 'pending' } }),
+      scan(3, 1000, { anomaly: { ...anomaly, status: 'rejected' } }),
+      scan(4, 110, { anomaly: { ...anomaly, status: 'accepted' } })
+    ]);
+
+    expect(trend?.points.map(({ value }) => value)).toEqual([100, 110]);
+    expect(PriceTrends.buildTrend([scan(1, 0)])).toBeNull();
+  });
+});
+
+describe('PriceTrends.buildMarginTrends', () => {
+  const recipe: Recipe = {
+    id: 1,
+    name: 'Recipe 1',
+    profession: PROFESSIONS[0],
+    skillLevel: 1,
+    resultItem: item(200),
+    outputCount: 2,
+    materials: [{ item: item(100), quantity: 3 }],
+    category: 'Test'
+  };
+
+  it('rebuilds the margin of each scan day from the prices known then', async () => {
+    const history = new Map([
+      [100, [scan(1, 100), scan(2, 100), scan(3, 110)]],
+      [200, [scan(2, 1000), scan(3, 1000)]]
+    ]);
+    const profits = await ProfitCalculator.calculateProfitsForRecipes([recipe], {
+      priceMap: new Map([
+        [100, 110],
+        [200, 1000]
+      ])
+    });
+
+    const trend = PriceTrends.buildMarginTrends(profits, history).get(recipe.id);
+
+    // days before the result was first seen are skipped; the sale keeps its 5% cut
+    expect(trend?.points.map(({ value }) => value)).toEqual([2000 * 0.95 - 300, 2000 * 0.95 - 330]);
+    expect(trend?.change).toBe(-30);
+    expect(trend?.volatility).toBeCloseTo(0.75);
+  });
+
+  it('has no trends without history', () => {
+    expect(PriceTrends.buildMarginTrends([], new Map()).size).toBe(0);
+  });
+});
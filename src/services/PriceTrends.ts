@@ -0,0 +1,152 @@
+import { CraftingProfit, MarginTrend, PriceTrend, TrendPoint } from '../types';
+import { DAY_MS, toTimestamp } from '../utils/common';
+import type { PriceHistoryEntry } from './AuctionatorDataService';
+import { PriceAnomalies } from './PriceAnomalies';
+
+// Days of history drawn in a sparkline and measured for volatility.
+const TREND_WINDOW_DAYS = 14;
+
+// Days a recipe's margin is rebuilt over, ending at the newest scan day.
+const MARGIN_WINDOW_DAYS = 7;
+
+// flagged scans stay out of trends until accepted
+const toPoints = (entries: PriceHistoryEntry[]): TrendPoint[] =>
+  entries
+    .filter((entry) => PriceAnomalies.isCounted(entry))
+    .map((entry) => ({ time: toTimestamp(entry.importedAt), value: entry.price }))
+    .filter(
+      (point): point is TrendPoint =>
+        point.time !== null && Number.isFinite(point.value) && point.value > 0
+    )
+    .sort((a, b) => a.time - b.time);
+
+// newest point recorded at or before the given time
+const pointAt = (points: TrendPoint[], time: number): TrendPoint | null => {
+  let found: TrendPoint | null = null;
+  for (let index = 0; index < points.length && points[index].time <= time; index += 1) {
+    found = points[index];
+  }
+  return found;
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const standardDeviation = (values: number[]) => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+};
+
+/**
+ * Compares the newest price with the last one recorded at least a period
+ * earlier. A reference older than two periods is too stale to compare.
+ */
+const percentChange = (points: TrendPoint[], period: number): number | null => {
+  const latest = points[points.length - 1];
+  const target = latest.time - period;
+  const reference = pointAt(points, target);
+  if (!reference || reference.time < target - period) {
+    return null;
+  }
+  return ((latest.value - reference.value) / reference.value) * 100;
+};
+
+export const PriceTrends = {
+  buildTrend(entries: PriceHistoryEntry[]): PriceTrend | null {
+    const points = toPoints(entries);
+    if (points.length === 0) {
+      return null;
+    }
+
+    const windowStart = points[points.length - 1].time - TREND_WINDOW_DAYS * DAY_MS;
+    const recent = points.filter((point) => point.time >= windowStart);
+    const values = recent.map((point) => point.value);
+
+    return {
+      change24h: percentChange(points, DAY_MS),
+      change7d: percentChange(points, 7 * DAY_MS),
+      volatility: values.length > 1 ? (standardDeviation(values) / mean(values)) * 100 : null,
+      points: recent
+    };
+  },
+
+  /**
+   * Rebuilds each calculable recipe's margin at the end of every recent scan
+   * day from the prices known then. Reagents bought from vendors or crafted
+   * keep their current cost and the sale keeps its current share of fees;
+   * days before every auction-priced item was seen are skipped.
+   */
+  buildMarginTrends(
+    profits: CraftingProfit[],
+    history: Map<number, PriceHistoryEntry[]>
+  ): Map<number, MarginTrend> {
+    let newestTime = -Infinity;
+    const pointsByItem = new Map<number, TrendPoint[]>();
+    history.forEach((entries, itemId) => {
+      const points = toPoints(entries);
+      pointsByItem.set(itemId, points);
+      if (points.length > 0) {
+        newestTime = Math.max(newestTime, points[points.length - 1].time);
+      }
+    });
+
+    const trends = new Map<number, MarginTrend>();
+    if (!Number.isFinite(newestTime)) {
+      return trends;
+    }
+
+    const newestDay = Math.floor(newestTime / DAY_MS);
+    const sampleTimes = Array.from(
+      { length: MARGIN_WINDOW_DAYS },
+      (_, offset) => (newestDay - MARGIN_WINDOW_DAYS + offset + 2) * DAY_MS - 1
+    );
+    const auctionPriceAt = (itemId: number, time: number) =>
+      pointAt(pointsByItem.get(itemId) ?? [], time)?.value ?? null;
+
+    profits.forEach((profit) => {
+      const { recipe, isCalculable, sellPrice, sellPriceSource, resultUnitPrice, fees, materialCosts } =
+        profit;
+      if (!isCalculable || sellPrice <= 0) {
+        return;
+      }
+
+      const feeShare = fees.total / sellPrice;
+      const points: TrendPoint[] = [];
+      const saleValues: number[] = [];
+
+      sampleTimes.forEach((time) => {
+        const unitSalePrice =
+          sellPriceSource === 'auctionator'
+            ? auctionPriceAt(recipe.resultItem.id, time)
+            : resultUnitPrice;
+        const saleValue =
+          unitSalePrice === null ? null : unitSalePrice * (recipe.outputCount || 1);
+        const cost = materialCosts.reduce<number | null>((sum, materialCost) => {
+          const unitPrice =
+            materialCost.source === 'auctionator'
+              ? auctionPriceAt(materialCost.itemId, time)
+              : materialCost.unitPrice;
+          return sum === null || unitPrice === null ? null : sum + unitPrice * materialCost.quantity;
+        }, 0);
+
+        if (saleValue === null || cost === null) {
+          return;
+        }
+        points.push({ time, value: Math.round(saleValue * (1 - feeShare) - cost) });
+        saleValues.push(saleValue);
+      });
+
+      if (points.length < 2) {
+        return;
+      }
+
+      const margins = points.map((point) => point.value);
+      trends.set(recipe.id, {
+        change: margins[margins.length - 1] - margins[0],
+        volatility: (standardDeviation(margins) / mean(saleValues)) * 100,
+        points
+      });
+    });
+
+    return trends;
+  }
+};
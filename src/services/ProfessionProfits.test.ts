@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { CalculationSettings, CraftingProfit } from '../types';
+import { DAY_MS } from '../utils/common';
+import type { PriceHistoryEntry } from './AuctionatorDataService';
+import { DEFAULT_CALCULATION_SETTINGS } from './CalculationSettings';
+import { setDbFileReader } from './DbFiles';
+import { findProfession, ProfessionProfits } from './ProfessionProfits';
+
+const LIGHT_LEATHER = 2318;
+const COARSE_THREAD = 2320;
+const HANDSTITCHED_BOOTS = 2302;
+
+// scans dated relative to now so the freshness window is predictable
+const scan = (daysAgo: number, price: number): PriceHistoryEntry => ({
+  price,
+  importedAt: new Date(Date.now() - daysAgo * DAY_MS).toISOString(),
+  source: 'Auctionator.lua'
+});
+
+const history = new Map<number, PriceHistoryEntry[]>([
+  [LIGHT_LEATHER, [scan(3, 120), scan(2, 90), scan(1, 100)]],
+  [COARSE_THREAD, [scan(1, 10)]],
+  [HANDSTITCHED_BOOTS, [scan(40, 1000)]]
+]);
+
+const withSettings = (changes: Partial<CalculationSettings>): CalculationSettings => ({
+  ...DEFAULT_CALCULATION_SETTINGS,
+  ...changes
+});
+
+describe('findProfession', () => {
+  it('finds a profession by its skill line id', () => {
+    expect(findProfession(165)?.name).toBe('Leatherworking');
+    expect(findProfession(1)).toBeUndefined();
+  });
+});
+
+describe('ProfessionProfits.estimatePrices', () => {
+  it('prices every item with the selected statistic and its overrides', () => {
+    const { priceMap } = ProfessionProfits.estimatePrices(history, DEFAULT_CALCULATION_SETTINGS);
+
+    expect(priceMap?.get(LIGHT_LEATHER)).toBe(100);
+    expect(priceMap?.get(COARSE_THREAD)).toBe(10);
+
+    const overridden = ProfessionProfits.estimatePrices(
+      history,
+      withSettings({
+        pricingPolicy: {
+          ...DEFAULT_CALCULATION_SETTINGS.pricingPolicy,
+          itemOverrides: { [LIGHT_LEATHER]: { priceStatistic: 'windowMin' } }
+        }
+      })
+    );
+    expect(overridden.priceMap?.get(LIGHT_LEATHER)).toBe(90);
+  });
+
+  it('marks or drops prices older than the freshness window', () => {
+    const { priceEstimates } = ProfessionProfits.estimatePrices(history, DEFAULT_CALCULATION_SETTINGS);
+    expect(priceEstimates?.get(HANDSTITCHED_BOOTS)?.isStale).toBe(true);
+    expect(priceEstimates?.get(LIGHT_LEATHER)?.isStale).toBe(false);
+
+    const { priceMap } = ProfessionProfits.estimatePrices(
+      history,
+      withSettings({
+        priceStatistics: { ...DEFAULT_CALCULATION_SETTINGS.priceStatistics, staleHandling: 'missing' }
+      })
+    );
+    expect(priceMap?.has(HANDSTITCHED_BOOTS)).toBe(false);
+    expect(priceMap?.get(LIGHT_LEATHER)).toBe(100);
+  });
+
+  it('returns no prices without history', () => {
+    expect(ProfessionProfits.estimatePrices(null, DEFAULT_CALCULATION_SETTINGS)).toEqual({
+      priceEstimates: null,
+      priceMap: null
+    });
+  });
+});
+
+describe('ProfessionProfits.calculate', () => {
+  beforeAll(() => {
+    setDbFileReader((fileName) =>
+      fs.promises.readFile(path.join(__dirname, '..', '..', 'public', 'db', fileName), 'utf8')
+    );
+  });
+
+  afterAll(() => {
+    setDbFileReader(null);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const leatherworking = findProfession(165)!;
+  const findBoots = (profits: CraftingProfit[]) =>
+    profits.find(({ recipe }) => recipe.resultItem.id === HANDSTITCHED_BOOTS);
+
+  it('computes the profit of every recipe of the profession from the realm history', async () => {
+    const profits = await ProfessionProfits.calculate(leatherworking, history, DEFAULT_CALCULATION_SETTINGS);
+    const boots = findBoots(profits);
+
+    expect(profits.every(({ recipe }) => recipe.profession.id === leatherworking.id)).toBe(true);
+    // two Light Leather and one Coarse Thread at their median
+    expect(boots).toMatchObject({ totalCost: 210, sellPrice: 1000, hasStalePrices: true });
+  });
+
+  it('leaves auction-priced reagents missing without history', async () => {
+    const profits = await ProfessionProfits.calculate(leatherworking, null, DEFAULT_CALCULATION_SETTINGS);
+
+    expect(findBoots(profits)?.hasMissingPrices).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  CalculationSettings,
+  CraftingProfit,
+  PriceEstimate,
+  Profession,
+  PROFESSIONS
+} from '../types';
+import type { PriceHistoryEntry } from './AuctionatorDataService';
+import { CraftingDataService } from './CraftingDataService';
+import { PriceStatistics } from './PriceStatistics';
+import { ProfitCalculator } from './ProfitCalculator';
+
+export const findProfession = (professionId: number): Profession | undefined =>
+  PROFESSIONS.find((profession) => profession.id === professionId);
+
+/**
+ * Runs the pipeline the crafting list uses in the browser: price estimates
+ * from one realm's history, then the profit of every recipe of a profession.
+ */
+export const ProfessionProfits = {
+  estimatePrices(
+    history: Map<number, PriceHistoryEntry[]> | null,
+    settings: CalculationSettings
+  ): { priceEstimates: Map<number, PriceEstimate> | null; priceMap: Map<number, number> | null } {
+    if (!history) {
+      return { priceEstimates: null, priceMap: null };
+    }
+
+    const priceEstimates = PriceStatistics.buildEstimates(
+      history,
+      settings.priceStatistics,
+      settings.pricingPolicy.itemOverrides
+    );
+    const priceMap = new Map<number, number>();
+    priceEstimates.forEach((estimate, itemId) => priceMap.set(itemId, estimate.price));
+    return { priceEstimates, priceMap };
+  },
+
+  async calculate(
+    profession: Profession,
+    history: Map<number, PriceHistoryEntry[]> | null,
+    settings: CalculationSettings
+  ): Promise<CraftingProfit[]> {
+    const { priceEstimates, priceMap } = this.estimatePrices(history, settings);
+    const recipes = await CraftingDataService.getRecipesForProfession(profession);
+    return ProfitCalculator.calculateProfitsForRecipes(recipes, {
+      priceMap,
+      priceEstimates,
+      auctionFees: settings.auctionFees,
+      costingMode: settings.costingMode,
+      pricingPolicy: settings.pricingPolicy,
+      freshnessDays: settings.priceStatistics.freshnessDays
+    });
+  }
+};
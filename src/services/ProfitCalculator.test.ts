@@ -0,0 +1,540 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AuctionFeeSettings, Item, PriceEstimate, PricingPolicy, PROFESSIONS, Recipe } from '../types';
+import { CraftingDataService } from './CraftingDataService';
+import { setDbFileReader } from './DbFiles';
+import { gameDataRepository, SpellRecord } from './GameDataRepository';
+import { ProfitCalculator } from './ProfitCalculator';
+
+const item = (id: number, sellPrice?: number): Item => ({
+  id,
+  name: `Item ${id}`,
+  icon: '',
+  quality: 'Common',
+  itemLevel: 1,
+  sellPrice,
+  stackSize: 20
+});
+
+const recipe = (resultSellPrice?: number): Recipe => ({
+  id: 1,
+  name: 'Recipe 1',
+  profession: PROFESSIONS[0],
+  skillLevel: 1,
+  resultItem: item(200, resultSellPrice),
+  outputCount: 2,
+  materials: [{ item: item(100), quantity: 3 }],
+  category: 'Test'
+});
+
+const fees = (overrides: Partial<AuctionFeeSettings> = {}): AuctionFeeSettings => ({
+  auctionHouse: 'faction',
+  listingDuration: 48,
+  expectedRelists: 0,
+  ...overrides
+});
+
+describe('ProfitCalculator.calculateAuctionFees', () => {
+  it('takes a 5% cut at the faction auction house', () => {
+    expect(ProfitCalculator.calculateAuctionFees(10000, 400, fees())).toEqual({
+      auctionCut: 500,
+      // 15% of the vendor sell price per 12 hours, four times for 48 hours
+      depositPerListing: 240,
+      depositLoss: 0,
+      total: 500,
+      isDepositKnown: true
+    });
+  });
+
+  it('takes a 15% cut and a larger deposit at the neutral auction house', () => {
+    expect(
+      ProfitCalculator.calculateAuctionFees(
+        10000,
+        400,
+        fees({ auctionHouse: 'neutral', listingDuration: 12, expectedRelists: 2 })
+      )
+    ).toEqual({
+      auctionCut: 1500,
+      depositPerListing: 300,
+      // the deposit is only lost on listings that expire
+      depositLoss: 600,
+      total: 2100,
+      isDepositKnown: true
+    });
+  });
+
+  it('counts the deposit as 0 and says so without a vendor sell price', () => {
+    expect(
+      ProfitCalculator.calculateAuctionFees(10000, null, fees({ expectedRelists: 3 }))
+    ).toEqual({
+      auctionCut: 500,
+      depositPerListing: 0,
+      depositLoss: 0,
+      total: 500,
+      isDepositKnown: false
+    });
+  });
+});
+
+describe('ProfitCalculator fees in profits', () => {
+  const priceMap = new Map([
+    [100, 100],
+    [200, 1000]
+  ]);
+
+  it('subtracts the fees of selling every crafted item at auction', async () => {
+    const [profit] = await ProfitCalculator.calculateProfitsForRecipes([recipe(50)], {
+      priceMap,
+      auctionFees: fees({ listingDuration: 24, expectedRelists: 1 })
+    });
+
+    expect(profit.sellPrice).toBe(2000);
+    expect(profit.totalCost).toBe(300);
+    expect(profit.fees).toEqual({
+      auctionCut: 100,
+      depositPerListing: 30,
+      depositLoss: 30,
+      total: 130,
+      isDepositKnown: true
+    });
+    expect(profit.netSellPrice).toBe(1870);
+    expect(profit.grossProfit).toBe(1700);
+    expect(profit.profit).toBe(1570);
+  });
+
+  it('marks the deposit unknown when the result has no vendor sell price', async () => {
+    const [profit] = await ProfitCalculator.calculateProfitsForRecipes([recipe()], {
+      priceMap,
+      auctionFees: fees({ expectedRelists: 1 })
+    });
+
+    expect(profit.fees.isDepositKnown).toBe(false);
+    expect(profit.fees.total).toBe(100);
+  });
+
+  it('charges fees on custom result prices too', async () => {
+    const [profit] = await ProfitCalculator.calculateProfitsForRecipes([recipe(50)], {
+      priceMap,
+      pricingPolicy: {
+        reagentRule: 'cheapest',
+        resultRule: 'auction',
+        itemOverrides: { 200: { resultRule: 'custom', customPrice: 500 } }
+      }
+    });
+
+    expect(profit.sellPriceSource).toBe('custom');
+    expect(profit.fees.auctionCut).toBe(50);
+  });
+
+  it('charges no fees when the result has no value', async () => {
+    const [profit] = await ProfitCalculator.calculateProfitsForRecipes([recipe(50)], {
+      priceMap: new Map([[100, 100]])
+    });
+
+    expect(profit.isCalculable).toBe(false);
+    expect(profit.fees.total).toBe(0);
+  });
+});
+
+describe('ProfitCalculator pricing rules', () => {
+  const priceMap = new Map([
+    [100, 100],
+    [200, 1000]
+  ]);
+
+  const policy = (overrides: Partial<PricingPolicy> = {}): PricingPolicy => ({
+    reagentRule: 'cheapest',
+    resultRule: 'auction',
+    itemOverrides: {},
+    ...overrides
+  });
+
+  const calculate = async (pricingPolicy: PricingPolicy, prices = priceMap) => {
+    const [profit] = await ProfitCalculator.calculateProfitsForRecipes([recipe(50)], {
+      priceMap: prices,
+      pricingPolicy
+    });
+    return profit;
+  };
+
+  beforeEach(() => {
+    jest
+      .spyOn(gameDataRepository, 'getVendorPrice')
+      .mockImplementation((itemId) => (itemId === 100 ? 80 : undefined));
+    jest
+      .spyOn(gameDataRepository, 'getVendorSellPrice')
+      .mockImplementation((itemId) => (itemId === 200 ? 300 : undefined));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('buys reagents from the cheaper of vendor and auction by default', async () => {
+    const profit = await calculate(policy());
+
+    expect(profit.materialCosts[0]).toMatchObject({
+      source: 'vendor',
+      unitPrice: 80,
+      vendorPrice: 80,
+      auctionPrice: 100
+    });
+    expect(profit.totalCost).toBe(240);
+  });
+
+  it('keeps reagents to one source under the auction-only and vendor-only rules', async () => {
+    const auctionOnly = await calculate(policy({ reagentRule: 'auctionOnly' }));
+    expect(auctionOnly.materialCosts[0]).toMatchObject({ source: 'auctionator', unitPrice: 100 });
+
+    const vendorOnly = await calculate(
+      policy({ reagentRule: 'vendorOnly' }),
+      new Map([[200, 1000]])
+    );
+    expect(vendorOnly.materialCosts[0]).toMatchObject({ source: 'vendor', unitPrice: 80 });
+  });
+
+  it('leaves a reagent unpriced when its only allowed source has no price', async () => {
+    const profit = await calculate(policy({ reagentRule: 'auctionOnly' }), new Map([[200, 1000]]));
+
+    expect(profit.materialCosts[0]).toMatchObject({
+      source: 'unavailable',
+      unitPrice: null,
+      vendorPrice: 80
+    });
+    expect(profit.isCalculable).toBe(false);
+    expect(profit.hasMissingPrices).toBe(true);
+  });
+
+  it('values the result at its vendor sell price without auction fees', async () => {
+    const profit = await calculate(policy({ resultRule: 'vendorSell' }));
+
+    expect(profit.sellPriceSource).toBe('vendorSell');
+    expect(profit.resultUnitPrice).toBe(300);
+    expect(profit.sellPrice).toBe(600);
+    expect(profit.fees.total).toBe(0);
+    expect(profit.profit).toBe(360);
+  });
+
+  it('does not fall back to another rule when the result rule has no value', async () => {
+    // an auction price exists, but the custom rule needs a custom price
+    const custom = await calculate(policy({ resultRule: 'custom' }));
+    expect(custom.sellPriceSource).toBe('unavailable');
+    expect(custom.isCalculable).toBe(false);
+
+    jest.spyOn(gameDataRepository, 'getVendorSellPrice').mockReturnValue(undefined);
+    const vendorSell = await calculate(policy({ resultRule: 'vendorSell' }));
+    expect(vendorSell.sellPriceSource).toBe('unavailable');
+    expect(vendorSell.resultUnitPrice).toBeNull();
+  });
+
+  it('applies per-item overrides before the global rules', async () => {
+    const profit = await calculate(
+      policy({
+        reagentRule: 'vendorOnly',
+        resultRule: 'vendorSell',
+        itemOverrides: {
+          100: { reagentRule: 'auctionOnly' },
+          200: { resultRule: 'custom', customPrice: 1500 },
+          300: { resultRule: 'auction' }
+        }
+      })
+    );
+
+    expect(profit.materialCosts[0]).toMatchObject({ source: 'auctionator', unitPrice: 100 });
+    expect(profit.sellPriceSource).toBe('custom');
+    expect(profit.sellPrice).toBe(3000);
+  });
+
+  it('keeps the global rule for override fields that are not set', async () => {
+    const profit = await calculate(
+      policy({
+        reagentRule: 'auctionOnly',
+        itemOverrides: { 100: { priceStatistic: 'latest' }, 200: { customPrice: 1500 } }
+      })
+    );
+
+    expect(profit.materialCosts[0].source).toBe('auctionator');
+    // a custom price alone does not switch the result away from the auction rule
+    expect(profit.sellPriceSource).toBe('auctionator');
+    expect(profit.resultUnitPrice).toBe(1000);
+  });
+});
+
+describe('ProfitCalculator craft-or-buy costing', () => {
+  const KIT = 900010;
+  const BOLT = 900011;
+  const CLOTH = 900012;
+  const DYE = 900013;
+  const ETERNAL = 900020;
+  const CRYSTAL = 900021;
+  const INGOT = 900030;
+  const BAR = 900031;
+  const PLATE = 900032;
+  const ORE = 900033;
+
+  const spell = (
+    spellId: number,
+    resultItemId: number,
+    reagents: Array<[number, number]>,
+    resultItemQuantity = 1
+  ): SpellRecord => ({
+    spellId,
+    professionId: 164,
+    name: `Spell ${spellId}`,
+    iconId: null,
+    minSkill: 1,
+    maxSkill: null,
+    trivialSkillLow: null,
+    trivialSkillHigh: null,
+    resultItemId,
+    resultItemQuantity,
+    reagents: reagents.map(([itemId, quantity]) => ({ itemId, quantity }))
+  });
+
+  // The recipe index is built once per module, so every test shares these.
+  const spells = [
+    spell(1, KIT, [
+      [BOLT, 2],
+      [DYE, 1]
+    ]),
+    spell(2, BOLT, [[CLOTH, 2]]),
+    // eternals and crystallized elements turn into each other
+    spell(3, ETERNAL, [[CRYSTAL, 10]]),
+    spell(4, CRYSTAL, [[ETERNAL, 1]], 10),
+    // ingots and bars turn into each other too, but ingots also come from ore
+    spell(5, INGOT, [[BAR, 1]]),
+    spell(6, INGOT, [[ORE, 1]]),
+    spell(7, BAR, [[INGOT, 1]]),
+    spell(8, PLATE, [[BAR, 1]])
+  ];
+
+  const craftRecipe = (materials: Array<[number, number]>): Recipe => ({
+    ...recipe(),
+    outputCount: 1,
+    materials: materials.map(([id, quantity]) => ({ item: item(id), quantity }))
+  });
+
+  beforeEach(() => {
+    jest.spyOn(gameDataRepository, 'getAvailableProfessionIds').mockReturnValue([164]);
+    jest
+      .spyOn(gameDataRepository, 'getRecipesByProfession')
+      .mockImplementation((professionId) => (professionId === 164 ? spells : []));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('crafts nested intermediates when that is cheaper than buying them', async () => {
+    const priceMap = new Map([
+      [KIT, 200],
+      [BOLT, 50],
+      [CLOTH, 10],
+      [DYE, 5]
+    ]);
+
+    const [direct] = await ProfitCalculator.calculateProfitsForRecipes([craftRecipe([[KIT, 1]])], {
+      priceMap
+    });
+    expect(direct.totalCost).toBe(200);
+
+    const [profit] = await ProfitCalculator.calculateProfitsForRecipes([craftRecipe([[KIT, 1]])], {
+      priceMap,
+      costingMode: 'craftOrBuy'
+    });
+
+    const [kit] = profit.materialCosts;
+    expect(kit).toMatchObject({ source: 'crafted', unitPrice: 45, buyPrice: 200 });
+    expect(kit.crafted?.recipeId).toBe(1);
+    expect(kit.crafted?.materialCosts[0]).toMatchObject({
+      itemId: BOLT,
+      source: 'crafted',
+      unitPrice: 20,
+      buyPrice: 50
+    });
+    expect(profit.totalCost).toBe(45);
+  });
+
+  it('buys an intermediate that costs more to craft', async () => {
+    const [profit] = await ProfitCalculator.calculateProfitsForRecipes([craftRecipe([[KIT, 1]])], {
+      priceMap: new Map([
+        [KIT, 200],
+        [BOLT, 50],
+        [CLOTH, 30],
+        [DYE, 5]
+      ]),
+      costingMode: 'craftOrBuy'
+    });
+
+    const [kit] = profit.materialCosts;
+    expect(kit.unitPrice).toBe(105);
+    expect(kit.crafted?.materialCosts[0]).toMatchObject({ source: 'auctionator', unitPrice: 50 });
+  });
+
+  it('buys what lies below the maximum craft depth', async () => {
+    const [profit] = await ProfitCalculator.calculateProfitsForRecipes([craftRecipe([[KIT, 1]])], {
+      priceMap: new Map([
+        [KIT, 200],
+        [BOLT, 50],
+        [CLOTH, 10],
+        [DYE, 5]
+      ]),
+      costingMode: 'craftOrBuy',
+      maxCraftDepth: 1
+    });
+
+    expect(profit.materialCosts[0].unitPrice).toBe(105);
+  });
+
+  it('buys an item again instead of following a recipe cycle', async () => {
+    const [profit] = await ProfitCalculator.calculateProfitsForRecipes(
+      [craftRecipe([[ETERNAL, 1]])],
+      {
+        priceMap: new Map([
+          [ETERNAL, 1000],
+          [CRYSTAL, 50]
+        ]),
+        costingMode: 'craftOrBuy'
+      }
+    );
+
+    const [eternal] = profit.materialCosts;
+    expect(eternal.unitPrice).toBe(500);
+    expect(eternal.crafted?.materialCosts[0]).toMatchObject({
+      itemId: CRYSTAL,
+      source: 'auctionator',
+      unitPrice: 50
+    });
+
+    // crystals can only be made from the eternal being costed, so it is bought
+    const [withoutCrystals] = await ProfitCalculator.calculateProfitsForRecipes(
+      [craftRecipe([[ETERNAL, 1]])],
+      { priceMap: new Map([[ETERNAL, 1000]]), costingMode: 'craftOrBuy' }
+    );
+    expect(withoutCrystals.materialCosts[0]).toMatchObject({ source: 'auctionator', unitPrice: 1000 });
+  });
+
+  it('does not reuse a crafted cost worked out with a cycle cut above it', async () => {
+    const [profit] = await ProfitCalculator.calculateProfitsForRecipes(
+      [
+        craftRecipe([
+          [INGOT, 1],
+          [PLATE, 1]
+        ])
+      ],
+      {
+        priceMap: new Map([
+          [INGOT, 100],
+          [BAR, 100],
+          [PLATE, 100],
+          [ORE, 1]
+        ]),
+        costingMode: 'craftOrBuy'
+      }
+    );
+
+    // Under the ingot the bar is priced with ingots bought, as the ingot is
+    // already on the path; under the plate the bar is made from an ingot
+    // smelted from ore.
+    const [ingot, plate] = profit.materialCosts;
+    expect(ingot).toMatchObject({ source: 'crafted', unitPrice: 1 });
+    expect(plate).toMatchObject({ source: 'crafted', unitPrice: 1 });
+    expect(plate.crafted?.materialCosts[0]).toMatchObject({
+      itemId: BAR,
+      source: 'crafted',
+      unitPrice: 1
+    });
+    expect(profit.totalCost).toBe(2);
+  });
+});
+
+describe('ProfitCalculator stale prices', () => {
+  const estimate = (price: number, isStale: boolean): PriceEstimate => ({
+    price,
+    statistic: 'median',
+    sampleSize: 3,
+    updatedAt: '2025-01-10T12:00:00.000Z',
+    volatility: null,
+    isStale
+  });
+
+  const calculate = () =>
+    ProfitCalculator.calculateProfitsForRecipes(
+      [recipe(50), { ...recipe(50), id: 2, name: 'Recipe 2', resultItem: item(201, 50) }],
+      {
+        priceMap: new Map([
+          [100, 100],
+          [200, 1000],
+          [201, 3000]
+        ]),
+        priceEstimates: new Map([
+          [100, estimate(100, false)],
+          [200, estimate(1000, false)],
+          [201, estimate(3000, true)]
+        ])
+      }
+    );
+
+  it('marks recipes whose result or reagents rest on stale prices', async () => {
+    const [fresh, stale] = await calculate();
+
+    expect(fresh.hasStalePrices).toBe(false);
+    expect(stale.hasStalePrices).toBe(true);
+    expect(stale.profit).toBeGreaterThan(fresh.profit);
+  });
+
+  it('ranks them after recipes on fresh prices despite a higher profit', async () => {
+    const profits = await calculate();
+    const order = (sorted: typeof profits) => sorted.map(({ recipe: { id } }) => id);
+
+    expect(order(ProfitCalculator.sortProfits(profits, 'profit'))).toEqual([1, 2]);
+    expect(order(ProfitCalculator.sortProfits(profits, 'profitPercent'))).toEqual([1, 2]);
+    expect(order(ProfitCalculator.rankByProfitability(profits))).toEqual([1, 2]);
+    expect(order(ProfitCalculator.sortProfits(profits, 'liquidityProfit'))).toEqual([1, 2]);
+  });
+});
+
+describe('ProfitCalculator fees with the bundled game data', () => {
+  const dbDir = path.join(__dirname, '..', '..', 'public', 'db');
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    setDbFileReader((fileName) => fs.promises.readFile(path.join(dbDir, fileName), 'utf8'));
+    await CraftingDataService.load();
+  });
+
+  afterAll(() => {
+    setDbFileReader(null);
+    jest.restoreAllMocks();
+  });
+
+  it('charges the deposit from the shipped vendor sell prices', async () => {
+    const leatherworking = PROFESSIONS.find((profession) => profession.name === 'Leatherworking');
+    const recipes = await CraftingDataService.getRecipesForProfession(leatherworking!);
+    const boots = recipes.find((candidate) => candidate.resultItem.id === 2302);
+    expect(boots?.resultItem.name).toBe('Handstitched Leather Boots');
+    expect(boots?.resultItem.sellPrice).toBe(29);
+
+    const [profit] = await ProfitCalculator.calculateProfitsForRecipes([boots!], {
+      priceMap: new Map([
+        [2302, 2000],
+        [2318, 10],
+        [2320, 5]
+      ]),
+      auctionFees: fees({ listingDuration: 12, expectedRelists: 2 })
+    });
+
+    expect(profit.fees).toEqual({
+      auctionCut: 100,
+      // 15% of the 29 copper vendor sell price, rounded
+      depositPerListing: 4,
+      depositLoss: 8,
+      total: 108,
+      isDepositKnown: true
+    });
+  });
+});
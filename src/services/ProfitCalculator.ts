@@ -1,40 +1,169 @@
-import { Recipe, CraftingProfit, MaterialCostInfo, PriceSource } from '../types';
-import { gameDataRepository } from './GameDataRepository';
+import {
+  AuctionFeeBreakdown,
+  AuctionFeeSettings,
+  AuctionHouseType,
+  CostingMode,
+  CraftedCostBreakdown,
+  Recipe,
+  CraftingProfit,
+  LiquidityScore,
+  MarginTrend,
+  MaterialCostInfo,
+  PriceEstimate,
+  PriceSource,
+  PricingPolicy,
+  ProfitSortOption,
+  PROFESSIONS
+} from '../types';
+import { gameDataRepository, SpellRecord } from './GameDataRepository';
+import { DEFAULT_CALCULATION_SETTINGS } from './CalculationSettings';
+import { CraftingDataService } from './CraftingDataService';
+import { Confidence } from './Confidence';
 
-interface ProfitCalculationOptions {
+export interface ProfitCalculationOptions {
   priceMap?: Map<number, number> | null;
+  // statistic and sample size behind each priceMap entry
+  priceEstimates?: Map<number, PriceEstimate> | null;
+  auctionFees?: AuctionFeeSettings;
+  costingMode?: CostingMode;
+  pricingPolicy?: PricingPolicy;
+  maxCraftDepth?: number;
+  // price ages are measured from here; defaults to the current time
+  now?: number;
+  // age at which auction prices count as stale for the confidence score
+  freshnessDays?: number;
 }
 
+const DEFAULT_MAX_CRAFT_DEPTH = 4;
+
+// Share of the buyout kept by the auction house on a successful sale.
+const AUCTION_CUT_RATE: Record<AuctionHouseType, number> = {
+  faction: 0.05,
+  neutral: 0.15
+};
+
+// Deposit as a share of the vendor sell price for a 12 hour listing;
+// 24h and 48h listings cost two and four times as much.
+const DEPOSIT_RATE_PER_12H: Record<AuctionHouseType, number> = {
+  faction: 0.15,
+  neutral: 0.75
+};
+
+const EMPTY_FEES: AuctionFeeBreakdown = {
+  auctionCut: 0,
+  depositPerListing: 0,
+  depositLoss: 0,
+  total: 0,
+  isDepositKnown: true
+};
+
 interface ResolvedPrice {
   value: number | null;
   source: PriceSource;
 }
 
+interface ResolvedReagentPrice extends ResolvedPrice {
+  vendorPrice: number | null;
+  auctionPrice: number | null;
+}
+
+// Result values that are sold through the auction house and so pay its fees.
+const AUCTION_SOLD_SOURCES: PriceSource[] = ['auctionator', 'custom'];
+
+// What costing a crafted item looked at below it, so a cached cost is only
+// reused on paths it does not depend on.
+interface CraftTrace {
+  // items whose crafting cost was worked out, this one included
+  expanded: Set<number>;
+  // items bought instead of crafted because they were already on the path
+  cutAt: Set<number>;
+}
+
+interface CachedCraftedCost {
+  // null marks items that cannot be crafted from priced reagents
+  breakdown: CraftedCostBreakdown | null;
+  expanded: Set<number>;
+}
+
+interface CostingContext {
+  options?: ProfitCalculationOptions;
+  maxDepth: number;
+  // keyed by `${itemId}:${depth}`; only costs that do not depend on the path above them
+  craftedCosts: Map<string, CachedCraftedCost>;
+}
+
+const TRADE_SKILL_IDS = new Set(PROFESSIONS.map((profession) => profession.id));
+
+let recipesByResultItem: Map<number, SpellRecord[]> | null = null;
+
+const getRecipesByResultItem = (): Map<number, SpellRecord[]> => {
+  if (recipesByResultItem) {
+    return recipesByResultItem;
+  }
+
+  const index = new Map<number, SpellRecord[]>();
+  gameDataRepository.getAvailableProfessionIds().forEach((professionId) => {
+    if (!TRADE_SKILL_IDS.has(professionId)) {
+      return;
+    }
+
+    gameDataRepository.getRecipesByProfession(professionId).forEach((spell) => {
+      if (!spell.resultItemId || spell.reagents.length === 0) {
+        return;
+      }
+
+      const existing = index.get(spell.resultItemId);
+      if (existing) {
+        existing.push(spell);
+      } else {
+        index.set(spell.resultItemId, [spell]);
+      }
+    });
+  });
+
+  // the repository may not be loaded yet; only keep a populated index
+  if (index.size > 0) {
+    recipesByResultItem = index;
+  }
+
+  return index;
+};
+
+const restsOnStalePrice = (materialCosts: MaterialCostInfo[]): boolean =>
+  materialCosts.some((info) =>
+    info.source === 'crafted' && info.crafted
+      ? restsOnStalePrice(info.crafted.materialCosts)
+      : info.isPriceStale === true
+  );
+
+// Recipes that rest on stale prices rank after those on fresh prices in the
+// profit orderings; 0 when both or neither do.
+const compareFreshness = (a: CraftingProfit, b: CraftingProfit): number =>
+  a.hasStalePrices === b.hasStalePrices ? 0 : a.hasStalePrices ? 1 : -1;
+
 export class ProfitCalculator {
   static async calculateProfitsForRecipes(
     recipes: Recipe[],
     options?: ProfitCalculationOptions
   ): Promise<CraftingProfit[]> {
-    return recipes.map((recipe) => this.calculateProfitForRecipe(recipe, options));
+    const context: CostingContext = {
+      options,
+      maxDepth: options?.maxCraftDepth ?? DEFAULT_MAX_CRAFT_DEPTH,
+      craftedCosts: new Map()
+    };
+
+    return recipes.map((recipe) => this.calculateProfitForRecipe(recipe, context));
   }
 
   private static calculateProfitForRecipe(
     recipe: Recipe,
-    options?: ProfitCalculationOptions
+    context: CostingContext
   ): CraftingProfit {
-    const materialCosts: MaterialCostInfo[] = recipe.materials.map((material, index) => {
-      const resolved = this.resolvePrice(material.item.id, options?.priceMap);
-
-      return {
-        index,
-        itemId: material.item.id,
-        quantity: material.quantity,
-        unitPrice: resolved.value,
-        vendorPrice: resolved.vendorPrice,
-        auctionPrice: resolved.auctionPrice,
-        source: resolved.source
-      };
-    });
+    const { options } = context;
+    const visiting = new Set([recipe.resultItem.id]);
+    const materialCosts: MaterialCostInfo[] = recipe.materials.map((material, index) =>
+      this.resolveMaterialCost(material.item.id, material.quantity, index, context, 0, visiting)
+    );
 
     const totalCost = materialCosts.reduce((sum, info) => {
       const unitPrice = info.unitPrice ?? 0;
@@ -43,16 +172,33 @@ export class ProfitCalculator {
 
     const hasMissingMaterialPrices = materialCosts.some((info) => info.unitPrice === null);
 
-    const resolvedSellPrice = this.resolvePrice(recipe.resultItem.id, options?.priceMap);
+    const resolvedSellPrice = this.resolveResultPrice(recipe.resultItem.id, options);
     const resultUnitPrice = resolvedSellPrice.value;
     const sellPriceSource = resolvedSellPrice.source;
     const sellPrice = (resultUnitPrice ?? 0) * (recipe.outputCount || 1);
 
+    const fees =
+      AUCTION_SOLD_SOURCES.includes(sellPriceSource)
+        ? this.calculateAuctionFees(
+            sellPrice,
+            recipe.resultItem.sellPrice !== undefined
+              ? recipe.resultItem.sellPrice * (recipe.outputCount || 1)
+              : null,
+            options?.auctionFees ?? DEFAULT_CALCULATION_SETTINGS.auctionFees
+          )
+        : EMPTY_FEES;
+    const netSellPrice = sellPrice - fees.total;
+
     const isCalculable = !hasMissingMaterialPrices && resultUnitPrice !== null;
-    const profit = isCalculable ? sellPrice - totalCost : 0;
+    const grossProfit = isCalculable ? sellPrice - totalCost : 0;
+    const profit = isCalculable ? netSellPrice - totalCost : 0;
     const profitPercentage = isCalculable && totalCost > 0 ? (profit / totalCost) * 100 : 0;
     const roi = profitPercentage;
     const hasMissingPrices = hasMissingMaterialPrices || resultUnitPrice === null;
+    const resultPriceEstimate =
+      sellPriceSource === 'auctionator'
+        ? options?.priceEstimates?.get(recipe.resultItem.id) ?? null
+        : null;
 
     return {
       recipe,
@@ -60,48 +206,251 @@ export class ProfitCalculator {
       sellPrice,
       resultUnitPrice,
       sellPriceSource,
+      resultPriceEstimate,
+      fees,
+      netSellPrice,
+      grossProfit,
       profit,
       profitPercentage,
       roi,
       materialCosts,
       hasMissingPrices,
-      isCalculable
+      isCalculable,
+      hasStalePrices:
+        resultPriceEstimate?.isStale === true || restsOnStalePrice(materialCosts),
+      confidence: Confidence.assess({
+        recipe,
+        isCalculable,
+        sellPrice,
+        resultPriceEstimate,
+        materialCosts,
+        priceEstimates: options?.priceEstimates,
+        now: options?.now,
+        freshnessDays: options?.freshnessDays
+      })
     };
   }
 
-  private static resolvePrice(
+  /**
+   * Costs a reagent at its buy price or, in craftOrBuy mode, at the cost of
+   * crafting it when that is cheaper. `visiting` holds the items already on the
+   * current path so recipe cycles (e.g. eternals and crystallized elements)
+   * fall back to buying.
+   */
+  private static resolveMaterialCost(
     itemId: number,
-    priceMap?: Map<number, number> | null
-  ): ResolvedPrice & { vendorPrice?: number | null; auctionPrice?: number | null } {
-    const vendorPrice = gameDataRepository.getVendorPrice(itemId);
-    const auctionPrice = priceMap?.get(itemId) ?? null;
+    quantity: number,
+    index: number,
+    context: CostingContext,
+    depth: number,
+    visiting: Set<number>,
+    trace?: CraftTrace
+  ): MaterialCostInfo {
+    const resolved = this.resolveReagentPrice(itemId, context.options);
+    const info: MaterialCostInfo = {
+      index,
+      itemId,
+      quantity,
+      unitPrice: resolved.value,
+      vendorPrice: resolved.vendorPrice,
+      auctionPrice: resolved.auctionPrice,
+      source: resolved.source
+    };
 
-    if (vendorPrice !== undefined && vendorPrice !== null) {
-      return {
-        value: vendorPrice,
-        source: 'vendor',
-        vendorPrice,
-        auctionPrice
-      };
+    const estimate = context.options?.priceEstimates?.get(itemId);
+    if (resolved.source === 'auctionator' && estimate) {
+      info.priceStatistic = estimate.statistic;
+      info.sampleSize = estimate.sampleSize;
+      info.priceUpdatedAt = estimate.updatedAt;
+      info.isPriceStale = estimate.isStale ?? false;
     }
 
-    if (auctionPrice !== null) {
-      return {
-        value: auctionPrice,
-        source: 'auctionator',
-        vendorPrice: null,
-        auctionPrice
-      };
+    if (context.options?.costingMode !== 'craftOrBuy' || depth >= context.maxDepth) {
+      return info;
+    }
+    if (visiting.has(itemId)) {
+      trace?.cutAt.add(itemId);
+      return info;
+    }
+
+    const crafted = this.resolveCraftedCost(itemId, context, depth + 1, visiting, trace);
+    if (!crafted || (resolved.value !== null && crafted.unitCost >= resolved.value)) {
+      return info;
+    }
+
+    return {
+      ...info,
+      unitPrice: crafted.unitCost,
+      buyPrice: resolved.value,
+      crafted,
+      source: 'crafted'
+    };
+  }
+
+  private static resolveCraftedCost(
+    itemId: number,
+    context: CostingContext,
+    depth: number,
+    visiting: Set<number>,
+    parentTrace?: CraftTrace
+  ): CraftedCostBreakdown | null {
+    const cacheKey = `${itemId}:${depth}`;
+    const cached = context.craftedCosts.get(cacheKey);
+    if (cached && !Array.from(cached.expanded).some((expandedId) => visiting.has(expandedId))) {
+      cached.expanded.forEach((expandedId) => parentTrace?.expanded.add(expandedId));
+      return cached.breakdown;
+    }
+
+    const spells = getRecipesByResultItem().get(itemId) ?? [];
+    const nextVisiting = new Set(visiting);
+    nextVisiting.add(itemId);
+    const trace: CraftTrace = { expanded: new Set([itemId]), cutAt: new Set() };
+
+    let best: CraftedCostBreakdown | null = null;
+    spells.forEach((spell) => {
+      const materialCosts = spell.reagents.map((reagent, index) =>
+        this.resolveMaterialCost(
+          reagent.itemId,
+          reagent.quantity,
+          index,
+          context,
+          depth,
+          nextVisiting,
+          trace
+        )
+      );
+
+      if (materialCosts.some((info) => info.unitPrice === null)) {
+        return;
+      }
+
+      const outputCount = spell.resultItemQuantity || 1;
+      const totalCost = materialCosts.reduce(
+        (sum, info) => sum + (info.unitPrice ?? 0) * info.quantity,
+        0
+      );
+      const unitCost = totalCost / outputCount;
+
+      if (!best || unitCost < best.unitCost) {
+        best = {
+          recipeId: spell.spellId,
+          recipeName: spell.name,
+          outputCount,
+          materials: spell.reagents.map((reagent) => ({
+            item: CraftingDataService.getItem(reagent.itemId),
+            quantity: reagent.quantity
+          })),
+          materialCosts,
+          unitCost
+        };
+      }
+    });
+
+    // a cycle cut at an item above this one makes the cost depend on the path
+    const isPathIndependent = Array.from(trace.cutAt).every((cutId) => trace.expanded.has(cutId));
+    if (isPathIndependent) {
+      context.craftedCosts.set(cacheKey, { breakdown: best, expanded: trace.expanded });
     }
+    if (parentTrace) {
+      trace.expanded.forEach((expandedId) => parentTrace.expanded.add(expandedId));
+      trace.cutAt.forEach((cutId) => parentTrace.cutAt.add(cutId));
+    }
+    return best;
+  }
+
+  /**
+   * The deposit is refunded when the auction sells, so only listings that
+   * expire before the sale (the expected relists) forfeit it. Without a
+   * vendor sell value the deposit is unknown and left out.
+   */
+  static calculateAuctionFees(
+    saleAmount: number,
+    vendorSellValue: number | null,
+    settings: AuctionFeeSettings
+  ): AuctionFeeBreakdown {
+    const auctionCut = Math.round(saleAmount * AUCTION_CUT_RATE[settings.auctionHouse]);
+    const depositPerListing = Math.round(
+      (vendorSellValue ?? 0) *
+        DEPOSIT_RATE_PER_12H[settings.auctionHouse] *
+        (settings.listingDuration / 12)
+    );
+    const depositLoss = depositPerListing * Math.max(settings.expectedRelists, 0);
 
     return {
-      value: null,
-      source: 'unavailable',
-      vendorPrice: null,
-      auctionPrice: null
+      auctionCut,
+      depositPerListing,
+      depositLoss,
+      total: auctionCut + depositLoss,
+      isDepositKnown: vendorSellValue !== null
     };
   }
 
+  /**
+   * Reagents are priced by the reagent rule (per-item override first): the
+   * cheaper of vendor and auction, or only one of the two sources.
+   */
+  private static resolveReagentPrice(
+    itemId: number,
+    options?: ProfitCalculationOptions
+  ): ResolvedReagentPrice {
+    const policy = options?.pricingPolicy ?? DEFAULT_CALCULATION_SETTINGS.pricingPolicy;
+    const rule = policy.itemOverrides[itemId]?.reagentRule ?? policy.reagentRule;
+    const vendorPrice = gameDataRepository.getVendorPrice(itemId) ?? null;
+    const auctionPrice = options?.priceMap?.get(itemId) ?? null;
+
+    const candidates: ResolvedPrice[] = [];
+    if (rule !== 'auctionOnly' && vendorPrice !== null) {
+      candidates.push({ value: vendorPrice, source: 'vendor' });
+    }
+    if (rule !== 'vendorOnly' && auctionPrice !== null) {
+      candidates.push({ value: auctionPrice, source: 'auctionator' });
+    }
+
+    const cheapest = candidates.reduce<ResolvedPrice | null>(
+      (best, candidate) =>
+        !best || (candidate.value ?? Infinity) < (best.value ?? Infinity) ? candidate : best,
+      null
+    );
+
+    return {
+      value: cheapest?.value ?? null,
+      source: cheapest?.source ?? 'unavailable',
+      vendorPrice,
+      auctionPrice
+    };
+  }
+
+  /**
+   * Crafted items are valued by the result rule: the auction price, what a
+   * vendor pays for the item, or a custom price set on the item. There is no
+   * fallback between rules so an unavailable value stays visible.
+   */
+  private static resolveResultPrice(
+    itemId: number,
+    options?: ProfitCalculationOptions
+  ): ResolvedPrice {
+    const policy = options?.pricingPolicy ?? DEFAULT_CALCULATION_SETTINGS.pricingPolicy;
+    const override = policy.itemOverrides[itemId];
+    const rule = override?.resultRule ?? policy.resultRule;
+
+    let resolved: ResolvedPrice = { value: null, source: 'unavailable' };
+    if (rule === 'auction') {
+      const auctionPrice = options?.priceMap?.get(itemId);
+      if (auctionPrice !== undefined) {
+        resolved = { value: auctionPrice, source: 'auctionator' };
+      }
+    } else if (rule === 'vendorSell') {
+      const vendorSellPrice = gameDataRepository.getVendorSellPrice(itemId);
+      if (vendorSellPrice !== undefined && vendorSellPrice !== null) {
+        resolved = { value: vendorSellPrice, source: 'vendorSell' };
+      }
+    } else if (override?.customPrice !== undefined) {
+      resolved = { value: override.customPrice, source: 'custom' };
+    }
+
+    return resolved;
+  }
+
   static calculateAverageProfit(profits: CraftingProfit[]): {
     averageProfit: number;
     averageROI: number;
@@ -156,6 +505,68 @@ export class ProfitCalculator {
     });
   }
 
+  /**
+   * Recipes without a complete price sort last when ordering by profit. The
+   * liquidity orders use the score of the crafted item; without scores every
+   * item counts as illiquid.
+   */
+  static sortProfits(
+    profits: CraftingProfit[],
+    sortBy: ProfitSortOption,
+    liquidity: Map<number, LiquidityScore> | null = null,
+    marginTrends: Map<number, MarginTrend> | null = null
+  ): CraftingProfit[] {
+    const liquidityOf = (profit: CraftingProfit) =>
+      liquidity?.get(profit.recipe.resultItem.id)?.score ?? 0;
+    const marginTrendOf = (profit: CraftingProfit) => marginTrends?.get(profit.recipe.id) ?? null;
+
+    return [...profits].sort((a, b) => {
+      switch (sortBy) {
+        case 'profit':
+          if (a.isCalculable !== b.isCalculable) {
+            return a.isCalculable ? -1 : 1;
+          }
+          return compareFreshness(a, b) || b.profit - a.profit;
+        case 'profitPercent':
+          if (a.isCalculable !== b.isCalculable) {
+            return a.isCalculable ? -1 : 1;
+          }
+          return compareFreshness(a, b) || b.profitPercentage - a.profitPercentage;
+        case 'name':
+          return a.recipe.name.localeCompare(b.recipe.name);
+        case 'cost':
+          return a.totalCost - b.totalCost;
+        case 'liquidity':
+          return liquidityOf(b) - liquidityOf(a);
+        case 'liquidityProfit':
+          // profit discounted by how hard the item is to sell
+          if (a.isCalculable !== b.isCalculable) {
+            return a.isCalculable ? -1 : 1;
+          }
+          return (
+            compareFreshness(a, b) ||
+            (b.profit * liquidityOf(b)) / 100 - (a.profit * liquidityOf(a)) / 100
+          );
+        case 'confidence':
+          return b.confidence.score - a.confidence.score;
+        case 'marginIncrease':
+        case 'marginStability': {
+          // recipes without enough history to rebuild their margin go last
+          const trendA = marginTrendOf(a);
+          const trendB = marginTrendOf(b);
+          if (!trendA || !trendB) {
+            return trendA ? -1 : trendB ? 1 : 0;
+          }
+          return sortBy === 'marginIncrease'
+            ? trendB.change - trendA.change
+            : trendA.volatility - trendB.volatility;
+        }
+        default:
+          return 0;
+      }
+    });
+  }
+
   static rankByProfitability(profits: CraftingProfit[]): CraftingProfit[] {
     return [...profits].sort((a, b) => {
       if (a.isCalculable !== b.isCalculable) {
@@ -164,6 +575,10 @@ export class ProfitCalculator {
       if (!a.isCalculable && !b.isCalculable) {
         return 0;
       }
+      const freshness = compareFreshness(a, b);
+      if (freshness !== 0) {
+        return freshness;
+      }
       if (Math.abs(a.roi - b.roi) > 0.1) {
         return b.roi - a.roi;
       }
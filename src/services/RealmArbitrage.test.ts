@@ -0,0 +1,102 @@
+import { PriceStatisticSettings } from '../types';
+import type { AuctionatorParsedData, PriceHistoryEntry } from './AuctionatorDataService';
+import { ArbitrageOptions, RealmArbitrage } from './RealmArbitrage';
+
+const scan = (day: number, price: number): PriceHistoryEntry => ({
+  price,
+  importedAt: new Date(Date.UTC(2025, 0, day, 12)).toISOString(),
+  source: 'Auctionator.lua'
+});
+
+const dataset = (realms: Record<string, Array<[number, PriceHistoryEntry[]]>>): AuctionatorParsedData => ({
+  realms: new Map(Object.entries(realms).map(([realmKey, items]) => [realmKey, new Map(items)])),
+  importedAt: scan(10, 0).importedAt,
+  source: 'Auctionator.lua'
+});
+
+const priceStatistics: PriceStatisticSettings = {
+  statistic: 'latest',
+  windowDays: 7,
+  includeSuspicious: false,
+  freshnessDays: 14,
+  staleHandling: 'downweight'
+};
+
+const options = (overrides: Partial<ArbitrageOptions> = {}): ArbitrageOptions => ({
+  priceStatistics,
+  sortBy: 'absolute',
+  maxAgeDays: null,
+  now: Date.UTC(2025, 0, 10),
+  ...overrides
+});
+
+// item 1: 100 vs 150 (+50, 50%); item 2: 1000 vs 1300 (+300, 30%)
+const data = dataset({
+  Frostmourne_Alliance: [
+    [1, [scan(8, 100)]],
+    [2, [scan(8, 1300)]],
+    [3, [scan(8, 70)]]
+  ],
+  Frostmourne_Horde: [
+    [1, [scan(9, 150)]],
+    [2, [scan(9, 1000)]]
+  ],
+  Icecrown_Horde: [[1, [scan(9, 120)]]]
+});
+
+describe('RealmArbitrage.findOpportunities', () => {
+  it('pairs the cheapest and dearest realm of every item on several realms', () => {
+    const [first, second] = RealmArbitrage.findOpportunities(data, options());
+
+    expect(first).toMatchObject({ itemId: 2, spread: 300, spreadPercent: 30 });
+    expect(first.low).toMatchObject({ realmKey: 'Frostmourne_Horde', realm: 'Frostmourne', faction: 'Horde' });
+    expect(first.high.realmKey).toBe('Frostmourne_Alliance');
+
+    expect(second).toMatchObject({ itemId: 1, spread: 50, spreadPercent: 50 });
+    expect(second.quotes.map(({ price }) => price)).toEqual([100, 120, 150]);
+  });
+
+  it('ranks by relative spread and leaves out spreads below the minimum', () => {
+    expect(
+      RealmArbitrage.findOpportunities(data, options({ sortBy: 'relative' })).map(({ itemId }) => itemId)
+    ).toEqual([1, 2]);
+    expect(
+      RealmArbitrage.findOpportunities(data, options({ minSpreadPercent: 40 })).map(({ itemId }) => itemId)
+    ).toEqual([1]);
+  });
+
+  it('prices each realm with the selected statistic', () => {
+    const history = dataset({
+      Frostmourne_Alliance: [[1, [scan(7, 100), scan(8, 100), scan(9, 400)]]],
+      Frostmourne_Horde: [[1, [scan(9, 150)]]]
+    });
+
+    const [latest] = RealmArbitrage.findOpportunities(history, options());
+    expect(latest.high.realmKey).toBe('Frostmourne_Alliance');
+
+    const [median] = RealmArbitrage.findOpportunities(
+      history,
+      options({ priceStatistics: { ...priceStatistics, statistic: 'median' } })
+    );
+    expect(median.low).toMatchObject({ realmKey: 'Frostmourne_Alliance', price: 100 });
+  });
+
+  it('drops quotes older than the maximum age, and undated ones with them', () => {
+    const aged = dataset({
+      Frostmourne_Alliance: [
+        [1, [scan(2, 100)]],
+        [2, [{ ...scan(9, 1300), importedAt: 'not a date' }]]
+      ],
+      Frostmourne_Horde: [
+        [1, [scan(9, 150)]],
+        [2, [scan(9, 1000)]]
+      ],
+      Icecrown_Horde: [[1, [scan(9, 120)]]]
+    });
+
+    const [opportunity, ...rest] = RealmArbitrage.findOpportunities(aged, options({ maxAgeDays: 3 }));
+    expect(rest).toEqual([]);
+    expect(opportunity).toMatchObject({ itemId: 1, spread: 30 });
+    expect(opportunity.low.realmKey).toBe('Icecrown_Horde');
+  });
+});
@@ -0,0 +1,121 @@
+import { PriceStatisticSettings, ServerInfo } from '../types';
+import { DAY_MS, entryTimestamp } from '../utils/common';
+import { AuctionatorDataService, AuctionatorParsedData } from './AuctionatorDataService';
+import { PriceStatistics } from './PriceStatistics';
+
+export type ArbitrageSort = 'absolute' | 'relative';
+
+export interface RealmQuote {
+  realmKey: string;
+  realm: string;
+  faction: ServerInfo['faction'];
+  price: number;
+  updatedAt: string;
+}
+
+export interface ArbitrageOpportunity {
+  itemId: number;
+  low: RealmQuote;
+  high: RealmQuote;
+  quotes: RealmQuote[];
+  spread: number;
+  spreadPercent: number;
+}
+
+export interface ArbitrageOptions {
+  priceStatistics: PriceStatisticSettings;
+  sortBy: ArbitrageSort;
+  // quotes older than this are ignored; null keeps every quote
+  maxAgeDays: number | null;
+  minSpreadPercent?: number;
+  now?: number;
+}
+
+const collectQuotes = (
+  data: AuctionatorParsedData,
+  options: ArbitrageOptions
+): Map<number, RealmQuote[]> => {
+  const quotesByItem = new Map<number, RealmQuote[]>();
+  const now = options.now ?? Date.now();
+  const oldestAllowed =
+    options.maxAgeDays === null ? -Infinity : now - options.maxAgeDays * DAY_MS;
+
+  data.realms.forEach((history, realmKey) => {
+    const { realm, faction } = AuctionatorDataService.parseRealmKey(realmKey);
+
+    history.forEach((entries, itemId) => {
+      const latest = entries[entries.length - 1];
+      if (!latest || entryTimestamp(latest) < oldestAllowed) {
+        return;
+      }
+
+      const estimate = PriceStatistics.estimate(
+        entries,
+        options.priceStatistics.statistic,
+        options.priceStatistics.windowDays,
+        options.priceStatistics.includeSuspicious
+      );
+      if (!estimate) {
+        return;
+      }
+
+      const quotes = quotesByItem.get(itemId) ?? [];
+      quotes.push({
+        realmKey,
+        realm,
+        faction,
+        price: estimate.price,
+        updatedAt: latest.importedAt
+      });
+      quotesByItem.set(itemId, quotes);
+    });
+  });
+
+  return quotesByItem;
+};
+
+export const RealmArbitrage = {
+  /**
+   * Compares each item across the stored realm datasets. Stale quotes are
+   * dropped before the cheapest and most expensive realm are picked, so an
+   * item is only listed while both sides of the spread are fresh.
+   */
+  findOpportunities(
+    data: AuctionatorParsedData,
+    options: ArbitrageOptions
+  ): ArbitrageOpportunity[] {
+    const opportunities: ArbitrageOpportunity[] = [];
+    const minSpreadPercent = options.minSpreadPercent ?? 0;
+
+    collectQuotes(data, options).forEach((quotes, itemId) => {
+      if (quotes.length < 2) {
+        return;
+      }
+
+      const sorted = [...quotes].sort((a, b) => a.price - b.price);
+      const low = sorted[0];
+      const high = sorted[sorted.length - 1];
+      const spread = high.price - low.price;
+      const spreadPercent = low.price > 0 ? (spread / low.price) * 100 : 0;
+
+      if (spread <= 0 || spreadPercent < minSpreadPercent) {
+        return;
+      }
+
+      opportunities.push({
+        itemId,
+        low,
+        high,
+        quotes: sorted,
+        spread,
+        spreadPercent
+      });
+    });
+
+    return opportunities.sort((a, b) =>
+      options.sortBy === 'relative'
+        ? b.spreadPercent - a.spreadPercent || b.spread - a.spread
+        : b.spread - a.spread || b.spreadPercent - a.spreadPercent
+    );
+  }
+};
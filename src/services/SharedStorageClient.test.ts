@@ -0,0 +1,144 @@
+import { SharedStorageClient, StorageConflictError } from './SharedStorageClient';
+
+type Reply = { status: number; body?: unknown; etag?: string };
+
+// the parts of a fetch Response the client reads
+const reply = ({ status, body, etag }: Reply) => {
+  const text = body === undefined ? '' : JSON.stringify(body);
+  return {
+    status,
+    ok: status >= 200 && status < 300,
+    headers: { get: (name: string) => (name === 'ETag' && etag ? etag : null) },
+    text: async () => text,
+    json: async () => JSON.parse(text)
+  };
+};
+
+let fetchMock: jest.Mock;
+
+// answers the requests in order
+const serve = (...replies: Reply[]) => {
+  replies.forEach((next) => fetchMock.mockResolvedValueOnce(reply(next)));
+};
+
+const sentHeaders = (call: number) => fetchMock.mock.calls[call][1].headers as Record<string, string>;
+const sentBody = (call: number) => JSON.parse(fetchMock.mock.calls[call][1].body);
+
+beforeEach(() => {
+  fetchMock = jest.fn();
+  global.fetch = fetchMock;
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  jest.spyOn(console, 'info').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// versions are remembered per key for the lifetime of the module, so every
+// test works on its own key
+describe('SharedStorageClient versions', () => {
+  it('writes without a precondition to a key it has not read', async () => {
+    serve({ status: 204, etag: '"v1"' });
+
+    await SharedStorageClient.writeJson('fresh-key', { a: 1 });
+    expect(sentHeaders(0)).toEqual({ 'Content-Type': 'application/json' });
+  });
+
+  it('sends the ETag it last saw and adopts the one a write returns', async () => {
+    serve({ status: 200, body: { a: 1 }, etag: '"v1"' }, { status: 204, etag: '"v2"' }, { status: 204 });
+
+    expect(await SharedStorageClient.readJson('versioned-key')).toEqual({ a: 1 });
+    await SharedStorageClient.writeJson('versioned-key', { a: 2 });
+    await SharedStorageClient.writeJson('versioned-key', { a: 3 });
+
+    expect(sentHeaders(1)['If-Match']).toBe('"v1"');
+    expect(sentHeaders(2)['If-Match']).toBe('"v2"');
+  });
+
+  it('only creates a key it has seen empty', async () => {
+    serve({ status: 404 }, { status: 204, etag: '"v1"' });
+
+    expect(await SharedStorageClient.readJson('empty-key')).toBeNull();
+    await SharedStorageClient.writeJson('empty-key', { a: 1 });
+
+    expect(sentHeaders(1)['If-None-Match']).toBe('*');
+    expect(sentHeaders(1)['If-Match']).toBeUndefined();
+  });
+
+  it('raises a conflict with the server copy and retries against its version', async () => {
+    serve(
+      { status: 200, body: { a: 1 }, etag: '"v1"' },
+      { status: 409, body: { version: '"v5"', current: { a: 5 } } },
+      { status: 204, etag: '"v6"' }
+    );
+
+    await SharedStorageClient.readJson('conflict-key');
+    const conflict = await SharedStorageClient.writeJson('conflict-key', { a: 2 }).catch((error) => error);
+
+    expect(conflict).toBeInstanceOf(StorageConflictError);
+    expect(conflict).toMatchObject({ key: 'conflict-key', currentVersion: '"v5"', current: { a: 5 } });
+
+    await SharedStorageClient.writeJson('conflict-key', { a: 6 });
+    expect(sentHeaders(2)['If-Match']).toBe('"v5"');
+  });
+
+  it('adopts the version of a posted change only when it was applied to its copy', async () => {
+    serve(
+      { status: 200, body: {}, etag: '"v1"' },
+      { status: 200, body: { reviewed: 1, previousVersion: '"v1"' }, etag: '"v2"' },
+      { status: 200, body: { reviewed: 1, previousVersion: '"v7"' }, etag: '"v8"' },
+      { status: 204 }
+    );
+
+    await SharedStorageClient.readJson('posted-key');
+    await SharedStorageClient.postChange('posted-key', '/review', {});
+    // applied to a newer copy than this client's, so its copy is still "v2"
+    await SharedStorageClient.postChange('posted-key', '/review', {});
+    await SharedStorageClient.writeJson('posted-key', {});
+
+    expect(sentHeaders(3)['If-Match']).toBe('"v2"');
+  });
+});
+
+describe('SharedStorageClient.writeJsonMerged', () => {
+  const mergeLists = (current: unknown, local: number[]) =>
+    Array.from(new Set([...(current as number[]), ...local]));
+
+  it('merges into the server copy on a conflict and stores the result', async () => {
+    serve(
+      { status: 200, body: [1], etag: '"v1"' },
+      { status: 409, body: { version: '"v2"', current: [1, 2] } },
+      { status: 204, etag: '"v3"' }
+    );
+
+    await SharedStorageClient.readJson('merged-key');
+    const stored = await SharedStorageClient.writeJsonMerged('merged-key', [1, 3], mergeLists);
+
+    expect(stored).toEqual([1, 2, 3]);
+    expect(sentBody(2)).toEqual([1, 2, 3]);
+    expect(sentHeaders(2)['If-Match']).toBe('"v2"');
+  });
+
+  it('gives up after three conflicting attempts', async () => {
+    serve(
+      { status: 409, body: { version: '"v2"', current: [2] } },
+      { status: 409, body: { version: '"v3"', current: [3] } },
+      { status: 409, body: { version: '"v4"', current: [4] } }
+    );
+
+    await expect(SharedStorageClient.writeJsonMerged('busy-key', [1], mergeLists)).rejects.toBeInstanceOf(
+      StorageConflictError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other failures', async () => {
+    serve({ status: 500 });
+
+    await expect(SharedStorageClient.writeJsonMerged('broken-key', [1], mergeLists)).rejects.toThrow(
+      'Unexpected status code 500'
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -2,6 +2,46 @@ const API_BASE_URL = process.env.REACT_APP_API_URL || '/api';
 
 const storageEndpoint = (key: string): string => `${API_BASE_URL}/storage/${key}`;
 
+const MAX_WRITE_ATTEMPTS = 3;
+
+/**
+ * Raised when the server rejects a write because the key changed since this
+ * client last saw it. Carries the server's current version and payload so the
+ * caller can merge without another round trip.
+ */
+export class StorageConflictError extends Error {
+  constructor(
+    readonly key: string,
+    readonly currentVersion: string | null,
+    readonly current: unknown
+  ) {
+    super(`Storage key ${key} was changed by another client`);
+    this.name = 'StorageConflictError';
+    Object.setPrototypeOf(this, StorageConflictError.prototype);
+  }
+}
+
+// Last version seen per key; null means the key was known to be empty.
+const knownVersions = new Map<string, string | null>();
+
+const rememberVersion = (key: string, version: string | null) => {
+  if (version) {
+    knownVersions.set(key, version);
+  } else {
+    // without a version the next write cannot be checked, so it is sent unconditionally
+    knownVersions.delete(key);
+  }
+};
+
+const preconditionHeaders = (key: string): Record<string, string> => {
+  if (!knownVersions.has(key)) {
+    return {};
+  }
+
+  const version = knownVersions.get(key);
+  return version ? { 'If-Match': version } : { 'If-None-Match': '*' };
+};
+
 const parseJsonResponse = async (response: Response) => {
   if (response.status === 204) {
     return null;
@@ -24,15 +64,23 @@ export const SharedStorageClient = {
   async readJson<T = unknown>(key: string): Promise<T | null> {
     const endpoint = storageEndpoint(key);
     try {
+      // every key is versioned by its ETag; a cached body would carry an old
+      // version and turn the next write into a conflict, so always revalidate
       const response = await fetch(endpoint, {
         method: 'GET',
-        cache: 'default' // Use browser's HTTP cache
+        cache: 'no-cache'
       });
 
       if (!response.ok && response.status !== 404) {
         throw new Error(`Unexpected status code ${response.status}`);
       }
 
+      if (response.status === 204 || response.status === 404) {
+        knownVersions.set(key, null);
+      } else {
+        rememberVersion(key, response.headers.get('ETag'));
+      }
+
       if (response.status === 404) {
         return null;
       }
@@ -44,22 +92,97 @@ export const SharedStorageClient = {
     }
   },
 
-  async writeJson(key: string, payload: unknown): Promise<void> {
+  async writeJson(
+    key: string,
+    payload: unknown,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<void> {
     const endpoint = storageEndpoint(key);
     try {
       const response = await fetch(endpoint, {
         method: 'PUT',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...preconditionHeaders(key),
+          ...extraHeaders
         },
         body: JSON.stringify(payload)
       });
 
+      if (response.status === 409) {
+        const body = await response.json().catch(() => null);
+        const currentVersion = typeof body?.version === 'string' ? body.version : null;
+        // a missing version means the key was deleted in the meantime
+        knownVersions.set(key, currentVersion);
+        throw new StorageConflictError(key, currentVersion, body?.current ?? null);
+      }
+
       if (!response.ok) {
         throw new Error(`Unexpected status code ${response.status}`);
       }
+
+      rememberVersion(key, response.headers.get('ETag'));
+    } catch (error) {
+      if (!(error instanceof StorageConflictError)) {
+        console.error(`[SharedStorageClient] Failed to persist ${key} data`, error);
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Writes `payload`, and when another client changed the key in the meantime
+   * merges the local payload into theirs and tries again. Resolves with the
+   * payload that was finally stored.
+   */
+  async writeJsonMerged<T>(
+    key: string,
+    payload: T,
+    merge: (current: unknown, local: T) => T,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<T> {
+    let next = payload;
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt += 1) {
+      try {
+        await this.writeJson(key, next, extraHeaders);
+        return next;
+      } catch (error) {
+        if (!(error instanceof StorageConflictError) || attempt === MAX_WRITE_ATTEMPTS) {
+          throw error;
+        }
+        console.info(`[SharedStorageClient] ${key} changed on the server, merging and retrying`);
+        next = merge(error.current, next);
+      }
+    }
+    return next;
+  },
+
+  /**
+   * Posts to an endpoint that changes `key` on the server in place. The new
+   * version is only adopted when the server reports applying the change to
+   * the version this client last saw; otherwise the local copy is behind and
+   * the next write has to conflict and merge.
+   */
+  async postChange<T = unknown>(key: string, endpoint: string, body: unknown): Promise<T> {
+    try {
+      const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+
+      const result = await parseJsonResponse(response).catch(() => null);
+      if (!response.ok) {
+        throw new Error(result?.error ?? `Unexpected status code ${response.status}`);
+      }
+
+      const previousVersion = typeof result?.previousVersion === 'string' ? result.previousVersion : null;
+      if (previousVersion && knownVersions.get(key) === previousVersion) {
+        rememberVersion(key, response.headers.get('ETag'));
+      }
+      return result as T;
     } catch (error) {
-      console.error(`[SharedStorageClient] Failed to persist ${key} data`, error);
+      console.error(`[SharedStorageClient] Failed to post a change to ${key}`, error);
       throw error;
     }
   },
@@ -74,6 +197,8 @@ export const SharedStorageClient = {
       if (!response.ok && response.status !== 404) {
         throw new Error(`Unexpected status code ${response.status}`);
       }
+
+      knownVersions.set(key, null);
     } catch (error) {
       console.error(`[SharedStorageClient] Failed to clear ${key} data`, error);
       throw error;
@@ -0,0 +1,154 @@
+import { Item, PROFESSIONS, Recipe } from '../types';
+import { ProfitCalculator } from './ProfitCalculator';
+import { SkillRange, SkillUpPlanner } from './SkillUpPlanner';
+
+const item = (id: number): Item => ({
+  id,
+  name: `Item ${id}`,
+  icon: '',
+  quality: 'Common',
+  itemLevel: 1,
+  stackSize: 20
+});
+
+const recipe = (
+  id: number,
+  skillLevel: number,
+  trivial: [number, number] | null,
+  reagents: [number, number][]
+): Recipe => ({
+  id,
+  name: `Recipe ${id}`,
+  profession: PROFESSIONS[0],
+  skillLevel,
+  trivialSkillLow: trivial?.[0] ?? null,
+  trivialSkillHigh: trivial?.[1] ?? null,
+  resultItem: item(id + 1000),
+  outputCount: 1,
+  materials: reagents.map(([itemId, quantity]) => ({ item: item(itemId), quantity })),
+  category: 'Test'
+});
+
+const range: SkillRange = { required: 1, yellow: 30, grey: 60, isEstimated: false };
+
+describe('SkillUpPlanner.getRange', () => {
+  it('uses the trivial range from the game data', () => {
+    expect(SkillUpPlanner.getRange(recipe(1, 50, [55, 75], []))).toEqual({
+      required: 50,
+      yellow: 55,
+      grey: 75,
+      isEstimated: false
+    });
+  });
+
+  it('keeps recipes that turn yellow below their required skill', () => {
+    expect(SkillUpPlanner.getRange(recipe(1, 50, [45, 70], []))?.isEstimated).toBe(false);
+  });
+
+  it('estimates the range from the required skill when it is missing', () => {
+    expect(SkillUpPlanner.getRange(recipe(1, 50, null, []))).toEqual({
+      required: 50,
+      yellow: 70,
+      grey: 90,
+      isEstimated: true
+    });
+    expect(SkillUpPlanner.getRange(recipe(1, 50, [0, 0], []))?.isEstimated).toBe(true);
+  });
+
+  it('cannot plan with recipes whose required skill is unknown', () => {
+    expect(SkillUpPlanner.getRange(recipe(1, 0, [55, 75], []))).toBeNull();
+  });
+});
+
+describe('SkillUpPlanner chance and color', () => {
+  it('gives a point for sure while orange, then less up to grey', () => {
+    expect(SkillUpPlanner.chance({ ...range, required: 10 }, 5)).toBe(0);
+    expect(SkillUpPlanner.chance(range, 29)).toBe(1);
+    expect(SkillUpPlanner.chance(range, 45)).toBe(0.5);
+    expect(SkillUpPlanner.chance(range, 60)).toBe(0);
+  });
+
+  it('colors the recipe by the skill', () => {
+    expect(SkillUpPlanner.getColor(range, 29)).toBe('orange');
+    expect(SkillUpPlanner.getColor(range, 30)).toBe('yellow');
+    expect(SkillUpPlanner.getColor(range, 45)).toBe('green');
+    expect(SkillUpPlanner.getColor(range, 60)).toBe('grey');
+  });
+});
+
+describe('SkillUpPlanner.plan', () => {
+  const cheap = recipe(1, 1, [30, 60], [[100, 2]]);
+  const dear = recipe(2, 1, [50, 80], [[101, 1]]);
+  const unpriced = recipe(3, 1, [40, 70], [[102, 1]]);
+  const priceMap = new Map([
+    [100, 5],
+    [101, 30]
+  ]);
+
+  const planFor = async (currentSkill: number, targetSkill: number) => {
+    const profits = await ProfitCalculator.calculateProfitsForRecipes([cheap, dear, unpriced], {
+      priceMap
+    });
+    return SkillUpPlanner.plan(profits, { currentSkill, targetSkill });
+  };
+
+  it('uses the recipe with the cheapest expected cost of each point', async () => {
+    const plan = await planFor(1, 60);
+
+    // at 50 both cost 30 a point, and the recipe with the surer skill-up wins
+    expect(plan.steps.map((step) => [step.recipe.id, step.fromSkill, step.toSkill])).toEqual([
+      [1, 1, 50],
+      [2, 50, 60]
+    ]);
+    expect(plan.reachedSkill).toBe(60);
+    expect(plan.skippedRecipeCount).toBe(1);
+  });
+
+  it('rounds crafts up per step and totals the reagents', async () => {
+    const plan = await planFor(1, 30);
+
+    expect(plan.steps).toHaveLength(1);
+    expect(plan.steps[0]).toMatchObject({ crafts: 29, cost: 290, color: 'orange' });
+    expect(plan.totalCrafts).toBe(29);
+    expect(plan.expectedCost).toBe(290);
+    expect(plan.shoppingList).toEqual([
+      { itemId: 100, quantity: 58, unitPrice: 5, cost: 290, source: 'auctionator' }
+    ]);
+  });
+
+  it('prices the shopping list by the rounded quantities', async () => {
+    const profits = await ProfitCalculator.calculateProfitsForRecipes([cheap], { priceMap });
+    // the reagent is crafted three at a time from two of item 100
+    profits[0].materialCosts = [
+      {
+        index: 0,
+        itemId: 500,
+        quantity: 1,
+        unitPrice: 10 / 3,
+        source: 'crafted',
+        crafted: {
+          recipeId: 9,
+          recipeName: 'Recipe 9',
+          outputCount: 3,
+          materials: [{ item: item(100), quantity: 2 }],
+          materialCosts: [{ index: 0, itemId: 100, quantity: 2, unitPrice: 5, source: 'auctionator' }],
+          unitCost: 10 / 3
+        }
+      }
+    ];
+
+    const plan = SkillUpPlanner.plan(profits, { currentSkill: 1, targetSkill: 30 });
+
+    // 29 crafts take 9 2/3 batches, so 19 1/3 of item 100, bought as 20
+    expect(plan.shoppingList).toEqual([
+      { itemId: 100, quantity: 20, unitPrice: 5, cost: 100, source: 'auctionator' }
+    ]);
+  });
+
+  it('stops where no priced recipe gives skill-ups', async () => {
+    const plan = await planFor(70, 90);
+
+    expect(plan.reachedSkill).toBe(80);
+    expect(plan.steps[plan.steps.length - 1].toSkill).toBe(80);
+  });
+});
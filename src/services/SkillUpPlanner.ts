@@ -0,0 +1,258 @@
+import { CraftingProfit, MaterialCostInfo, PriceSource, Recipe } from '../types';
+
+export type SkillUpColor = 'orange' | 'yellow' | 'green' | 'grey';
+
+// Offsets from the required skill used when a recipe has no trivial range in
+// the game data: yellow from +20, green from +30, grey from +40.
+const ESTIMATED_YELLOW_OFFSET = 20;
+const ESTIMATED_GREY_OFFSET = 40;
+
+export interface SkillRange {
+  required: number;
+  // skill at which the recipe turns yellow (trivialSkillLow)
+  yellow: number;
+  // skill at which the recipe turns grey (trivialSkillHigh)
+  grey: number;
+  isEstimated: boolean;
+}
+
+export interface SkillUpStep {
+  recipe: Recipe;
+  fromSkill: number;
+  toSkill: number;
+  // color at the first point of the step
+  color: SkillUpColor;
+  expectedCrafts: number;
+  // expected crafts rounded up, the number to prepare reagents for
+  crafts: number;
+  cost: number;
+  resaleValue: number;
+  isRangeEstimated: boolean;
+}
+
+export interface ShoppingListEntry {
+  itemId: number;
+  quantity: number;
+  unitPrice: number;
+  cost: number;
+  source: PriceSource;
+}
+
+export interface SkillUpPlan {
+  currentSkill: number;
+  targetSkill: number;
+  // skill the plan gets to; below the target when no priced recipe can go further
+  reachedSkill: number;
+  steps: SkillUpStep[];
+  shoppingList: ShoppingListEntry[];
+  totalCrafts: number;
+  expectedCost: number;
+  resaleValue: number;
+  // recipes left out because a reagent has no price or the required skill is unknown
+  skippedRecipeCount: number;
+}
+
+export interface SkillUpPlanOptions {
+  currentSkill: number;
+  targetSkill: number;
+  // choose recipes by cost after selling the products instead of by reagent cost
+  subtractResale?: boolean;
+}
+
+interface Candidate {
+  profit: CraftingProfit;
+  range: SkillRange;
+  resaleValue: number;
+}
+
+// Some recipes turn yellow below their required skill and are never orange.
+const isUsableRange = (yellow: number | null | undefined, grey: number | null | undefined) =>
+  typeof yellow === 'number' && typeof grey === 'number' && yellow > 0 && grey > yellow;
+
+const addReagents = (
+  materialCosts: MaterialCostInfo[],
+  multiplier: number,
+  reagents: Map<number, ShoppingListEntry>
+) => {
+  materialCosts.forEach((materialCost) => {
+    if (materialCost.source === 'crafted' && materialCost.crafted) {
+      const { crafted } = materialCost;
+      addReagents(
+        crafted.materialCosts,
+        (multiplier * materialCost.quantity) / (crafted.outputCount || 1),
+        reagents
+      );
+      return;
+    }
+
+    const unitPrice = materialCost.unitPrice ?? 0;
+    const quantity = materialCost.quantity * multiplier;
+    const entry = reagents.get(materialCost.itemId);
+    if (entry) {
+      entry.quantity += quantity;
+    } else {
+      // priced once the summed quantity is rounded up
+      reagents.set(materialCost.itemId, {
+        itemId: materialCost.itemId,
+        quantity,
+        unitPrice,
+        cost: 0,
+        source: materialCost.source
+      });
+    }
+  });
+};
+
+export const SkillUpPlanner = {
+  /**
+   * The skill range of a recipe. Recipes without a trivial range in the game
+   * data get one estimated from the required skill; recipes whose required
+   * skill is unknown cannot be planned with.
+   */
+  getRange(recipe: Recipe): SkillRange | null {
+    const required = recipe.skillLevel;
+    if (!Number.isFinite(required) || required <= 0) {
+      return null;
+    }
+
+    if (isUsableRange(recipe.trivialSkillLow, recipe.trivialSkillHigh)) {
+      return {
+        required,
+        yellow: recipe.trivialSkillLow!,
+        grey: recipe.trivialSkillHigh!,
+        isEstimated: false
+      };
+    }
+
+    return {
+      required,
+      yellow: required + ESTIMATED_YELLOW_OFFSET,
+      grey: required + ESTIMATED_GREY_OFFSET,
+      isEstimated: true
+    };
+  },
+
+  getColor(range: SkillRange, skill: number): SkillUpColor {
+    if (skill >= range.grey) return 'grey';
+    if (skill >= (range.yellow + range.grey) / 2) return 'green';
+    if (skill >= range.yellow) return 'yellow';
+    return 'orange';
+  },
+
+  /**
+   * Chance of a skill point from one craft: certain while orange, then
+   * falling linearly from yellow to none at grey, as the game rolls it.
+   */
+  chance(range: SkillRange, skill: number): number {
+    if (skill < range.required) {
+      return 0;
+    }
+    if (skill < range.yellow) {
+      return 1;
+    }
+    return Math.max((range.grey - skill) / (range.grey - range.yellow), 0);
+  },
+
+  /**
+   * Picks for each skill point the recipe with the lowest expected cost of
+   * that point, the cost of a craft divided by its skill-up chance. Points
+   * are independent, so the cheapest choice per point is the cheapest plan.
+   * Consecutive points on the same recipe become one step.
+   */
+  plan(profits: CraftingProfit[], options: SkillUpPlanOptions): SkillUpPlan {
+    let skippedRecipeCount = 0;
+    const candidates: Candidate[] = [];
+    profits.forEach((profit) => {
+      const range = this.getRange(profit.recipe);
+      if (!range || profit.materialCosts.some((materialCost) => materialCost.unitPrice === null)) {
+        skippedRecipeCount += 1;
+        return;
+      }
+
+      candidates.push({
+        profit,
+        range,
+        resaleValue: profit.resultUnitPrice !== null ? Math.max(profit.netSellPrice, 0) : 0
+      });
+    });
+
+    const steps: SkillUpStep[] = [];
+    let skill = Math.max(options.currentSkill, 0);
+    while (skill < options.targetSkill) {
+      let best: { candidate: Candidate; chance: number; pointCost: number } | null = null;
+      for (const candidate of candidates) {
+        const chance = this.chance(candidate.range, skill);
+        if (chance <= 0) {
+          continue;
+        }
+
+        const craftCost =
+          candidate.profit.totalCost - (options.subtractResale ? candidate.resaleValue : 0);
+        const pointCost = craftCost / chance;
+        if (
+          !best ||
+          pointCost < best.pointCost ||
+          (pointCost === best.pointCost && chance > best.chance)
+        ) {
+          best = { candidate, chance, pointCost };
+        }
+      }
+
+      if (!best) {
+        break;
+      }
+
+      const { candidate } = best;
+      const previous = steps[steps.length - 1];
+      if (previous && previous.recipe.id === candidate.profit.recipe.id && previous.toSkill === skill) {
+        previous.toSkill = skill + 1;
+        previous.expectedCrafts += 1 / best.chance;
+      } else {
+        steps.push({
+          recipe: candidate.profit.recipe,
+          fromSkill: skill,
+          toSkill: skill + 1,
+          color: this.getColor(candidate.range, skill),
+          expectedCrafts: 1 / best.chance,
+          crafts: 0,
+          cost: 0,
+          resaleValue: 0,
+          isRangeEstimated: candidate.range.isEstimated
+        });
+      }
+      skill += 1;
+    }
+
+    const profitsByRecipe = new Map<number, Candidate>();
+    candidates.forEach((candidate) => profitsByRecipe.set(candidate.profit.recipe.id, candidate));
+
+    const reagents = new Map<number, ShoppingListEntry>();
+    steps.forEach((step) => {
+      const candidate = profitsByRecipe.get(step.recipe.id)!;
+      // a small tolerance keeps exact counts summed from fractions from rounding up
+      step.crafts = Math.ceil(step.expectedCrafts - 1e-9);
+      step.cost = step.crafts * candidate.profit.totalCost;
+      step.resaleValue = step.crafts * candidate.resaleValue;
+      addReagents(candidate.profit.materialCosts, step.crafts, reagents);
+    });
+
+    const shoppingList = Array.from(reagents.values())
+      .map((entry) => {
+        const quantity = Math.ceil(entry.quantity - 1e-9);
+        return { ...entry, quantity, cost: quantity * entry.unitPrice };
+      })
+      .sort((a, b) => b.cost - a.cost);
+
+    return {
+      currentSkill: options.currentSkill,
+      targetSkill: options.targetSkill,
+      reachedSkill: skill,
+      steps,
+      shoppingList,
+      totalCrafts: steps.reduce((sum, step) => sum + step.crafts, 0),
+      expectedCost: steps.reduce((sum, step) => sum + step.cost, 0),
+      resaleValue: steps.reduce((sum, step) => sum + step.resaleValue, 0),
+      skippedRecipeCount
+    };
+  }
+};
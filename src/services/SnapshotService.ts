@@ -0,0 +1,103 @@
+const API_BASE_URL = process.env.REACT_APP_API_URL || '/api';
+
+const UPLOADER_STORAGE_KEY = 'tradefury.uploader';
+
+export interface SnapshotMetadata {
+  id: string;
+  createdAt: string;
+  uploader: string;
+  source: string;
+  importedAt: string | null;
+  itemCount: number;
+  realms: string[];
+  rollbackOf: string | null;
+}
+
+export interface SnapshotPriceEntry {
+  realm: string;
+  itemId: number;
+  price: number;
+}
+
+export interface SnapshotPriceChange {
+  realm: string;
+  itemId: number;
+  before: number;
+  after: number;
+  change: number;
+  changePercent: number | null;
+}
+
+export interface SnapshotDiff {
+  from: string;
+  to: string;
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  };
+  added: SnapshotPriceEntry[];
+  removed: SnapshotPriceEntry[];
+  changed: SnapshotPriceChange[];
+}
+
+const requestJson = async <T>(endpoint: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    cache: 'no-cache',
+    ...init
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Unexpected status code ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+};
+
+export const SnapshotService = {
+  async list(): Promise<SnapshotMetadata[]> {
+    const { snapshots } = await requestJson<{ snapshots: SnapshotMetadata[] }>('/snapshots');
+    return Array.isArray(snapshots) ? snapshots : [];
+  },
+
+  async diff(fromId: string, toId: string): Promise<SnapshotDiff> {
+    const params = new URLSearchParams({ from: fromId, to: toId });
+    return requestJson<SnapshotDiff>(`/snapshots/diff?${params.toString()}`);
+  },
+
+  async rollback(id: string): Promise<SnapshotMetadata> {
+    const uploader = this.getUploaderLabel();
+    const { snapshot } = await requestJson<{ snapshot: SnapshotMetadata }>(
+      `/snapshots/${encodeURIComponent(id)}/rollback`,
+      {
+        method: 'POST',
+        headers: uploader ? { 'X-Uploader': encodeURIComponent(uploader) } : {}
+      }
+    );
+    return snapshot;
+  },
+
+  // The uploader label identifies this browser, so it is kept locally rather
+  // than in the shared user preferences.
+  getUploaderLabel(): string | null {
+    try {
+      return window.localStorage.getItem(UPLOADER_STORAGE_KEY) || null;
+    } catch {
+      return null;
+    }
+  },
+
+  setUploaderLabel(label: string): void {
+    try {
+      if (label.trim()) {
+        window.localStorage.setItem(UPLOADER_STORAGE_KEY, label.trim());
+      } else {
+        window.localStorage.removeItem(UPLOADER_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('Failed to store uploader label', error);
+    }
+  }
+};
@@ -0,0 +1,69 @@
+import type { AuctionatorImportResult } from './AuctionatorDataService';
+import { readSavedVariables } from './LuaTableParser';
+import { tsmAuctionDbImporter } from './TsmAuctionDbFormat';
+
+const KEEP_RAW = { rawDays: 3650, dailyUntilDays: 3650 };
+
+const CSV_HEADER = 'itemString,minBuyout,marketValue,numAuctions,quantity,lastScan';
+
+const TSM_FILE = `TradeSkillMasterDB = {
+	["_version"] = 80,
+	["f@Alliance - Frostmourne@internalData@csvAuctionDBScan"] = "${CSV_HEADER}\\ni:2318,100,110,3,40,1760344016\\ni:2318::1:2,90,95,2,10,1760344016\\ni:2319,0,300,1,5,\\np:39:1:3,5000,5000,1,1,1760344016",
+	["f@Alliance - Frostmourne@internalData@auctionDBScanTime"] = 1760340000,
+	["r@Icecrown-Horde@internalData@csvAuctionDBScan"] = "${CSV_HEADER}\\ni:2318,120,,1,,1760000000",
+	["r@Icecrown-Horde@internalData@auctionDBScanTime"] = 1760000000,
+	["r@Empty@internalData@csvAuctionDBScan"] = "${CSV_HEADER}\\ni:2320,0,0,0,0,1760000000",
+	["r@Empty@internalData@auctionDBScanTime"] = 1760000000,
+}
+`;
+
+const variables = readSavedVariables(TSM_FILE, tsmAuctionDbImporter.variables);
+
+describe('tsmAuctionDbImporter', () => {
+  it('detects the AuctionDB scans of TradeSkillMaster', () => {
+    expect(tsmAuctionDbImporter.detect(variables)).toBe(true);
+    const settingsOnly = readSavedVariables('TradeSkillMasterDB = { ["_version"] = 80 }', ['TradeSkillMasterDB']);
+    expect(tsmAuctionDbImporter.detect(settingsOnly)).toBe(false);
+  });
+
+  let result: AuctionatorImportResult;
+  beforeAll(async () => {
+    result = await tsmAuctionDbImporter.parse(variables, 'TradeSkillMaster.lua', KEEP_RAW);
+  });
+
+  it('keeps the cheapest variant of an item and counts the listings of all', () => {
+    expect(result.data.realms.get('Frostmourne_Alliance')?.get(2318)).toEqual([
+      {
+        price: 90,
+        importedAt: '2025-10-13T08:26:56.000Z',
+        source: 'TradeSkillMaster.lua',
+        addon: 'TradeSkillMaster',
+        marketValue: 95,
+        quantity: 50,
+        auctions: 5
+      }
+    ]);
+  });
+
+  it('falls back to the market value and the realm scan time', () => {
+    expect(result.data.realms.get('Frostmourne_Alliance')?.get(2319)?.[0]).toMatchObject({
+      price: 300,
+      marketValue: 300,
+      importedAt: '2025-10-13T07:20:00.000Z'
+    });
+  });
+
+  it('names realms like Auctionator and leaves out scans without prices', () => {
+    const { data, summary } = result;
+    expect(summary.realms).toEqual(['Frostmourne_Alliance', 'Icecrown_Horde']);
+    // a scan without a quantity leaves it out rather than reporting zero
+    expect(data.realms.get('Icecrown_Horde')?.get(2318)?.[0]).not.toHaveProperty('quantity');
+    // the import is dated by the latest realm scan
+    expect(data.importedAt).toBe('2025-10-13T07:20:00.000Z');
+  });
+
+  it('reports battle pets as entries without an item id', () => {
+    expect(result.summary).toMatchObject({ addon: 'TradeSkillMaster', resolved: 2, unresolved: 1 });
+    expect(result.summary.unresolvedSample).toEqual(['p:39:1:3']);
+  });
+});
@@ -0,0 +1,145 @@
+import Papa from 'papaparse';
+import type { PriceHistoryEntry, RealmPriceHistory } from './AuctionatorDataService';
+import { getLuaField, isLuaTable, LuaTableNode, luaNumber, luaString } from './LuaTableParser';
+import { buildItemIdImport, normalizeRealmKey, PriceImporter } from './PriceImporter';
+
+const TSM_VARIABLE = 'TradeSkillMasterDB';
+
+// TSM 4 stores settings under "<scope>@<scope key>@<namespace>@<setting>" keys.
+// The AuctionDB scan of a faction ("f@Alliance - Realm") or realm is a CSV string.
+const SCAN_KEY_PATTERN = /^[fr]@(.+)@internalData@csvAuctionDBScan$/;
+
+// "i:12345" or "i:12345::<bonus ids>"; battle pets ("p:...") have no item id
+const ITEM_STRING_PATTERN = /^i:(\d+)(?::|$)/;
+
+interface ScanRow {
+  itemString?: string;
+  minBuyout?: string;
+  marketValue?: string;
+  numAuctions?: string;
+  quantity?: string;
+  lastScan?: string;
+}
+
+const positiveNumber = (value: string | undefined): number | null => {
+  const number = Number(value);
+  return value !== undefined && Number.isFinite(number) && number > 0 ? number : null;
+};
+
+// an empty column is an unknown count, not zero
+const count = (value: string | undefined): number | null => {
+  const number = Number(value);
+  return value !== undefined && value.trim() !== '' && Number.isInteger(number) && number >= 0 ? number : null;
+};
+
+const parseScan = (
+  csv: string,
+  scanTime: number,
+  source: string,
+  skippedKeys: Set<string>
+): RealmPriceHistory => {
+  const history: RealmPriceHistory = new Map();
+  const { data } = Papa.parse<ScanRow>(csv, { header: true, skipEmptyLines: true });
+
+  data.forEach((row) => {
+    const itemString = row.itemString ?? '';
+    const itemMatch = itemString.match(ITEM_STRING_PATTERN);
+    if (!itemMatch) {
+      if (itemString) {
+        skippedKeys.add(itemString);
+      }
+      return;
+    }
+
+    const minBuyout = positiveNumber(row.minBuyout);
+    const marketValue = positiveNumber(row.marketValue);
+    const price = minBuyout ?? marketValue;
+    if (price === null) {
+      return;
+    }
+    const auctions = count(row.numAuctions);
+    const quantity = count(row.quantity);
+    const lastScan = positiveNumber(row.lastScan) ?? scanTime;
+
+    const entry: PriceHistoryEntry = {
+      price,
+      importedAt: new Date(lastScan * 1000).toISOString(),
+      source,
+      addon: 'TradeSkillMaster',
+      ...(marketValue !== null ? { marketValue } : {}),
+      ...(quantity !== null ? { quantity } : {}),
+      ...(auctions !== null ? { auctions } : {})
+    };
+
+    // variants with bonus ids share an item id: keep the cheapest, count all listings
+    const itemId = Number(itemMatch[1]);
+    const existing = history.get(itemId)?.[0];
+    if (!existing) {
+      history.set(itemId, [entry]);
+      return;
+    }
+    history.set(itemId, [
+      {
+        ...(entry.price < existing.price ? entry : existing),
+        ...(existing.quantity !== undefined && entry.quantity !== undefined
+          ? { quantity: existing.quantity + entry.quantity }
+          : {}),
+        ...(existing.auctions !== undefined && entry.auctions !== undefined
+          ? { auctions: existing.auctions + entry.auctions }
+          : {})
+      }
+    ]);
+  });
+
+  return history;
+};
+
+/**
+ * TradeSkillMaster's AuctionDB keeps the last scan of each realm with the
+ * minimum buyout, market value and number of auctions per item. The scan is
+ * priced at the minimum buyout, falling back to the market value.
+ */
+export const tsmAuctionDbImporter: PriceImporter = {
+  addon: 'TradeSkillMaster',
+  variables: [TSM_VARIABLE],
+
+  detect(variables) {
+    const db = variables.get(TSM_VARIABLE);
+    return isLuaTable(db) && db.entries.some(({ key }) => SCAN_KEY_PATTERN.test(String(key)));
+  },
+
+  parse(variables, sourceLabel, retention) {
+    const db = variables.get(TSM_VARIABLE) as LuaTableNode;
+    const realms = new Map<string, RealmPriceHistory>();
+    const skippedKeys = new Set<string>();
+    let latestScan = 0;
+
+    db.entries.forEach(({ key, value }) => {
+      const scanMatch = String(key).match(SCAN_KEY_PATTERN);
+      const csv = luaString(value);
+      if (!scanMatch || !csv) {
+        return;
+      }
+
+      const scope = String(key).replace(/@csvAuctionDBScan$/, '');
+      const scanTime =
+        luaNumber(getLuaField(db, `${scope}@auctionDBScanTime`)) ?? Math.floor(Date.now() / 1000);
+      latestScan = Math.max(latestScan, scanTime);
+
+      const history = parseScan(csv, scanTime, sourceLabel, skippedKeys);
+      if (history.size > 0) {
+        realms.set(normalizeRealmKey(scanMatch[1]), history);
+      }
+    });
+
+    const importedAt = new Date((latestScan || Math.floor(Date.now() / 1000)) * 1000).toISOString();
+    return buildItemIdImport(
+      realms,
+      importedAt,
+      sourceLabel,
+      'TradeSkillMaster',
+      Array.from(skippedKeys),
+      retention
+    );
+  }
+};
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { AuctionData, Item, Recipe, ServerInfo } from '../types';
+import { isPlainObject } from '../utils/common';
 import { SharedStorageClient } from './SharedStorageClient';
 
 // Base URL for a future backend proxy. For now the project relies on mock data.
@@ -10,6 +11,12 @@ const api = axios.create({
   timeout: 10000
 });
 
+// dates arrive as ISO strings over JSON
+const parseAuctionData = (raw: AuctionData): AuctionData => ({
+  ...raw,
+  lastUpdated: new Date(raw.lastUpdated)
+});
+
 export class AuctionatorAPI {
   static async getItemPrice(
     itemId: number,
@@ -20,7 +27,7 @@ export class AuctionatorAPI {
       const response = await api.get(`/auctionator/item/${itemId}`, {
         params: { server, faction }
       });
-      return response.data;
+      return parseAuctionData(response.data);
     } catch (error) {
       console.error('Failed to fetch single item price from Auctionator API', error);
       return null;
@@ -41,7 +48,7 @@ export class AuctionatorAPI {
 
       const prices = new Map<number, AuctionData>();
       response.data.forEach((data: AuctionData) => {
-        prices.set(data.itemId, data);
+        prices.set(data.itemId, parseAuctionData(data));
       });
 
       return prices;
@@ -100,15 +107,57 @@ const STORAGE_KEYS = {
   AUCTIONATOR_DATA: 'auctionator-data',
   ITEM_NAME_CACHE: 'item-name-cache',
   SERVER_INFO: 'server-info',
-  USER_PREFERENCES: 'user-preferences'
+  USER_PREFERENCES: 'user-preferences',
+  PRICE_ALERTS: 'price-alerts'
 } as const;
 
-const isPlainObject = (value: unknown): value is Record<string, unknown> =>
-  typeof value === 'object' && value !== null && !Array.isArray(value);
+export interface ItemNameCachePayload {
+  nameToId: Record<string, number>;
+  idToName: Record<number, string>;
+}
+
+const normalizeItemNameCache = (data: unknown): ItemNameCachePayload => {
+  if (!isPlainObject(data)) {
+    return { nameToId: {}, idToName: {} };
+  }
+
+  const nameToIdRaw = isPlainObject(data.nameToId) ? data.nameToId : data;
+  const idToNameRaw = isPlainObject(data.idToName) ? data.idToName : {};
+
+  const nameToId: Record<string, number> = {};
+  Object.entries(nameToIdRaw).forEach(([key, value]) => {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      nameToId[key] = value;
+    }
+  });
+
+  const idToName: Record<number, string> = {};
+  Object.entries(idToNameRaw).forEach(([key, value]) => {
+    const numericKey = Number(key);
+    if (!Number.isNaN(numericKey) && typeof value === 'string' && value.length > 0) {
+      idToName[numericKey] = value;
+    }
+  });
+
+  return { nameToId, idToName };
+};
+
+export interface AuctionatorAnomalyReviewRequest {
+  realmKey: string;
+  itemId: number;
+  importedAt: string;
+  price: number;
+  status: 'accepted' | 'rejected';
+}
 
 export class PersistentStorage {
+  // the selection is a single value, so the latest choice simply wins
   static async saveServerInfo(serverInfo: ServerInfo): Promise<void> {
-    await SharedStorageClient.writeJson(STORAGE_KEYS.SERVER_INFO, serverInfo);
+    await SharedStorageClient.writeJsonMerged(
+      STORAGE_KEYS.SERVER_INFO,
+      serverInfo,
+      (_current, local) => local
+    );
   }
 
   static async getServerInfo(): Promise<ServerInfo | null> {
@@ -122,8 +171,10 @@ export class PersistentStorage {
     const name = typeof data.name === 'string' ? data.name : null;
     const region = typeof data.region === 'string' ? data.region : null;
     const faction =
-      data.faction === 'Alliance' || data.faction === 'Horde' ? data.faction : null;
-    if (!name || !region || !faction) {
+      data.faction === 'Alliance' || data.faction === 'Horde' || data.faction === 'Neutral'
+        ? data.faction
+        : null;
+    if (!name || region === null || !faction) {
       return null;
     }
 
@@ -137,12 +188,24 @@ export class PersistentStorage {
       name,
       region,
       faction,
-      lastUpdated
+      lastUpdated,
+      datasetKey: typeof data.datasetKey === 'string' ? data.datasetKey : undefined
     };
   }
 
-  static async saveUserPreferences(preferences: unknown): Promise<void> {
-    await SharedStorageClient.writeJson(STORAGE_KEYS.USER_PREFERENCES, preferences ?? {});
+  /**
+   * On a conflict only `changes` are applied on top of the stored preferences,
+   * so keys edited elsewhere are not reverted to this client's stale values.
+   */
+  static async saveUserPreferences(
+    preferences: Record<string, unknown>,
+    changes: Record<string, unknown> = preferences
+  ): Promise<Record<string, unknown>> {
+    return SharedStorageClient.writeJsonMerged(
+      STORAGE_KEYS.USER_PREFERENCES,
+      preferences,
+      (current) => ({ ...(isPlainObject(current) ? current : {}), ...changes })
+    );
   }
 
   static async getUserPreferences(): Promise<Record<string, unknown>> {
@@ -153,49 +216,65 @@ export class PersistentStorage {
     return {};
   }
 
-  static async saveAuctionatorData(payload: unknown): Promise<void> {
-    await SharedStorageClient.writeJson(STORAGE_KEYS.AUCTIONATOR_DATA, payload ?? null);
+  // the uploader label is recorded on the server-side snapshot of this write
+  static async saveAuctionatorData<T>(
+    payload: T,
+    mergeWithCurrent: (current: unknown, local: T) => T,
+    uploader?: string | null
+  ): Promise<T> {
+    return SharedStorageClient.writeJsonMerged(
+      STORAGE_KEYS.AUCTIONATOR_DATA,
+      payload,
+      mergeWithCurrent,
+      uploader ? { 'X-Uploader': encodeURIComponent(uploader) } : {}
+    );
+  }
+
+  // reviews are applied on the server in one write, without a snapshot
+  static async reviewAuctionatorAnomalies(
+    reviews: AuctionatorAnomalyReviewRequest[]
+  ): Promise<{ reviewed: number }> {
+    return SharedStorageClient.postChange(
+      STORAGE_KEYS.AUCTIONATOR_DATA,
+      '/auctionator/anomalies/review',
+      { reviews }
+    );
   }
 
   static async getAuctionatorData(): Promise<unknown> {
     return SharedStorageClient.readJson(STORAGE_KEYS.AUCTIONATOR_DATA);
   }
 
-  static async saveItemNameCache(payload: {
-    nameToId: Record<string, number>;
-    idToName: Record<number, string>;
-  }): Promise<void> {
-    await SharedStorageClient.writeJson(STORAGE_KEYS.ITEM_NAME_CACHE, payload);
+  // the caller's merge re-applies its change to rules and alerts saved elsewhere
+  static async savePriceAlerts<T>(
+    payload: T,
+    mergeWithCurrent: (current: unknown, local: T) => T
+  ): Promise<T> {
+    return SharedStorageClient.writeJsonMerged(STORAGE_KEYS.PRICE_ALERTS, payload, mergeWithCurrent);
   }
 
-  static async getItemNameCache(): Promise<{
-    nameToId: Record<string, number>;
-    idToName: Record<number, string>;
-  }> {
-    const data = await SharedStorageClient.readJson(STORAGE_KEYS.ITEM_NAME_CACHE);
-    if (!isPlainObject(data)) {
-      return { nameToId: {}, idToName: {} };
-    }
-
-    const nameToIdRaw = isPlainObject(data.nameToId) ? data.nameToId : data;
-    const idToNameRaw = isPlainObject(data.idToName) ? data.idToName : {};
-
-    const nameToId: Record<string, number> = {};
-    Object.entries(nameToIdRaw).forEach(([key, value]) => {
-      if (typeof value === 'number' && Number.isFinite(value)) {
-        nameToId[key] = value;
-      }
-    });
+  static async getPriceAlerts(): Promise<unknown> {
+    return SharedStorageClient.readJson(STORAGE_KEYS.PRICE_ALERTS);
+  }
 
-    const idToName: Record<number, string> = {};
-    Object.entries(idToNameRaw).forEach(([key, value]) => {
-      const numericKey = Number(key);
-      if (!Number.isNaN(numericKey) && typeof value === 'string' && value.length > 0) {
-        idToName[numericKey] = value;
+  // mappings from both sides are kept; this client's wins where they disagree
+  static async saveItemNameCache(payload: ItemNameCachePayload): Promise<ItemNameCachePayload> {
+    return SharedStorageClient.writeJsonMerged(
+      STORAGE_KEYS.ITEM_NAME_CACHE,
+      payload,
+      (current, local) => {
+        const stored = normalizeItemNameCache(current);
+        return {
+          nameToId: { ...stored.nameToId, ...local.nameToId },
+          idToName: { ...stored.idToName, ...local.idToName }
+        };
       }
-    });
+    );
+  }
 
-    return { nameToId, idToName };
+  static async getItemNameCache(): Promise<ItemNameCachePayload> {
+    const data = await SharedStorageClient.readJson(STORAGE_KEYS.ITEM_NAME_CACHE);
+    return normalizeItemNameCache(data);
   }
 
   static async clearItemNameCache(): Promise<void> {
@@ -23,7 +23,153 @@ export interface RecipeMaterial {
   quantity: number;
 }
 
-export type PriceSource = 'auctionator' | 'unavailable' | 'vendor';
+export type PriceSource =
+  | 'auctionator'
+  | 'unavailable'
+  | 'vendor'
+  | 'vendorSell'
+  | 'custom'
+  | 'crafted';
+
+export type PriceStatistic = 'latest' | 'median' | 'trimmedMean' | 'ema' | 'windowMin';
+
+// What happens to an auction price whose newest scan is older than the freshness window.
+export type StalePriceHandling = 'downweight' | 'missing';
+
+export interface PriceStatisticSettings {
+  statistic: PriceStatistic;
+  windowDays: number;
+  // count flagged outlier scans that have not been reviewed yet
+  includeSuspicious: boolean;
+  freshnessDays: number;
+  staleHandling: StalePriceHandling;
+}
+
+export interface PriceEstimate {
+  price: number;
+  statistic: PriceStatistic;
+  sampleSize: number;
+  // newest scan behind the price
+  updatedAt: string;
+  // spread of the prices in the window, percent of their mean
+  volatility: number | null;
+  // set when the estimates are built: the newest scan is outside the freshness window
+  isStale?: boolean;
+}
+
+export interface LiquidityScore {
+  // 0 (rarely listed) to 100 (always listed in depth)
+  score: number;
+  // units (or auctions) listed at the newest scan, when the addon records them
+  listings: number | null;
+  daysSeen: number;
+  daysScanned: number;
+}
+
+export interface ConfidenceScore {
+  // 0 (guesswork) to 100 (fresh, well-sampled, steady prices)
+  score: number;
+  // the auction share of the value, then what lowered the score most
+  reasons: string[];
+}
+
+export interface TrendPoint {
+  time: number;
+  value: number;
+}
+
+export interface PriceTrend {
+  // percentage change of the newest price against a day and a week earlier
+  change24h: number | null;
+  change7d: number | null;
+  // coefficient of variation of the recent prices, in percent
+  volatility: number | null;
+  points: TrendPoint[];
+}
+
+export interface MarginTrend {
+  // copper gained or lost by the margin over the trend window
+  change: number;
+  // standard deviation of the margin relative to the average sale value, in percent
+  volatility: number;
+  points: TrendPoint[];
+}
+
+export type AlertComparison = 'below' | 'above';
+
+interface PriceAlertRuleBase {
+  id: string;
+  createdAt: string;
+  // realm-qualified subjects that matched at the last check; a subject only
+  // fires again after its condition stopped holding
+  matched: string[];
+}
+
+export interface ItemPriceAlertRule extends PriceAlertRuleBase {
+  type: 'itemPrice';
+  itemId: number;
+  itemName: string;
+  comparison: AlertComparison;
+  // copper
+  price: number;
+}
+
+export interface RecipeMarginAlertRule extends PriceAlertRuleBase {
+  type: 'recipeMargin';
+  professionId: number;
+  recipeId: number;
+  recipeName: string;
+  comparison: AlertComparison;
+  // profit as a percentage of the material cost
+  percent: number;
+}
+
+export interface WatchedRecipe {
+  professionId: number;
+  recipeId: number;
+  recipeName: string;
+}
+
+export interface WatchlistAlertRule extends PriceAlertRuleBase {
+  type: 'watchlistUnprofitable';
+  recipes: WatchedRecipe[];
+}
+
+export type PriceAlertRule = ItemPriceAlertRule | RecipeMarginAlertRule | WatchlistAlertRule;
+
+export interface PriceAlertNotification {
+  id: string;
+  ruleId: string;
+  realmKey: string;
+  firedAt: string;
+  message: string;
+}
+
+export interface PriceAlertState {
+  rules: PriceAlertRule[];
+  // fired alerts, newest first, kept until dismissed
+  notifications: PriceAlertNotification[];
+}
+
+export type ReagentPriceRule = 'cheapest' | 'auctionOnly' | 'vendorOnly';
+
+export type ResultValueRule = 'auction' | 'vendorSell' | 'custom';
+
+export interface ItemPriceOverride {
+  reagentRule?: ReagentPriceRule;
+  resultRule?: ResultValueRule;
+  priceStatistic?: PriceStatistic;
+  // copper value used by the custom result rule
+  customPrice?: number;
+}
+
+export interface PricingPolicy {
+  reagentRule: ReagentPriceRule;
+  resultRule: ResultValueRule;
+  itemOverrides: Record<number, ItemPriceOverride>;
+}
+
+export type CostingMode = 'direct' | 'craftOrBuy';
 
 export interface MaterialCostInfo {
   index: number;
@@ -32,7 +178,24 @@ export interface MaterialCostInfo {
   unitPrice: number | null;
   vendorPrice?: number | null;
   auctionPrice?: number | null;
+  // cheapest price to buy the reagent when it was crafted instead
+  buyPrice?: number | null;
+  crafted?: CraftedCostBreakdown;
   source: PriceSource;
+  // how the auction price was derived from the item's price history
+  priceStatistic?: PriceStatistic;
+  sampleSize?: number;
+  priceUpdatedAt?: string;
+  isPriceStale?: boolean;
+}
+
+export interface CraftedCostBreakdown {
+  recipeId: number;
+  recipeName: string;
+  outputCount: number;
+  materials: RecipeMaterial[];
+  materialCosts: MaterialCostInfo[];
+  unitCost: number;
 }
 
 export interface Profession {
@@ -61,11 +224,38 @@ export interface Recipe {
 export interface AuctionData {
   itemId: number;
   server: string;
-  faction: 'Alliance' | 'Horde';
+  faction: ServerInfo['faction'];
   minBuyout: number;
   medianPrice: number;
   lastUpdated: Date;
-  quantity: number;
+  // units listed at the latest scan; null when the scan did not record them
+  quantity: number | null;
+}
+
+export type AuctionHouseType = 'faction' | 'neutral';
+
+export type ListingDuration = 12 | 24 | 48;
+
+export interface AuctionFeeSettings {
+  auctionHouse: AuctionHouseType;
+  listingDuration: ListingDuration;
+  expectedRelists: number;
+}
+
+export interface AuctionFeeBreakdown {
+  auctionCut: number;
+  depositPerListing: number;
+  depositLoss: number;
+  total: number;
+  // false when the item's vendor sell price is unknown, so the deposit counts as 0
+  isDepositKnown: boolean;
+}
+
+export interface CalculationSettings {
+  auctionFees: AuctionFeeSettings;
+  costingMode: CostingMode;
+  pricingPolicy: PricingPolicy;
+  priceStatistics: PriceStatisticSettings;
 }
 
 export interface CraftingProfit {
@@ -74,19 +264,40 @@ export interface CraftingProfit {
   sellPrice: number;
   resultUnitPrice: number | null;
   sellPriceSource: PriceSource;
+  resultPriceEstimate: PriceEstimate | null;
+  fees: AuctionFeeBreakdown;
+  netSellPrice: number;
+  grossProfit: number;
+  // profit, profitPercentage and roi are net of auction house fees
   profit: number;
   profitPercentage: number;
   roi: number;
   materialCosts: MaterialCostInfo[];
   hasMissingPrices: boolean;
   isCalculable: boolean;
+  confidence: ConfidenceScore;
+  // a price it rests on is past the freshness window; such recipes rank after fresh ones
+  hasStalePrices: boolean;
 }
 
+export type ProfitSortOption =
+  | 'profit'
+  | 'profitPercent'
+  | 'name'
+  | 'cost'
+  | 'liquidity'
+  | 'liquidityProfit'
+  | 'marginIncrease'
+  | 'marginStability'
+  | 'confidence';
+
 export interface ServerInfo {
   name: string;
   region: string;
-  faction: 'Alliance' | 'Horde';
+  faction: 'Alliance' | 'Horde' | 'Neutral';
   lastUpdated: Date;
+  // Auctionator realm key of the price dataset, e.g. "Frostmourne_Alliance"
+  datasetKey?: string;
 }
 
 export const PROFESSIONS: Profession[] = [
@@ -0,0 +1,28 @@
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Milliseconds since the epoch, or null for a date that does not parse.
+export const toTimestamp = (value: string): number | null => {
+  const time = new Date(value).getTime();
+  return Number.isFinite(time) ? time : null;
+};
+
+/**
+ * Time of a history entry for sorting and windowing. An entry whose date
+ * does not parse counts as the epoch: it sorts first and falls outside any
+ * recent window. Use toTimestamp where such entries must be left out.
+ */
+export const entryTimestamp = (entry: { importedAt: string }): number =>
+  toTimestamp(entry.importedAt) ?? 0;
+
+// Median of the values, which need not be sorted; NaN when there are none.
+export const median = (values: number[]): number => {
+  if (values.length === 0) {
+    return NaN;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);